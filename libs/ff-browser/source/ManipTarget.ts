@@ -13,7 +13,7 @@ const _DRAG_DISTANCE = 4;
 
 export type PointerEventType = "pointer-down" | "pointer-up" | "pointer-hover" | "pointer-move";
 export type TriggerEventType = "wheel" | "double-click" | "context-menu";
-export type KeyboardEventType = "keydown";
+export type KeyboardEventType = "keydown" | "keyup";
 export type PointerEventSource = "mouse" | "pen" | "touch";
 
 export interface IPointerPosition
@@ -100,6 +100,7 @@ export default class ManipTarget
         this.onContextMenu = this.onContextMenu.bind(this);
         this.onWheel = this.onWheel.bind(this);
         this.onKeyDown = this.onKeyDown.bind(this);
+        this.onKeyUp = this.onKeyUp.bind(this);
 
         if (target) {
             target.addEventListener("pointerdown", this.onPointerDown);
@@ -109,6 +110,7 @@ export default class ManipTarget
             target.addEventListener("contextmenu", this.onContextMenu);
             target.addEventListener("wheel", this.onWheel);
             target.addEventListener("keydown", this.onKeyDown);
+            target.addEventListener("keyup", this.onKeyUp);
         }
     }
 
@@ -238,7 +240,7 @@ export default class ManipTarget
     onKeyDown(event: KeyboardEvent)
     {
         const consumed = this.sendKeyboardEvent(
-            this.createManipKeyboardEvent(event)
+            this.createManipKeyboardEvent(event, "keydown")
         );
 
         if (consumed) {
@@ -246,6 +248,13 @@ export default class ManipTarget
         }
     }
 
+    onKeyUp(event: KeyboardEvent)
+    {
+        this.sendKeyboardEvent(
+            this.createManipKeyboardEvent(event, "keyup")
+        );
+    }
+
     protected createManipPointerEvent(event: PointerEvent, type: PointerEventType): IPointerEvent
     {
         // calculate center and movement
@@ -348,12 +357,12 @@ export default class ManipTarget
         }
     }
 
-    protected createManipKeyboardEvent(event: KeyboardEvent): IKeyboardEvent
+    protected createManipKeyboardEvent(event: KeyboardEvent, type: KeyboardEventType): IKeyboardEvent
     {
         return {
             originalEvent: event,
 
-            type: "keydown",
+            type,
             key: event.code,
 
             centerX: 0,
@@ -71,8 +71,10 @@ export default class Commander extends Publisher
 
     do(command: ICommand)
     {
-        console.log(`Commander.do - '${command.name}'`);
-        
+        if (ENV_DEVELOPMENT) {
+            console.log(`Commander.do - '${command.name}'`);
+        }
+
         command.do();
 
         if (command.canUndo()) {
@@ -149,4 +151,20 @@ export default class Commander extends Publisher
 
         return "Can't Redo";
     }
+
+    /**
+     * Returns the names of all commands in the history, oldest first.
+     */
+    getNames(): string[]
+    {
+        return this.stack.map(command => command.name);
+    }
+
+    /**
+     * Returns the index of the most recently executed command, or -1 if there is none.
+     */
+    getPointer(): number
+    {
+        return this.pointer;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * FF Typescript Foundation Library
+ * Copyright 2019 Ralph Wiedemeier, Frame Factory GmbH
+ *
+ * License: MIT
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+export interface ISortedArrayItem<T>
+{
+    key: number;
+    value: T;
+}
+
+/**
+ * Array of key/value pairs, sorted by numerical key. Items with equal keys are kept
+ * in insertion order. Lookups use binary search.
+ */
+export default class SortedArray<T = any>
+{
+    readonly items: ISortedArrayItem<T>[] = [];
+
+    get length() {
+        return this.items.length;
+    }
+
+    /**
+     * Inserts a value at the given key. If items with an equal key exist,
+     * the value is inserted after them.
+     * @returns The index of the inserted item.
+     */
+    insertAt(key: number, value: T): number
+    {
+        const index = this.indexAtBefore(key) + 1;
+        this.items.splice(index, 0, { key, value });
+        return index;
+    }
+
+    /**
+     * Removes the first item with the given key.
+     * @returns True if an item has been removed.
+     */
+    removeAt(key: number): boolean
+    {
+        const index = this.indexOf(key);
+        if (index < 0) {
+            return false;
+        }
+
+        this.items.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Removes all items with keys in the range [start, end).
+     * @returns The removed items.
+     */
+    removeBetween(start: number, end: number): ISortedArrayItem<T>[]
+    {
+        const first = this.indexAtBefore(start, true) + 1;
+        const last = this.indexAtBefore(end, true) + 1;
+        return last > first ? this.items.splice(first, last - first) : [];
+    }
+
+    /**
+     * Removes all items.
+     */
+    clear()
+    {
+        this.items.length = 0;
+    }
+
+    /**
+     * Returns the first item with the given key, or null if no such item exists.
+     */
+    findAt(key: number): ISortedArrayItem<T> | null
+    {
+        const index = this.indexOf(key);
+        return index < 0 ? null : this.items[index];
+    }
+
+    /**
+     * Returns the index of the first item with the given key, or -1 if no such item exists.
+     */
+    indexOf(key: number): number
+    {
+        const index = this.indexAtBefore(key, true) + 1;
+        return index < this.items.length && this.items[index].key === key ? index : -1;
+    }
+
+    /**
+     * Returns the index of the last item whose key is less than or equal to the given key,
+     * or -1 if all keys are greater.
+     * @param key The key to search for.
+     * @param exclusive If true, returns the index of the last item whose key is less than the given key.
+     */
+    indexAtBefore(key: number, exclusive: boolean = false): number
+    {
+        const items = this.items;
+        let lower = 0;
+        let upper = items.length;
+
+        // find the first item after the key
+        while (lower < upper) {
+            const center = (lower + upper) >> 1;
+            const itemKey = items[center].key;
+            if (itemKey < key || (!exclusive && itemKey === key)) {
+                lower = center + 1;
+            }
+            else {
+                upper = center;
+            }
+        }
+
+        return lower - 1;
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * FF Typescript Foundation Library
+ * Copyright 2019 Ralph Wiedemeier, Frame Factory GmbH
+ *
+ * License: MIT
+ */
+
+import SortedArray from "./SortedArray";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Interpolation between a key and the next key.
+ */
+export enum InterpolationType {
+    /** The value of the key is held until the next key. */
+    Step,
+    /** Linear interpolation. */
+    Linear,
+    /** Smooth interpolation, with zero slope at both keys. */
+    Ease,
+    /** Cubic Hermite interpolation, with slopes given by the tangents of the keys. */
+    Spline,
+}
+
+export interface ISplineKey
+{
+    time: number;
+    value: number;
+    type: InterpolationType;
+
+    /** Time offset of the left (incoming) tangent, relative to the key time. */
+    leftTime?: number;
+    /** Value offset of the left (incoming) tangent, relative to the key value. */
+    leftValue?: number;
+    /** Time offset of the right (outgoing) tangent, relative to the key time. */
+    rightTime?: number;
+    /** Value offset of the right (outgoing) tangent, relative to the key value. */
+    rightValue?: number;
+}
+
+/**
+ * Track of numerical keys. The value between two keys is interpolated according to
+ * the interpolation type of the first key. Before the first and after the last key,
+ * the track holds the value of the first and last key, respectively.
+ */
+export default class SplineTrack
+{
+    readonly keys = new SortedArray<ISplineKey>();
+
+    get length() {
+        return this.keys.length;
+    }
+
+    empty()
+    {
+        return this.keys.length === 0;
+    }
+
+    /**
+     * Inserts a key at the given time. Spline keys get flat tangents.
+     */
+    insert(time: number, value: number, type: InterpolationType = InterpolationType.Ease): ISplineKey
+    {
+        return this.insertKey({ time, value, type });
+    }
+
+    insertKey(key: ISplineKey): ISplineKey
+    {
+        this.keys.insertAt(key.time, key);
+        return key;
+    }
+
+    /**
+     * Removes the key at the given time.
+     * @returns True if a key has been removed.
+     */
+    removeAt(time: number): boolean
+    {
+        return this.keys.removeAt(time);
+    }
+
+    clear()
+    {
+        this.keys.clear();
+    }
+
+    /**
+     * Returns the key at the given time, or null if no such key exists.
+     */
+    keyAt(time: number): ISplineKey | null
+    {
+        const item = this.keys.findAt(time);
+        return item ? item.value : null;
+    }
+
+    /**
+     * Returns the interpolated value of the track at the given time.
+     * Returns undefined if the track is empty.
+     */
+    valueAt(time: number): number
+    {
+        const items = this.keys.items;
+        if (items.length === 0) {
+            return undefined;
+        }
+
+        const index = this.keys.indexAtBefore(time);
+        if (index < 0) {
+            return items[0].value.value;
+        }
+        if (index >= items.length - 1) {
+            return items[items.length - 1].value.value;
+        }
+
+        const key0 = items[index].value;
+        const key1 = items[index + 1].value;
+        const duration = key1.time - key0.time;
+        const t = (time - key0.time) / duration;
+        const v0 = key0.value, v1 = key1.value;
+
+        switch(key0.type) {
+            case InterpolationType.Step:
+                return v0;
+
+            case InterpolationType.Linear:
+                return v0 + (v1 - v0) * t;
+
+            case InterpolationType.Ease:
+                return v0 + (v1 - v0) * t * t * (3 - 2 * t);
+
+            case InterpolationType.Spline: {
+                const t2 = t * t, t3 = t2 * t;
+                const m0 = SplineTrack.slope(key0.rightTime, key0.rightValue) * duration;
+                const m1 = SplineTrack.slope(key1.leftTime, key1.leftValue) * duration;
+                return (2 * t3 - 3 * t2 + 1) * v0 + (t3 - 2 * t2 + t) * m0
+                    + (-2 * t3 + 3 * t2) * v1 + (t3 - t2) * m1;
+            }
+        }
+    }
+
+    protected static slope(time: number, value: number)
+    {
+        return time && value ? value / time : 0;
+    }
+}
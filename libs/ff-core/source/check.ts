@@ -0,0 +1,431 @@
+/**
+ * FF Typescript Foundation Library
+ * Copyright 2019 Ralph Wiedemeier, Frame Factory GmbH
+ *
+ * License: MIT
+ */
+
+import clone from "./clone";
+
+////////////////////////////////////////////////////////////////////////////////
+
+type CheckStep = (value: any) => any;
+
+interface ICheckState
+{
+    steps: CheckStep[];
+    /** If true, type and range members convert values instead of validating them. */
+    convert: boolean;
+    /** Undefined values are skipped if optional and rejected if required. */
+    optional: boolean | undefined;
+    hasPreset: boolean;
+    preset: any;
+    /** Key of the source property if used in an object template. */
+    key: string;
+}
+
+export type LikeTemplate = Check | LikeTemplate[] | { [key: string]: LikeTemplate };
+
+const _regexEmail = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+const _regexUrl = /^(https?:\/\/)?((\d{1,3}\.){3}\d{1,3}|([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,})(:\d+)?([\/?#]\S*)?$/i;
+const _regexUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Chainable runtime value check. Each member returns a new check with an additional step,
+ * steps are applied in order by calling [[Check.check]]. A check is usually started from
+ * one of the exported roots: [[is]] validates values, [[to]] converts values. The mode can
+ * be switched at any point in the chain.
+ *
+ * ```
+ * is.number.between(0, 1).check(value);    // throws if value is not a number in [0, 1]
+ * to.number.between(0, 1).check("2.5");    // returns 1
+ * is.like({ id: is.string, size: is.optional.number }).check(data);
+ * ```
+ */
+export class Check
+{
+    protected state: ICheckState;
+
+    constructor(state?: Partial<ICheckState>)
+    {
+        this.state = Object.assign({
+            steps: [],
+            convert: false,
+            optional: undefined,
+            hasPreset: false,
+            preset: undefined,
+            key: "",
+        }, state);
+    }
+
+    /** Switches to validation mode. */
+    get is(): Check {
+        return this.with({ convert: false });
+    }
+    /** Switches to conversion mode. */
+    get to(): Check {
+        return this.with({ convert: true });
+    }
+
+    /** Undefined values are accepted and returned without applying the check. */
+    get optional(): Check {
+        return this.with({ optional: true });
+    }
+    /** Undefined values are rejected, unless a preset is given. */
+    get required(): Check {
+        return this.with({ optional: false });
+    }
+
+    /** Validates or converts to a number, NaN is rejected. */
+    get number(): Check {
+        return this.state.convert ? this.step(toNumber) : this.validate(value => typeof value === "number" && !isNaN(value), "a number");
+    }
+    /** Validates or converts to a boolean. Numbers and the strings "true" and "false" are converted. */
+    get boolean(): Check {
+        return this.state.convert ? this.step(toBoolean) : this.validate(value => typeof value === "boolean", "a boolean");
+    }
+    /** Validates or converts to a string. Numbers and booleans are converted. */
+    get string(): Check {
+        return this.state.convert ? this.step(toString) : this.validate(value => typeof value === "string", "a string");
+    }
+    get object(): Check {
+        return this.validate(value => value !== null && typeof value === "object" && !Array.isArray(value), "an object", "object");
+    }
+    get func(): Check {
+        return this.validate(value => typeof value === "function", "a function", "func");
+    }
+    get array(): Check {
+        return this.validate(value => Array.isArray(value), "an array", "array");
+    }
+    get email(): Check {
+        return this.validate(value => typeof value === "string" && _regexEmail.test(value), "an email address", "email");
+    }
+    get url(): Check {
+        return this.validate(value => typeof value === "string" && _regexUrl.test(value), "a URL", "url");
+    }
+    /** Validates a JSON string, or converts a value to a JSON string. Only objects, arrays and null are converted. */
+    get json(): Check {
+        return this.state.convert ? this.step(toJson) : this.validate(isJson, "a JSON string");
+    }
+    /** Validates a UUID, or generates a new UUID if the value is undefined, null or empty. */
+    get uuid(): Check {
+        return this.state.convert ? this.step(toUuid) : this.validate(value => typeof value === "string" && _regexUuid.test(value), "a UUID");
+    }
+    /** Parses a JSON string. */
+    get parse(): Check {
+        return this.step(value => {
+            try {
+                return JSON.parse(value);
+            }
+            catch(error) {
+                return fail(value, "a JSON string");
+            }
+        });
+    }
+
+    instanceOf(type: Function): Check
+    {
+        return this.validate(value => value instanceof type, `an instance of ${type.name}`, "instanceOf");
+    }
+
+    /** Validates a number greater than or equal to the given minimum, or clamps a number. */
+    min(min: number): Check
+    {
+        return this.range(min, Infinity, `a number >= ${min}`);
+    }
+    /** Validates a number less than or equal to the given maximum, or clamps a number. */
+    max(max: number): Check
+    {
+        return this.range(-Infinity, max, `a number <= ${max}`);
+    }
+    /** Validates a number in the given range, or clamps a number. */
+    between(min: number, max: number): Check
+    {
+        return this.range(min, max, `a number in [${min}, ${max}]`);
+    }
+
+    minLength(min: number): Check
+    {
+        return this.validate(value => hasLength(value) && value.length >= min, `a length >= ${min}`);
+    }
+    maxLength(max: number): Check
+    {
+        return this.validate(value => hasLength(value) && value.length <= max, `a length <= ${max}`);
+    }
+    lengthBetween(min: number, max: number): Check
+    {
+        return this.validate(value => hasLength(value) && value.length >= min && value.length <= max, `a length in [${min}, ${max}]`);
+    }
+    length(length: number): Check
+    {
+        return this.validate(value => hasLength(value) && value.length === length, `a length of ${length}`);
+    }
+
+    /** Validates a value equal to one of the given options, given as an array or as arguments. */
+    oneOf(...options: any[]): Check
+    {
+        if (options.length === 1 && Array.isArray(options[0])) {
+            options = options[0];
+        }
+
+        return this.validate(value => options.indexOf(value) >= 0, `one of ${options.map(describe).join(", ")}`);
+    }
+
+    /** Validates a string matching the given regular expression. */
+    match(regexp: RegExp): Check
+    {
+        return this.validate(value => typeof value === "string" && value.search(regexp) >= 0, `a string matching ${regexp}`);
+    }
+
+    /** Transforms the value with the given function. */
+    map(func: (value: any) => any): Check
+    {
+        return this.step(func);
+    }
+
+    /**
+     * Validates an object or array against the given template and returns a new object or array
+     * with the checked values. Object templates contain a check for each property, properties not
+     * in the template are dropped. Array templates contain a single check applied to all elements.
+     * Nested plain objects and arrays in templates are checked with nested templates.
+     */
+    like(template: LikeTemplate[] | { [key: string]: LikeTemplate }): Check
+    {
+        if (Array.isArray(template)) {
+            const element = toCheck(template[0]);
+
+            return this.step(value => {
+                if (!Array.isArray(value)) {
+                    return fail(value, "an array");
+                }
+                return value.map((item, index) => element ? element.checkKey(item, String(index)) : item);
+            });
+        }
+
+        const keys = Object.keys(template);
+        const checks = keys.map(key => toCheck(template[key]));
+
+        return this.step(value => {
+            if (value === null || typeof value !== "object" || Array.isArray(value)) {
+                return fail(value, "an object");
+            }
+
+            const result = {};
+            checks.forEach((check, index) => {
+                const key = keys[index];
+                const sourceKey = check.state.key || key;
+                const checked = check.checkKey(value[sourceKey], sourceKey);
+                if (checked !== undefined) {
+                    result[key] = checked;
+                }
+            });
+
+            return result;
+        });
+    }
+
+    /**
+     * Sets a preset value, returned if the check fails or if a required value is undefined.
+     */
+    preset(value: any): Check
+    {
+        return this.with({ hasPreset: true, preset: value });
+    }
+
+    /**
+     * If used in an object template, reads the value from the given source property
+     * instead of the template property.
+     */
+    from(key: string): Check
+    {
+        return this.with({ key });
+    }
+
+    /**
+     * Applies the check to the given value.
+     * @returns The checked and possibly converted value.
+     * @throws An error if the check fails and no preset is given.
+     */
+    check(value: any): any
+    {
+        const { steps, optional, hasPreset, preset } = this.state;
+
+        if (value === undefined && optional !== undefined) {
+            if (optional) {
+                return undefined;
+            }
+            if (hasPreset) {
+                return clone(preset);
+            }
+            return fail(value, "a value");
+        }
+
+        try {
+            return steps.reduce((result, step) => step(result), value);
+        }
+        catch(error) {
+            if (hasPreset) {
+                return clone(preset);
+            }
+            throw error;
+        }
+    }
+
+    protected checkKey(value: any, key: string): any
+    {
+        try {
+            return this.check(value);
+        }
+        catch(error) {
+            throw new Error(`${key}: ${error.message}`);
+        }
+    }
+
+    protected range(min: number, max: number, expected: string): Check
+    {
+        if (this.state.convert) {
+            return this.step(value => typeof value === "number" && !isNaN(value)
+                ? Math.min(max, Math.max(min, value)) : fail(value, "a number"));
+        }
+
+        return this.validate(value => typeof value === "number" && value >= min && value <= max, expected);
+    }
+
+    protected validate(test: (value: any) => boolean, expected: string, name?: string): Check
+    {
+        if (name && this.state.convert) {
+            throw new Error(`check: conversion to '${name}' is not supported`);
+        }
+
+        return this.step(value => test(value) ? value : fail(value, expected));
+    }
+
+    protected step(step: CheckStep): Check
+    {
+        return this.with({ steps: this.state.steps.concat(step) });
+    }
+
+    protected with(state: Partial<ICheckState>): Check
+    {
+        return new Check(Object.assign({}, this.state, state));
+    }
+}
+
+/** Root of validating checks. */
+export const is = new Check();
+
+/** Root of converting checks. */
+export const to = new Check({ convert: true });
+
+////////////////////////////////////////////////////////////////////////////////
+
+function fail(value: any, expected: string): never
+{
+    throw new Error(`check failed: expected ${expected}, got ${describe(value)}`);
+}
+
+function describe(value: any): string
+{
+    if (typeof value === "string") {
+        return `"${value}"`;
+    }
+    if (typeof value === "function") {
+        return "function";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+
+    return value !== null && typeof value === "object" ? "object" : String(value);
+}
+
+function hasLength(value: any): boolean
+{
+    return typeof value === "string" || Array.isArray(value) || ArrayBuffer.isView(value);
+}
+
+function isJson(value: any): boolean
+{
+    if (typeof value !== "string") {
+        return false;
+    }
+
+    try {
+        JSON.parse(value);
+        return true;
+    }
+    catch(error) {
+        return false;
+    }
+}
+
+function toCheck(template: LikeTemplate): Check
+{
+    if (template === undefined || template instanceof Check) {
+        return template as Check;
+    }
+
+    return is.like(template as any);
+}
+
+function toNumber(value: any): number
+{
+    if (typeof value === "number" && !isNaN(value)) {
+        return value;
+    }
+    if (typeof value === "boolean") {
+        return value ? 1 : 0;
+    }
+    if (typeof value === "string" && value.trim() !== "") {
+        const result = Number(value);
+        if (!isNaN(result)) {
+            return result;
+        }
+    }
+
+    return fail(value, "a value convertible to a number");
+}
+
+function toBoolean(value: any): boolean
+{
+    if (typeof value === "boolean") {
+        return value;
+    }
+    if (typeof value === "number" && !isNaN(value)) {
+        return value !== 0;
+    }
+    if (value === "true" || value === "false") {
+        return value === "true";
+    }
+
+    return fail(value, "a value convertible to a boolean");
+}
+
+function toString(value: any): string
+{
+    if (typeof value === "string") {
+        return value;
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+    }
+
+    return fail(value, "a value convertible to a string");
+}
+
+function toJson(value: any): string
+{
+    return value !== undefined && typeof value === "object" ? JSON.stringify(value) : fail(value, "an object");
+}
+
+function toUuid(value: any): string
+{
+    if (value !== undefined && value !== null && value !== "") {
+        return value;
+    }
+
+    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, char => {
+        const random = Math.random() * 16 | 0;
+        return (char === "x" ? random : (random & 0x3 | 0x8)).toString(16);
+    });
+}
@@ -0,0 +1,41 @@
+/**
+ * FF Typescript Foundation Library
+ * Copyright 2019 Ralph Wiedemeier, Frame Factory GmbH
+ *
+ * License: MIT
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns a deep copy of the given value. Arrays, plain objects, dates and typed arrays
+ * are copied. Functions and instances of other classes are copied by reference.
+ * @param value The value to be copied.
+ */
+export default function clone<T = any>(value: T): T
+{
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(element => clone(element)) as any;
+    }
+
+    if (value instanceof Date) {
+        return new Date(value.valueOf()) as any;
+    }
+
+    if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+        return (value as any).slice();
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return value;
+    }
+
+    const result: any = {};
+    Object.keys(value).forEach(key => result[key] = clone(value[key]));
+    return result;
+}
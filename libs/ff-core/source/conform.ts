@@ -0,0 +1,65 @@
+/**
+ * FF Typescript Foundation Library
+ * Copyright 2019 Ralph Wiedemeier, Frame Factory GmbH
+ *
+ * License: MIT
+ */
+
+import clone from "./clone";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns a copy of the source value, conformed to the shape of the given template.
+ * - Objects keep only the properties present in the template, conformed to the template properties.
+ * - Arrays conform their elements to the first element of the template array. An empty
+ *   template array keeps all elements.
+ * - If types are matched, values of a different type than the template are replaced by a
+ *   copy of the template value, array elements of a different type are removed.
+ * @param source The value to be conformed.
+ * @param template The template value.
+ * @param matchTypes If true, the types of source values must match the types of the template.
+ */
+export default function conform<T = any>(source: any, template: T, matchTypes: boolean = false): T
+{
+    const sourceType = typeOf(source);
+    const templateType = typeOf(template);
+
+    if (matchTypes && sourceType !== templateType) {
+        return clone(template);
+    }
+
+    if (sourceType === "array") {
+        if (templateType !== "array" || (template as any).length === 0) {
+            return clone(source);
+        }
+
+        const elementTemplate = template[0];
+        const elementType = typeOf(elementTemplate);
+        const elements = matchTypes ? source.filter(element => typeOf(element) === elementType) : source;
+        return elements.map(element => conform(element, elementTemplate, matchTypes));
+    }
+
+    if (sourceType === "object") {
+        const result: any = {};
+        if (templateType === "object") {
+            Object.keys(template).forEach(key => {
+                if (source[key] !== undefined) {
+                    result[key] = conform(source[key], template[key], matchTypes);
+                }
+            });
+        }
+        return result;
+    }
+
+    return source;
+}
+
+function typeOf(value: any): string
+{
+    if (value === null) {
+        return "null";
+    }
+
+    return Array.isArray(value) ? "array" : typeof value;
+}
@@ -102,6 +102,22 @@ export default class CPulse extends Component
         }
     }
 
+    /**
+     * Advances the pulse by the given time and executes a single pulse. Can be used to step
+     * through time with a fixed frame rate, e.g. while recording. The pulse must be stopped.
+     * @param seconds Time to advance in seconds.
+     */
+    advance(seconds: number)
+    {
+        if (this._animHandler !== 0) {
+            throw new Error("can't advance a running pulse");
+        }
+
+        // shift the start time, elapsed time continues from here when the pulse is restarted
+        this._secondsStarted -= seconds;
+        this.pulse(this._secondsStopped * 1000);
+    }
+
     pulse(milliseconds: number)
     {
         const {
@@ -214,7 +214,7 @@ export default class CTweenMachine extends Component
             const easeFactor = this._easingFunction(tweenFactor);
             const shouldSwitch = tweenFactor >= targetState.threshold && !outs.switched.value;
 
-            this.setValues(currentValues, targetState.values, easeFactor, shouldSwitch);
+            this.setTweenValues(currentValues, targetState, tweenTime, easeFactor, shouldSwitch);
 
             outs.time.setValue(tweenTime);
             outs.completed.setValue(tweenFactor);
@@ -224,7 +224,7 @@ export default class CTweenMachine extends Component
             }
         }
         else {
-            this.setValues(currentValues, targetState.values, 1, !outs.switched.value);
+            this.setTweenValues(currentValues, targetState, targetState.duration, 1, !outs.switched.value);
 
             outs.tweening.setValue(false);
             outs.time.setValue(targetState.duration);
@@ -394,6 +394,19 @@ export default class CTweenMachine extends Component
         return component.ins[propertyKey];
     }
 
+    /**
+     * Sets the target values during a tween. Override to customize the interpolation.
+     * @param valuesA The values at the start of the tween.
+     * @param state The target state.
+     * @param tweenTime Time in seconds since the start of the tween.
+     * @param factor The eased tween factor.
+     * @param doSwitch True if non-numeric values should be switched.
+     */
+    protected setTweenValues(valuesA: any[], state: ITweenState, tweenTime: number, factor: number, doSwitch: boolean)
+    {
+        this.setValues(valuesA, state.values, factor, doSwitch);
+    }
+
     protected setValues(valuesA: any[]);
     protected setValues(valuesA: any[], valuesB: any[], factor: number, doSwitch: boolean)
     protected setValues(valuesA: any[], valuesB?: any[], factor?: number, doSwitch?: boolean)
@@ -24,16 +24,23 @@ export interface ILayoutChange extends ITypedEvent<"layout">
     layout: EQuadViewLayout;
 }
 
+export interface ISplitChange extends ITypedEvent<"split">
+{
+    horizontalSplit: number;
+    verticalSplit: number;
+}
+
 export default class RenderQuadView extends RenderView
 {
     private _layout: EQuadViewLayout = EQuadViewLayout.Quad;
     private _horizontalSplit = 0.5;
     private _verticalSplit = 0.5;
+    private _swipe = false;
 
     constructor(system: System, canvas: HTMLCanvasElement, overlay: HTMLElement)
     {
         super(system, canvas, overlay);
-        this.addEvent("layout");
+        this.addEvents("layout", "split");
 
         this.layout = EQuadViewLayout.Single;
     }
@@ -87,8 +94,13 @@ export default class RenderQuadView extends RenderView
     }
 
     set horizontalSplit(value: number) {
+        if (value === this._horizontalSplit) {
+            return;
+        }
+
         this._horizontalSplit = value;
         this.updateSplitPositions();
+        this.emitSplitChange();
     }
 
     get horizontalSplit() {
@@ -96,18 +108,48 @@ export default class RenderQuadView extends RenderView
     }
 
     set verticalSplit(value: number) {
+        if (value === this._verticalSplit) {
+            return;
+        }
+
         this._verticalSplit = value;
         this.updateSplitPositions();
+        this.emitSplitChange();
     }
 
     get verticalSplit() {
         return this._verticalSplit;
     }
 
+    /**
+     * If true, the two viewports of a split layout overlap and both cover the whole canvas.
+     * Each viewport only renders its side of the split, which allows for swiping between views.
+     */
+    set swipe(state: boolean) {
+        this._swipe = state;
+        this.updateSplitPositions();
+    }
+
+    get swipe() {
+        return this._swipe;
+    }
+
+    protected emitSplitChange()
+    {
+        this.emit<ISplitChange>({
+            type: "split",
+            horizontalSplit: this._horizontalSplit,
+            verticalSplit: this._verticalSplit
+        });
+    }
+
     protected updateSplitPositions()
     {
         const h = this._horizontalSplit;
         const v = this._verticalSplit;
+        const swipe = this._swipe;
+
+        this.viewports.forEach(viewport => viewport.unsetClip());
 
         switch (this._layout) {
             case EQuadViewLayout.Single:
@@ -115,11 +157,25 @@ export default class RenderQuadView extends RenderView
                 break;
 
             case EQuadViewLayout.HorizontalSplit:
+                if (swipe) {
+                    this.viewports[0].setSize(0, 0, 1, 1);
+                    this.viewports[0].setClip(0, 0, h, 1);
+                    this.viewports[1].setSize(0, 0, 1, 1);
+                    this.viewports[1].setClip(h, 0, 1-h, 1);
+                    break;
+                }
                 this.viewports[0].setSize(0, 0, h, 1);
                 this.viewports[1].setSize(h, 0, 1-h, 1);
                 break;
 
             case EQuadViewLayout.VerticalSplit:
+                if (swipe) {
+                    this.viewports[0].setSize(0, 0, 1, 1);
+                    this.viewports[0].setClip(0, 1-v, 1, v);
+                    this.viewports[1].setSize(0, 0, 1, 1);
+                    this.viewports[1].setClip(0, 0, 1, 1-v);
+                    break;
+                }
                 this.viewports[0].setSize(0, 1-v, 1, v);
                 this.viewports[1].setSize(0, 0, 1, 1-v);
                 break;
@@ -70,6 +70,8 @@ export default class RenderView extends Publisher implements IManip
 
     protected picker: GPUPicker;
 
+    private _isFixedSize = false;
+
     constructor(system: System, canvas: HTMLCanvasElement, overlay: HTMLElement)
     {
         super();
@@ -182,6 +184,9 @@ export default class RenderView extends Publisher implements IManip
             viewport.applyViewport(this.renderer);
             renderer.render(scene, currentCamera);
         }
+
+        // viewports may enable the scissor test, disable it for subsequent full canvas operations
+        renderer.setScissorTest(false);
     }
 
     protected setRenderSize(width: number, height: number)
@@ -196,8 +201,29 @@ export default class RenderView extends Publisher implements IManip
         }
     }
 
+    /**
+     * Sets a fixed render size, independent of the size of the canvas element.
+     * While the size is fixed, the view ignores resize requests.
+     * Call without arguments to release the fixed size.
+     */
+    setFixedSize(width?: number, height?: number)
+    {
+        if (width > 0 && height > 0) {
+            this._isFixedSize = true;
+            this.setRenderSize(width, height);
+        }
+        else {
+            this._isFixedSize = false;
+            this.resize();
+        }
+    }
+
     resize()
     {
+        if (this._isFixedSize) {
+            return;
+        }
+
         this.setRenderSize(this.canvas.clientWidth, this.canvas.clientHeight);
 
         if(!this.renderer.xr.isPresenting) {
@@ -407,6 +433,8 @@ export default class RenderView extends Publisher implements IManip
             component = null;
 
             if (scene && camera) {
+                // render callbacks may depend on the viewport
+                this.renderer["__viewport"] = viewport;
                 object3D = this.picker.pickObject(scene, camera, event);
                 if (object3D === undefined) {
                     if (ENV_DEVELOPMENT) {
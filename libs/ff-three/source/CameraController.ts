@@ -10,8 +10,7 @@ import {
     Vector3,
     Matrix4,
     Box3,
-    Euler,
-    Quaternion
+    Euler
 } from "three";
 
 import math from "@ff/core/math";
@@ -32,10 +31,25 @@ const _mat4 = new Matrix4();
 const _box3 = new Box3();
 const _vec3a = new Vector3();
 const _vec3b = new Vector3();
-const _quat = new Quaternion();
+const _vec3c = new Vector3();
+const _vec3d = new Vector3();
+const _vec3zero = new Vector3();
 const _euler = new Euler();
 
 export enum EControllerMode { Orbit, Fly, Walk }
+
+// movement directions in camera space for first-person navigation keys
+const _moveKeys: { [key: string]: number[] } = {
+    KeyW: [ 0, 0, -1 ],
+    ArrowUp: [ 0, 0, -1 ],
+    KeyS: [ 0, 0, 1 ],
+    ArrowDown: [ 0, 0, 1 ],
+    KeyA: [ -1, 0, 0 ],
+    KeyD: [ 1, 0, 0 ],
+    KeyE: [ 0, 1, 0 ],
+    KeyQ: [ 0, -1, 0 ],
+};
+
 enum EManipMode { Off, Pan, Orbit, Dolly, Zoom, PanDolly, Roll }
 enum EManipPhase { Off, Active, Release }
 
@@ -52,6 +66,12 @@ export default class CameraController implements IManip
     minOffset = new Vector3(-Infinity, -Infinity, 0.1);
     maxOffset = new Vector3(Infinity, Infinity, 1000);
 
+    /** First-person modes: limits of the camera position in world space. */
+    minPosition = new Vector3(-Infinity, -Infinity, -Infinity);
+    maxPosition = new Vector3(Infinity, Infinity, Infinity);
+    /** First-person modes: movement speed in units per second, if zero derived from bounds radius. */
+    moveSpeed = 0;
+
     boundsRadius = 0;
 
     orientationEnabled = true;
@@ -74,6 +94,9 @@ export default class CameraController implements IManip
     protected viewportHeight = 100;
     protected orbitFactor = 220;
 
+    protected moveKeys = new Set<string>();
+    protected lastMoveTime = 0;
+
     constructor(camera?: UniversalCamera)
     {
         this.camera = camera;
@@ -132,6 +155,20 @@ export default class CameraController implements IManip
     onKeypress(event: IKeyboardEvent)
     {
         const isOrbit = this.controllerMode == EControllerMode.Orbit;
+
+        if (event.type === "keyup") {
+            return this.moveKeys.delete(event.key);
+        }
+
+        // first-person movement keys are held down for continuous movement
+        if (!isOrbit && _moveKeys[event.key] && !event.ctrlKey && !event.shiftKey && !event.altKey) {
+            if (this.controllerMode === EControllerMode.Walk && _moveKeys[event.key][1] !== 0) {
+                return false;
+            }
+            this.moveKeys.add(event.key);
+            return true;
+        }
+
         if(event.key === "ArrowUp" || event.key === "ArrowDown") {
             const dir = event.key === "ArrowUp" ? -1 : 1;
             this.deltaY = dir * (isOrbit ? 20 : 6);
@@ -159,6 +196,42 @@ export default class CameraController implements IManip
         this.viewportHeight = height;
     }
 
+    /**
+     * Stops any ongoing keyboard movement, e.g. after the navigation mode has changed.
+     */
+    resetMovement()
+    {
+        this.moveKeys.clear();
+        this.lastMoveTime = 0;
+    }
+
+    /**
+     * Returns the position of the camera in world space, computed from orbit and offset.
+     * @param result Optional vector receiving the position.
+     */
+    getPosition(result?: Vector3): Vector3
+    {
+        result = result || new Vector3();
+
+        _vec3c.copy(this.orbit).multiplyScalar(math.DEG2RAD);
+        threeMath.composeOrbitMatrix(_vec3c, _vec3zero, _mat4);
+
+        return result.copy(this.offset).applyMatrix4(_mat4);
+    }
+
+    /**
+     * Places the camera at the given world space position, keeping its current orientation.
+     * The position is clamped to the first-person position limits.
+     * @param position Camera position in world space.
+     */
+    setPosition(position: Vector3)
+    {
+        _vec3c.copy(this.orbit).multiplyScalar(math.DEG2RAD);
+        threeMath.composeOrbitMatrix(_vec3c, _vec3zero, _mat4);
+
+        this.offset.copy(position).clamp(this.minPosition, this.maxPosition).applyMatrix4(_mat4.transpose());
+    }
+
     updateController(object?: Object3D, adaptLimits?: boolean)
     {
         const camera = this.camera;
@@ -258,6 +331,51 @@ export default class CameraController implements IManip
      * @returns true if the state has changed during the update.
      */
     update(): boolean
+    {
+        const hasMoved = this.updateMovement();
+        return this.updateManip() || hasMoved;
+    }
+
+    /**
+     * Applies continuous first-person movement for all currently pressed movement keys.
+     * @returns true if the camera has moved.
+     */
+    protected updateMovement(): boolean
+    {
+        if (this.controllerMode === EControllerMode.Orbit || this.moveKeys.size === 0) {
+            this.lastMoveTime = 0;
+            return false;
+        }
+
+        const now = performance.now();
+        // limit the time step to avoid jumps after the app has been inactive
+        const deltaTime = this.lastMoveTime ? Math.min(now - this.lastMoveTime, 100) * 0.001 : 0;
+        this.lastMoveTime = now;
+
+        const direction = _vec3a.setScalar(0);
+        this.moveKeys.forEach(key => {
+            const dir = _moveKeys[key];
+            direction.x += dir[0];
+            direction.y += dir[1];
+            direction.z += dir[2];
+        });
+
+        if (deltaTime === 0 || direction.lengthSq() === 0) {
+            return false;
+        }
+
+        const speed = this.moveSpeed > 0 ? this.moveSpeed : Math.max(this.boundsRadius * 0.5, 0.1);
+        direction.normalize().multiplyScalar(speed * deltaTime);
+        this.moveBy(direction);
+
+        return true;
+    }
+
+    /**
+     * Updates the camera from pointer, wheel and key step input.
+     * @returns true if the state has changed.
+     */
+    protected updateManip(): boolean
     {
         const isOrbit = this.controllerMode == EControllerMode.Orbit;
         if (this.phase === EManipPhase.Off && this.deltaWheel === 0
@@ -338,7 +456,7 @@ export default class CameraController implements IManip
     {
         const {
             orbit, minOrbit, maxOrbit,
-            offset, minOffset, maxOffset, camera
+            offset, minOffset, maxOffset
         } = this;
 
         this.prevOffset.copy(offset);
@@ -370,28 +488,46 @@ export default class CameraController implements IManip
                 offset.z = math.limit(offset.z, minOffset.z, maxOffset.z);
             }
             else {
-                const isWalk = this.controllerMode === EControllerMode.Walk
+                const isWalk = this.controllerMode === EControllerMode.Walk;
+                const factor = this.boundsRadius / 25;
 
-                const factor = this.boundsRadius/25;
+                // restore world position from previous orientation, orientation changes don't move the camera
+                threeMath.composeOrbitMatrix(this.prevOrbit, _vec3zero, _mat4);
+                offset.applyMatrix4(_mat4);
+                this.setPosition(offset);
 
-                _vec3b.set(dX * 20 * factor * inverse / this.viewportHeight, isWalk ? 0 : dY * 20 * factor * inverse / this.viewportHeight,
-                     dScale * factor);
+                _vec3b.set(
+                    dX * 20 * factor * inverse / this.viewportHeight,
+                    isWalk ? 0 : -dY * 20 * factor * inverse / this.viewportHeight,
+                    dScale * factor
+                );
 
-                if(isWalk) {
-                    _euler.set(this.prevOrbit.x, 0, this.prevOrbit.z);
-                    _vec3b.applyEuler(_euler);
-                }
+                this.moveBy(_vec3b);
+            }
+        }
+    }
 
-                offset.x += _vec3b.x;
-                offset.y -= _vec3b.y;
-                offset.z += _vec3b.z;
+    /**
+     * First-person modes: moves the camera by the given camera space translation.
+     * In walk mode, movement is restricted to the horizontal plane.
+     * @param translation Translation in camera space, the vector is modified.
+     */
+    protected moveBy(translation: Vector3)
+    {
+        const position = this.getPosition(_vec3d);
+        _vec3c.copy(this.orbit).multiplyScalar(math.DEG2RAD);
 
-                _vec3a.copy(orbit).multiplyScalar(math.DEG2RAD);
-                camera.getWorldQuaternion(_quat);
-                this.offset.applyQuaternion(_quat);
-                this.offset.applyEuler(_euler.set(-_vec3a.x,-_vec3a.y,-_vec3a.z));
-            }
+        if (this.controllerMode === EControllerMode.Walk) {
+            // only heading affects walk direction, vertical position stays on the ground
+            translation.y = 0;
+            _euler.set(0, _vec3c.y, 0, "ZYX");
         }
+        else {
+            _euler.set(_vec3c.x, _vec3c.y, _vec3c.z, "ZYX");
+        }
+
+        position.add(translation.applyEuler(_euler));
+        this.setPosition(position);
     }
 
     protected getModeFromEvent(event: IPointerEvent): EManipMode
@@ -73,6 +73,8 @@ export default class Viewport extends Publisher implements IViewportManip
 
     private _relRect: IViewportRect;
     private _absRect: IViewportRect;
+    private _relClip: IViewportRect = null;
+    private _absClip: IViewportRect = null;
 
     private _canvasWidth = 1;
     private _canvasHeight = 1;
@@ -203,6 +205,30 @@ export default class Viewport extends Publisher implements IViewportManip
         this.updateGeometry();
     }
 
+    /**
+     * Restricts rendering and pointer hit tests to the given rectangle in relative coordinates
+     * (origin at the bottom left, canvas width and height are 1). The viewport's projection
+     * is still computed from its full size.
+     */
+    setClip(x: number, y: number, width: number, height: number)
+    {
+        this._relClip = { x, y, width, height };
+        this._absClip = { x: 0, y: 0, width: 1, height: 1 };
+
+        this.updateGeometry();
+    }
+
+    /**
+     * Removes the clip rectangle, the viewport renders to its full size.
+     */
+    unsetClip()
+    {
+        this._relClip = null;
+        this._absClip = null;
+
+        this.updateGeometry();
+    }
+
     /**
      *  Sets the size of the rendering canvas in pixels.
      */
@@ -292,7 +318,7 @@ export default class Viewport extends Publisher implements IViewportManip
 
     isPointInside(x: number, y: number): boolean
     {
-        const absRect = this._absRect;
+        const absRect = this._absClip || this._absRect;
         y = this.canvasHeight - y;
 
         return x >= absRect.x && x < absRect.x + absRect.width
@@ -367,6 +393,13 @@ export default class Viewport extends Publisher implements IViewportManip
     {
         const absRect = this._absRect;
         renderer.setViewport(absRect.x, absRect.y, absRect.width, absRect.height);
+
+        const absClip = this._absClip;
+        if (absClip) {
+            renderer.setScissor(absClip.x, absClip.y, absClip.width, absClip.height);
+        }
+        renderer.setScissorTest(!!absClip);
+
         renderer["viewport"] = this;
     }
 
@@ -434,6 +467,15 @@ export default class Viewport extends Publisher implements IViewportManip
         absRect.y = Math.round(relRect.y * canvasHeight);
         absRect.width = Math.round(relRect.width * canvasWidth);
         absRect.height = Math.round(relRect.height * canvasHeight);
+
+        const relClip = this._relClip;
+        const absClip = this._absClip;
+        if (relClip) {
+            absClip.x = Math.round(relClip.x * canvasWidth);
+            absClip.y = Math.round(relClip.y * canvasHeight);
+            absClip.width = Math.round(relClip.width * canvasWidth);
+            absClip.height = Math.round(relClip.height * canvasHeight);
+        }
         
         const overlay = this._overlay;
         if (overlay) {
@@ -442,6 +484,18 @@ export default class Viewport extends Publisher implements IViewportManip
             overlay.style.top = (top ? top.toFixed() + "px" : "0");
             overlay.style.width = absRect.width.toFixed() + "px";
             overlay.style.height = absRect.height.toFixed() + "px";
+
+            // hide overlay content outside of the clip rectangle
+            if (relClip) {
+                const left = (relClip.x - relRect.x) / relRect.width;
+                const right = (relRect.x + relRect.width - relClip.x - relClip.width) / relRect.width;
+                const bottom = (relClip.y - relRect.y) / relRect.height;
+                const top = (relRect.y + relRect.height - relClip.y - relClip.height) / relRect.height;
+                overlay.style.clipPath = `inset(${[ top, right, bottom, left ].map(v => (v * 100).toFixed(2) + "%").join(" ")})`;
+            }
+            else {
+                overlay.style.clipPath = "";
+            }
         }
     }
 }
\ No newline at end of file
@@ -8,6 +8,7 @@
 import {
     Object3D,
     Mesh,
+    Points,
     Texture,
     Material,
     BufferGeometry,
@@ -59,7 +60,7 @@ export function disposeObject(object: Object3D)
 
     object.traverse(object => {
         const mesh = object as Mesh;
-        if (mesh.isMesh) {
+        if (mesh.isMesh || (object as Points).isPoints) {
             const geometry = mesh.geometry as BufferGeometry;
             if (geometry) {
                 geometries.set(geometry.uuid, geometry);
@@ -50,6 +50,8 @@ export default class IndexShader extends ShaderMaterial
         "void main() {",
         "  #include <begin_vertex>",
         "  #include <project_vertex>",
+        "  // point clouds are picked with a fixed point size",
+        "  gl_PointSize = 8.0;",
         "}",
     ].join("\n");
 
@@ -27,6 +27,8 @@ export default class NormalShader extends ShaderMaterial
         "  #include <begin_vertex>",
         "  #include <project_vertex>",
         "  vLocalNormal = vec3(normal);",
+        "  // point clouds are picked with a fixed point size",
+        "  gl_PointSize = 8.0;",
         "}",
     ].join("\n");
 
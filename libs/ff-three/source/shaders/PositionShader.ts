@@ -30,6 +30,8 @@ export default class PositionShader extends ShaderMaterial
         "  #include <begin_vertex>",
         "  #include <project_vertex>",
         "  vLocalPosition = vec3(position);",
+        "  // point clouds are picked with a fixed point size",
+        "  gl_PointSize = 8.0;",
         "}",
     ].join("\n");
 
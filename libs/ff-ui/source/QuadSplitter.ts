@@ -59,14 +59,20 @@ export default class QuadSplitter extends CustomElement
             return html``;
         }
 
+        // place the splitters at the current positions
+        const h = (this.horizontalPosition * 100).toFixed(3);
+        const hn = (100 - this.horizontalPosition * 100).toFixed(3);
+        const v = (this.verticalPosition * 100).toFixed(3);
+        const vn = (100 - this.verticalPosition * 100).toFixed(3);
+
         const elements = [];
 
         if (layout === EQuadViewLayout.HorizontalSplit || layout === EQuadViewLayout.Quad) {
             elements.push(html`
                 <div class="ff-horizontal" style="position:absolute; top:0; bottom:0; left:0; right:0; display:flex;">
-                    <div class="ff-left" style="flex:1 1;"></div>
+                    <div class="ff-left" style="flex:1 1 ${h}%;"></div>
                     <ff-splitter direction="horizontal" position=${this.horizontalPosition} @ff-splitter-change=${this.onSplitterChange}></ff-splitter>
-                    <div style="flex:1 1;"></div>
+                    <div style="flex:1 1 ${hn}%;"></div>
                 </div>
             `);
         }
@@ -74,9 +80,9 @@ export default class QuadSplitter extends CustomElement
         if (layout === EQuadViewLayout.VerticalSplit || layout === EQuadViewLayout.Quad) {
             elements.push(html`
                 <div class="ff-vertical" style="position:absolute; top:0; bottom:0; left:0; right:0; display:flex; flex-direction: column">
-                    <div class="ff-top" style="flex:1 1;"></div>
+                    <div class="ff-top" style="flex:1 1 ${v}%;"></div>
                     <ff-splitter direction="vertical" position=${this.verticalPosition} @ff-splitter-change=${this.onSplitterChange}></ff-splitter>
-                    <div style="flex:1 1;"></div>
+                    <div style="flex:1 1 ${vn}%;"></div>
                 </div>
             `);
         }
@@ -0,0 +1,73 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Dictionary } from "@ff/core/types";
+
+import AnalyticsProvider from "./AnalyticsProvider";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export default class AnalyticsFactory
+{
+    protected static types: Dictionary<typeof AnalyticsProvider> = {};
+
+    static registerType(type: typeof AnalyticsProvider)
+    {
+        if (this.types[type.typeName]) {
+            throw new Error(`Analytics provider type '${type.typeName}' already registered.`);
+        }
+
+        this.types[type.typeName] = type;
+    }
+
+    static get typeNames() {
+        return Object.keys(this.types).sort();
+    }
+
+    static getType(typeName: string): typeof AnalyticsProvider
+    {
+        const type = this.types[typeName];
+
+        if (!type) {
+            throw new Error(`Analytics provider type '${typeName}' not registered.`);
+        }
+
+        return type;
+    }
+
+    /**
+     * Creates a provider from a specification "type" or "type:url", e.g. "matomo:https://example.org/matomo.php?idsite=1".
+     */
+    static createInstance(specification: string): AnalyticsProvider
+    {
+        const index = specification.indexOf(":");
+        const typeName = (index < 0 ? specification : specification.slice(0, index)).trim().toLowerCase();
+        const url = index < 0 ? "" : specification.slice(index + 1).trim();
+
+        return new (this.getType(typeName))(url);
+    }
+
+    /**
+     * Creates providers from a list of specifications, separated by "|".
+     */
+    static createInstances(specifications: string): AnalyticsProvider[]
+    {
+        return specifications.split("|")
+            .filter(specification => !!specification.trim())
+            .map(specification => this.createInstance(specification));
+    }
+}
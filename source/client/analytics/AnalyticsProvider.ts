@@ -0,0 +1,75 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+export type TAnalyticsValue = string | number | boolean;
+
+/**
+ * Event sent to analytics providers.
+ */
+export interface IAnalyticsEvent
+{
+    /** Name of the event, e.g. "Annotations_Visible". */
+    name: string;
+    /** Value of the event, undefined if the event has no value. */
+    value?: TAnalyticsValue;
+    /** Subject of the event, e.g. the title of an annotation. */
+    label?: string;
+    /** Title of the scene. */
+    title: string;
+    /** Random identifier of the viewing session, changes with each page load. */
+    session: string;
+    /** Time of the event in milliseconds since the epoch. */
+    time: number;
+}
+
+/**
+ * Base class for analytics providers. A provider forwards events to an analytics service.
+ * Providers are registered with [[AnalyticsFactory]] and created from a specification
+ * "type:url", the meaning of the optional URL depends on the provider.
+ */
+export default class AnalyticsProvider
+{
+    static readonly typeName: string = "AnalyticsProvider";
+
+    readonly url: string;
+
+    constructor(url?: string)
+    {
+        this.url = url || "";
+    }
+
+    send(event: IAnalyticsEvent)
+    {
+        throw new Error("not implemented");
+    }
+
+    /**
+     * Posts the given text to the given URL. Uses a beacon if available,
+     * so events sent while the page is closed are not lost.
+     */
+    protected post(url: string, body: string)
+    {
+        if (navigator.sendBeacon && navigator.sendBeacon(url, body)) {
+            return;
+        }
+
+        fetch(url, { method: "POST", body, keepalive: true, mode: "no-cors" })
+        .catch(error => console.warn(`${this.constructor["typeName"]} - failed to send event: ${error.message}`));
+    }
+}
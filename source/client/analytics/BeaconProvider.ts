@@ -0,0 +1,53 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AnalyticsProvider, { IAnalyticsEvent } from "./AnalyticsProvider";
+import AnalyticsFactory from "./AnalyticsFactory";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Posts each event as JSON object to the given URL, to collect events with a custom service.
+ */
+export default class BeaconProvider extends AnalyticsProvider
+{
+    static readonly typeName: string = "beacon";
+
+    send(event: IAnalyticsEvent)
+    {
+        if (this.url) {
+            this.post(this.url, JSON.stringify(event));
+        }
+    }
+}
+
+/**
+ * Posts events to the analytics endpoint of the Voyager development server,
+ * which appends them to a JSON lines file. The URL defaults to "/analytics".
+ */
+export class LocalProvider extends BeaconProvider
+{
+    static readonly typeName: string = "local";
+
+    constructor(url?: string)
+    {
+        super(url || "/analytics");
+    }
+}
+
+AnalyticsFactory.registerType(BeaconProvider);
+AnalyticsFactory.registerType(LocalProvider);
@@ -0,0 +1,37 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AnalyticsProvider, { IAnalyticsEvent } from "./AnalyticsProvider";
+import AnalyticsFactory from "./AnalyticsFactory";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Logs events to the browser console, e.g. to check which events are sent.
+ */
+export default class ConsoleProvider extends AnalyticsProvider
+{
+    static readonly typeName: string = "console";
+
+    send(event: IAnalyticsEvent)
+    {
+        console.log("Analytics Event %s %s %s", event.name,
+            event.value !== undefined ? event.value.toString() : "", event.label || "");
+    }
+}
+
+AnalyticsFactory.registerType(ConsoleProvider);
@@ -0,0 +1,47 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AnalyticsProvider, { IAnalyticsEvent } from "./AnalyticsProvider";
+import AnalyticsFactory from "./AnalyticsFactory";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Sends events to Google Analytics, using the global gtag function of the embedding page.
+ */
+export default class GoogleProvider extends AnalyticsProvider
+{
+    static readonly typeName: string = "google";
+
+    send(event: IAnalyticsEvent)
+    {
+        if (typeof gtag !== "function") {
+            return;
+        }
+
+        const text: string = event.value !== undefined ? event.value.toString() : "undefined";
+        const parameters = { "scene_title": event.title, "event_value": text };
+
+        if (event.label) {
+            parameters["event_label"] = event.label;
+        }
+
+        gtag("event", event.name.toLowerCase(), parameters);
+    }
+}
+
+AnalyticsFactory.registerType(GoogleProvider);
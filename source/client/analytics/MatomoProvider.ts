@@ -0,0 +1,65 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AnalyticsProvider, { IAnalyticsEvent } from "./AnalyticsProvider";
+import AnalyticsFactory from "./AnalyticsFactory";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const _category = "Voyager";
+
+/**
+ * Sends events to Matomo. If a URL is given, events are sent to the Matomo tracking API at this URL,
+ * which must include the site id, e.g. "https://example.org/matomo.php?idsite=1".
+ * Otherwise, events are pushed to the tracker of the embedding page (window._paq).
+ */
+export default class MatomoProvider extends AnalyticsProvider
+{
+    static readonly typeName: string = "matomo";
+
+    send(event: IAnalyticsEvent)
+    {
+        const isNumber = typeof event.value === "number";
+        const name = event.label || (event.value !== undefined && !isNumber ? event.value.toString() : event.title);
+
+        if (!this.url) {
+            const queue = window["_paq"];
+            if (queue) {
+                queue.push(isNumber ? [ "trackEvent", _category, event.name, name, event.value ] : [ "trackEvent", _category, event.name, name ]);
+            }
+            return;
+        }
+
+        const url = new URL(this.url, window.location.href);
+        const params = url.searchParams;
+
+        params.set("rec", "1");
+        params.set("url", window.location.href);
+        params.set("action_name", event.title);
+        params.set("e_c", _category);
+        params.set("e_a", event.name);
+        params.set("e_n", name);
+        if (isNumber) {
+            params.set("e_v", event.value.toString());
+        }
+        params.set("rand", event.session + event.time);
+
+        this.post(url.href, "");
+    }
+}
+
+AnalyticsFactory.registerType(MatomoProvider);
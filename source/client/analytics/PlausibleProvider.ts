@@ -0,0 +1,60 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import AnalyticsProvider, { IAnalyticsEvent } from "./AnalyticsProvider";
+import AnalyticsFactory from "./AnalyticsFactory";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Sends events to Plausible. If a URL is given, events are posted to the events API at this URL,
+ * e.g. "https://plausible.io/api/event", the domain of the page is used as site domain.
+ * Otherwise, events are sent with the plausible function of the embedding page.
+ */
+export default class PlausibleProvider extends AnalyticsProvider
+{
+    static readonly typeName: string = "plausible";
+
+    send(event: IAnalyticsEvent)
+    {
+        const props: { [key: string]: string } = { scene: event.title };
+
+        if (event.value !== undefined) {
+            props.value = event.value.toString();
+        }
+        if (event.label) {
+            props.label = event.label;
+        }
+
+        if (!this.url) {
+            const plausible = window["plausible"];
+            if (typeof plausible === "function") {
+                plausible(event.name, { props });
+            }
+            return;
+        }
+
+        this.post(this.url, JSON.stringify({
+            name: event.name,
+            url: window.location.href,
+            domain: window.location.hostname,
+            props,
+        }));
+    }
+}
+
+AnalyticsFactory.registerType(PlausibleProvider);
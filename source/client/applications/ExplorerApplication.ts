@@ -16,6 +16,7 @@
  */
 
 import TypeRegistry from "@ff/core/TypeRegistry";
+import { TypeOf } from "@ff/core/types";
 
 import Notification from "@ff/ui/Notification";
 
@@ -28,26 +29,33 @@ import documentTemplate from "client/templates/default.svx.json";
 
 import CVDocumentProvider from "../components/CVDocumentProvider";
 import CVDocument from "../components/CVDocument";
+import CVSetup, { ISetupFeature, ISetupFeatureOptions } from "../components/CVSetup";
 import CVAssetManager from "../components/CVAssetManager";
 import CVAssetReader from "../components/CVAssetReader";
-import CVAnalytics from "../components/CVAnalytics";
+import GeometryReader from "../io/GeometryReader";
+import CVAnalytics, { AnalyticsFactory } from "../components/CVAnalytics";
 import CVToolProvider from "../components/CVToolProvider";
+import CVEventDispatcher, { IExplorerNotificationEvent } from "../components/CVEventDispatcher";
+import CVViewState from "../components/CVViewState";
 
 import NVEngine from "../nodes/NVEngine";
 import NVDocuments from "../nodes/NVDocuments";
 import NVTools from "../nodes/NVTools";
 
 import MainView from "../ui/explorer/MainView";
-import { EDerivativeQuality } from "client/schema/model";
+import { EDerivativeQuality, TDerivativeQuality } from "client/schema/model";
 import CVARManager from "client/components/CVARManager";
 import { EUIElements } from "client/components/CVInterface";
-import { EBackgroundStyle } from "client/schema/setup";
+import { EBackgroundStyle, ECompareMode, ECompareOrientation } from "client/schema/setup";
 import CRenderer from "client/../../libs/ff-scene/source/components/CRenderer";
 
 import { clamp } from "client/utils/Helpers"
 import CVScene from "client/components/CVScene";
 import CVAnnotationView from "client/components/CVAnnotationView";
-import { ELanguageType } from "client/schema/common";
+import CVModel2 from "client/components/CVModel2";
+import { normalizeLanguage } from "client/utils/languages";
+import MessageBridge, { parseOrigins } from "./MessageBridge";
+import OfflineCache, { IOfflineDocumentInfo, IOfflineReport } from "client/io/OfflineCache";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -66,7 +74,7 @@ export interface IExplorerApplicationProps
     document?: string;
     /** URL of a model (supported formats: gltf, glb) to load and display at startup. */
     model?: string;
-    /** URL of a geometry (supported formats: obj, ply) to load and display at startup. */
+    /** URL of a geometry (supported formats: obj, ply, stl, 3mf, fbx) to load and display at startup. */
     geometry?: string;
     /** If a geometry URL is given, optional URL of a color texture to use with the geometry. */
     texture?: string;
@@ -89,8 +97,29 @@ export interface IExplorerApplicationProps
     prompt?: string;
     /** Enables/disables reader top-level visibility. */
     reader?: string;
-    /** ISO 639-1 language code to change active component language */
+    /** BCP-47 language tag to change active component language */
     lang?: string;
+    /** Origins allowed to control the explorer via window.postMessage, separated by spaces. "*" allows all origins.
+        Element attribute only, a link must not open the API to other pages. */
+    messageOrigins?: string;
+    /** Enables/disables keeping the view state (camera, annotation, article, tour, etc.) in the URL hash. Disabled by default,
+        as an embedded component must not change the URL of the host page. */
+    viewState?: string;
+    /** URL of a second document, whose models are compared with the models of the document loaded at startup. */
+    compare?: string;
+    /** Comparison options, separated by "|": "split" or "swipe", "horizontal" or "vertical", "off" disables the comparison. */
+    compareMode?: string;
+    /** Analytics providers events are sent to, separated by "|", each given as "type" or "type:url",
+        e.g. "matomo:https://example.org/matomo.php?idsite=1". "none" disables analytics. Not read from the URL. */
+    analytics?: string;
+    /** Consent to send analytics events: "granted" (default), "required" (wait for setAnalyticsConsent)
+        or "prompt" (ask the visitor). Not read from the URL. */
+    analyticsConsent?: string;
+    /** Stores the document for offline use after loading: "true" or qualities of the model derivatives to store,
+        separated by "|", e.g. "Low|High". */
+    offline?: string;
+    /** URL of the offline service worker script, defaults to "voyager-offline-worker.js" in the folder of the page. Not read from the URL. */
+    offlineWorker?: string;
 }
 
 /**
@@ -121,6 +150,18 @@ Version: ${ENV_VERSION}
     readonly props: IExplorerApplicationProps;
     readonly system: System;
 
+    /**
+     * Registers a setup feature component, e.g. of a plugin, see [[CVSetup.registerFeature]].
+     * Register features before creating the application.
+     */
+    static registerFeature(name: string, type: TypeOf<ISetupFeature>, options?: ISetupFeatureOptions)
+    {
+        CVSetup.registerFeature(name, type, options);
+    }
+
+    protected messageBridge: MessageBridge = null;
+    protected offlineCache: OfflineCache = null;
+
     protected get assetManager() {
         return this.system.getMainComponent(CVAssetManager);
     }
@@ -133,6 +174,12 @@ Version: ${ENV_VERSION}
     protected get analytics() {
         return this.system.getMainComponent(CVAnalytics);
     }
+    protected get eventDispatcher() {
+        return this.system.getMainComponent(CVEventDispatcher);
+    }
+    protected get viewState() {
+        return this.system.getMainComponent(CVViewState);
+    }
 
     constructor(parent: HTMLElement, props?: IExplorerApplicationProps, embedded?: boolean)
     {
@@ -149,6 +196,11 @@ Version: ${ENV_VERSION}
         system.graph.createCustomNode(NVTools);
         system.graph.createCustomNode(NVDocuments);
 
+        this.offlineCache = new OfflineCache(this.assetManager, this.assetReader);
+
+        // mirror explorer events to the embedding page
+        this.eventDispatcher.on<IExplorerNotificationEvent>("notification", this.onNotification, this);
+
         // start timing load
         this.analytics.startTimer(); 
 
@@ -208,10 +260,17 @@ Version: ${ENV_VERSION}
 
     dispose()
     {
+        this.eventDispatcher.off<IExplorerNotificationEvent>("notification", this.onNotification, this);
+
         // Clean up assuming a component disconnect means it won't be reconnected
         // TODO: More complete clean up that doesn't interfere with component disconnect
         this.assetReader.dispose();
 
+        if (this.messageBridge) {
+            this.messageBridge.dispose();
+            this.messageBridge = null;
+        }
+
         this.documentProvider.activeComponent.setup.floor.dispose();
         this.documentProvider.activeComponent.setup.tape.dispose();
         this.documentProvider.activeComponent.setup.grid.dispose();
@@ -291,6 +350,10 @@ Version: ${ENV_VERSION}
         props.prompt = props.prompt || qs.get("prompt") || qs.get("pm");
         props.reader = props.reader || qs.get("reader") || qs.get("rdr");
         props.lang = props.lang || qs.get("lang") || qs.get("l");
+        props.viewState = props.viewState || qs.get("viewState") || qs.get("vs");
+        props.compare = props.compare || qs.get("compare") || qs.get("cmp");
+        props.compareMode = props.compareMode || qs.get("compareMode") || qs.get("cm");
+        props.offline = props.offline || qs.get("offline") || qs.get("ofl");
 
         const url = props.root || props.document || props.model || props.geometry;
         this.setBaseUrl(new URL(url || ".", window.location as any).href);
@@ -329,6 +392,19 @@ Version: ${ENV_VERSION}
             this.setLanguage(props.lang);
         }
 
+        if(props.analytics) {
+            this.setAnalyticsProviders(props.analytics);
+        }
+        if(props.analyticsConsent) {
+            this.setAnalyticsConsentMode(props.analyticsConsent);
+        }
+
+        if(props.messageOrigins) {
+            // accept API requests from the embedding page
+            this.messageBridge = this.messageBridge || new MessageBridge(this);
+            this.messageBridge.setAllowedOrigins(parseOrigins(props.messageOrigins));
+        }
+
         if (props.document) {
             // first loading priority: document
             props.document = manager.getAssetName(props.document);
@@ -354,12 +430,17 @@ Version: ${ENV_VERSION}
             props.occlusion = props.occlusion ? manager.getAssetName(props.occlusion) : null;
             props.normals = props.normals ? manager.getAssetName(props.normals) : null;
 
-            this.assetReader.getText(props.geometry)    // make sure we have a valid geometry path   
-            .then(() => {
-                this.loadGeometry(props.geometry, props.texture, props.occlusion, props.normals, props.quality);
-                this.postLoadHandler(props);
-            })
-            .catch(error => Notification.show(`Bad Geometry Path: ${error.message}`, "error"));
+            if (!this.assetReader.geometryLoader.isValid(props.geometry)) {
+                Notification.show(`Unsupported geometry format: '${props.geometry}', supported formats: ${GeometryReader.extensions.join(", ")}`, "error");
+            }
+            else {
+                this.assetReader.getText(props.geometry)    // make sure we have a valid geometry path
+                .then(() => {
+                    this.loadGeometry(props.geometry, props.texture, props.occlusion, props.normals, props.quality);
+                    this.postLoadHandler(props);
+                })
+                .catch(error => Notification.show(`Bad Geometry Path: ${error.message}`, "error"));
+            }
         }
         else if (props.root) {
             // if nothing else specified, try to read "scene.svx.json" from the current folder
@@ -393,10 +474,28 @@ Version: ${ENV_VERSION}
         if(props.lang) {
             this.setLanguage(props.lang);
         }
+        if(props.compareMode) {
+            this.setCompareMode(props.compareMode);
+        }
 
         // Re-cache postload setups
         const setup = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup;
         setup.ins.saveState.set();
+
+        if(this.isTrue(props.viewState) === true) {
+            // restore the view from the URL hash, then keep the hash up to date
+            this.viewState.restore();
+            this.viewState.ins.enabled.setValue(true);
+        }
+
+        if(props.compare) {
+            this.loadComparison(this.assetManager.getAssetName(props.compare));
+        }
+
+        if(props.offline && this.isTrue(props.offline) !== false) {
+            this.makeAvailableOffline(this.isTrue(props.offline) ? undefined : props.offline)
+            .catch(error => console.warn(`Failed to store document for offline use: ${error.message}`));
+        }
     }
 
     ////////////////////////////////////////////
@@ -524,6 +623,27 @@ Version: ${ENV_VERSION}
         return annotations;
     }
 
+    // Activates the annotation with the given id
+    setActiveAnnotation(id: string)
+    {
+        const viewerIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.viewer.ins;
+        viewerIns.activeAnnotation.setValue(id);
+    }
+
+    // Returns the tags displayed in the tag cloud, separated by commas
+    getTags()
+    {
+        const viewer = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.viewer;
+        return viewer.outs.tagCloud.value;
+    }
+
+    // Activates the given comma-separated tags
+    setActiveTags(tags: string)
+    {
+        const viewerIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.viewer.ins;
+        viewerIns.activeTags.setValue(tags);
+    }
+
     // Returns euler angles (yaw/pitch) for orbit navigation
     getCameraOrbit( type?: string )
     {
@@ -732,10 +852,10 @@ Version: ${ENV_VERSION}
     setLanguage(languageID: string)
     {
         const languageIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.language.ins;
-        const id = languageID.toUpperCase();
+        const id = normalizeLanguage(languageID);
 
-        if(id in ELanguageType) {
-            languageIns.activeLanguage.setValue(ELanguageType[id]);
+        if(id) {
+            languageIns.activeLanguage.setValue(id);
         }
         else {
             console.error("Error: setLanguage param is not a valid language id.");
@@ -746,13 +866,13 @@ Version: ${ENV_VERSION}
     getActiveLanguage()
     {
         const activeLanguage = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.language.ins.activeLanguage;
-        return ELanguageType[activeLanguage.value];
+        return activeLanguage.value;
     }
 
     // get available languages
     getLanguages(){
         const languages = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.language.sceneLanguages;
-        return languages.map((lang)=>{return ELanguageType[lang.id]});
+        return languages.map((lang)=>{return lang.id});
     }
     
     // set the active article
@@ -763,15 +883,177 @@ Version: ${ENV_VERSION}
         reader.ins.articleId.setValue(id);
     }
 
+    // load a document and compare its models with the models of the active document
+    loadComparison(documentPath: string): Promise<void>
+    {
+        const document = this.documentProvider.activeComponent;
+        const comparison = document.setup.comparison;
+        const first = document.innerComponents.getArray(CVModel2).map(model => model.node.id);
+
+        return this.assetReader.getJSON(documentPath)
+            .then(data => {
+                const node = document.appendDocument(data, documentPath);
+                comparison.setNodes(first, [ node.id ]);
+                comparison.ins.enabled.setValue(true);
+            })
+            .catch(error => Notification.show(`Failed to load comparison document: ${error.message}`, "error"));
+    }
+
+    // set comparison options, separated by "|": split/swipe, horizontal/vertical, off
+    setCompareMode(mode: string)
+    {
+        const comparisonIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.comparison.ins;
+        const options = String(mode).toLowerCase().split(/[|,]/).map(option => option.trim());
+        let enabled = undefined;
+
+        options.forEach(option => {
+            switch(option) {
+                case "split":
+                    comparisonIns.mode.setValue(ECompareMode.Split);
+                    enabled = enabled !== false;
+                    break;
+                case "swipe":
+                    comparisonIns.mode.setValue(ECompareMode.Swipe);
+                    enabled = enabled !== false;
+                    break;
+                case "horizontal":
+                    comparisonIns.orientation.setValue(ECompareOrientation.Horizontal);
+                    enabled = enabled !== false;
+                    break;
+                case "vertical":
+                    comparisonIns.orientation.setValue(ECompareOrientation.Vertical);
+                    enabled = enabled !== false;
+                    break;
+                case "off":
+                    enabled = false;
+                    break;
+            }
+        });
+
+        if(enabled != undefined) {
+            comparisonIns.enabled.setValue(enabled);
+        }
+        else {
+            console.error("Error: setCompareMode param is not valid.");
+        }
+    }
+
+    // set the position of the comparison split, from 0 to 1
+    setComparePosition(position: string)
+    {
+        const comparisonIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.comparison.ins;
+        const value = parseFloat(position);
+
+        if(isFinite(value)) {
+            comparisonIns.position.setValue(clamp(value, 0, 1));
+        }
+        else {
+            console.error("Error: setComparePosition param is not a number.");
+        }
+    }
+
+    // grant or deny consent to send analytics events
+    setAnalyticsConsent(enable: string)
+    {
+        const granted = this.isTrue(enable);
+
+        if(granted != undefined) {
+            this.analytics.setConsent(granted);
+        }
+        else {
+            console.error("Error: setAnalyticsConsent param is not valid.");
+        }
+    }
+
+    // store the active document with all files needed to display it offline
+    // optional qualities of the model derivatives to store, separated by "|"
+    makeAvailableOffline(qualities?: string): Promise<IOfflineDocumentInfo>
+    {
+        let derivativeQualities: TDerivativeQuality[] = undefined;
+
+        if(qualities) {
+            const names = Object.keys(EDerivativeQuality).filter(key => isNaN(Number(key)));
+            derivativeQualities = String(qualities).split(/[|,]/)
+                .map(quality => names.find(name => name.toLowerCase() === quality.trim().toLowerCase()) as TDerivativeQuality);
+
+            if(derivativeQualities.some(quality => !quality)) {
+                console.error("Error: makeAvailableOffline param is not valid.");
+                return Promise.resolve(null);
+            }
+        }
+
+        const offlineCache = this.offlineCache;
+        const workerUrl = this.props.offlineWorker || "voyager-offline-worker.js";
+
+        return offlineCache.register(workerUrl)
+            .then(() => offlineCache.store(this.documentProvider.activeComponent, { qualities: derivativeQualities }))
+            .then(info => {
+                if (ENV_DEVELOPMENT) {
+                    console.log("ExplorerApplication.makeAvailableOffline - %s files, %s bytes, version %s", info.files, info.byteSize, info.version);
+                }
+                return info;
+            });
+    }
+
+    // get the documents stored for offline use and the used storage
+    getOfflineReport(): Promise<IOfflineReport>
+    {
+        return this.offlineCache.getReport();
+    }
+
+    // delete the stored files of the active document
+    removeOfflineData(): Promise<number>
+    {
+        return this.offlineCache.remove(this.documentProvider.activeComponent);
+    }
+
     resetViewer(){
         this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.resetViewer();
     }
 
+    protected setAnalyticsProviders(specifications: string)
+    {
+        if(specifications.trim().toLowerCase() === "none") {
+            this.analytics.setProviders([]);
+            return;
+        }
+
+        try {
+            this.analytics.setProviders(AnalyticsFactory.createInstances(specifications));
+        }
+        catch(error) {
+            console.error(`Error: analytics param is not valid. ${error.message}`);
+        }
+    }
+
+    protected setAnalyticsConsentMode(mode: string)
+    {
+        switch(mode.trim().toLowerCase()) {
+            case "granted":
+                break;
+            case "required":
+                this.analytics.requestConsent(false);
+                break;
+            case "prompt":
+                this.analytics.requestConsent(true);
+                break;
+            default:
+                console.error("Error: analyticsConsent param is not valid.");
+        }
+    }
+
+    protected onNotification(event: IExplorerNotificationEvent)
+    {
+        if (this.messageBridge) {
+            this.messageBridge.postEvent(event.event, event.detail);
+        }
+    }
+
     // helper function to standardize parsing boolean string params
     protected isTrue(input: string)
     {
         let output = undefined;
-        const outputLower = input.toLowerCase();
+        const outputLower = String(input).toLowerCase();
         if(outputLower === "true") {
             output = true;
         }
@@ -0,0 +1,164 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IMessageEvent, IMessageRequest, IMessageResponse, MESSAGE_PROTOCOL_VERSION } from "./MessageBridge";
+
+////////////////////////////////////////////////////////////////////////////////
+
+interface IPendingRequest
+{
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    timer: number;
+}
+
+/**
+ * Client for Voyager Explorer embedded in an iframe, possibly on another origin.
+ * Calls API functions via the message protocol of [[MessageBridge]]. The origin of the embedding
+ * page must be allowed by the Explorer, see the "messageOrigins" property.
+ *
+ * ```
+ * const client = new ExplorerMessageClient(iframe, "https://3d-api.si.edu");
+ * await client.call("setCameraOrbit", "30", "10");
+ * const annotations = await client.call("getAnnotations");
+ * ```
+ */
+export default class ExplorerMessageClient
+{
+    readonly frame: HTMLIFrameElement;
+    readonly origin: string;
+
+    /** Time in milliseconds after which a request without response fails. */
+    timeout = 10000;
+    /** Called for events sent by the Explorer. */
+    onEvent: (event: string, detail: any) => void = null;
+
+    private _nextId = 1;
+    private _pending = new Map<number, IPendingRequest>();
+    private _ready: Promise<void>;
+    private _resolveReady: () => void;
+
+    /**
+     * @param frame The iframe element showing Voyager Explorer.
+     * @param origin The origin of the Explorer page, e.g. "https://3d-api.si.edu".
+     */
+    constructor(frame: HTMLIFrameElement, origin: string)
+    {
+        this.frame = frame;
+        this.origin = origin;
+
+        this.onMessage = this.onMessage.bind(this);
+        this.onLoad = this.onLoad.bind(this);
+        window.addEventListener("message", this.onMessage);
+        frame.addEventListener("load", this.onLoad);
+
+        this._ready = new Promise(resolve => this._resolveReady = resolve);
+
+        // the explorer may already be running
+        this.onLoad();
+    }
+
+    dispose()
+    {
+        window.removeEventListener("message", this.onMessage);
+        this.frame.removeEventListener("load", this.onLoad);
+
+        this._pending.forEach(request => {
+            window.clearTimeout(request.timer);
+            request.reject(new Error("client disposed"));
+        });
+        this._pending.clear();
+    }
+
+    /**
+     * Returns a promise resolving as soon as the Explorer accepts requests.
+     */
+    ready(): Promise<void>
+    {
+        return this._ready;
+    }
+
+    /**
+     * Calls an API function of the Explorer, once it is ready.
+     * @param method Name of the function, e.g. "setTourStep".
+     * @param params Parameters of the function.
+     * @returns A promise resolving to the return value of the function.
+     */
+    call<T = any>(method: string, ...params: any[]): Promise<T>
+    {
+        return this._ready.then(() => this.send<T>(method, params));
+    }
+
+    protected send<T>(method: string, params: any[]): Promise<T>
+    {
+        const target = this.frame.contentWindow;
+        if (!target) {
+            return Promise.reject(new Error("frame not available"));
+        }
+
+        const id = this._nextId++;
+        const request: IMessageRequest = { type: "voyager-request", version: MESSAGE_PROTOCOL_VERSION, id, method, params };
+
+        return new Promise<T>((resolve, reject) => {
+            const timer = window.setTimeout(() => {
+                this._pending.delete(id);
+                reject(new Error(`request timed out: '${method}'`));
+            }, this.timeout);
+
+            this._pending.set(id, { resolve, reject, timer });
+            target.postMessage(request, this.origin);
+        });
+    }
+
+    protected onLoad()
+    {
+        // ask for the protocol version in case the ready event has been missed
+        this.send("getApiVersion", []).then(() => this._resolveReady(), () => {});
+    }
+
+    protected onMessage(event: MessageEvent)
+    {
+        if (event.origin !== this.origin || event.source !== this.frame.contentWindow) {
+            return;
+        }
+
+        const message = event.data as IMessageResponse | IMessageEvent;
+
+        if (message && message.type === "voyager-response") {
+            const request = this._pending.get(message.id as number);
+            if (request) {
+                this._pending.delete(message.id as number);
+                window.clearTimeout(request.timer);
+
+                if (message.error !== undefined) {
+                    request.reject(new Error(message.error));
+                }
+                else {
+                    request.resolve(message.result);
+                }
+            }
+        }
+        else if (message && message.type === "voyager-event") {
+            if (message.event === "ready") {
+                this._resolveReady();
+            }
+            if (this.onEvent) {
+                this.onEvent(message.event, message.detail);
+            }
+        }
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Version of the message protocol. Incremented on incompatible changes. */
+export const MESSAGE_PROTOCOL_VERSION = 1;
+
+/** Request sent to Voyager Explorer, calling one of its API functions. */
+export interface IMessageRequest
+{
+    type: "voyager-request";
+    version: number;
+    /** Id chosen by the sender, returned with the response. */
+    id: string | number;
+    method: string;
+    params?: any[];
+}
+
+/** Response to a request, carrying the return value of the API function or an error message. */
+export interface IMessageResponse
+{
+    type: "voyager-response";
+    version: number;
+    id: string | number;
+    result?: any;
+    error?: string;
+}
+
+/** Notification sent by Voyager Explorer, e.g. when it is ready to receive requests. */
+export interface IMessageEvent
+{
+    type: "voyager-event";
+    version: number;
+    event: string;
+    detail?: any;
+}
+
+/**
+ * API functions available through messages. The protocol method "getApiVersion" additionally
+ * returns the protocol version and this list.
+ */
+export const messageMethods = [
+    "toggleAnnotations",
+    "setAnnotationsEnabled",
+    "toggleReader",
+    "setReaderEnabled",
+    "toggleTours",
+    "setToursEnabled",
+    "toggleTools",
+    "setToolsEnabled",
+    "toggleMeasurement",
+    "setMeasurementEnabled",
+    "getArticles",
+    "getAnnotations",
+    "setActiveAnnotation",
+    "getCameraOrbit",
+    "setCameraOrbit",
+    "getCameraOffset",
+    "setCameraOffset",
+    "setBackgroundColor",
+    "setBackgroundStyle",
+    "setTourStep",
+    "getTours",
+    "enableNavigation",
+    "enablePrompt",
+    "enableReader",
+    "setLanguage",
+    "getActiveLanguage",
+    "getLanguages",
+    "setActiveArticle",
+    "getTags",
+    "setActiveTags",
+    "setCompareMode",
+    "setComparePosition",
+    "loadComparison",
+    "setAnalyticsConsent",
+    "makeAvailableOffline",
+    "getOfflineReport",
+    "removeOfflineData",
+    "resetViewer",
+];
+
+/**
+ * Parses a list of origins separated by spaces or commas. "*" allows all origins.
+ */
+export function parseOrigins(origins: string): string[]
+{
+    return (origins || "").split(/[\s,]+/).filter(origin => !!origin).map(origin => {
+        if (origin === "*") {
+            return origin;
+        }
+        try {
+            return new URL(origin).origin;
+        }
+        catch(e) {
+            console.warn(`MessageBridge - invalid origin: '${origin}'`);
+            return null;
+        }
+    }).filter(origin => !!origin);
+}
+
+/**
+ * Maps request messages received via window.postMessage to API functions of a target object,
+ * typically the [[ExplorerApplication]], and posts the results back to the sender.
+ * Only messages from allowed origins are handled.
+ */
+export default class MessageBridge
+{
+    readonly target: object;
+
+    protected allowedOrigins: string[] = [];
+
+    constructor(target: object)
+    {
+        this.target = target;
+        this.onMessage = this.onMessage.bind(this);
+        window.addEventListener("message", this.onMessage);
+    }
+
+    dispose()
+    {
+        window.removeEventListener("message", this.onMessage);
+    }
+
+    /**
+     * Sets the origins allowed to send requests. Notifies the embedding window that the bridge is ready.
+     */
+    setAllowedOrigins(origins: string[])
+    {
+        this.allowedOrigins = origins.slice();
+        this.postEvent("ready", { version: MESSAGE_PROTOCOL_VERSION });
+    }
+
+    /**
+     * Sends an event to the embedding window, if it has an allowed origin.
+     */
+    postEvent(event: string, detail?: any)
+    {
+        if (window.parent === window) {
+            return;
+        }
+
+        const message: IMessageEvent = { type: "voyager-event", version: MESSAGE_PROTOCOL_VERSION, event, detail };
+        this.allowedOrigins.forEach(origin => window.parent.postMessage(message, origin));
+    }
+
+    protected isAllowedOrigin(origin: string)
+    {
+        const origins = this.allowedOrigins;
+        return origins.indexOf("*") >= 0 || origins.indexOf(origin) >= 0;
+    }
+
+    protected onMessage(event: MessageEvent)
+    {
+        const request = event.data as IMessageRequest;
+
+        if (!request || request.type !== "voyager-request" || !event.source || !this.isAllowedOrigin(event.origin)) {
+            return;
+        }
+
+        const source = event.source as Window;
+        const targetOrigin = event.origin === "null" ? "*" : event.origin;
+
+        this.handleRequest(request)
+        .then(result => this.postResponse(source, targetOrigin, { id: request.id, result }))
+        .catch(error => this.postResponse(source, targetOrigin, { id: request.id, error: error.message || String(error) }));
+    }
+
+    protected handleRequest(request: IMessageRequest): Promise<any>
+    {
+        if (!(request.version <= MESSAGE_PROTOCOL_VERSION)) {
+            return Promise.reject(new Error(`unsupported protocol version: ${request.version}`));
+        }
+
+        const method = request.method;
+
+        if (method === "getApiVersion") {
+            return Promise.resolve({ version: MESSAGE_PROTOCOL_VERSION, methods: messageMethods });
+        }
+
+        const fn = this.target[method];
+        if (messageMethods.indexOf(method) < 0 || typeof fn !== "function") {
+            return Promise.reject(new Error(`unknown method: '${method}'`));
+        }
+
+        const params = Array.isArray(request.params) ? request.params : [];
+
+        try {
+            return Promise.resolve(fn.apply(this.target, params));
+        }
+        catch(error) {
+            return Promise.reject(error);
+        }
+    }
+
+    protected postResponse(source: Window, origin: string, response: Partial<IMessageResponse>)
+    {
+        const message: IMessageResponse = {
+            type: "voyager-response",
+            version: MESSAGE_PROTOCOL_VERSION,
+            id: response.id,
+        };
+
+        if (response.error !== undefined) {
+            message.error = response.error;
+        }
+        else if (response.result !== undefined) {
+            // results must be cloneable, data objects are converted to plain JSON
+            message.result = JSON.parse(JSON.stringify(response.result));
+        }
+
+        source.postMessage(message, origin);
+    }
+}
@@ -47,7 +47,7 @@ export interface IMiniApplicationProps
     document?: string;
     /** URL of a model (supported formats: gltf, glb) to load and display at startup. */
     model?: string;
-    /** URL of a geometry (supported formats: obj, ply) to load and display at startup. */
+    /** URL of a geometry (supported formats: obj, ply, stl, 3mf, fbx) to load and display at startup. */
     geometry?: string;
     /** If a geometry URL is given, optional URL of a color texture to use with the geometry. */
     texture?: string;
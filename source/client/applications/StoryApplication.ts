@@ -40,7 +40,7 @@ import NVoyagerStory from "../nodes/NVoyagerStory";
 import MainView from "../ui/story/MainView";
 import CVTaskProvider, { ETaskMode } from "../components/CVTaskProvider";
 import CVStandaloneFileManager from "client/components/CVStandaloneFileManager";
-import { ELanguageType } from "client/schema/common";
+import { normalizeLanguage } from "client/utils/languages";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -57,7 +57,7 @@ export interface IStoryApplicationProps extends IExplorerApplicationProps
     expert?: boolean;
     /** When set to true, application supports dragging and dropping files. */
     dragdrop?: boolean;
-    /** ISO 639-1 language code to change ui language */
+    /** BCP-47 language tag to change ui language */
     uiLang?: string;
 }
 
@@ -206,10 +206,10 @@ export default class StoryApplication
     setUILanguage(languageID: string)
     {
         const languageIns = this.system.getMainComponent(CVDocumentProvider).activeComponent.setup.language.ins;
-        const id = languageID.toUpperCase();
+        const id = normalizeLanguage(languageID);
 
-        if(id in ELanguageType) {
-            languageIns.uiLanguage.setValue(ELanguageType[id]);
+        if(id) {
+            languageIns.uiLanguage.setValue(id);
         }
         else {
             console.error("Error: setUILanguage param is not a valid language id.");
@@ -41,6 +41,8 @@ import CVAssetManager from "../components/CVAssetManager";
 import CVAssetReader from "../components/CVAssetReader";
 import CVDocument from "../components/CVDocument";
 import CVDocumentProvider from "../components/CVDocumentProvider";
+import CVEventDispatcher from "../components/CVEventDispatcher";
+import CVViewState from "../components/CVViewState";
 
 import CVScene from "../components/CVScene";
 import CVSetup from "../components/CVSetup";
@@ -66,6 +68,7 @@ import CVFloor from "../components/CVFloor";
 import CVGrid from "../components/CVGrid";
 import CVTape from "../components/CVTape";
 import CVSlicer from "../components/CVSlicer";
+import CVComparison from "../components/CVComparison";
 import CVTours from "../components/CVTours";
 import CVSnapshots from "../components/CVSnapshots";
 import CVEnvironment from "../components/CVEnvironment";
@@ -119,6 +122,8 @@ const types = [
     CVAssetReader,
     CVDocument,
     CVDocumentProvider,
+    CVEventDispatcher,
+    CVViewState,
 
     CVScene,
     CVSetup,
@@ -141,6 +146,7 @@ const types = [
     CVGrid,
     CVTape,
     CVSlicer,
+    CVComparison,
     CVTours,
     CVSnapshots,
     CVEnvironment,
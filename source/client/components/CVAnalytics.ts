@@ -15,10 +15,44 @@
  * limitations under the License.
  */
 
-import Component from "@ff/graph/Component";
+import Component, { IComponentEvent } from "@ff/graph/Component";
+import localStorage from "@ff/browser/localStorage";
+
+import AnalyticsProvider, { IAnalyticsEvent, TAnalyticsValue } from "../analytics/AnalyticsProvider";
+import AnalyticsFactory from "../analytics/AnalyticsFactory";
+import ConsoleProvider from "../analytics/ConsoleProvider";
+import GoogleProvider from "../analytics/GoogleProvider";
+import "../analytics/MatomoProvider";
+import "../analytics/PlausibleProvider";
+import "../analytics/BeaconProvider";
+
+import CVDocumentProvider from "./CVDocumentProvider";
+import CVEventDispatcher, { IAnnotationEventDetail, ICameraEventDetail, IExplorerNotificationEvent,
+    ITourEventDetail, ITourStepEventDetail } from "./CVEventDispatcher";
 
 ////////////////////////////////////////////////////////////////////////////////
 
+export { AnalyticsProvider, AnalyticsFactory };
+
+export enum EAnalyticsConsent { Granted, Denied, Pending }
+
+/** Maximum number of events kept while waiting for consent. */
+const _maxPendingEvents = 100;
+/** Minimum time in milliseconds the camera must rest at a view to report the dwell time. */
+const _minDwellTime = 2000;
+
+const _storageEndpoint = "voyager-explorer";
+const _storageId = "analytics-consent";
+
+/**
+ * Sends usage events to the configured analytics providers. By default, events are logged to the console
+ * in development builds and sent to Google Analytics (if the page provides gtag) in production builds.
+ *
+ * Besides the events sent by other components, session events are derived from the events of [[CVEventDispatcher]]:
+ * time spent per annotation, share of steps seen per tour, time the camera rests at a view and session duration.
+ *
+ * If consent is required, events are kept until consent is given and discarded if it is denied.
+ */
 export default class CVAnalytics extends Component
 {
     static readonly typeName: string = "CVAnalytics";
@@ -30,7 +64,55 @@ export default class CVAnalytics extends Component
 
     private _title: string = "Untitled";
     private _timerStart: number = 0;
-    
+    private _session: string = Math.random().toString(36).slice(2, 10);
+    private _sessionStart: number = Date.now();
+
+    private _providers: AnalyticsProvider[] = ENV_DEVELOPMENT ? [ new ConsoleProvider() ] : [ new GoogleProvider() ];
+    private _consent: EAnalyticsConsent = EAnalyticsConsent.Granted;
+    private _consentRequested = false;
+    private _needsConsentPrompt = false;
+    private _pending: IAnalyticsEvent[] = [];
+
+    private _annotation: IAnnotationEventDetail = null;
+    private _annotationStart = 0;
+    private _tour: ITourEventDetail = null;
+    private _tourSteps: number[] = [];
+    private _tourStepCount = 0;
+    private _cameraTime = 0;
+    private _cameraOrbit: number[] = null;
+
+    get consent() {
+        return this._consent;
+    }
+    /** True if the visitor should be asked for consent, see [[requestConsent]]. */
+    get needsConsentPrompt() {
+        return this._needsConsentPrompt && this._consent === EAnalyticsConsent.Pending;
+    }
+    get providers() {
+        return this._providers.slice();
+    }
+
+    constructor(node, id)
+    {
+        super(node, id);
+        this.addEvent("consent");
+        this.onPageHide = this.onPageHide.bind(this);
+    }
+
+    create()
+    {
+        super.create();
+        this.system.components.on(CVEventDispatcher, this.onEventDispatcher, this);
+        window.addEventListener("pagehide", this.onPageHide);
+    }
+
+    dispose()
+    {
+        window.removeEventListener("pagehide", this.onPageHide);
+        this.system.components.off(CVEventDispatcher, this.onEventDispatcher, this);
+        super.dispose();
+    }
+
     startTimer()
     {
         if(this._timerStart === 0)
@@ -52,17 +134,205 @@ export default class CVAnalytics extends Component
         this._title = title;
     }
 
-    sendProperty(property: string, value?: any)
+    /**
+     * Replaces the providers events are sent to.
+     */
+    setProviders(providers: AnalyticsProvider[])
+    {
+        this._providers = providers.slice();
+    }
+
+    /**
+     * Holds back events until consent is given with [[setConsent]]. If prompt is true, a consent prompt
+     * is shown to the visitor, unless the visitor's choice has been stored before. Has no effect if called again.
+     */
+    requestConsent(prompt: boolean)
+    {
+        if (this._consentRequested) {
+            return;
+        }
+
+        this._consentRequested = true;
+
+        if (prompt) {
+            const stored = localStorage.isReady() ? localStorage.get(_storageEndpoint, _storageId) : null;
+
+            if (stored === true || stored === false) {
+                this.setConsent(stored);
+                return;
+            }
+        }
+
+        this._needsConsentPrompt = prompt;
+        this._consent = EAnalyticsConsent.Pending;
+        this.emit("consent");
+    }
+
+    /**
+     * Grants or denies consent. Events held back are sent if consent is granted, discarded otherwise.
+     * If remember is true, the choice is stored and applies to future visits with a consent prompt.
+     */
+    setConsent(granted: boolean, remember?: boolean)
+    {
+        this._consent = granted ? EAnalyticsConsent.Granted : EAnalyticsConsent.Denied;
+        this._needsConsentPrompt = false;
+
+        if (remember && localStorage.isReady()) {
+            localStorage.set(_storageEndpoint, _storageId, granted);
+        }
+
+        const pending = this._pending;
+        this._pending = [];
+
+        if (granted) {
+            pending.forEach(event => this.sendEvent(event));
+        }
+
+        this.emit("consent");
+    }
+
+    sendProperty(property: string, value?: TAnalyticsValue, label?: string)
+    {
+        const event: IAnalyticsEvent = {
+            name: property,
+            title: this._title,
+            session: this._session,
+            time: Date.now(),
+        };
+
+        if (value !== undefined) {
+            event.value = value;
+        }
+        if (label) {
+            event.label = label;
+        }
+
+        switch(this._consent) {
+            case EAnalyticsConsent.Granted:
+                this.sendEvent(event);
+                break;
+            case EAnalyticsConsent.Pending:
+                if (this._pending.length < _maxPendingEvents) {
+                    this._pending.push(event);
+                }
+                break;
+        }
+    }
+
+    protected sendEvent(event: IAnalyticsEvent)
+    {
+        this._providers.forEach(provider => {
+            try {
+                provider.send(event);
+            }
+            catch(error) {
+                console.warn(`CVAnalytics - provider '${(provider.constructor as typeof AnalyticsProvider).typeName}' failed: ${error.message}`);
+            }
+        });
+    }
+
+    protected onEventDispatcher(event: IComponentEvent<CVEventDispatcher>)
+    {
+        if (event.add) {
+            event.object.on<IExplorerNotificationEvent>("notification", this.onNotification, this);
+        }
+        else if (event.remove) {
+            event.object.off<IExplorerNotificationEvent>("notification", this.onNotification, this);
+        }
+    }
+
+    protected onNotification(event: IExplorerNotificationEvent)
+    {
+        switch(event.event) {
+            case "annotation-open":
+                this._annotation = event.detail;
+                this._annotationStart = Date.now();
+                break;
+            case "annotation-close":
+                this.sendAnnotationTime();
+                break;
+            case "tour-start":
+                this.onTourStart(event.detail);
+                break;
+            case "tour-step":
+                this.onTourStep(event.detail);
+                break;
+            case "tour-end":
+                this.sendTourCompletion();
+                break;
+            case "camera-move":
+                this.onCameraMove(event.detail);
+                break;
+        }
+    }
+
+    protected onTourStart(detail: ITourEventDetail)
+    {
+        const document = this.getMainComponent(CVDocumentProvider).activeComponent;
+        const tour = document && document.setup.tours.activeTour;
+
+        this._tour = detail;
+        this._tourSteps = [];
+        this._tourStepCount = tour ? tour.steps.length : 0;
+    }
+
+    protected onTourStep(detail: ITourStepEventDetail)
     {
-        if (ENV_DEVELOPMENT && value !== undefined) {
-            console.log("GA Event %s %s", property, value.toString());
+        if (this._tour && this._tourSteps.indexOf(detail.stepIndex) < 0) {
+            this._tourSteps.push(detail.stepIndex);
         }
+    }
+
+    protected onCameraMove(detail: ICameraEventDetail)
+    {
+        this.sendCameraDwell();
+
+        this._cameraTime = Date.now();
+        this._cameraOrbit = detail.orbit;
+    }
+
+    protected sendAnnotationTime()
+    {
+        const annotation = this._annotation;
 
-        // track custom event
-        if (ENV_PRODUCTION && typeof gtag === "function") {
-            const text : string = value !== undefined ? value.toString() : 'undefined';
-            //@ts-ignore
-            gtag("event", property.toLowerCase(), {"scene_title": this._title, "event_value": text});
+        if (annotation) {
+            this._annotation = null;
+            const seconds = (Date.now() - this._annotationStart) / 1000;
+            this.sendProperty("Annotation_Time", Math.round(seconds * 10) / 10, annotation.title || annotation.id);
         }
     }
-}
\ No newline at end of file
+
+    protected sendTourCompletion()
+    {
+        const tour = this._tour;
+
+        if (tour) {
+            this._tour = null;
+            const count = this._tourStepCount;
+            const completion = count > 0 ? this._tourSteps.length / count : 0;
+            this.sendProperty("Tour_Completion", Math.round(completion * 100) / 100, tour.title);
+        }
+    }
+
+    protected sendCameraDwell()
+    {
+        const time = this._cameraTime;
+        const duration = Date.now() - time;
+
+        if (time > 0 && duration >= _minDwellTime && this._cameraOrbit) {
+            // the view is identified by its rounded orbit angles (pitch, yaw)
+            const view = this._cameraOrbit.slice(0, 2).map(angle => Math.round(angle)).join(",");
+            this.sendProperty("Camera_Dwell", Math.round(duration / 100) / 10, view);
+        }
+
+        this._cameraTime = 0;
+    }
+
+    protected onPageHide()
+    {
+        this.sendAnnotationTime();
+        this.sendTourCompletion();
+        this.sendCameraDwell();
+        this.sendProperty("Session_Time", Math.round((Date.now() - this._sessionStart) / 1000));
+    }
+}
@@ -41,7 +41,7 @@ import "../annotations/ExtendedSprite";
 import "../annotations/CircleSprite";
 import CVARManager from "./CVARManager";
 import CVLanguageManager from "./CVLanguageManager";
-import { ELanguageType, EUnitType } from "client/schema/common";
+import { EUnitType } from "client/schema/common";
 import CVAssetReader from "./CVAssetReader";
 import CVAudioManager from "./CVAudioManager";
 import CVAssetManager from "./CVAssetManager";
@@ -412,10 +412,10 @@ export default class CVAnnotationView extends CObject3D
 
         // update langauges used in annotations
         Object.keys(annotation.data.titles).forEach( key => {
-            this.language.addLanguage(ELanguageType[key]);
+            this.language.addLanguage(key);
         });
         Object.keys(annotation.data.leads).forEach( key => {
-            this.language.addLanguage(ELanguageType[key]);
+            this.language.addLanguage(key);
         });
 
         this.changed = true;
@@ -449,6 +449,24 @@ export default class CVAnnotationView extends CObject3D
         this.changed = true;
     }
 
+    /**
+     * Replaces all annotations with the given data. Keeps the active annotation if its id is still present.
+     */
+    replaceAnnotations(data: IAnnotation[])
+    {
+        const activeId = this.activeAnnotation ? this.activeAnnotation.id : "";
+
+        this.getAnnotations().forEach(annotation => {
+            delete this._annotations[annotation.id];
+            this.removeSprite(annotation);
+        });
+
+        this.fromData(data);
+        this.activeAnnotation = this._annotations[activeId] || null;
+
+        this.changed = true;
+    }
+
     toJSON()
     {
         const json = super.toJSON();
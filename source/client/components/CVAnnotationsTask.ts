@@ -18,26 +18,34 @@
 import { Vector3, Quaternion, Matrix4, Matrix3, Object3D } from "three";
 
 import * as helpers from "@ff/three/helpers";
+import download from "@ff/browser/download";
 
 import { Node, types } from "@ff/graph/Component";
 import { IPointerEvent } from "@ff/scene/RenderView";
 import Notification from "@ff/ui/Notification";
 
 import Annotation from "../models/Annotation";
+import { IAnnotation, EAssetType } from "client/schema/model";
+import {
+    EAnnotationFormat,
+    exportWebAnnotations,
+    exportIIIFAnnotations,
+    exportCSVAnnotations,
+} from "../io/AnnotationInterchange";
 
 import NVNode from "../nodes/NVNode";
 
 import CVDocument from "./CVDocument";
-import CVTask from "./CVTask";
+import CVTask, { IUndoState } from "./CVTask";
 import CVModel2 from "./CVModel2";
 import CVAnnotationView, { IAnnotationsUpdateEvent, IAnnotationClickEvent } from "./CVAnnotationView";
 
 import AnnotationsTaskView from "../ui/story/AnnotationsTaskView";
 import CVScene from "client/components/CVScene";
-import { ELanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
 import { getMeshTransform } from "client/utils/Helpers";
 import CVSnapshots, { EEasingCurve } from "./CVSnapshots";
 import CPulse from "@ff/graph/components/CPulse";
+import CVAssetManager from "./CVAssetManager";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -49,6 +57,11 @@ const _mat3 = new Matrix3();
 
 export enum EAnnotationsTaskMode { Off, Move, Create }
 
+/** How to handle imported annotations with an id already used in the document. */
+export enum EAnnotationConflict { Replace, Rename, Skip }
+
+export { EAnnotationFormat };
+
 export default class CVAnnotationsTask extends CVTask
 {
     static readonly typeName: string = "CVAnnotationsTask";
@@ -59,7 +72,8 @@ export default class CVAnnotationsTask extends CVTask
     protected static readonly ins = {
         mode: types.Enum("Mode", EAnnotationsTaskMode, EAnnotationsTaskMode.Off),
         audio: types.Option("Annotation.Audio", ["None"], 0),
-        selection: types.Event("Annotation.Selection")
+        selection: types.Event("Annotation.Selection"),
+        exportFormat: types.Enum("Annotations.ExportFormat", EAnnotationFormat, EAnnotationFormat.WebAnnotation),
     };
 
 
@@ -150,13 +164,17 @@ export default class CVAnnotationsTask extends CVTask
         if (annotations) {
             const annotation = annotations.activeAnnotation;
             if (annotation) {
+                this.flushUndo();
                 annotations.removeAnnotation(annotation);
+                this.recordUndo("Delete Annotation");
             }
         }
     }
 
     saveAnnotationView()
     {
+        this.flushUndo();
+
         const machine = this._machine;
         const props = machine.getTargetProperties();
         const orbitIdx = props.findIndex((elem) => {return elem.name == "Orbit"});
@@ -181,6 +199,7 @@ export default class CVAnnotationsTask extends CVTask
         annotation.set("viewId", id);
         this._activeAnnotations.updateAnnotation(annotation, true);
 
+        this.recordUndo("Save Annotation View");
     }
 
     restoreAnnotationView()
@@ -201,11 +220,131 @@ export default class CVAnnotationsTask extends CVTask
 
     deleteAnnotationView()
     {
+        this.flushUndo();
+
         const machine = this._machine;
         machine.deleteState(this.selectedState);
         const annotation = this._activeAnnotations.activeAnnotation;
         annotation.set("viewId", "");
         this._activeAnnotations.updateAnnotation(annotation, true);
+
+        this.recordUndo("Delete Annotation View");
+    }
+
+    /**
+     * Returns the ids of the given annotations which are already used in the active document.
+     */
+    findConflicts(data: IAnnotation[]): string[]
+    {
+        const views = this.activeDocument.setup.getGraphComponents(CVAnnotationView);
+        return data.map(json => json.id).filter(id => views.some(view => !!view.getAnnotationById(id)));
+    }
+
+    /**
+     * Merges the given annotations into the annotations of the active model.
+     * Annotations with an id used by another model always get a new id, unless skipped.
+     * @returns The number of imported annotations.
+     */
+    importAnnotations(data: IAnnotation[], conflict: EAnnotationConflict): number
+    {
+        const annotations = this.activeAnnotations;
+        if (!annotations) {
+            return 0;
+        }
+
+        const conflicts = this.findConflicts(data);
+        const merged = annotations.toData() || [];
+        let count = 0;
+
+        data.forEach(json => {
+            if (conflicts.indexOf(json.id) >= 0) {
+                const index = merged.findIndex(existing => existing.id === json.id);
+
+                if (conflict === EAnnotationConflict.Skip) {
+                    return;
+                }
+                if (conflict === EAnnotationConflict.Replace && index >= 0) {
+                    merged[index] = json;
+                    count++;
+                    return;
+                }
+
+                json = { ...json, id: Annotation.generateId() };
+            }
+
+            merged.push(json);
+            count++;
+        });
+
+        if (count > 0) {
+            this.flushUndo();
+            annotations.replaceAnnotations(merged);
+            this.recordUndo("Import Annotations");
+        }
+
+        return count;
+    }
+
+    /**
+     * Downloads the annotations of the active model in the selected export format.
+     */
+    exportAnnotations()
+    {
+        const annotations = this.activeAnnotations;
+        if (!annotations) {
+            return;
+        }
+
+        const model = annotations.getComponent(CVModel2);
+        const data = annotations.toData() || [];
+        const options = {
+            source: this.getModelUrl(model),
+            language: this.activeDocument.setup.language.ins.primarySceneLanguage.value,
+        };
+
+        const fileName = (model.node.name || "model").replace(/[^\w.-]+/g, "_") + "-annotations";
+
+        switch(this.ins.exportFormat.getValidatedValue()) {
+            case EAnnotationFormat.WebAnnotation:
+                download.json(JSON.stringify(exportWebAnnotations(data, options), null, 2), fileName + ".jsonld");
+                break;
+            case EAnnotationFormat.IIIF:
+                download.json(JSON.stringify(exportIIIFAnnotations(data, options), null, 2), fileName + ".iiif.json");
+                break;
+            case EAnnotationFormat.CSV:
+                download.text(exportCSVAnnotations(data, options), fileName + ".csv");
+                break;
+        }
+    }
+
+    // URL of the model asset annotations refer to, falls back to the document with the model's node id
+    protected getModelUrl(model: CVModel2)
+    {
+        const assetManager = this.getMainComponent(CVAssetManager);
+        const derivative = model.activeDerivative;
+        const asset = derivative && (derivative.findAsset(EAssetType.Model) || derivative.findAsset(EAssetType.Geometry));
+
+        if (asset) {
+            return assetManager.getAssetUrl(asset.data.uri);
+        }
+
+        return assetManager.getAssetUrl(this.activeDocument.assetPath) + "#" + model.node.id;
+    }
+
+    protected getUndoState(): IUndoState
+    {
+        const annotations = this._activeAnnotations;
+        if (!annotations) {
+            return null;
+        }
+
+        return { target: annotations, data: JSON.stringify(annotations.toData() || []) };
+    }
+
+    protected applyUndoState(state: IUndoState)
+    {
+        const annotations = state.target as CVAnnotationView;
+        annotations.replaceAnnotations(JSON.parse(state.data));
     }
 
     protected onPointerUp(event: IPointerEvent)
@@ -273,6 +412,8 @@ export default class CVAnnotationsTask extends CVTask
             template.id = Annotation.generateId();
         }
 
+        this.flushUndo();
+
         const model = annotations.getComponent(CVModel2);
         const annotation = new Annotation(template);
         annotation.language = activeLanguage;
@@ -291,6 +432,8 @@ export default class CVAnnotationsTask extends CVTask
         annotations.addAnnotation(annotation);
         annotations.activeAnnotation = annotation;
 
+        this.recordUndo("Create Annotation");
+
         //languageManager.ins.activeLanguage.setValue(primarySceneLanguage);
     }
 
@@ -301,12 +444,16 @@ export default class CVAnnotationsTask extends CVTask
             const annotation = annotations.activeAnnotation;
 
             if (annotation) {
+                this.flushUndo();
+
                 annotation.data.position = position;
                 annotation.data.direction = direction;
                 annotation.update();
 
                 annotations.updateAnnotation(annotation);
                 this.emitUpdateEvent();
+
+                this.recordUndo("Move Annotation");
             }
         }
     }
@@ -331,10 +478,13 @@ export default class CVAnnotationsTask extends CVTask
 
     protected onActiveNode(previous: NVNode, next: NVNode)
     {
+        this.flushUndo();
+
         const prevAnnotations = previous ? previous.getComponent(CVAnnotationView, true) : null;
         const nextAnnotations = next ? next.getComponent(CVAnnotationView, true) : null;
 
         if (prevAnnotations) {
+            prevAnnotations.off<IAnnotationsUpdateEvent>("annotation-update", this.onAnnotationUpdate, this);
             prevAnnotations.off<IAnnotationsUpdateEvent>("annotation-update", this.emitUpdateEvent, this);
             prevAnnotations.off<IAnnotationClickEvent>("click", this.onAnnotationClick, this);
             prevAnnotations.activeAnnotation = null;
@@ -342,6 +492,7 @@ export default class CVAnnotationsTask extends CVTask
         if (nextAnnotations) {
             nextAnnotations.on<IAnnotationClickEvent>("click", this.onAnnotationClick, this);
             nextAnnotations.on<IAnnotationsUpdateEvent>("annotation-update", this.emitUpdateEvent, this);
+            nextAnnotations.on<IAnnotationsUpdateEvent>("annotation-update", this.onAnnotationUpdate, this);
         }
 
         const prevModel = previous ? previous.getComponent(CVModel2, true) : null;
@@ -355,6 +506,7 @@ export default class CVAnnotationsTask extends CVTask
         }
 
         this.activeAnnotations = nextAnnotations;
+        this.resetUndo();
     }
 
     protected emitUpdateEvent()
@@ -363,6 +515,11 @@ export default class CVAnnotationsTask extends CVTask
         this.ins.selection.set();
     }
 
+    protected onAnnotationUpdate()
+    {
+        this.scheduleUndo("Edit Annotation");
+    }
+
     // Handles annotation selection in outside of task.
     protected onAnnotationClick(event: IAnnotationClickEvent) 
     {
@@ -28,12 +28,11 @@ import NVNode from "../nodes/NVNode";
 import CVDocument from "./CVDocument";
 import CVReader from "./CVReader";
 import CVMeta from "./CVMeta";
-import CVTask from "./CVTask";
+import CVTask, { IUndoState } from "./CVTask";
 
 import ArticlesTaskView from "../ui/story/ArticlesTaskView";
 import CVMediaManager, { IAssetRenameEvent } from "./CVMediaManager";
 import CVAssetWriter from "./CVAssetWriter";
-import { ELanguageStringType, ELanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
 import CVStandaloneFileManager from "./CVStandaloneFileManager";
 import CVAnnotationView from "./CVAnnotationView";
 
@@ -121,6 +120,8 @@ export default class CVArticlesTask extends CVTask
         const languageManager = this.activeDocument.setup.language;
 
         if (meta && ins.create.changed) {
+            this.flushUndo();
+
             const article = new Article();
 
             const defaultFolder = CVMediaManager.articleFolder;
@@ -130,12 +131,13 @@ export default class CVArticlesTask extends CVTask
             // because we don't switch current language on article creation
             article.language = languageManager.ins.activeLanguage.value;
             article.title = languageManager.getLocalizedString("New Article");
-            article.uri = `${defaultFolder}/new-article-${article.id}-${ELanguageType[article.language]}.html`;
+            article.uri = `${defaultFolder}/new-article-${article.id}-${article.language}.html`;
 
 
             this.createEditArticle(article);
             meta.articles.append(article);
             this.reader.outs.count.setValue(meta.articles.length);
+            this.recordUndo("Create Article");
             //Disable in eCorpus to prevent unwanted language switches
             //languageManager.ins.activeLanguage.setValue(languageManager.ins.primarySceneLanguage.value);
         }
@@ -146,6 +148,7 @@ export default class CVArticlesTask extends CVTask
             if (activeArticle) {
                 if (ins.uri.changed) {
                     activeArticle.uri = ins.uri.value;
+                    this.scheduleUndo("Edit Article");
                     this.reader.ins.refresh.set();
 
                     if(!this.mediaManager.getAssetByPath(activeArticle.uri)) {
@@ -171,13 +174,16 @@ export default class CVArticlesTask extends CVTask
                     }
                 }
                 if (ins.delete.changed) {
+                    this.flushUndo();
                     this.deleteArticle(activeArticle);
                     this.reader.outs.count.setValue(meta.articles.length);
+                    this.recordUndo("Delete Article");
                 }
                 if (ins.title.changed) {
                     activeArticle.title = ins.title.value;
+                    this.scheduleUndo("Edit Article");
                     /*if (!activeAsset) {
-                        const uri = this.getSafeArticlePath(ins.title.value + "-" + ELanguageType[ins.language.value]);
+                        const uri = this.getSafeArticlePath(ins.title.value + "-" + ins.language.value);
                         activeArticle.uri = uri;
                         ins.uri.setValue(uri, true);
                     }*/
@@ -185,13 +191,18 @@ export default class CVArticlesTask extends CVTask
                 if (ins.lead.changed || ins.tags.changed) {
                     activeArticle.lead = ins.lead.value;
                     activeArticle.tags = ins.tags.value.split(",").map(tag => tag.trim()).filter(tag => !!tag);
+                    this.scheduleUndo("Edit Article");
                 }
                 if (ins.moveArticleUp.changed) {
+                    this.flushUndo();
                     this.meta.articles.moveItem(activeArticle, -1);
+                    this.recordUndo("Move Article");
                     //return true;
                 }
                 if (ins.moveArticleDown.changed) {
+                    this.flushUndo();
                     this.meta.articles.moveItem(activeArticle, 1);
+                    this.recordUndo("Move Article");
                     //return true;
                 }
             }
@@ -217,8 +228,8 @@ export default class CVArticlesTask extends CVTask
         this.meta.articles.removeItem(article);
 
         // Make sure we delete all language variation assets
-        Object.values(ELanguageType).filter((v) => !isNaN(Number(v))).forEach( type => {
-            article.language = type as ELanguageType;
+        Object.keys(article.data.uris).forEach( language => {
+            article.language = language;
             const asset = this.mediaManager.getAssetByPath(article.uri);
             if (asset) {
                 this.mediaManager.delete(asset);
@@ -253,6 +264,38 @@ export default class CVArticlesTask extends CVTask
         .catch(error => MessageBox.show("Error", `Failed to create article at '${uri}'`, "error"));
     }
 
+    /**
+     * Article metadata is recorded for undo/redo. Article content is stored in separate
+     * files and not part of the recorded state.
+     */
+    protected getUndoState(): IUndoState
+    {
+        const meta = this.meta;
+        if (!meta) {
+            return null;
+        }
+
+        return { target: meta, data: JSON.stringify(meta.articles.items.map(article => article.toJSON())) };
+    }
+
+    protected applyUndoState(state: IUndoState)
+    {
+        const meta = state.target as CVMeta;
+        const language = this.activeDocument.setup.language.ins.activeLanguage.value;
+        const leadId = meta.leadArticle ? meta.leadArticle.id : "";
+
+        meta.articles.items = JSON.parse(state.data).map(json => {
+            const article = Article.fromJSON(json);
+            article.language = language;
+            return article;
+        });
+        meta.leadArticle = meta.articles.getById(leadId) || null;
+
+        this.reader.outs.count.setValue(meta.articles.length);
+        this.reader.ins.refresh.set();
+        this.onArticleChange();
+    }
+
     protected getSafeArticlePath(title: string)
     {
         if (!title) {
@@ -283,6 +326,8 @@ export default class CVArticlesTask extends CVTask
 
     protected onActiveNode(previous: NVNode, next: NVNode)
     {
+        this.flushUndo();
+
         if (previous) {
             this.meta = null;
         }
@@ -296,6 +341,7 @@ export default class CVArticlesTask extends CVTask
 
         // update active article
         this.onArticleChange();
+        this.resetUndo();
     }
 
     protected onArticleChange()
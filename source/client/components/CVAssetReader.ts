@@ -20,6 +20,8 @@ import Component, { Node } from "@ff/graph/Component";
 import FileReader from "../io/FileReader";
 import ModelReader from "../io/ModelReader";
 import GeometryReader from "../io/GeometryReader";
+import PointCloudReader from "../io/PointCloudReader";
+import VolumeReader, { IVolumeData } from "../io/VolumeReader";
 import TextureReader from "../io/TextureReader";
 import FontReader, { IBitmapFont } from "../io/FontReader";
 
@@ -27,6 +29,7 @@ import CVAssetManager from "./CVAssetManager";
 import CRenderer from "@ff/scene/components/CRenderer";
 import { Object3D, BufferGeometry, Texture } from "three";
 import AudioReader from "client/io/AudioReader";
+import { IVolumeLayout } from "client/schema/model";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -44,6 +47,8 @@ export default class CVAssetReader extends Component
     readonly fileLoader: FileReader;
     readonly modelLoader: ModelReader;
     readonly geometryLoader: GeometryReader;
+    readonly pointCloudLoader: PointCloudReader;
+    readonly volumeLoader: VolumeReader;
     readonly textureLoader: TextureReader;
     readonly fontReader: FontReader;
     readonly audioReader: AudioReader;
@@ -59,6 +64,8 @@ export default class CVAssetReader extends Component
         this.fileLoader = new FileReader(loadingManager);
         this.modelLoader = new ModelReader(loadingManager, this.renderer);
         this.geometryLoader = new GeometryReader(loadingManager);
+        this.pointCloudLoader = new PointCloudReader(loadingManager);
+        this.volumeLoader = new VolumeReader(loadingManager);
         this.textureLoader = new TextureReader(loadingManager);
         this.fontReader = new FontReader(loadingManager);
         this.audioReader = new AudioReader(loadingManager);
@@ -119,6 +126,18 @@ export default class CVAssetReader extends Component
         return this.geometryLoader.get(url);
     }
 
+    async getPointCloud(assetPath: string): Promise<BufferGeometry>
+    {
+        const url = this.assetManager.getAssetUrl(assetPath);
+        return this.pointCloudLoader.get(url);
+    }
+
+    async getVolume(assetPath: string, layout?: IVolumeLayout): Promise<IVolumeData>
+    {
+        const url = this.assetManager.getAssetUrl(assetPath);
+        return this.volumeLoader.get(url, layout);
+    }
+
     async getTexture(assetPath: string): Promise<Texture>
     {
         const url = this.assetManager.getAssetUrl(assetPath);
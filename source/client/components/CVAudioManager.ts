@@ -22,7 +22,7 @@ import { Dictionary } from "client/../../libs/ff-core/source/types";
 import { IAudioClip } from "client/schema/meta";
 import CVAssetManager from "./CVAssetManager";
 import CVLanguageManager from "./CVLanguageManager";
-import { TLanguageType, ELanguageType } from "client/schema/common";
+import { TLanguageType } from "client/schema/common";
 import Notification from "@ff/ui/Notification";
 import CustomElement, { customElement, html, property, PropertyValues } from "@ff/ui/CustomElement";
 import CVAnalytics from "./CVAnalytics";
@@ -167,17 +167,17 @@ export default class CVAudioManager extends Component
 
     getAudioClipUri(id: string) {
         const clip = this.audioClips[id];
-        return clip ? clip.uris[ELanguageType[this.language.outs.activeLanguage.value]] : null;
+        return clip ? clip.uris[this.language.outs.activeLanguage.value] : null;
     }
 
     getClipCaptionUri(id: string) {
         const clip = this.audioClips[id];
-        return clip ? clip.captionUris[ELanguageType[this.language.outs.activeLanguage.value]] : null;
+        return clip ? clip.captionUris[this.language.outs.activeLanguage.value] : null;
     }
 
     getDuration(id: string) {
         const clip = this.audioClips[id];
-        const activeLanguage = ELanguageType[this.language.outs.activeLanguage.getValidatedValue()] as TLanguageType;
+        const activeLanguage = this.language.outs.activeLanguage.getValidatedValue() as TLanguageType;
         const cachedDuration = clip.durations[activeLanguage];
         if(cachedDuration) {
             return cachedDuration;
@@ -382,14 +382,14 @@ export default class CVAudioManager extends Component
 
         const clip = this.audioClips[id];
         if(clip) {
-            const uri = clip.uris[ELanguageType[this.language.outs.activeLanguage.getValidatedValue()] as TLanguageType];
+            const uri = clip.uris[this.language.outs.activeLanguage.getValidatedValue()];
             if(this.audioPlayer.src != this._audioMap[uri]) {
                 this.audioPlayer.setAttribute("src", this._audioMap[uri]);
                 //this.audioPlayer.load();
             }
 
             // Set caption track source
-            const captionUri = clip.captionUris[ELanguageType[this.language.outs.activeLanguage.getValidatedValue()] as TLanguageType];
+            const captionUri = clip.captionUris[this.language.outs.activeLanguage.getValidatedValue()];
             if(captionUri && (this.audioPlayer.children.length == 0 || 
                 (this.audioPlayer.children[0] as HTMLTrackElement).src != this.assetManager.getAssetUrl(captionUri))) {
 
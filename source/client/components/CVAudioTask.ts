@@ -23,7 +23,6 @@ import AudioTaskView from "../ui/story/AudioTaskView";
 import { Node } from "@ff/graph/Component";
 import CVDocument from "./CVDocument";
 import CVAudioManager from "./CVAudioManager";
-import { DEFAULT_LANGUAGE, ELanguageStringType, ELanguageType } from "client/schema/common";
 
 ////////////////////////////////////////////////////////////////////////////////
 
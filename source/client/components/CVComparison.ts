@@ -0,0 +1,293 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Object3D } from "three";
+
+import Component, { Node, types } from "@ff/graph/Component";
+import CRenderer from "@ff/scene/components/CRenderer";
+import CScene, { ISceneBeforeRenderEvent } from "@ff/scene/components/CScene";
+import CTransform from "@ff/scene/components/CTransform";
+import RenderQuadView, { EQuadViewLayout, ISplitChange } from "@ff/scene/RenderQuadView";
+
+import { IComparison, ECompareMode, ECompareOrientation, TCompareMode, TCompareOrientation } from "client/schema/setup";
+
+import CVModel2 from "./CVModel2";
+import CVAnnotationView from "./CVAnnotationView";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export { ECompareMode, ECompareOrientation };
+
+/**
+ * Compares two sets of models, e.g. scans of an object before and after treatment. The models are
+ * shown in two views with a shared camera, either side by side (split mode) or overlapping, revealing
+ * one set over the other at the position of the split handle (swipe mode).
+ *
+ * The sets are given by node ids. A model belongs to a set if its node or one of its ancestors is listed.
+ * Models not listed are shown in both views. If no node is listed, the first model is compared to all others.
+ */
+export default class CVComparison extends Component
+{
+    static readonly typeName: string = "CVComparison";
+
+    static readonly text: string = "Comparison";
+    static readonly icon: string = "";
+
+    protected static readonly ins = {
+        enabled: types.Boolean("Comparison.Enabled"),
+        mode: types.Enum("Comparison.Mode", ECompareMode),
+        orientation: types.Enum("Comparison.Orientation", ECompareOrientation),
+        position: types.Number("Comparison.Position", { min: 0, max: 1, preset: 0.5 }),
+    };
+
+    ins = this.addInputs(CVComparison.ins);
+
+    /** Ids of the nodes shown in the first (left or top) view. */
+    first: string[] = [];
+    /** Ids of the nodes shown in the second (right or bottom) view. */
+    second: string[] = [];
+
+    get settingProperties() {
+        return [
+            this.ins.enabled,
+            this.ins.mode,
+            this.ins.orientation,
+            this.ins.position,
+        ];
+    }
+
+    protected get renderer() {
+        return this.getMainComponent(CRenderer);
+    }
+    protected get scene() {
+        return this.getSystemComponent(CScene);
+    }
+
+    private _views: RenderQuadView[] = [];
+    private _hidden: Object3D[] = [];
+
+    constructor(node: Node, id: string)
+    {
+        super(node, id);
+        this.onSplit = this.onSplit.bind(this);
+    }
+
+    create()
+    {
+        super.create();
+
+        const scene = this.scene;
+        if (scene) {
+            scene.on<ISceneBeforeRenderEvent>("before-render", this.onBeforeRender, this);
+            scene.on("after-render", this.onAfterRender, this);
+        }
+    }
+
+    dispose()
+    {
+        const scene = this.scene;
+        if (scene) {
+            scene.off<ISceneBeforeRenderEvent>("before-render", this.onBeforeRender, this);
+            scene.off("after-render", this.onAfterRender, this);
+        }
+
+        this.releaseViews();
+        super.dispose();
+    }
+
+    /**
+     * Sets the nodes to be compared, given by their ids.
+     */
+    setNodes(first: string[], second: string[])
+    {
+        this.first = first.slice();
+        this.second = second.slice();
+        this.changed = true;
+    }
+
+    /**
+     * Returns the models shown in the first and the second view only.
+     */
+    getModelSets(): [ CVModel2[], CVModel2[] ]
+    {
+        const models = this.getGraphComponents(CVModel2);
+        const first = this.first;
+        const second = this.second;
+
+        if (first.length === 0 && second.length === 0) {
+            return [ models.slice(0, 1), models.slice(1) ];
+        }
+
+        return [
+            models.filter(model => this.isListed(model, first)),
+            models.filter(model => this.isListed(model, second)),
+        ];
+    }
+
+    update()
+    {
+        const ins = this.ins;
+
+        if (!ins.enabled.value) {
+            this.releaseViews();
+            return true;
+        }
+
+        const views = this.renderer.views.filter(view => view instanceof RenderQuadView) as RenderQuadView[];
+        const isHorizontal = ins.orientation.getValidatedValue() === ECompareOrientation.Horizontal;
+        const layout = isHorizontal ? EQuadViewLayout.HorizontalSplit : EQuadViewLayout.VerticalSplit;
+
+        views.forEach(view => {
+            if (this._views.indexOf(view) < 0) {
+                this._views.push(view);
+                view.on<ISplitChange>("split", this.onSplit);
+            }
+
+            view.swipe = ins.mode.getValidatedValue() === ECompareMode.Swipe;
+
+            if (isHorizontal) {
+                view.horizontalSplit = ins.position.value;
+            }
+            else {
+                view.verticalSplit = ins.position.value;
+            }
+
+            if (view.layout !== layout) {
+                view.layout = layout;
+                // both views show the scene from the main camera
+                view.viewports[1].unsetBuiltInCamera();
+            }
+        });
+
+        return true;
+    }
+
+    fromData(data: IComparison)
+    {
+        data = data || {} as IComparison;
+
+        this.first = data.first ? data.first.slice() : [];
+        this.second = data.second ? data.second.slice() : [];
+
+        this.ins.setValues({
+            enabled: !!data.enabled,
+            mode: ECompareMode[data.mode] || ECompareMode.Split,
+            orientation: ECompareOrientation[data.orientation] || ECompareOrientation.Horizontal,
+            position: data.position !== undefined ? data.position : 0.5,
+        });
+    }
+
+    toData(): IComparison
+    {
+        const ins = this.ins;
+
+        const data: IComparison = {
+            enabled: ins.enabled.value,
+            mode: ECompareMode[ins.mode.getValidatedValue()] as TCompareMode,
+            orientation: ECompareOrientation[ins.orientation.getValidatedValue()] as TCompareOrientation,
+            position: ins.position.value,
+        };
+
+        if (this.first.length > 0) {
+            data.first = this.first.slice();
+        }
+        if (this.second.length > 0) {
+            data.second = this.second.slice();
+        }
+
+        return data;
+    }
+
+    protected isListed(model: CVModel2, ids: string[])
+    {
+        let transform = model.node.getComponent(CTransform, true);
+
+        while (transform) {
+            if (ids.indexOf(transform.node.id) >= 0) {
+                return true;
+            }
+            transform = transform.parent as CTransform;
+        }
+
+        return false;
+    }
+
+    protected releaseViews()
+    {
+        this._views.forEach(view => {
+            view.off<ISplitChange>("split", this.onSplit);
+            view.swipe = false;
+            view.layout = EQuadViewLayout.Single;
+        });
+
+        this._views.length = 0;
+    }
+
+    protected onSplit(event: ISplitChange)
+    {
+        // keep the position in sync with the split handle
+        const isHorizontal = this.ins.orientation.getValidatedValue() === ECompareOrientation.Horizontal;
+        const position = isHorizontal ? event.horizontalSplit : event.verticalSplit;
+
+        if (position !== this.ins.position.value) {
+            this.ins.position.setValue(position);
+        }
+    }
+
+    protected onBeforeRender(event: ISceneBeforeRenderEvent)
+    {
+        const { view, viewport } = event.context;
+
+        if (!this.ins.enabled.value || this._views.indexOf(view as RenderQuadView) < 0) {
+            return;
+        }
+
+        // hide the models of the other set in each view
+        const index = view.viewports.indexOf(viewport);
+        if (index !== 0 && index !== 1) {
+            return;
+        }
+
+        const hiddenModels = this.getModelSets()[1 - index];
+
+        hiddenModels.forEach(model => {
+            this.hide(model.object3D);
+            const annotations = model.getComponent(CVAnnotationView, true);
+            if (annotations) {
+                this.hide(annotations.object3D);
+            }
+        });
+    }
+
+    protected onAfterRender()
+    {
+        const hidden = this._hidden;
+        for (let i = 0, n = hidden.length; i < n; ++i) {
+            hidden[i].visible = true;
+        }
+
+        hidden.length = 0;
+    }
+
+    protected hide(object: Object3D)
+    {
+        if (object && object.visible) {
+            object.visible = false;
+            this._hidden.push(object);
+        }
+    }
+}
@@ -20,7 +20,7 @@ interface ILOD{
  * Expected map sizes in pixels
  * The number given is number of pixels for a square map of the expected quality
  */
-const sizes = {
+export const sizes = {
   [EDerivativeQuality.High]: 4096*4096,
   [EDerivativeQuality.Medium]: 2048*2048,
   [EDerivativeQuality.Low]: 1024*1024,
@@ -15,15 +15,37 @@
  * limitations under the License.
  */
 
-import { Node } from "@ff/graph/Component";
+import { Node, types } from "@ff/graph/Component";
+
+import Notification from "@ff/ui/Notification";
+
+import { EAssetType, EDerivativeQuality, EDerivativeUsage } from "client/schema/model";
+
+import Derivative from "../models/Derivative";
+import DerivativeGenerator, { EGeometryCompression } from "../io/DerivativeGenerator";
 
 import CVTask from "./CVTask";
+import CVAssetReader from "./CVAssetReader";
+import CVAssetWriter from "./CVAssetWriter";
+import { sizes } from "./CVDerivativesController";
 import DerivativesTaskView from "../ui/story/DerivativesTaskView";
 
 ////////////////////////////////////////////////////////////////////////////////
 
 //export enum EDerivativesTaskMode { Off }
 
+export { EGeometryCompression };
+
+/** Default face counts of generated derivatives, as recommended in the documentation. */
+const _faceCounts = {
+    [EDerivativeQuality.Thumb]: 20000,
+    [EDerivativeQuality.Low]: 150000,
+    [EDerivativeQuality.Medium]: 150000,
+    [EDerivativeQuality.High]: 150000,
+    [EDerivativeQuality.Highest]: 500000,
+    [EDerivativeQuality.AR]: 150000,
+};
+
 export default class CVDerivativesTask extends CVTask
 {
     static readonly typeName: string = "CVDerivativesTask";
@@ -33,9 +55,21 @@ export default class CVDerivativesTask extends CVTask
 
     protected static readonly ins = {
         //mode: types.Enum("Mode", EDerivativesTaskMode, EDerivativesTaskMode.Off),
+        quality: types.Enum("Generate.Quality", EDerivativeQuality, EDerivativeQuality.Medium),
+        numFaces: types.Integer("Generate.Faces", _faceCounts[EDerivativeQuality.Medium]),
+        geometryCompression: types.Enum("Generate.GeometryCompression", EGeometryCompression, EGeometryCompression.None),
+        textureCompression: types.Boolean("Generate.TextureCompression", false),
+        generate: types.Event("Generate.Start"),
+    };
+
+    protected static readonly outs = {
+        busy: types.Boolean("Generate.Busy", false),
+        textureCompressionAvailable: types.Boolean("Generate.TextureCompressionAvailable", false),
+        step: types.String("Generate.Step"),
     };
 
     ins = this.addInputs<CVTask, typeof CVDerivativesTask.ins>(CVDerivativesTask.ins);
+    outs = this.addOutputs<CVTask, typeof CVDerivativesTask.outs>(CVDerivativesTask.outs);
 
 
     constructor(node: Node, id: string)
@@ -50,6 +84,13 @@ export default class CVDerivativesTask extends CVTask
         configuration.lodEnabled = false;
     }
 
+    protected get assetReader() {
+        return this.getMainComponent(CVAssetReader);
+    }
+    protected get assetWriter() {
+        return this.getMainComponent(CVAssetWriter);
+    }
+
     createView()
     {
         return new DerivativesTaskView(this);
@@ -57,9 +98,98 @@ export default class CVDerivativesTask extends CVTask
     activateTask(): void {
         this.startObserving();
         super.activateTask()
+
+        new DerivativeGenerator(this.assetReader).isTextureCompressionAvailable()
+        .then(available => this.outs.textureCompressionAvailable.setValue(available));
     }
     deactivateTask(): void {
         this.stopObserving();
         super.deactivateTask();
     }
+
+    update()
+    {
+        const ins = this.ins;
+
+        if (ins.quality.changed) {
+            ins.numFaces.setValue(_faceCounts[ins.quality.getValidatedValue()]);
+        }
+        if (ins.generate.changed) {
+            this.generateDerivative();
+        }
+
+        return true;
+    }
+
+    /**
+     * Generates a derivative of the selected quality from the loaded high quality derivative of the
+     * active model. The derivative is saved next to the source and added to the model's derivatives.
+     */
+    protected async generateDerivative()
+    {
+        const model = this.activeNode && this.activeNode.model;
+        if (!model || this.outs.busy.value) {
+            return;
+        }
+
+        const ins = this.ins;
+        const quality = ins.quality.getValidatedValue();
+        const source = model.derivatives.get(EDerivativeUsage.Web3D, EDerivativeQuality.High);
+
+        if (!source || !source.model) {
+            new Notification("Load the high quality derivative to generate other qualities from it.", "warning", 4000);
+            return;
+        }
+        if (quality >= EDerivativeQuality.High) {
+            new Notification("Select a quality lower than the high quality source.", "warning", 4000);
+            return;
+        }
+
+        const generator = new DerivativeGenerator(this.assetReader);
+        this.outs.busy.setValue(true);
+
+        try {
+            const uri = this.getDerivativeAssetPath(source, quality);
+            const result = await generator.generate(source.model, {
+                numFaces: ins.numFaces.value,
+                imageSize: Math.sqrt(sizes[quality]),
+                geometryCompression: ins.geometryCompression.getValidatedValue(),
+                textureCompression: ins.textureCompression.value && this.outs.textureCompressionAvailable.value,
+            }, step => this.outs.step.setValue(step));
+
+            this.outs.step.setValue("Saving model");
+            await this.assetWriter.put(result.buffer, "model/gltf-binary", uri);
+
+            const derivative = model.derivatives.getOrCreate(EDerivativeUsage.Web3D, quality);
+            const asset = derivative.findAsset(EAssetType.Model) || derivative.createAsset(EAssetType.Model, uri);
+            asset.data.uri = uri;
+            asset.data.mimeType = "model/gltf-binary";
+            asset.data.numFaces = result.numFaces;
+            asset.data.imageSize = result.imageSize;
+            asset.data.byteSize = result.byteSize;
+            asset.update();
+
+            model.outs.updated.set();
+            new Notification(`Saved ${EDerivativeQuality[quality]} derivative to '${uri}' (${result.numFaces} faces).`, "info", 4000);
+        }
+        catch(error) {
+            new Notification(`Failed to generate ${EDerivativeQuality[quality]} derivative: ${error.message}`, "error", 8000);
+        }
+        finally {
+            this.outs.busy.setValue(false);
+            this.outs.step.setValue("");
+        }
+    }
+
+    /** Derives the asset path from the source's asset, e.g. "model-high.glb" becomes "model-medium.glb". */
+    protected getDerivativeAssetPath(source: Derivative, quality: EDerivativeQuality)
+    {
+        const asset = source.findAsset(EAssetType.Model) || source.findAsset(EAssetType.Geometry);
+        if (!asset) {
+            throw new Error("the source derivative doesn't contain a mesh");
+        }
+
+        const baseName = asset.data.uri.replace(/\.[^./]*$/, "").replace(/[-_]high$/i, "");
+        return `${baseName}-${EDerivativeQuality[quality].toLowerCase()}.glb`;
+    }
 }
\ No newline at end of file
@@ -32,7 +32,6 @@ import CVMeta from "./CVMeta";
 import CVSetup from "./CVSetup";
 import CVAssetManager from "./CVAssetManager";
 import CVAnalytics from "client/components/CVAnalytics";
-import { ELanguageType } from "client/schema/common";
 import CVModel2 from "./CVModel2";
 import Notification from "@ff/ui/Notification";
 
@@ -41,7 +40,7 @@ import Notification from "@ff/ui/Notification";
 
 export { IDocument, INodeComponents };
 
-import type { ValidationResult } from "../io/validateDocument";
+import type { ValidationResult, IValidationRequest } from "../io/validateDocument";
 
 /**
  * A Voyager document is a special kind of graph. Its inner graph has a standard structure, and it can
@@ -158,7 +157,7 @@ export default class CVDocument extends CRenderGraph
             outs.title.setValue(ins.title.value);
 
             if(ins.title.value) {
-                this.titles[ELanguageType[language.outs.activeLanguage.value]] = ins.title.value;     
+                this.titles[language.outs.activeLanguage.value] = ins.title.value;     
                 this.updateMeta();
             }
         }
@@ -167,7 +166,7 @@ export default class CVDocument extends CRenderGraph
             const language = this.setup.language;
             outs.intro.setValue(ins.intro.value);
 
-            this.intros[ELanguageType[language.outs.activeLanguage.value]] = ins.intro.value;     
+            this.intros[language.outs.activeLanguage.value] = ins.intro.value;     
             this.updateMeta();
         }
 
@@ -221,7 +220,8 @@ export default class CVDocument extends CRenderGraph
             worker.terminate();
             console.error("CVDocument.validateDocument: unexpected worker error:", ev.message);
         };
-        worker.postMessage(documentData);
+        const request: IValidationRequest = { document: documentData, featureSchemas: CVSetup.getFeatureSchemas() };
+        worker.postMessage(request);
     }
 
     /**
@@ -285,6 +285,51 @@ export default class CVDocument extends CRenderGraph
         this.ref_id = documentData.asset.id;
     }
 
+    /**
+     * Appends the scene nodes of another document as children of a new node, e.g. to compare
+     * the models of two documents. The setup and scene metadata of the other document are ignored.
+     * Node ids are regenerated, relative model asset paths are rebased to the other document's folder.
+     * @param documentData The document data to be appended.
+     * @param assetPath The path to the document asset to be appended.
+     * @returns The new node containing the appended nodes.
+     */
+    appendDocument(documentData: IDocument, assetPath: string): NVNode
+    {
+        if (this.isEmpty()) {
+            throw new Error("empty document, can't append document");
+        }
+
+        this.validateDocument(documentData, (err) => {
+            if (err) {
+                console.error(err);
+                Notification.show(`Document validation failed : ${err.message}`, "error");
+            }
+        });
+
+        const data: IDocument = JSON.parse(JSON.stringify(documentData));
+        const folder = assetPath.substr(0, assetPath.lastIndexOf("/") + 1);
+
+        data.nodes.forEach(node => delete node.id);
+        (data.models || []).forEach(model => model.derivatives.forEach(derivative => derivative.assets.forEach(asset => {
+            if (folder && !/^([a-z][a-z0-9+.-]*:|\/)/i.test(asset.uri)) {
+                asset.uri = folder + asset.uri;
+            }
+        })));
+
+        const parent = this.innerGraph.createCustomNode(NVNode);
+        parent.name = this.getMainComponent(CVAssetManager).getAssetName(assetPath);
+        this.root.transform.addChild(parent.transform);
+
+        const pathMap = new Map<string, Component>();
+        data.scenes[data.scene].nodes.forEach(rootIndex => {
+            const rootNode = this.innerGraph.createCustomNode(NVNode);
+            parent.transform.addChild(rootNode.transform);
+            rootNode.fromDocument(data, rootIndex, pathMap);
+        });
+
+        return parent;
+    }
+
     appendModel(assetPath: string, quality?: EDerivativeQuality | string, parent?: NVNode | NVScene) : CVModel2
     {
         if (parent && parent.graph !== this.innerGraph) {
@@ -321,6 +366,28 @@ export default class CVDocument extends CRenderGraph
 
         const model = modelNode.model;
         model.derivatives.createMeshAsset(geoPath, colorMapPath, occlusionMapPath, normalMapPath, quality);
+
+        return model;
+    }
+
+    appendPoints(pointsPath: string, quality?: EDerivativeQuality | string, parent?: NVNode | NVScene)
+    {
+        if (parent && parent.graph !== this.innerGraph) {
+            throw new Error("invalid parent node");
+        }
+        if (this.isEmpty()) {
+            throw new Error("empty document, can't append point cloud");
+        }
+
+        parent = parent || this.root;
+        const modelNode = this.innerGraph.createCustomNode(NVNode);
+        parent.transform.addChild(modelNode.transform);
+        modelNode.createModel();
+
+        const model = modelNode.model;
+        model.derivatives.createPointsAsset(pointsPath, quality);
+
+        return model;
     }
 
     deflateDocument(components?: INodeComponents): IDocument
@@ -371,13 +438,13 @@ export default class CVDocument extends CRenderGraph
 
                 // TODO: Temporary - remove when single string properties are phased out
                 if(Object.keys(this.titles).length === 0) {
-                    this.titles[ELanguageType[language.outs.activeLanguage.value]] = meta.collection.get("title") || "";
+                    this.titles[language.outs.activeLanguage.value] = meta.collection.get("title") || "";
                     meta.collection.dictionary["titles"] = this.titles;
                 }
 
-                const title = this.titles[ELanguageType[language.outs.activeLanguage.value]];
+                const title = this.titles[language.outs.activeLanguage.value];
                 propTitle.setValue(title);
-                const intro = this.intros[ELanguageType[language.outs.activeLanguage.value]] || "";
+                const intro = this.intros[language.outs.activeLanguage.value] || "";
                 propIntro.setValue(intro);
                 this.analytics.setTitle(title);
                 this._meta = meta;
@@ -388,9 +455,9 @@ export default class CVDocument extends CRenderGraph
     protected onLanguageUpdate() {
         const language = this.setup.language;
 
-        const newTitle = this.titles[ELanguageType[language.outs.activeLanguage.value]];
+        const newTitle = this.titles[language.outs.activeLanguage.value];
         this.ins.title.setValue(newTitle);
-        const newIntro = this.intros[ELanguageType[language.outs.activeLanguage.value]] || "";
+        const newIntro = this.intros[language.outs.activeLanguage.value] || "";
         this.ins.intro.setValue(newIntro);
     }
 
@@ -30,7 +30,8 @@ import CVEnvironmentLight from "./lights/CVEnvironmentLight";
 import CVModel2, { IModelLoadEvent } from "./CVModel2";
 
 
-const images = ["studio_small_08_1k.hdr", "capture_tent_mockup-v2-1k.hdr", "spruit_sunrise_1k_HDR.hdr"];
+/** Built-in environment maps, in the system asset folder "images/". */
+export const environmentImages = ["studio_small_08_1k.hdr", "capture_tent_mockup-v2-1k.hdr", "spruit_sunrise_1k_HDR.hdr"];
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -42,7 +43,7 @@ export default class CVEnvironment extends Component
     static readonly text: string = "Environment";
 
     protected static readonly envIns = {
-        imageIndex: types.Integer("Environment.MapIndex", { preset: 0, options: images.map( function(item, index) {return index.toString();}) }),
+        imageIndex: types.Integer("Environment.MapIndex", { preset: 0, options: environmentImages.map( function(item, index) {return index.toString();}) }),
         initialize: types.Event("Environment.Init"),
         intensity: types.Number("Environment.Intensity", {preset:1, min: 0,}),
         rotation: types.Vector3("Environment.Rotation"),
@@ -55,7 +56,7 @@ export default class CVEnvironment extends Component
     private _target: WebGLRenderTarget = null;
     private _pmremGenerator :PMREMGenerator = null;
     private _currentIdx = 0;
-    private _imageOptions: string[] = images.slice();
+    private _imageOptions: string[] = environmentImages.slice();
     private _loadingCount = 0;
     private _hasContent = false;
     private _isLegacy = false;      // flag if scene is legacy (no loaded env light)
@@ -215,7 +216,7 @@ export default class CVEnvironment extends Component
 
             const mapName = this._imageOptions[ins.imageIndex.value];
 
-            if(images.includes(mapName)) {
+            if(environmentImages.includes(mapName)) {
                 this._loadingCount++;
                 this.assetReader.getSystemTexture("images/"+mapName).then(texture => {
                     this.updateEnvironmentMap(texture, mapName);
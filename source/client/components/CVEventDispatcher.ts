@@ -0,0 +1,300 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ITypedEvent } from "@ff/graph/Component";
+
+import { TLanguageType } from "client/schema/common";
+
+import CVDocumentObserver from "./CVDocumentObserver";
+import CVDocument from "./CVDocument";
+import CVARManager from "./CVARManager";
+import CVAnnotationView from "./CVAnnotationView";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Minimum time in milliseconds between two camera events. */
+const _cameraInterval = 250;
+
+export interface IAnnotationEventDetail
+{
+    id: string;
+    title: string;
+}
+
+export interface ITourEventDetail
+{
+    tourIndex: number;
+    title: string;
+}
+
+export interface ITourStepEventDetail extends ITourEventDetail
+{
+    stepIndex: number;
+    stepTitle: string;
+}
+
+export interface IArticleEventDetail
+{
+    id: string;
+    title: string;
+}
+
+export interface ILanguageEventDetail
+{
+    /** BCP-47 language tag, e.g. "en", as returned by getActiveLanguage(). */
+    language: TLanguageType;
+}
+
+export interface ICameraEventDetail
+{
+    /** Orbit angles (pitch, yaw, roll) in degrees. */
+    orbit: number[];
+    /** Camera offset in scene units. */
+    offset: number[];
+}
+
+/**
+ * Events dispatched on the explorer element, with the type of their detail payload.
+ */
+export interface IExplorerEventMap
+{
+    /** A model derivative has been loaded, detail is its quality. */
+    "model-load": string;
+    /** An annotation has been clicked, detail is its id or empty. */
+    "annotation-active": string;
+    "annotation-open": IAnnotationEventDetail;
+    "annotation-close": IAnnotationEventDetail;
+    "tour-start": ITourEventDetail;
+    "tour-step": ITourStepEventDetail;
+    "tour-end": ITourEventDetail;
+    "article-open": IArticleEventDetail;
+    "language-change": ILanguageEventDetail;
+    "ar-launch": {};
+    "camera-move": ICameraEventDetail;
+}
+
+export type TExplorerEventType = keyof IExplorerEventMap;
+
+/**
+ * Emitted by [[CVEventDispatcher]] for each dispatched event, e.g. to forward it to an embedding page.
+ */
+export interface IExplorerNotificationEvent extends ITypedEvent<"notification">
+{
+    event: TExplorerEventType;
+    detail: any;
+}
+
+/**
+ * Dispatches DOM custom events on the explorer's root element when the visitor interacts with
+ * the active document, so host pages can react. Each event is also emitted as "notification" event.
+ */
+export default class CVEventDispatcher extends CVDocumentObserver
+{
+    static readonly typeName: string = "CVEventDispatcher";
+
+    static readonly isSystemSingleton = true;
+
+    private _annotation: IAnnotationEventDetail = null;
+    private _tour: ITourEventDetail = null;
+    private _stepIndex = -1;
+    private _articleId = "";
+    private _cameraTimer = 0;
+    private _cameraPending = false;
+
+    protected get arManager() {
+        return this.getMainComponent(CVARManager);
+    }
+
+    constructor(node, id)
+    {
+        super(node, id);
+        this.addEvent("notification");
+        this.onCameraTimer = this.onCameraTimer.bind(this);
+    }
+
+    create()
+    {
+        super.create();
+        this.startObserving();
+        this.arManager.outs.isPresenting.on("value", this.onARPresenting, this);
+    }
+
+    dispose()
+    {
+        this.arManager.outs.isPresenting.off("value", this.onARPresenting, this);
+        this.stopObserving();
+        window.clearTimeout(this._cameraTimer);
+        super.dispose();
+    }
+
+    /**
+     * Dispatches an event on the root element of the active document's viewer.
+     */
+    dispatch<K extends TExplorerEventType>(type: K, detail: IExplorerEventMap[K])
+    {
+        const document = this.activeDocument;
+        const rootElement = document && document.setup.viewer.rootElement;
+
+        if (rootElement) {
+            rootElement.dispatchEvent(new CustomEvent(type, { detail }));
+        }
+
+        this.emit<IExplorerNotificationEvent>({ type: "notification", event: type, detail });
+    }
+
+    protected onActiveDocument(previous: CVDocument, next: CVDocument)
+    {
+        if (previous) {
+            const setup = previous.setup;
+            setup.viewer.ins.activeAnnotation.off("value", this.onAnnotation, this);
+            setup.tours.ins.enabled.off("value", this.onTour, this);
+            setup.tours.outs.tourIndex.off("value", this.onTour, this);
+            setup.tours.outs.stepIndex.off("value", this.onTourStep, this);
+            setup.reader.outs.article.off("value", this.onArticle, this);
+            setup.language.outs.activeLanguage.off("value", this.onLanguage, this);
+            setup.navigation.ins.orbit.off("value", this.onCamera, this);
+            setup.navigation.ins.offset.off("value", this.onCamera, this);
+        }
+
+        this._annotation = null;
+        this._tour = null;
+        this._stepIndex = -1;
+        this._articleId = "";
+
+        if (next) {
+            const setup = next.setup;
+            setup.viewer.ins.activeAnnotation.on("value", this.onAnnotation, this);
+            setup.tours.ins.enabled.on("value", this.onTour, this);
+            setup.tours.outs.tourIndex.on("value", this.onTour, this);
+            setup.tours.outs.stepIndex.on("value", this.onTourStep, this);
+            setup.reader.outs.article.on("value", this.onArticle, this);
+            setup.language.outs.activeLanguage.on("value", this.onLanguage, this);
+            setup.navigation.ins.orbit.on("value", this.onCamera, this);
+            setup.navigation.ins.offset.on("value", this.onCamera, this);
+        }
+    }
+
+    protected onAnnotation(id: string)
+    {
+        const current = this._annotation;
+        if (current && current.id === id) {
+            return;
+        }
+
+        if (current) {
+            this._annotation = null;
+            this.dispatch("annotation-close", current);
+        }
+
+        if (id) {
+            const views = this.activeDocument.setup.viewer.getGraphComponents(CVAnnotationView);
+            const view = views.find(view => !!view.getAnnotationById(id));
+            const annotation = view && view.getAnnotationById(id);
+
+            this._annotation = { id, title: annotation ? annotation.title : "" };
+            this.dispatch("annotation-open", this._annotation);
+        }
+    }
+
+    protected onTour()
+    {
+        const tours = this.activeDocument.setup.tours;
+        const tourIndex = tours.ins.enabled.value ? tours.outs.tourIndex.value : -1;
+        const current = this._tour;
+
+        if (current && current.tourIndex === tourIndex) {
+            return;
+        }
+
+        if (current) {
+            this._tour = null;
+            this._stepIndex = -1;
+            this.dispatch("tour-end", current);
+        }
+
+        if (tourIndex >= 0 && tours.activeTour) {
+            this._tour = { tourIndex, title: tours.title };
+            this.dispatch("tour-start", this._tour);
+        }
+    }
+
+    protected onTourStep(stepIndex: number)
+    {
+        const tours = this.activeDocument.setup.tours;
+        const tour = this._tour;
+
+        if (!tour || stepIndex < 0 || stepIndex === this._stepIndex || !tours.activeStep) {
+            return;
+        }
+
+        this._stepIndex = stepIndex;
+        this.dispatch("tour-step", { ...tour, stepIndex, stepTitle: tours.stepTitle });
+    }
+
+    protected onArticle()
+    {
+        const article = this.activeDocument.setup.reader.activeArticle;
+        const id = article ? article.id : "";
+
+        if (id !== this._articleId) {
+            this._articleId = id;
+
+            if (article) {
+                this.dispatch("article-open", { id, title: article.title });
+            }
+        }
+    }
+
+    protected onLanguage(language: TLanguageType)
+    {
+        this.dispatch("language-change", { language: language });
+    }
+
+    protected onARPresenting(isPresenting: boolean)
+    {
+        if (isPresenting) {
+            this.dispatch("ar-launch", {});
+        }
+    }
+
+    protected onCamera()
+    {
+        // throttle camera events, the last change is always dispatched
+        if (this._cameraTimer) {
+            this._cameraPending = true;
+            return;
+        }
+
+        const navigationIns = this.activeDocument.setup.navigation.ins;
+        this.dispatch("camera-move", {
+            orbit: navigationIns.orbit.value.slice(),
+            offset: navigationIns.offset.value.slice(),
+        });
+
+        this._cameraTimer = window.setTimeout(this.onCameraTimer, _cameraInterval);
+    }
+
+    protected onCameraTimer()
+    {
+        this._cameraTimer = 0;
+
+        if (this._cameraPending && this.activeDocument) {
+            this._cameraPending = false;
+            this.onCamera();
+        }
+    }
+}
@@ -16,11 +16,12 @@
  */
 
 import Component, { types } from "@ff/graph/Component";
+import Property from "@ff/graph/Property";
 import { ILanguage, ILanguageOption } from "client/schema/setup";
-import { ELanguageType, TLanguageType, ELanguageStringType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { TLanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { getLanguageDirection, getLanguageName, getResourcePath, normalizeLanguage, toDocumentLanguage, TLanguageDirection } from "client/utils/languages";
 import CVAssetReader from "./CVAssetReader";
 import { ITagUpdateEvent } from "./CVModel2";
-import { enumToArray } from "@ff/core/types";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -31,7 +32,8 @@ export interface ITranslation {
 
 /**
  * Component that manages current language options and
- * facilitates the switching of languages.
+ * facilitates the switching of languages. Languages are identified by BCP-47 tags,
+ * see [[languageRegistry]] for the languages with user interface strings.
  */
 export default class CVLanguageManager extends Component
 {
@@ -44,7 +46,7 @@ export default class CVLanguageManager extends Component
 
     private _uiLanguageTranslations: ITranslation = {}; // Translations for ui language
 
-    private _sceneLanguages: {[key in TLanguageType]?: ILanguageOption} = {}; // All available languages in the scene
+    private _sceneLanguages: {[key: string]: ILanguageOption} = {}; // All available languages in the scene
 
     private _activeSeneLanguageTranslations: ITranslation = {};  // Translation in the active language
 
@@ -52,27 +54,15 @@ export default class CVLanguageManager extends Component
 
     protected static readonly ins = {
         enabled: types.Boolean("Language.Enabled", false),
-        uiLanguage: types.Enum("Interface.Language", ELanguageType, {
-            preset: ELanguageType[DEFAULT_LANGUAGE],
-            enum: ELanguageType,
-            options: enumToArray(ELanguageStringType).map(key => ELanguageStringType[key])
-        }),
-        primarySceneLanguage: types.Enum("Interface.Language", ELanguageType, {
-            preset: ELanguageType[DEFAULT_LANGUAGE],
-            enum: ELanguageType,
-            options: enumToArray(ELanguageStringType).map(key => ELanguageStringType[key])
-        }),
-        activeLanguage: types.Enum("Interface.Language", ELanguageType, {
-            preset: ELanguageType[DEFAULT_LANGUAGE],
-            enum: ELanguageType,
-            options: enumToArray(ELanguageStringType).map(key => ELanguageStringType[key])
-        }),
+        uiLanguage: types.String("Interface.Language", { preset: DEFAULT_LANGUAGE, semantic: "language" }),
+        primarySceneLanguage: types.String("Interface.Language", { preset: DEFAULT_LANGUAGE, semantic: "language" }),
+        activeLanguage: types.String("Interface.Language", { preset: DEFAULT_LANGUAGE, semantic: "language" }),
     };
 
     protected static readonly outs = {
-        /* exception to default language: in absence of any dictionary, this is always EN */
-        activeLanguage: types.Enum("Interface.Language", ELanguageType, ELanguageType.EN ),
-        uiLanguage: types.Enum("Interface.Language", ELanguageType, ELanguageType.EN ),
+        /* exception to default language: in absence of any dictionary, this is always en */
+        activeLanguage: types.String("Interface.Language", "en"),
+        uiLanguage: types.String("Interface.Language", "en"),
     };
 
     ins = this.addInputs(CVLanguageManager.ins);
@@ -91,12 +81,20 @@ export default class CVLanguageManager extends Component
      */
     nameString() :string
     {
-        return ELanguageStringType[ELanguageType[this.ins.activeLanguage.value]];
+        return getLanguageName(this.ins.activeLanguage.value);
     }
 
     codeString()
     {
-        return ELanguageType[this.ins.activeLanguage.value] as TLanguageType;
+        return this.ins.activeLanguage.value as TLanguageType;
+    }
+
+    /**
+     * @returns Writing direction of the active language, "ltr" or "rtl"
+     */
+    directionString(): TLanguageDirection
+    {
+        return getLanguageDirection(this.outs.activeLanguage.value);
     }
 
     create()
@@ -107,6 +105,13 @@ export default class CVLanguageManager extends Component
     update()
     {
         const { ins, outs } = this;
+
+        if (ins.activeLanguage.changed) {
+            this.normalize(ins.activeLanguage);
+        }
+        if (ins.uiLanguage.changed) {
+            this.normalize(ins.uiLanguage);
+        }
         
         if(this.sceneLanguages.length == 0 && ins.activeLanguage.value == outs.activeLanguage.value) {
             this.addLanguage(outs.activeLanguage.value);
@@ -116,7 +121,7 @@ export default class CVLanguageManager extends Component
         if (ins.activeLanguage.changed && ins.activeLanguage.value != outs.activeLanguage.value) {
             const newLanguage = ins.activeLanguage.value;
             this.addLanguage(newLanguage);
-            this.assetReader.getSystemJSON("language/string.resources." + ELanguageType[this.ins.activeLanguage.value].toLowerCase() + ".json").then( json => {
+            this.assetReader.getSystemJSON(getResourcePath(newLanguage)).then( json => {
                 this._activeSeneLanguageTranslations = json;
                 this.updateLanguage(newLanguage);
                 
@@ -125,7 +130,7 @@ export default class CVLanguageManager extends Component
         }
 
         if (ins.uiLanguage.changed) {
-            this.assetReader.getSystemJSON("language/string.resources." + ELanguageType[this.ins.uiLanguage.value].toLowerCase() + ".json").then( json => {
+            this.assetReader.getSystemJSON(getResourcePath(ins.uiLanguage.value)).then( json => {
                 this._uiLanguageTranslations = json;
                 this.updateUILanguage(ins.uiLanguage.value);
             });
@@ -139,10 +144,10 @@ export default class CVLanguageManager extends Component
         const { ins, outs } = this;
         data = data || {} as ILanguage;
 
-        const language = ELanguageType[data.language || "EN"] ?? ELanguageType[DEFAULT_LANGUAGE];
-        this.ins.primarySceneLanguage.setValue(ELanguageType[data.language || "EN"] ?? ELanguageType[DEFAULT_LANGUAGE]);
+        const language = normalizeLanguage(data.language) || DEFAULT_LANGUAGE;
+        this.ins.primarySceneLanguage.setValue(language);
 
-        this.assetReader.getSystemJSON("language/string.resources." + ELanguageType[this.ins.primarySceneLanguage.value].toLowerCase() + ".json").then(json => 
+        this.assetReader.getSystemJSON(getResourcePath(language)).then(json => 
             {this._sceneSetupTranslations = json});
 
         ins.activeLanguage.setValue(language);
@@ -153,27 +158,30 @@ export default class CVLanguageManager extends Component
         const ins = this.ins;
 
         return {
-            language: ELanguageType[ins.activeLanguage.getValidatedValue()] as TLanguageType,
+            language: toDocumentLanguage(ins.activeLanguage.value),
         };
     }
 
-    addLanguage(language: ELanguageType) {
-        this._sceneLanguages[ELanguageType[language]] ??= { id: language, name: ELanguageStringType[ELanguageType[language]] };
+    addLanguage(language: TLanguageType) {
+        const code = normalizeLanguage(language);
+        if (code) {
+            this._sceneLanguages[code] ??= { id: code, name: getLanguageName(code) };
+        }
     }
 
     getLocalizedString(text: string): string
     {
-        return  this.getLocalizedStringIn (text, this._activeSeneLanguageTranslations, ELanguageType[this.outs.activeLanguage.value]);
+        return  this.getLocalizedStringIn (text, this._activeSeneLanguageTranslations, this.outs.activeLanguage.value);
     }
 
     getUILocalizedString(text: string): string
     {   
-        return this.getLocalizedStringIn(text, this._uiLanguageTranslations, ELanguageType[this.outs.uiLanguage.value]);
+        return this.getLocalizedStringIn(text, this._uiLanguageTranslations, this.outs.uiLanguage.value);
     }
 
     getSceneSetupLocalizedString(text: string): string
     {   
-        return this.getLocalizedStringIn(text, this._sceneSetupTranslations, this.ins.primarySceneLanguage.value.toString());
+        return this.getLocalizedStringIn(text, this._sceneSetupTranslations, this.ins.primarySceneLanguage.value);
     }
 
     protected getLocalizedStringIn(text: string, dictionary :ITranslation = {}, languageString: string): string {
@@ -183,17 +191,29 @@ export default class CVLanguageManager extends Component
         }
         
         if(ENV_DEVELOPMENT && typeof dictionary[text] === "undefined" 
-            && ELanguageType[this.ins.activeLanguage.value] != DEFAULT_LANGUAGE 
+            && this.ins.activeLanguage.value != DEFAULT_LANGUAGE 
             && this.ins.activeLanguage.value == this.outs.activeLanguage.value //Prevent showing this message if dictionary is loading
         ){
-            console.groupCollapsed(`Missing translation string "${text}" for "${ELanguageStringType[languageString]}"`);
+            console.groupCollapsed(`Missing translation string "${text}" for "${getLanguageName(languageString)}"`);
             console.trace();
             console.groupEnd();
         }
         return dictionary[text] || text;
     }
 
-    protected updateLanguage = (language: ELanguageType) => 
+    /**
+     * Converts the value of a language property to its canonical form, e.g. "EN" to "en".
+     * Invalid values are replaced with the default language.
+     */
+    protected normalize(property: Property<string>)
+    {
+        const language = normalizeLanguage(property.value) || DEFAULT_LANGUAGE;
+        if (language !== property.value) {
+            property.setValue(language, true);
+        }
+    }
+
+    protected updateLanguage = (language: TLanguageType) => 
     {
         const { ins, outs } = this;
         if(ins.activeLanguage.value === language){
@@ -202,7 +222,7 @@ export default class CVLanguageManager extends Component
         }
     }
 
-    protected updateUILanguage = (uiLanguage: ELanguageType) => 
+    protected updateUILanguage = (uiLanguage: TLanguageType) => 
     {
         const { ins, outs } = this;
         if(ins.uiLanguage.value === uiLanguage){
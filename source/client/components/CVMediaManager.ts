@@ -26,10 +26,11 @@ import MainView from "client/ui/explorer/MainView";
 import CVDocumentProvider from "./CVDocumentProvider";
 import ImportMenu from "client/ui/story/ImportMenu";
 import CVModel2, { IModelLoadEvent } from "./CVModel2";
-import { EDerivativeUsage } from "client/schema/model";
+import { EAssetType, EDerivativeUsage } from "client/schema/model";
 import CSelection from "@ff/graph/components/CSelection";
 import CVMeta from "./CVMeta";
 import Article from "client/models/Article";
+import PointCloudReader from "client/io/PointCloudReader";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -134,7 +135,7 @@ export default class CVMediaManager extends CAssetManager
             const cleanfileName = decodeURI(file.name);
             const filenameLower = cleanfileName.toLowerCase();
             
-            if (filenameLower.match(/\.(gltf|glb|bin|svx.json|html|jpg|jpeg|png|usdz|mp3|vtt)$/)) {
+            if (filenameLower.match(/\.(gltf|glb|bin|svx.json|html|jpg|jpeg|png|usdz|mp3|vtt|obj|ply|stl|3mf|fbx|pcd|xyz|las)$/)) {
 
                 if(!documentProvided && filenameLower.match(/\.(jpg|jpeg|png)$/) && !fileArray.some(entry => entry[0].endsWith("gltf"))) {
                     path = CVMediaManager.articleFolder + "/" + cleanfileName;
@@ -157,6 +158,10 @@ export default class CVMediaManager extends CAssetManager
                 else if (!documentProvided && filenameLower.match(/\.(gltf|glb)$/)) {
                     this.uploadFile(normalizedPath, file, this.root).then(() => this.handleModelImport(normalizedPath));
                 }
+                else if (!documentProvided && filenameLower.match(/\.(obj|ply|stl|3mf|fbx|pcd|xyz|las)$/)) {
+                    Promise.all([ PointCloudReader.isPointCloudFile(file), this.uploadFile(normalizedPath, file, this.root) ])
+                    .then(([ isPoints ]) => this.handleModelImport(normalizedPath, isPoints ? EAssetType.Points : EAssetType.Geometry));
+                }
                 else {
                     this.uploadFile(normalizedPath, file, this.root);
                 }
@@ -167,7 +172,7 @@ export default class CVMediaManager extends CAssetManager
         });
     }
 
-    protected handleModelImport(filepath: string) {
+    protected handleModelImport(filepath: string, assetType = EAssetType.Model) {
         const mainView : MainView = document.getElementsByTagName('voyager-story')[0] as MainView;
         const activeDoc = this.getMainComponent(CVDocumentProvider).activeComponent;
         const filename = filepath.substr(filepath.lastIndexOf("/") + 1);
@@ -178,7 +183,8 @@ export default class CVMediaManager extends CAssetManager
             const model = this.getSystemComponents(CVModel2).find(element => element.node.name === parentName);
             if(model === undefined) {
                 // converting path to relative (TODO: check if all browsers will have leading slash here)
-                const newModel = activeDoc.appendModel(filepath, quality);
+                const newModel = assetType === EAssetType.Points ? activeDoc.appendPoints(filepath, quality) :
+                    assetType === EAssetType.Geometry ? activeDoc.appendGeometry(filepath, null, null, null, quality) : activeDoc.appendModel(filepath, quality);
                 const name = parentName;
                 newModel.node.name = name;
                 newModel.ins.name.setValue(name);
@@ -188,7 +194,15 @@ export default class CVMediaManager extends CAssetManager
             }
             else {
                 model.derivatives.remove(EDerivativeUsage.Web3D, quality);
-                model.derivatives.createModelAsset(filepath, quality)
+                if (assetType === EAssetType.Points) {
+                    model.derivatives.createPointsAsset(filepath, quality);
+                }
+                else if (assetType === EAssetType.Geometry) {
+                    model.derivatives.createMeshAsset(filepath, null, null, null, quality);
+                }
+                else {
+                    model.derivatives.createModelAsset(filepath, quality);
+                }
                 model.ins.quality.setValue(quality);
                 model.outs.updated.set();
                 model.once<IModelLoadEvent>("model-load", () => {selection.selectNode(model.node); 
@@ -22,8 +22,9 @@ import Component from "@ff/graph/Component";
 import { IDocument, INode, IScene } from "client/schema/document";
 import { IMeta, IImage, INote, IAudioClip, IAction } from "client/schema/meta";
 
+import { normalizeLanguageKeys, toDocumentLanguageKeys } from "client/utils/languages";
+
 import Article from "../models/Article";
-import { ELanguageType } from "client/schema/common";
 import CVLanguageManager from "./CVLanguageManager";
 
 ////////////////////////////////////////////////////////////////////////////////
@@ -59,10 +60,15 @@ export default class CVMeta extends Component
         const data = document.metas[node.meta];
 
         if (data.collection) {
+            [ "titles", "intros" ].forEach(key => {
+                if (data.collection[key]) {
+                    data.collection[key] = normalizeLanguageKeys(data.collection[key]);
+                }
+            });
             this.collection.dictionary = data.collection;
             if(this.collection.get("titles")) {
                 Object.keys(this.collection.get("titles")).forEach( key => {
-                    this.language.addLanguage(ELanguageType[key]);
+                    this.language.addLanguage(key);
                 });
             }
         }
@@ -82,7 +88,7 @@ export default class CVMeta extends Component
 
             this.articles.items.forEach( article => {
                 Object.keys(article.data.titles).forEach( key => {
-                   this.language.addLanguage(ELanguageType[key]);
+                   this.language.addLanguage(key);
                 });
                 article.language = this.language.outs.activeLanguage.value;
             });
@@ -90,7 +96,8 @@ export default class CVMeta extends Component
         if (data.audio) {
             const audioDict = {};
             data.audio.forEach(clip => {
-                clip.captionUris = clip.captionUris || {};
+                clip.uris = normalizeLanguageKeys(clip.uris) || {};
+                clip.captionUris = normalizeLanguageKeys(clip.captionUris) || {};
                 clip.durations = {};
                 audioDict[clip.id] = clip;
             });
@@ -115,8 +122,14 @@ export default class CVMeta extends Component
         let data: IMeta = null;
 
         if (this.collection.length > 0) {
+            const collection = Object.assign({}, this.collection.dictionary);
+            [ "titles", "intros" ].forEach(key => {
+                if (collection[key]) {
+                    collection[key] = toDocumentLanguageKeys(collection[key]);
+                }
+            });
             data = {
-                collection: this.collection.dictionary,
+                collection,
             };
         }
         if (this.process.length > 0) {
@@ -141,6 +154,10 @@ export default class CVMeta extends Component
             data.audio.forEach(clip => {
                 clip.durations = {}; // don't save durations
             });
+            data.audio = data.audio.map(clip => Object.assign({}, clip, {
+                uris: toDocumentLanguageKeys(clip.uris),
+                captionUris: toDocumentLanguageKeys(clip.captionUris),
+            }));
         }
         if (this.actions.length > 0) {
             data = data || {};
@@ -26,7 +26,7 @@ import * as helpers from "@ff/three/helpers";
 
 import { IDocument, INode } from "client/schema/document";
 import { EShaderMode } from "client/schema/setup";
-import { EDerivativeQuality, EDerivativeUsage, EUnitType, IModel, ESideType, TSideType, EAssetType, EMapType, IPBRMaterialSettings } from "client/schema/model";
+import { EDerivativeQuality, EDerivativeUsage, EUnitType, IModel, ESideType, TSideType, EAssetType, EMapType, IPBRMaterialSettings, EVolumeMode, TVolumeMode, ETransferPreset, TTransferPreset } from "client/schema/model";
 
 import unitScaleFactor from "../utils/unitScaleFactor";
 import Derivative from "../models/Derivative";
@@ -41,6 +41,8 @@ import CVEnvironment from "./CVEnvironment";
 import CVSetup from "./CVSetup";
 import { Dictionary } from "client/../../libs/ff-core/source/types";
 import Asset from "client/models/Asset";
+import PointCloudMaterial from "client/shaders/PointCloudMaterial";
+import VolumeMaterial from "client/shaders/VolumeMaterial";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -113,6 +115,13 @@ export default class CVModel2 extends CObject3D
         metalness: types.Percent("Material.Metalness", 0.1),
         occlusion: types.Percent("Material.Occlusion", { preset: 0.25, max: 2.0}),
         doubleSided: types.Boolean("Material.DoubleSided", false),
+        pointSize: types.Number("Points.Size", { preset: 2, min: 0.5, max: 50, precision: 1 }),
+        pointAttenuation: types.Boolean("Points.Attenuation", false),
+        pointShading: types.Percent("Points.Shading", 0.5),
+        volumeMode: types.Enum("Volume.Mode", EVolumeMode, EVolumeMode.Composite),
+        volumeTransfer: types.Enum("Volume.Transfer", ETransferPreset, ETransferPreset.Grayscale),
+        volumeThreshold: types.Percent("Volume.Threshold", 0.2),
+        volumeDensity: types.Percent("Volume.Density", 0.5),
         dumpDerivatives: types.Event("Derivatives.Dump"),
     };
 
@@ -149,7 +158,14 @@ export default class CVModel2 extends CObject3D
             this.ins.roughness,
             this.ins.metalness,
             this.ins.occlusion,
-            this.ins.doubleSided
+            this.ins.doubleSided,
+            this.ins.pointSize,
+            this.ins.pointAttenuation,
+            this.ins.pointShading,
+            this.ins.volumeMode,
+            this.ins.volumeTransfer,
+            this.ins.volumeThreshold,
+            this.ins.volumeDensity
         ];
     }
 
@@ -163,6 +179,8 @@ export default class CVModel2 extends CObject3D
     private _loadingDerivative :Derivative = null;
 
     private _visible: boolean = true;
+    /** True if the model's units are defined by the document or have been taken from a loaded asset. */
+    private _unitsDefined = false;
     private _boxFrame: Box3Helper = null;
     private _localBoundingBox = new Box3();
     private _prevPosition: Vector3 = new Vector3(0.0,0.0,0.0);
@@ -340,6 +358,15 @@ export default class CVModel2 extends CObject3D
             this.updateUnitScale();
         }
 
+        if (ins.pointSize.changed || ins.pointAttenuation.changed || ins.pointShading.changed
+                || ins.localUnits.changed || ins.globalUnits.changed) {
+            this.updatePoints();
+        }
+
+        if (ins.volumeMode.changed || ins.volumeTransfer.changed || ins.volumeThreshold.changed || ins.volumeDensity.changed) {
+            this.updateVolume(ins.volumeTransfer.changed);
+        }
+
         if (ins.shader.changed) {
             this.updateShader();
         }
@@ -369,7 +396,10 @@ export default class CVModel2 extends CObject3D
                 const material = object["material"] as MeshStandardMaterial;
                 if (material) {
                     const cachedMat = this._materialCache[material.uuid];
-                    if(cachedMat) {
+                    if (cachedMat && (material as Material as VolumeMaterial).isVolumeMaterial) {
+                        material.color.fromArray(cachedMat.color);
+                    }
+                    else if(cachedMat) {
                         material.aoMapIntensity = cachedMat.occlusion;
                         material.color.fromArray(cachedMat.color);
                         material.opacity = cachedMat.opacity;
@@ -457,6 +487,7 @@ export default class CVModel2 extends CObject3D
 
         const units = EUnitType[data.units || "cm"];
         ins.localUnits.setValue(isFinite(units) ? units : EUnitType.cm);
+        this._unitsDefined = true;
 
         ins.visible.setValue(data.visible !== undefined ? data.visible : true);
         ins.tags.setValue(data.tags || "");
@@ -521,6 +552,21 @@ export default class CVModel2 extends CObject3D
             ins.overlayMap.setValue(data.overlayMap);
         }
 
+        const points = data.points || {};
+        ins.copyValues({
+            pointSize: points.size !== undefined ? points.size : ins.pointSize.schema.preset,
+            pointAttenuation: points.attenuation !== undefined ? points.attenuation : ins.pointAttenuation.schema.preset,
+            pointShading: points.shading !== undefined ? points.shading : ins.pointShading.schema.preset
+        });
+
+        const volume = data.volume || {};
+        ins.copyValues({
+            volumeMode: volume.mode !== undefined ? EVolumeMode[volume.mode] : ins.volumeMode.schema.preset,
+            volumeTransfer: volume.transfer !== undefined ? ETransferPreset[volume.transfer] : ins.volumeTransfer.schema.preset,
+            volumeThreshold: volume.threshold !== undefined ? volume.threshold : ins.volumeThreshold.schema.preset,
+            volumeDensity: volume.density !== undefined ? volume.density : ins.volumeDensity.schema.preset
+        });
+
         if (data.annotations) {
             this.getComponent(CVAnnotationView).fromData(data.annotations);
         }
@@ -588,6 +634,25 @@ export default class CVModel2 extends CObject3D
             data.overlayMap = ins.overlayMap.value;
         }
 
+        if (ins.pointSize.value !== ins.pointSize.schema.preset || ins.pointAttenuation.value !== ins.pointAttenuation.schema.preset
+                || ins.pointShading.value !== ins.pointShading.schema.preset) {
+            data.points = {
+                size: ins.pointSize.value,
+                attenuation: ins.pointAttenuation.value,
+                shading: ins.pointShading.value
+            };
+        }
+
+        if (ins.volumeMode.value !== ins.volumeMode.schema.preset || ins.volumeTransfer.value !== ins.volumeTransfer.schema.preset
+                || ins.volumeThreshold.value !== ins.volumeThreshold.schema.preset || ins.volumeDensity.value !== ins.volumeDensity.schema.preset) {
+            data.volume = {
+                mode: EVolumeMode[ins.volumeMode.getValidatedValue()] as TVolumeMode,
+                transfer: ETransferPreset[ins.volumeTransfer.getValidatedValue()] as TTransferPreset,
+                threshold: ins.volumeThreshold.value,
+                density: ins.volumeDensity.value
+            };
+        }
+
         data.boundingBox = {
             min: this._localBoundingBox.min.toArray() as LocalVector3,
             max: this._localBoundingBox.max.toArray() as LocalVector3
@@ -756,7 +821,11 @@ export default class CVModel2 extends CObject3D
 
         this.object3D.traverse(object => {
             const material = object["material"] as MeshStandardMaterial;
-            if (material && material.defines) {
+            if (material && (material as Material as VolumeMaterial).isVolumeMaterial) {
+                // volumes are tinted with the base color, other settings don't apply
+                material.color.fromArray(ins.color.value);
+            }
+            else if (material && material.defines) {
                 material.aoMapIntensity = ins.occlusion.value;
                 material.color.fromArray(ins.color.value);
                 material.opacity = this._visible ? ins.opacity.value : ins.hiddenOpacity.value;
@@ -772,6 +841,47 @@ export default class CVModel2 extends CObject3D
 
 
 
+    /**
+     * Applies the point cloud settings to the materials of point cloud derivatives.
+     * With attenuation, points have their nominal size when seen from a distance of the model's size.
+     */
+    protected updatePoints()
+    {
+        const ins = this.ins;
+        const referenceDistance = this._localBoundingBox.getSize(_vec3a).length() * this.outs.unitScale.value;
+
+        this.object3D.traverse(object => {
+            const material = object["material"] as PointCloudMaterial;
+            if (material && material.isPointCloudMaterial) {
+                material.size = ins.pointSize.value;
+                material.attenuation = ins.pointAttenuation.value;
+                material.shading = ins.pointShading.value;
+                material.referenceDistance = referenceDistance || 1;
+            }
+        });
+    }
+
+    /**
+     * Applies the volume settings to the materials of volume derivatives.
+     * The transfer function texture is only rebuilt if the preset has changed.
+     */
+    protected updateVolume(updateTransfer: boolean)
+    {
+        const ins = this.ins;
+
+        this.object3D.traverse(object => {
+            const material = object["material"] as VolumeMaterial;
+            if (material && material.isVolumeMaterial) {
+                material.mode = ins.volumeMode.getValidatedValue();
+                material.threshold = ins.volumeThreshold.value;
+                material.density = ins.volumeDensity.value;
+                if (updateTransfer) {
+                    material.setTransferPreset(ins.volumeTransfer.getValidatedValue());
+                }
+            }
+        });
+    }
+
     protected updateShadows()
     {
         this.object3D.traverse(object => {
@@ -948,6 +1058,13 @@ export default class CVModel2 extends CObject3D
                 // update loaded quality property
                 this.outs.quality.setValue(derivative.data.quality);
 
+                // newly imported models adopt the units given by the asset file, if any
+                const assetUnits = EUnitType[derivative.model.userData["units"] as string];
+                if (!this._unitsDefined && assetUnits !== undefined) {
+                    this.ins.localUnits.setValue(assetUnits);
+                }
+                this._unitsDefined = true;
+
                 // cache original material properties
                 this.object3D.traverse(object => {
                     const material = object["material"] as MeshStandardMaterial;
@@ -969,6 +1086,9 @@ export default class CVModel2 extends CObject3D
                     this.updateMaterial();
                 }
 
+                this.updatePoints();
+                this.updateVolume(true);
+
                 // update shadow render side
                 if(this.ins.shadowSide.value != ESideType.Default) {
                     this.updateShadowSide();
@@ -1015,7 +1135,7 @@ export default class CVModel2 extends CObject3D
     {
         this.object3D.add(object);
         this.object3D.traverse(node => {
-            if (node.type === "Mesh") {
+            if (node.type === "Mesh" || node.type === "Points") {
                 this.registerPickableObject3D(node, true);
             }
         });
@@ -1024,6 +1144,11 @@ export default class CVModel2 extends CObject3D
     setShaderMode(mode: EShaderMode, inMaterial: Material)
     {
         const material = inMaterial as MeshStandardMaterial;
+        if ((inMaterial as VolumeMaterial).isVolumeMaterial) {
+            // volumes are always ray marched, shader modes don't apply
+            return;
+        }
+
         Object.assign(material, material.userData.paramCopy);
 
         material.defines["MODE_NORMALS"] = false;
@@ -15,8 +15,9 @@
  * limitations under the License.
  */
 
-import { Box3 } from "three";
+import { Box3, Euler, Matrix4, Vector3 } from "three";
 
+import math from "@ff/core/math";
 import CObject3D, { Node, types } from "@ff/scene/components/CObject3D";
 
 import CameraController, { EControllerMode } from "@ff/three/CameraController";
@@ -25,7 +26,7 @@ import CScene, { IRenderContext } from "@ff/scene/components/CScene";
 import CTransform, { ERotationOrder } from "@ff/scene/components/CTransform";
 import { EProjection } from "@ff/three/UniversalCamera";
 
-import { ENavigationType, TNavigationType, INavigation } from "client/schema/setup";
+import { ENavigationType, TNavigationType, INavigation, IWalkNavigation } from "client/schema/setup";
 
 import CVScene from "./CVScene";
 import CVAssetManager from "./CVAssetManager";
@@ -55,9 +56,34 @@ const _replaceNull = function(vector: number[], replacement: number)
     return vector;
 };
 
+const _vec3 = new Vector3();
+const _euler = new Euler();
+const _mat4 = new Matrix4();
+
+// rotation matrix for the given orbit angles in degrees, same convention as the camera controller
+const _orbitRotation = function(orbit: number[])
+{
+    _euler.set(orbit[0] * math.DEG2RAD, orbit[1] * math.DEG2RAD, orbit[2] * math.DEG2RAD, "ZYX");
+    return _mat4.makeRotationFromEuler(_euler);
+};
+
+// converts an orbit offset to a first-person camera position in world space
+const _offsetToPosition = function(offset: number[], orbit: number[])
+{
+    return _vec3.fromArray(offset).applyMatrix4(_orbitRotation(orbit)).toArray();
+};
+
+// converts a first-person camera position in world space to an orbit offset
+const _positionToOffset = function(position: number[], orbit: number[])
+{
+    return _vec3.fromArray(position).applyMatrix4(_orbitRotation(orbit).transpose()).toArray();
+};
+
 /**
  * Voyager explorer orbit navigation.
  * Controls manipulation and parameters of the camera.
+ * In Fly and Walk mode, the camera is moved in first-person style using
+ * WASD/arrow keys and mouse-look, within the position limits.
  */
 export default class CVOrbitNavigation extends CObject3D
 {
@@ -85,6 +111,9 @@ export default class CVOrbitNavigation extends CObject3D
         minOffset: types.Vector3("Limits.Min.Offset", [ -Infinity, -Infinity, 0.1 ]),
         maxOrbit: types.Vector3("Limits.Max.Orbit", [ 90, Infinity, Infinity ]),
         maxOffset: types.Vector3("Limits.Max.Offset", [ Infinity, Infinity, Infinity ]),
+        minPosition: types.Vector3("Limits.Min.Position", [ -Infinity, -Infinity, -Infinity ]),
+        maxPosition: types.Vector3("Limits.Max.Position", [ Infinity, Infinity, Infinity ]),
+        moveSpeed: types.Number("Navigation.MoveSpeed", { preset: 0, min: 0 }),
         keyNavActive: types.Enum("Navigation.KeyNavActive", EKeyNavMode),
         promptActive: types.Boolean("Navigation.PromptActive", false)
     };
@@ -104,6 +133,7 @@ export default class CVOrbitNavigation extends CObject3D
     {
         super(node, id);
         this._scene = this.scene;
+        this.onFocusLost = this.onFocusLost.bind(this);
     }
 
     get settingProperties() {
@@ -120,6 +150,9 @@ export default class CVOrbitNavigation extends CObject3D
             this.ins.minOffset,
             this.ins.maxOrbit,
             this.ins.maxOffset,
+            this.ins.minPosition,
+            this.ins.maxPosition,
+            this.ins.moveSpeed,
         ];
     }
 
@@ -146,7 +179,12 @@ export default class CVOrbitNavigation extends CObject3D
 
         this.system.on<IPointerEvent>(["pointer-down", "pointer-up", "pointer-move"], this.onPointer, this);
         this.system.on<ITriggerEvent>("wheel", this.onTrigger, this);
-        this.system.on<IKeyboardEvent>("keydown", this.onKeyboard, this);
+        this.system.on<IKeyboardEvent>(["keydown", "keyup"], this.onKeyboard, this);
+
+        // key up events are lost when the view loses focus
+        window.addEventListener("blur", this.onFocusLost);
+        window.addEventListener("focusout", this.onFocusLost);
+        document.addEventListener("visibilitychange", this.onFocusLost);
 
         this.assetManager.outs.completed.on("value", this.onLoadingCompleted, this);
         this.sceneNode.outs.boundingRadius.on("value", this.onBoundsChange, this);
@@ -159,7 +197,11 @@ export default class CVOrbitNavigation extends CObject3D
 
         this.system.off<IPointerEvent>(["pointer-down", "pointer-up", "pointer-move"], this.onPointer, this);
         this.system.off<ITriggerEvent>("wheel", this.onTrigger, this);
-        this.system.off<IKeyboardEvent>("keydown", this.onKeyboard, this);
+        this.system.off<IKeyboardEvent>(["keydown", "keyup"], this.onKeyboard, this);
+
+        window.removeEventListener("blur", this.onFocusLost);
+        window.removeEventListener("focusout", this.onFocusLost);
+        document.removeEventListener("visibilitychange", this.onFocusLost);
 
         super.dispose();
     }
@@ -204,6 +246,7 @@ export default class CVOrbitNavigation extends CObject3D
                     controller.controllerMode = EControllerMode.Walk;
                     break;
             }
+            controller.resetMovement();
         }
 
         // include lights
@@ -222,7 +265,7 @@ export default class CVOrbitNavigation extends CObject3D
             }
         }
 
-        const { minOrbit, minOffset, maxOrbit, maxOffset} = ins;
+        const { minOrbit, minOffset, maxOrbit, maxOffset, minPosition, maxPosition } = ins;
 
         // orbit, offset and limits
         if (orbit.changed || offset.changed) {
@@ -237,6 +280,15 @@ export default class CVOrbitNavigation extends CObject3D
             controller.maxOffset.fromArray(maxOffset.value);
         }
 
+        if (minPosition.changed || maxPosition.changed) {
+            controller.minPosition.fromArray(minPosition.value);
+            controller.maxPosition.fromArray(maxPosition.value);
+        }
+
+        if (ins.moveSpeed.changed) {
+            controller.moveSpeed = ins.moveSpeed.value;
+        }
+
         // zoom extents
         if (camera && ins.zoomExtents.changed) {
             const scene = this.getGraphComponent(CVScene);
@@ -387,18 +439,33 @@ export default class CVOrbitNavigation extends CObject3D
             maxOffset: [ Infinity, Infinity, Infinity ],
         };
 
+        const mode = ENavigationType[data.type] || ENavigationType.Orbit;
+        const walk: Partial<IWalkNavigation> = data.walk || {};
+
+        let cameraOrbit = orbit.orbit;
+        let cameraOffset = orbit.offset;
+
+        // in first-person modes, the walk camera pose takes precedence
+        if (mode !== ENavigationType.Orbit && walk.position && walk.rotation) {
+            cameraOrbit = walk.rotation;
+            cameraOffset = _positionToOffset(walk.position, walk.rotation);
+        }
+
         this.ins.copyValues({
             enabled: !!data.enabled,
             autoZoom: !!data.autoZoom,
             autoRotation: !!data.autoRotation,
             lightsFollowCamera: !!data.lightsFollowCamera,
-            mode: ENavigationType[data.type] || ENavigationType.Orbit,
-            orbit: orbit.orbit,
-            offset: orbit.offset,
+            mode,
+            orbit: cameraOrbit,
+            offset: cameraOffset,
             minOrbit: _replaceNull(orbit.minOrbit, -Infinity),
             maxOrbit: _replaceNull(orbit.maxOrbit, Infinity),
             minOffset: _replaceNull(orbit.minOffset, -Infinity),
             maxOffset: _replaceNull(orbit.maxOffset, Infinity),
+            minPosition: _replaceNull(walk.minPosition || [ null, null, null ], -Infinity),
+            maxPosition: _replaceNull(walk.maxPosition || [ null, null, null ], Infinity),
+            moveSpeed: walk.speed || 0,
         });
     }
 
@@ -423,6 +490,19 @@ export default class CVOrbitNavigation extends CObject3D
             maxOffset: ins.maxOffset.cloneValue(),
         };
 
+        if (ins.mode.value !== ENavigationType.Orbit) {
+            data.walk = {
+                position: _offsetToPosition(ins.offset.value, ins.orbit.value),
+                rotation: ins.orbit.cloneValue(),
+                minPosition: ins.minPosition.cloneValue(),
+                maxPosition: ins.maxPosition.cloneValue(),
+            };
+
+            if (ins.moveSpeed.value > 0) {
+                data.walk.speed = ins.moveSpeed.value;
+            }
+        }
+
         return data as INavigation;
     }
 
@@ -481,7 +561,7 @@ export default class CVOrbitNavigation extends CObject3D
         }
 
         if (this.ins.enabled.value && this._scene.activeCameraComponent) {
-            if(event.key.includes("Arrow")) {
+            if(event.type === "keydown" && event.key.includes("Arrow")) {
                 if(event.ctrlKey) {
                     this.ins.keyNavActive.setValue(EKeyNavMode.Zoom);
                 }
@@ -502,6 +582,11 @@ export default class CVOrbitNavigation extends CObject3D
         this._hasChanged = true;
     }
 
+    protected onFocusLost()
+    {
+        this._controller.resetMovement();
+    }
+
     protected onLoadingCompleted(isLoading: boolean)
     {
         if (this.ins.autoZoom.value && (!this._hasChanged || !this._hasZoomed)) {
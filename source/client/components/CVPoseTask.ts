@@ -27,7 +27,7 @@ import CRenderer from "@ff/scene/components/CRenderer";
 import NVNode from "../nodes/NVNode";
 
 import CVModel2 from "./CVModel2";
-import CVTask from "./CVTask";
+import CVTask, { IUndoState } from "./CVTask";
 
 import PoseTaskView from "../ui/story/PoseTaskView";
 
@@ -234,10 +234,33 @@ export default class CVPoseTask extends CVTask
         return true;
     }
 
+    protected getUndoState(): IUndoState
+    {
+        const model = this.activeModel;
+        if (!model) {
+            return null;
+        }
+
+        return { target: model, data: JSON.stringify([ model.ins.position.value, model.ins.rotation.value ]) };
+    }
+
+    protected applyUndoState(state: IUndoState)
+    {
+        const model = state.target as CVModel2;
+        const [ position, rotation ] = JSON.parse(state.data);
+
+        model.ins.position.setValue(position);
+        model.ins.rotation.setValue(rotation);
+    }
+
     protected onActiveNode(previous: NVNode, next: NVNode)
     {
+        this.flushUndo();
+
         if (this.activeModel) {
             this.ins.modelUpdated.unlinkFrom(this.activeModel.outs.updated);
+            this.activeModel.ins.position.off("value", this.onPoseChange, this);
+            this.activeModel.ins.rotation.off("value", this.onPoseChange, this);
         }
 
         this.activeModel = next && next.model;
@@ -245,9 +268,18 @@ export default class CVPoseTask extends CVTask
         if (this.activeModel) {
             this.ins.modelUpdated.linkFrom(this.activeModel.outs.updated);
             this.ins.modelUpdated.set();
+            this.activeModel.ins.position.on("value", this.onPoseChange, this);
+            this.activeModel.ins.rotation.on("value", this.onPoseChange, this);
 
             this.selection.selectComponent(this.activeModel);
         }
+
+        this.resetUndo();
+    }
+
+    protected onPoseChange()
+    {
+        this.scheduleUndo("Edit Pose");
     }
 
     protected onPointer(event: IPointerEvent)
@@ -16,12 +16,21 @@
  */
 
 import { Node } from "@ff/graph/Component";
+import Property from "@ff/graph/Property";
 
-import CVTask from "./CVTask";
+import NVNode from "../nodes/NVNode";
+
+import CVTask, { IUndoState } from "./CVTask";
+import CVOrbitNavigation from "./CVOrbitNavigation";
 import SettingsTaskView from "../ui/story/SettingsTaskView";
 
 ////////////////////////////////////////////////////////////////////////////////
 
+interface ISettingsUndoState extends IUndoState
+{
+    properties: Property[];
+}
+
 export default class CVSettingsTask extends CVTask
 {
     static readonly typeName: string = "CVSettingsTask";
@@ -29,6 +38,9 @@ export default class CVSettingsTask extends CVTask
     static readonly text: string = "Settings";
     static readonly icon: string = "eye";
 
+    private _node: NVNode = null;
+    private _properties: Property[] = [];
+
     constructor(node: Node, id: string)
     {
         super(node, id);
@@ -42,4 +54,78 @@ export default class CVSettingsTask extends CVTask
     {
         return new SettingsTaskView(this);
     }
+
+    activateTask()
+    {
+        this.startObserving();
+        super.activateTask();
+    }
+
+    deactivateTask()
+    {
+        this.stopObserving();
+        super.deactivateTask();
+    }
+
+    protected getUndoState(): ISettingsUndoState
+    {
+        const node = this._node;
+        if (!node) {
+            return null;
+        }
+
+        const properties = this._properties;
+        return { target: node, properties, data: JSON.stringify(properties.map(property => property.value)) };
+    }
+
+    protected applyUndoState(state: ISettingsUndoState)
+    {
+        const values = JSON.parse(state.data);
+        state.properties.forEach((property, index) => property.copyValue(values[index]));
+    }
+
+    protected onActiveNode(previous: NVNode, next: NVNode)
+    {
+        this.flushUndo();
+
+        this._properties.forEach(property => property.off("value", this.onPropertyChange, this));
+        this._node = next;
+        this._properties = next ? this.getSettingProperties(next) : [];
+        this._properties.forEach(property => property.on("value", this.onPropertyChange, this));
+
+        this.resetUndo();
+    }
+
+    protected onPropertyChange()
+    {
+        this.scheduleUndo("Edit Settings");
+    }
+
+    /**
+     * Returns the setting properties of the node's components whose values can be recorded for undo/redo.
+     * Skips events, objects, and the navigation's camera pose which changes with every user interaction.
+     */
+    protected getSettingProperties(node: NVNode): Property[]
+    {
+        const properties: Property[] = [];
+
+        node.components.getArray().forEach(component => {
+            const settings: Property[] = component["settingProperties"];
+            if (!settings || component.tags.has("no_settings")) {
+                return;
+            }
+
+            settings.forEach(property => {
+                if (component instanceof CVOrbitNavigation &&
+                        (property === component.ins.orbit || property === component.ins.offset)) {
+                    return;
+                }
+                if (!property.schema.event && property.type !== "object") {
+                    properties.push(property);
+                }
+            });
+        });
+
+        return properties;
+    }
 }
\ No newline at end of file
@@ -15,12 +15,14 @@
  * limitations under the License.
  */
 
+import { Dictionary, TypeOf } from "@ff/core/types";
 import Component, { types } from "@ff/graph/Component";
 import CTransform from "@ff/scene/components/CTransform";
 
 import { IDocument } from "client/schema/document";
 import { ISetup } from "client/schema/setup";
-import { ELanguageType } from "client/schema/common";
+import { DEFAULT_LANGUAGE } from "client/schema/common";
+import { normalizeLanguage } from "client/utils/languages";
 
 import CVInterface from "./CVInterface";
 import CVViewer from "./CVViewer";
@@ -31,6 +33,7 @@ import CVFloor from "./CVFloor";
 import CVGrid from "./CVGrid";
 import CVTape from "./CVTape";
 import CVSlicer from "./CVSlicer";
+import CVComparison from "./CVComparison";
 import CVTours from "./CVTours";
 import CVSnapshots from "./CVSnapshots";
 import CVEnvironment from "./CVEnvironment";
@@ -41,6 +44,34 @@ import CVActionManager from "./CVActionManager";
 
 ////////////////////////////////////////////////////////////////////////////////
 
+/**
+ * Scene-wide feature managed by [[CVSetup]]. Its data is stored in the document's setup
+ * under the name the feature is registered with.
+ */
+export interface ISetupFeature extends Component
+{
+    fromData(data: any): void;
+    toData(): any;
+}
+
+export interface ISetupFeatureOptions
+{
+    /** JSON schema of the feature data, used to validate documents. */
+    schema?: object;
+    /** Tag name of a custom element displayed with the feature in the Story settings task.
+     *  The feature component is assigned to the element's "component" property. */
+    settingsElement?: string;
+}
+
+export interface ISetupFeatureRegistration extends ISetupFeatureOptions
+{
+    name: string;
+    type: TypeOf<ISetupFeature>;
+}
+
+// names of setup members which can't be used as feature names
+const _reservedNames = [ "snapshots", "ins", "outs", "node", "id", "name", "tags", "changed" ];
+
 /**
  * At the root of a Voyager scene, this component manages scene features,
  * including tours.
@@ -58,7 +89,7 @@ export default class CVSetup extends Component
 
     ins = this.addInputs(CVSetup.ins);
 
-    protected static readonly featureMap = {
+    protected static readonly featureMap: Dictionary<TypeOf<ISetupFeature>> = {
         "interface": CVInterface,
         "reader": CVReader,
         "viewer": CVViewer,
@@ -71,11 +102,50 @@ export default class CVSetup extends Component
         "grid": CVGrid,
         "tape": CVTape,
         "slicer": CVSlicer,
+        "comparison": CVComparison,
         "tours": CVTours,
         "audio": CVAudioManager,
         "actions": CVActionManager
     };
 
+    protected static readonly pluginFeatures: Dictionary<ISetupFeatureRegistration> = {};
+
+    /**
+     * Registers a feature component, e.g. of a plugin, which is created by each setup. The feature's data is
+     * read from and written to the document setup under the given name, and its snapshot properties can
+     * be included in tours. Register features before creating the application.
+     * @param name Name of the feature in the document setup, and of the setup member holding the feature.
+     * @param type The feature component type.
+     * @param options Optional JSON schema and Story settings element.
+     */
+    static registerFeature(name: string, type: TypeOf<ISetupFeature>, options?: ISetupFeatureOptions)
+    {
+        if (this.featureMap[name] || name in this.prototype || _reservedNames.indexOf(name) >= 0) {
+            throw new Error(`Setup feature name '${name}' already in use.`);
+        }
+
+        this.featureMap[name] = type;
+        this.pluginFeatures[name] = { ...options, name, type };
+    }
+
+    /**
+     * Returns the features registered with [[registerFeature]].
+     */
+    static getPluginFeatures(): ISetupFeatureRegistration[]
+    {
+        return Object.keys(this.pluginFeatures).map(name => this.pluginFeatures[name]);
+    }
+
+    /**
+     * Returns the JSON schemas of the registered features by feature name.
+     */
+    static getFeatureSchemas(): Dictionary<object>
+    {
+        const schemas: Dictionary<object> = {};
+        this.getPluginFeatures().filter(feature => !!feature.schema).forEach(feature => schemas[feature.name] = feature.schema);
+        return schemas;
+    }
+
     get featureMap() {
         return (this.constructor as typeof CVSetup).featureMap;
     }
@@ -93,6 +163,7 @@ export default class CVSetup extends Component
     grid: CVGrid;
     tape: CVTape;
     slicer: CVSlicer;
+    comparison: CVComparison;
     tours: CVTours;
     snapshots: CVSnapshots;
     environment: CVEnvironment;
@@ -100,6 +171,14 @@ export default class CVSetup extends Component
     audio: CVAudioManager;
     actions: CVActionManager;
 
+    /**
+     * Returns the feature with the given name, including features registered with [[registerFeature]].
+     */
+    getFeature<T extends ISetupFeature = ISetupFeature>(name: string): T
+    {
+        return this.featureMap[name] ? this[name] : null;
+    }
+
     create()
     {
         super.create();
@@ -107,6 +186,14 @@ export default class CVSetup extends Component
         const node = this.node;
         const features = CVSetup.featureMap;
 
+        // plugin features aren't part of the application's component types
+        const registry = this.system.registry;
+        CVSetup.getPluginFeatures().forEach(feature => {
+            if (!registry.getType(feature.type)) {
+                registry.add(feature.type);
+            }
+        });
+
         for (const name in features) {
             this[name] = node.createComponent(features[name]);
         }
@@ -204,7 +291,7 @@ export default class CVSetup extends Component
                 this._savedSetupData[name] = featureData;
             }
         }
-        this.language.ins.primarySceneLanguage.setValue(ELanguageType[this._savedSetupData.language.language]);
+        this.language.ins.primarySceneLanguage.setValue(normalizeLanguage(this._savedSetupData.language.language) || DEFAULT_LANGUAGE);
     }
 
     // Restores cached setup state for future saving.
@@ -19,6 +19,8 @@ import "../ui/properties/PropertyBoolean";
 import "../ui/properties/PropertyOptions";
 import "../ui/properties/PropertySlider";
 
+import { ESliceAxis, ESliceMode } from "client/schema/setup";
+
 import CVDocument from "./CVDocument";
 
 import CVTool, { customElement, html, ToolView } from "./CVTool";
@@ -36,6 +38,17 @@ export default class CVSliceTool extends CVTool
     {
         return new SliceToolView(this);
     }
+
+    protected onActiveDocument(previous: CVDocument, next: CVDocument)
+    {
+        // the slicing plane gizmo is shown while the tool is active
+        if (previous) {
+            previous.setup.slicer.ins.gizmo.setValue(false);
+        }
+        if (next) {
+            next.setup.slicer.ins.gizmo.setValue(true);
+        }
+    }
 }
 
 ////////////////////////////////////////////////////////////////////////////////
@@ -57,24 +70,53 @@ export class SliceToolView extends ToolView<CVSliceTool>
             return html``;
         }
 
-        const tool = this.tool;
         const slicer = document.setup.slicer;
-        const enabled = slicer.ins.enabled;
-        const axis = slicer.ins.axis;
-        const position = slicer.ins.position;
+        const ins = slicer.ins;
         const language = document.setup.language;
+        const isFree = ins.mode.getValidatedValue() === ESliceMode.Free;
+
+        let controls;
+
+        if (isFree) {
+            const planeIndex = ins.activePlane.getValidatedValue();
+            const plane = slicer.getPlaneProperties(planeIndex);
+
+            controls = html`<sv-property-options .property=${ins.activePlane} .language=${language} name=${language.getLocalizedString("Plane")}></sv-property-options>
+                <sv-property-boolean .property=${plane.enabled} .language=${language} name=${language.getLocalizedString("Plane Enabled")}></sv-property-boolean>
+                <div class="sv-property sv-slice-align">
+                    <label class="ff-label ff-off">${language.getLocalizedString("Align")}</label>
+                    <div class="sv-options">
+                        <ff-button text="X" title=${language.getLocalizedString("Align with X axis")} @click=${() => slicer.alignPlane(planeIndex, ESliceAxis.X)}></ff-button>
+                        <ff-button text="Y" title=${language.getLocalizedString("Align with Y axis")} @click=${() => slicer.alignPlane(planeIndex, ESliceAxis.Y)}></ff-button>
+                        <ff-button text="Z" title=${language.getLocalizedString("Align with Z axis")} @click=${() => slicer.alignPlane(planeIndex, ESliceAxis.Z)}></ff-button>
+                    </div>
+                </div>
+                <sv-property-slider .property=${plane.position} name=${language.getLocalizedString("Position")}></sv-property-slider>`;
+        }
+        else {
+            controls = html`<sv-property-options .property=${ins.axis} .language=${language} name=${language.getLocalizedString("Axis")}></sv-property-options>
+                <sv-property-slider .property=${ins.position} name=${language.getLocalizedString("Position")}></sv-property-slider>`;
+        }
 
         return html`<div class="sv-section"><ff-button class="sv-section-lead" title=${language.getLocalizedString("Close Tool")} @click=${this.onClose} transparent icon="close"></ff-button>
             <div class="sv-tool-controls">
-                <sv-property-boolean .property=${enabled} .language=${language} name=${language.getLocalizedString("Slice Tool")}></sv-property-boolean>
-                <sv-property-options .property=${axis} .language=${language} name=${language.getLocalizedString("Axis")}></sv-property-options>
-                <sv-property-slider .property=${position} name=${language.getLocalizedString("Position")}></sv-property-slider>
+                <sv-property-boolean .property=${ins.enabled} .language=${language} name=${language.getLocalizedString("Slice Tool")}></sv-property-boolean>
+                <sv-property-options .property=${ins.mode} .language=${language} name=${language.getLocalizedString("Mode")}></sv-property-options>
+                ${controls}
+                <sv-property-boolean .property=${ins.caps} .language=${language} name=${language.getLocalizedString("Fill Cut")}></sv-property-boolean>
             </div>
         </div>`;
     }
 
     protected onActiveDocument(previous: CVDocument, next: CVDocument)
     {
+        if (previous) {
+            previous.setup.slicer.off("update", this.onUpdate, this);
+        }
+        if (next) {
+            next.setup.slicer.on("update", this.onUpdate, this);
+        }
+
         this.requestUpdate();
     }
 
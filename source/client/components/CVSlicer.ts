@@ -15,11 +15,16 @@
  * limitations under the License.
  */
 
-import { Box3, DoubleSide, FrontSide, Material, Mesh, Plane, Side, Vector3 } from "three";
+import { Box3, DoubleSide, Material, Mesh, Object3D, Plane, Points, Vector3 } from "three";
 
-import Component, { IComponentEvent, types } from "@ff/graph/Component";
+import { IComponentEvent } from "@ff/graph/Component";
+import Property from "@ff/graph/Property";
+import CObject3D, { Node, types, IPointerEvent, IRenderContext } from "@ff/scene/components/CObject3D";
 
-import { ISlicer, ESliceAxis, TSliceAxis } from "client/schema/setup";
+import { ISlicer, ISlicePlane, ESliceAxis, ESliceMode, TSliceAxis, TSliceMode } from "client/schema/setup";
+
+import SliceCaps from "../utils/SliceCaps";
+import SliceGizmo, { ESliceGizmoHandle } from "../utils/SliceGizmo";
 
 import CVScene from "./CVScene";
 import CVModel2, { IModelLoadEvent } from "./CVModel2";
@@ -39,49 +44,130 @@ const _planes = [
     [ 0, 0, 1, 0 ],
 ];
 
-const _vec3 = new Vector3( 0, - 1, 0 );
-const localPlane = new Plane( _vec3, 0.8 );
+/**
+ * Default normals of the free slicing planes.
+ */
+const _normals = [
+    [ 1, 0, 0 ],
+    [ 0, 1, 0 ],
+    [ 0, 0, 1 ],
+];
+
+const _vec3a = new Vector3();
+const _vec3b = new Vector3();
+const _vec3c = new Vector3();
+const _vec3d = new Vector3();
+const _range = [ 0, 0 ];
+
+const _vec3e = new Vector3();
+const _vec3f = new Vector3();
+
+export interface ISlicePlaneProperties
+{
+    enabled: Property<boolean>;
+    normal: Property<number[]>;
+    position: Property<number>;
+}
 
 /**
  * Component controlling global slicing parameters for all [[CVModel2]] components in a scene.
+ * In axis mode, a single plane is aligned to one of the coordinate axes. In free mode, up to three
+ * arbitrarily oriented planes clip the scene, e.g. to cut out a box. The cut faces of closed meshes
+ * are filled with solid caps. An interactive gizmo moves and rotates the active free plane.
  */
-export default class CVSlicer extends Component
+export default class CVSlicer extends CObject3D
 {
     static readonly typeName: string = "CVSlicer";
 
     static readonly text: string = "Slicer";
     static readonly icon: string = "";
 
-    protected static ins = {
+    protected static readonly slicerIns = {
         enabled: types.Boolean("Slice.Enabled"),
+        mode: types.Enum("Slice.Mode", ESliceMode),
         axis: types.Enum("Slice.Axis", ESliceAxis),
         position: types.Number("Slice.Position", { min: 0, max: 1, preset: 0.5 }),
         inverted: types.Boolean("Slice.Inverted"),
         color: types.ColorRGB("Slice.Color", [ 0, 0.61, 0.87 ]), // SI blue
+        caps: types.Boolean("Slice.Caps", true),
+        gizmo: types.Boolean("Slice.Gizmo"),
+        activePlane: types.Option("Slice.ActivePlane", [ "Plane 1", "Plane 2", "Plane 3" ]),
+        plane1Enabled: types.Boolean("Plane1.Enabled", true),
+        plane1Normal: types.Vector3("Plane1.Normal", _normals[0]),
+        plane1Position: types.Number("Plane1.Position", { min: 0, max: 1, preset: 0.5 }),
+        plane2Enabled: types.Boolean("Plane2.Enabled"),
+        plane2Normal: types.Vector3("Plane2.Normal", _normals[1]),
+        plane2Position: types.Number("Plane2.Position", { min: 0, max: 1, preset: 0.5 }),
+        plane3Enabled: types.Boolean("Plane3.Enabled"),
+        plane3Normal: types.Vector3("Plane3.Normal", _normals[2]),
+        plane3Position: types.Number("Plane3.Position", { min: 0, max: 1, preset: 0.5 }),
         boundingBox: types.Object("Scene.BoundingBox", Box3),
     };
 
-    ins = this.addInputs(CVSlicer.ins);
+    ins = this.addInputs<CObject3D, typeof CVSlicer.slicerIns>(CVSlicer.slicerIns);
 
     get settingProperties() {
         return [
             this.ins.enabled,
-            this.ins.color
+            this.ins.color,
+            this.ins.caps,
         ];
     }
 
     get snapshotProperties() {
+        const ins = this.ins;
         return [
-            this.ins.enabled,
-            this.ins.axis,
-            this.ins.position,
-            this.ins.inverted,
+            ins.enabled,
+            ins.mode,
+            ins.axis,
+            ins.position,
+            ins.inverted,
+            ins.plane1Enabled,
+            ins.plane1Normal,
+            ins.plane1Position,
+            ins.plane2Enabled,
+            ins.plane2Normal,
+            ins.plane2Position,
+            ins.plane3Enabled,
+            ins.plane3Normal,
+            ins.plane3Position,
         ];
     }
 
-    protected plane: number[] = null;
     protected axisIndex = -1;
 
+    /** The active slicing planes in world space. */
+    protected planes: Plane[] = [];
+    protected caps: SliceCaps = null;
+    protected gizmo: SliceGizmo = null;
+
+    private _planePool = [ new Plane(), new Plane(), new Plane() ];
+    private _planeProperties: ISlicePlaneProperties[];
+    private _handle = ESliceGizmoHandle.None;
+
+    constructor(node: Node, id: string)
+    {
+        super(node, id);
+
+        const ins = this.ins;
+        this._planeProperties = [
+            { enabled: ins.plane1Enabled, normal: ins.plane1Normal, position: ins.plane1Position },
+            { enabled: ins.plane2Enabled, normal: ins.plane2Normal, position: ins.plane2Position },
+            { enabled: ins.plane3Enabled, normal: ins.plane3Normal, position: ins.plane3Position },
+        ];
+
+        this.object3D = new Object3D();
+        this.object3D.name = "Slicer";
+
+        this.caps = new SliceCaps();
+        this.caps.visible = false;
+        this.object3D.add(this.caps);
+
+        this.gizmo = new SliceGizmo();
+        this.gizmo.visible = false;
+        this.addObject3D(this.gizmo);
+    }
+
     create()
     {
         super.create();
@@ -90,16 +176,47 @@ export default class CVSlicer extends Component
         this.ins.boundingBox.linkFrom(scene.outs.boundingBox);
 
         this.graph.components.on(CVModel2, this.onModelComponent, this);
+        this.on<IPointerEvent>([ "pointer-down", "pointer-move", "pointer-up" ], this.onGizmoPointer, this);
     }
 
     dispose()
     {
+        this.off<IPointerEvent>([ "pointer-down", "pointer-move", "pointer-up" ], this.onGizmoPointer, this);
         this.graph.components.off(CVModel2, this.onModelComponent, this);
+
+        this.removeObject3D(this.gizmo);
+        this.object3D.remove(this.caps);
+        this.gizmo.dispose();
+        this.caps.dispose();
+
         super.dispose();
     }
 
+    /**
+     * Returns the properties of the free slicing plane with the given index (0..2).
+     */
+    getPlaneProperties(index: number): ISlicePlaneProperties
+    {
+        return this._planeProperties[index];
+    }
+
+    /**
+     * Aligns the normal of a free slicing plane with a coordinate axis.
+     * If the plane is already aligned with the axis, its orientation is inverted.
+     * @param index Index of the free plane (0..2).
+     * @param axis The axis to align the plane with.
+     */
+    alignPlane(index: number, axis: ESliceAxis)
+    {
+        const value = [ 0, 0, 0 ];
+        value[axis] = this.getPlaneNormal(index, _vec3a).getComponent(axis) > 0.9999 ? -1 : 1;
+        this._planeProperties[index].normal.setValue(value);
+    }
+
     update(context)
     {
+        super.update(context);
+
         const ins = this.ins;
 
         if (ins.axis.changed) {
@@ -115,57 +232,92 @@ export default class CVSlicer extends Component
             }
         }
 
-        if (!ins.enabled.value && !ins.enabled.changed) {
-            return false;
+        if (ins.color.changed) {
+            this.caps.setColor(ins.color.value);
+            this.gizmo.setColor(ins.color.value);
         }
 
-        const axisIndex = ins.axis.getValidatedValue();
-        const axisInverted = ins.inverted.value;
-        const planeIndex = axisIndex + (axisInverted ? 3 : 0);
+        const enabled = ins.enabled.value;
+        const activePlane = this._planeProperties[ins.activePlane.getValidatedValue()];
+
+        this.caps.visible = enabled && ins.caps.value;
+        this.gizmo.visible = enabled && ins.gizmo.value
+            && ins.mode.getValidatedValue() === ESliceMode.Free && activePlane.enabled.value;
+
+        if (!enabled && !ins.enabled.changed) {
+            return true;
+        }
 
         const boundingBox = this.ins.boundingBox.value;
         if (!boundingBox) {
             return true;
         }
 
-        // set components of slicing plane vector
-        this.plane = _planes[planeIndex];
-        const min = boundingBox.min.getComponent(axisIndex);
-        const max = boundingBox.max.getComponent(axisIndex);
-        const value = 1 - ins.position.value;
-        this.plane[3] = axisInverted ? value * (max - min) - max :  max - value * (max - min);
+        // a change of the number of planes requires the materials to be updated
+        const planeCount = this.planes.length;
+        this.updatePlanes(boundingBox);
+        const refresh = ins.enabled.changed || this.planes.length !== planeCount;
 
         const models = this.getGraphComponents(CVModel2);
+        const meshes: Mesh[] = [];
 
-        _vec3.set(this.plane[0], this.plane[1], this.plane[2]);
-        localPlane.set(_vec3, this.plane[3]);
-
-        // set the slicing plane in the Uber materials of each scene model
+        // set the slicing planes in the Uber materials of each scene model
         models.forEach(model => {
             if(model.ins.slicerEnabled.value) {
                 const object = model.object3D;
                 object.traverse((mesh: Mesh) => {
-                    if (mesh.isMesh) {
+                    if (mesh.isMesh || (mesh as Object3D as Points).isPoints) {
                         const material = mesh.material as Material;
-                        this.updateMaterial(model, material);
+                        this.updateMaterial(material, refresh);
+
+                        if (mesh.isMesh) {
+                            meshes.push(mesh);
+                        }
                     }
                 });
             }
         });
 
+        this.caps.setPlanes(enabled ? this.planes : [], boundingBox);
+        if (refresh || ins.caps.changed) {
+            this.caps.setMeshes(enabled && ins.caps.value ? meshes : []);
+        }
+
+        if (this.gizmo.visible) {
+            this.updateGizmo(boundingBox);
+        }
+
         return true;
     }
 
+    preRender(context: IRenderContext)
+    {
+        if (this.caps.visible) {
+            this.caps.update();
+        }
+    }
+
     fromData(data: ISlicer)
     {
         data = data || {} as ISlicer;
 
+        const planes = data.planes || [];
+
         this.ins.setValues({
             enabled: data.enabled || false,
+            mode: ESliceMode[data.mode] || ESliceMode.Axis,
             axis: ESliceAxis[data.axis] || ESliceAxis.X,
             position: data.position || 0,
             inverted: data.inverted || false,
-            color: data.color || [ 0, 0.61, 0.87 ]
+            color: data.color || [ 0, 0.61, 0.87 ],
+            caps: data.caps !== false,
+        });
+
+        this._planeProperties.forEach((properties, index) => {
+            const plane = planes[index];
+            properties.enabled.setValue(plane ? plane.enabled !== false : index === 0);
+            properties.normal.setValue(plane ? plane.normal.slice() : _normals[index].slice());
+            properties.position.setValue(plane ? plane.position : 0.5);
         });
     }
 
@@ -173,20 +325,102 @@ export default class CVSlicer extends Component
     {
         const ins = this.ins;
 
-        return {
+        const data: ISlicer = {
             enabled: ins.enabled.value,
             axis: ESliceAxis[ins.axis.getValidatedValue()] as TSliceAxis,
             position: ins.position.value,
             inverted: ins.inverted.value,
             color: ins.color.value
         };
+
+        const mode = ins.mode.getValidatedValue();
+        if (mode !== ESliceMode.Axis) {
+            data.mode = ESliceMode[mode] as TSliceMode;
+            data.planes = this._planeProperties.map(properties => ({
+                enabled: properties.enabled.value,
+                normal: properties.normal.value.slice(),
+                position: properties.position.value,
+            }) as ISlicePlane);
+        }
+        if (!ins.caps.value) {
+            data.caps = false;
+        }
+
+        return data;
+    }
+
+    /**
+     * Computes the active slicing planes from the axis or the free plane properties.
+     */
+    protected updatePlanes(boundingBox: Box3)
+    {
+        const ins = this.ins;
+        const planes = this.planes;
+        const pool = this._planePool;
+        planes.length = 0;
+
+        if (ins.mode.getValidatedValue() === ESliceMode.Axis) {
+            const axisIndex = ins.axis.getValidatedValue();
+            const axisInverted = ins.inverted.value;
+            const plane = _planes[axisIndex + (axisInverted ? 3 : 0)];
+
+            const min = boundingBox.min.getComponent(axisIndex);
+            const max = boundingBox.max.getComponent(axisIndex);
+            const value = 1 - ins.position.value;
+            const offset = axisInverted ? value * (max - min) - max :  max - value * (max - min);
+
+            pool[0].set(_vec3a.set(plane[0], plane[1], plane[2]), offset);
+            planes.push(pool[0]);
+            return;
+        }
+
+        this._planeProperties.forEach((properties, index) => {
+            if (properties.enabled.value) {
+                // the clipping plane normal points towards the kept side
+                const normal = this.getPlaneNormal(index, _vec3a);
+                pool[index].set(normal.negate(), this.getPlaneOffset(index, boundingBox));
+                planes.push(pool[index]);
+            }
+        });
+    }
+
+    protected updateGizmo(boundingBox: Box3)
+    {
+        const index = this.ins.activePlane.getValidatedValue();
+        const normal = this.getPlaneNormal(index, _vec3a);
+        const offset = this.getPlaneOffset(index, boundingBox);
+
+        // center of the plane closest to the center of the bounding box
+        const center = boundingBox.getCenter(_vec3b);
+        center.addScaledVector(normal, offset - normal.dot(center));
+
+        const size = boundingBox.isEmpty() ? 1 : boundingBox.getSize(_vec3c).length();
+        this.gizmo.setPlane(center, normal, size);
+    }
+
+    /**
+     * Returns the normalized normal of a free plane, pointing towards the removed side.
+     */
+    protected getPlaneNormal(index: number, result: Vector3): Vector3
+    {
+        result.fromArray(this._planeProperties[index].normal.value);
+        return result.lengthSq() > 0 ? result.normalize() : result.fromArray(_normals[index]);
+    }
+
+    /**
+     * Returns the distance of a free plane from the origin, along its normal.
+     */
+    protected getPlaneOffset(index: number, boundingBox: Box3): number
+    {
+        const range = getBoxRange(boundingBox, this.getPlaneNormal(index, _vec3d), _range);
+        return range[0] + this._planeProperties[index].position.value * (range[1] - range[0]);
     }
 
-    private updateMaterial(model: CVModel2, material: Material)
+    private updateMaterial(material: Material, refresh: boolean)
     {
         const ins = this.ins;
 
-        if (ins.enabled.changed) {
+        if (refresh) {
             const enabled = ins.enabled.value;
             const renderer = this.getMainComponent(CRenderer);
             renderer.views.forEach(view => view.renderer.localClippingEnabled = ins.enabled.value);
@@ -196,13 +430,75 @@ export default class CVSlicer extends Component
             enabled || material.userData["sideCache"] == undefined ? material.userData["sideCache"] = material.side : null;
             material.side = enabled ? DoubleSide : material.userData["sideCache"];
 
-            enabled ? material.clippingPlanes = [localPlane] : null;
+            if (enabled) {
+                material.clippingPlanes = this.planes;
+                material.needsUpdate = true;
+            }
         }
 
         const shader = material.userData.shader;
         shader?.uniforms.cutPlaneColor.value.fromArray(ins.color.value);
     }
 
+    protected onGizmoPointer(event: IPointerEvent)
+    {
+        if (event.type === "pointer-down") {
+            this._handle = this.gizmo.visible ? this.gizmo.getHandle(event.object3D) : ESliceGizmoHandle.None;
+            event.stopPropagation = this._handle !== ESliceGizmoHandle.None;
+            return;
+        }
+
+        if (this._handle === ESliceGizmoHandle.None) {
+            return;
+        }
+
+        if (event.type === "pointer-up") {
+            this._handle = ESliceGizmoHandle.None;
+        }
+        else if (event.type === "pointer-move") {
+            const camera = event.viewport.updateCamera(this.scene.activeCamera);
+            const boundingBox = this.ins.boundingBox.value;
+            if (!camera || !boundingBox) {
+                return;
+            }
+
+            const index = this.ins.activePlane.getValidatedValue();
+            const properties = this._planeProperties[index];
+            const normal = this.getPlaneNormal(index, _vec3a);
+
+            if (this._handle === ESliceGizmoHandle.Move) {
+                // project the extent of the bounding box along the normal to the screen,
+                // moving the pointer by the projected length moves the plane through the whole box
+                const range = getBoxRange(boundingBox, normal, _range);
+                const start = this.gizmo.getWorldPosition(_vec3b);
+                const end = _vec3c.copy(start).addScaledVector(normal, range[1] - range[0]);
+                start.project(camera);
+                end.project(camera);
+
+                const dx = (end.x - start.x) * event.viewport.width * 0.5;
+                const dy = (start.y - end.y) * event.viewport.height * 0.5;
+                const lengthSq = dx * dx + dy * dy;
+
+                if (lengthSq > 1) {
+                    const delta = (event.movementX * dx + event.movementY * dy) / lengthSq;
+                    const position = properties.position;
+                    position.setValue(Math.min(1, Math.max(0, position.value + delta)));
+                }
+            }
+            else {
+                // rotate the normal around the camera's up and right axes
+                const speed = Math.PI / event.viewport.height;
+                const up = _vec3b.set(0, 1, 0).applyQuaternion(camera.quaternion);
+                const right = _vec3c.set(1, 0, 0).applyQuaternion(camera.quaternion);
+                normal.applyAxisAngle(up, event.movementX * speed);
+                normal.applyAxisAngle(right, event.movementY * speed);
+                properties.normal.setValue(normal.toArray());
+            }
+        }
+
+        event.stopPropagation = true;
+    }
+
     protected onModelComponent(event: IComponentEvent<CVModel2>)
     {
         const component = event.object;
@@ -214,6 +510,7 @@ export default class CVSlicer extends Component
         else if (event.remove) {
             component.off<IModelLoadEvent>("model-load", this.refreshMaterial, this);
             component.outs.variant.off("value", this.refreshMaterial, this);
+            this.refreshMaterial();
         }
     }
 
@@ -221,4 +518,21 @@ export default class CVSlicer extends Component
     protected refreshMaterial() {
         this.ins.enabled.set(); // trigger refresh of material
     }
-}
\ No newline at end of file
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Computes the range of the bounding box projected onto the given direction.
+ */
+function getBoxRange(box: Box3, direction: Vector3, result: number[]): number[]
+{
+    const center = box.getCenter(_vec3e);
+    const halfSize = box.getSize(_vec3f).multiplyScalar(0.5);
+    const radius = halfSize.x * Math.abs(direction.x) + halfSize.y * Math.abs(direction.y) + halfSize.z * Math.abs(direction.z);
+    const distance = center.dot(direction);
+
+    result[0] = distance - radius;
+    result[1] = distance + radius;
+    return result;
+}
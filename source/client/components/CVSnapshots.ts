@@ -16,13 +16,14 @@
  */
 
 import { Dictionary } from "@ff/core/types";
+import SplineTrack, { InterpolationType } from "@ff/core/SplineTrack";
 import Component from "@ff/graph/Component";
-import CTweenMachine, { EEasingCurve } from "@ff/graph/components/CTweenMachine";
+import CTweenMachine, { EEasingCurve, ITweenState } from "@ff/graph/components/CTweenMachine";
 import CLight from "@ff/scene/components/CLight";
 
 import { IObjectEvent } from "@ff/core/ObjectRegistry";
 
-import { ISnapshots } from "client/schema/setup";
+import { ISnapshots, ICameraPathKey } from "client/schema/setup";
 
 import CVSetup from "./CVSetup";
 import CVModel2 from "./CVModel2";
@@ -34,12 +35,26 @@ import CVAnnotationView from "./CVAnnotationView";
 
 export { EEasingCurve };
 
+export interface ISnapshotState extends ITweenState
+{
+    /** Keyframed camera path of the transition to the state. */
+    path?: ICameraPathKey[];
+}
+
+export interface ICameraPose
+{
+    orbit: number[];
+    offset: number[];
+}
+
 export default class CVSnapshots extends CTweenMachine
 {
     static readonly typeName: string = "CVSnapshots";
 
     targetFeatures: Dictionary<boolean> = {};
 
+    private _pathTracks: SplineTrack[] = null;
+
     create()
     {
         super.create();
@@ -121,6 +136,138 @@ export default class CVSnapshots extends CTweenMachine
          */
     }
 
+    getState(id: string): ISnapshotState {
+        return this.states[id];
+    }
+
+    /**
+     * Sets the camera path of the given state. Keys are sorted by time, an empty path removes the path.
+     */
+    setPath(id: string, path: ICameraPathKey[])
+    {
+        const state = this.getState(id);
+        if (!state) {
+            return;
+        }
+
+        if (path && path.length > 0) {
+            state.path = path.slice().sort((a, b) => a.time - b.time);
+        }
+        else {
+            delete state.path;
+        }
+    }
+
+    /**
+     * Returns the camera pose on the path of the given state at the given time.
+     * @param id The id of the target state.
+     * @param time Time in seconds since the start of the transition.
+     * @param startValues The values at the start of the transition, by default the current values.
+     * @returns The pose, or null if the state has no path or the camera is not a snapshot target.
+     */
+    getPathPose(id: string, time: number, startValues?: any[]): ICameraPose | null
+    {
+        const indices = this.getCameraIndices();
+        const tracks = this.createPathTracks(this.getState(id), startValues || this.getCurrentValues());
+        return indices && tracks ? this.getTrackPose(tracks, time) : null;
+    }
+
+    tweenTo(stateId: string, secondsElapsed: number)
+    {
+        const values = this.getCurrentValues();
+        const result = super.tweenTo(stateId, secondsElapsed);
+        this._pathTracks = result ? this.createPathTracks(this.getState(stateId), values) : null;
+        return result;
+    }
+
+    protected setTweenValues(valuesA: any[], state: ITweenState, tweenTime: number, factor: number, doSwitch: boolean)
+    {
+        const tracks = this._pathTracks;
+        const indices = this.getCameraIndices();
+
+        if (!tracks || !indices) {
+            return super.setTweenValues(valuesA, state, tweenTime, factor, doSwitch);
+        }
+
+        // camera values follow the path, independent of the tween factor
+        const pose = this.getTrackPose(tracks, tweenTime);
+        const valuesB = state.values.slice();
+        valuesA = valuesA.slice();
+        valuesA[indices[0]] = valuesB[indices[0]] = pose.orbit;
+        valuesA[indices[1]] = valuesB[indices[1]] = pose.offset;
+
+        this.setValues(valuesA, valuesB, factor, doSwitch);
+    }
+
+    /**
+     * Creates tracks for the orbit and offset components of the camera path of the given state.
+     * The path starts at the given values and ends at the values of the state. Spline keys get
+     * Catmull-Rom tangents, the path starts and ends with zero velocity.
+     */
+    protected createPathTracks(state: ISnapshotState, startValues: any[]): SplineTrack[] | null
+    {
+        const indices = this.getCameraIndices();
+        if (!state || !state.path || state.path.length === 0 || !indices) {
+            return null;
+        }
+
+        const [ orbitIndex, offsetIndex ] = indices;
+        if (!state.values[orbitIndex] || !state.values[offsetIndex]) {
+            return null;
+        }
+
+        const keys: ICameraPathKey[] = [
+            { time: 0, orbit: startValues[orbitIndex], offset: startValues[offsetIndex] },
+            ...state.path.filter(key => key.time > 0 && key.time < state.duration),
+            { time: state.duration, orbit: state.values[orbitIndex], offset: state.values[offsetIndex] },
+        ];
+
+        const tracks: SplineTrack[] = [];
+
+        for (let c = 0; c < 6; ++c) {
+            const track = new SplineTrack();
+            const values = keys.map(key => c < 3 ? key.orbit[c] : key.offset[c - 3]);
+
+            keys.forEach((key, index) => {
+                const isEnd = index === 0 || index === keys.length - 1;
+                const slope = isEnd ? 0 : (values[index + 1] - values[index - 1]) / (keys[index + 1].time - keys[index - 1].time);
+                const leftTime = index > 0 ? (keys[index - 1].time - key.time) / 3 : 0;
+                const rightTime = index < keys.length - 1 ? (keys[index + 1].time - key.time) / 3 : 0;
+
+                track.insertKey({
+                    time: key.time,
+                    value: values[index],
+                    type: InterpolationType[key.interpolation || "Spline"],
+                    leftTime,
+                    leftValue: leftTime * slope,
+                    rightTime,
+                    rightValue: rightTime * slope,
+                });
+            });
+
+            tracks.push(track);
+        }
+
+        return tracks;
+    }
+
+    protected getTrackPose(tracks: SplineTrack[], time: number): ICameraPose
+    {
+        const values = tracks.map(track => track.valueAt(time));
+        return { orbit: values.slice(0, 3), offset: values.slice(3, 6) };
+    }
+
+    /** Returns the target indices of the camera orbit and offset, or null if they aren't snapshot targets. */
+    protected getCameraIndices(): [ number, number ] | null
+    {
+        const navigation = this.getGraphComponent(CVSetup).navigation;
+        const properties = this.getTargetProperties();
+        const orbitIndex = properties.indexOf(navigation.ins.orbit);
+        const offsetIndex = properties.indexOf(navigation.ins.offset);
+
+        return orbitIndex >= 0 && offsetIndex >= 0 ? [ orbitIndex, offsetIndex ] : null;
+    }
+
     protected onLightComponentEvent = (event: IObjectEvent<CLight>) => {
         const light = event.object;
 
@@ -191,13 +338,17 @@ export default class CVSnapshots extends CTweenMachine
 
         data.states.forEach(state => {
             if(state.id !== CVTours.sceneSnapshotId) {
-                this.setState({
+                const snapshotState: ISnapshotState = {
                     id: state.id,
                     curve: state.curve !== undefined ? EEasingCurve[state.curve] : EEasingCurve.EaseQuad,
                     duration: state.duration !== undefined ? state.duration : 2,
                     threshold: state.threshold !== undefined ? state.threshold : 0.5,
                     values: state.values.filter((value, index) => !missingTargets.has(index)),
-                });
+                };
+                if (state.path && state.path.length > 0) {
+                    snapshotState.path = state.path.map(key => Object.assign({}, key));
+                }
+                this.setState(snapshotState);
             }
         });
     }
@@ -220,7 +371,7 @@ export default class CVSnapshots extends CTweenMachine
                 return componentPath + "/" + key;
             }),
             states: Object.keys(this.states).map(key => {
-                const state = this.states[key];
+                const state = this.getState(key);
                 const data: any = { id: state.id, values: state.values };
                 if (state.curve !== EEasingCurve.EaseQuad) {
                     data.curve = EEasingCurve[state.curve];
@@ -231,6 +382,9 @@ export default class CVSnapshots extends CTweenMachine
                 if (state.threshold !== 0.5) {
                     data.threshold = state.threshold;
                 }
+                if (state.path && state.path.length > 0) {
+                    data.path = state.path;
+                }
                 return data;
             }),
         };
@@ -18,6 +18,9 @@
 import download from "@ff/browser/download";
 import { downloadZip } from "client-zip";
 
+import Commander from "@ff/core/Commander";
+import { ICommand } from "@ff/core/Command";
+
 import Component, { Node, types } from "@ff/graph/Component";
 
 import Notification from "@ff/ui/Notification";
@@ -34,10 +37,70 @@ import CVMediaManager from "./CVMediaManager";
 import CVMeta from "./CVMeta";
 import CVStandaloneFileManager from "./CVStandaloneFileManager";
 import CVAssetReader from "./CVAssetReader";
+import SceneExporter from "../io/SceneExporter";
 
 ////////////////////////////////////////////////////////////////////////////////
 
+/**
+ * Object whose state can be recorded in the story undo history.
+ */
+export interface IUndoTarget
+{
+    restoreUndoState: (state: any) => void;
+}
+
+/**
+ * Undo history entry. The change has already been applied when the command is recorded,
+ * therefore the first call to do() is a no-op.
+ */
+class UndoCommand implements ICommand
+{
+    readonly name: string;
+
+    protected target: IUndoTarget;
+    protected before: any;
+    protected after: any;
+    protected isDone = true;
+
+    constructor(name: string, target: IUndoTarget, before: any, after: any)
+    {
+        this.name = name;
+        this.target = target;
+        this.before = before;
+        this.after = after;
+    }
+
+    do()
+    {
+        if (!this.isDone) {
+            this.target.restoreUndoState(this.after);
+            this.isDone = true;
+        }
+    }
 
+    undo()
+    {
+        this.target.restoreUndoState(this.before);
+        this.isDone = false;
+    }
+
+    canDo()
+    {
+        return true;
+    }
+
+    canUndo()
+    {
+        return true;
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Main component of the Voyager Story application. Handles saving and downloading of the active document
+ * and owns the undo history shared by all Story tasks.
+ */
 export default class CVStoryApplication extends Component
 {
     static readonly typeName: string = "CVStoryApplication";
@@ -47,10 +110,15 @@ export default class CVStoryApplication extends Component
         exit: types.Event("Application.Exit"),
         save: types.Event("Document.Save"),
         download: types.Event("Document.Download"),
+        exportGLB: types.Event("Document.ExportGLB"),
+        undo: types.Event("History.Undo"),
+        redo: types.Event("History.Redo"),
     };
 
     ins = this.addInputs(CVStoryApplication.ins);
 
+    readonly commander = new Commander(50);
+
     referrer: string = "";
     dragdrop: boolean = false;
 
@@ -80,20 +148,58 @@ export default class CVStoryApplication extends Component
     {
         super(node, id);
         this.beforeUnload = this.beforeUnload.bind(this);
+        this.onKeyDown = this.onKeyDown.bind(this);
     }
 
     create()
     {
         super.create();
         window.addEventListener("beforeunload", this.beforeUnload);
+        window.addEventListener("keydown", this.onKeyDown);
+        this.documentProvider.on("active-component", this.clearHistory, this);
     }
 
     dispose()
     {
+        this.documentProvider.off("active-component", this.clearHistory, this);
+        window.removeEventListener("keydown", this.onKeyDown);
         window.removeEventListener("beforeunload", this.beforeUnload);
         super.dispose();
     }
 
+    /**
+     * Adds an already applied change to the undo history.
+     * @param name Name of the change, displayed in the history.
+     * @param target Object restoring its state on undo/redo.
+     * @param before State of the target before the change.
+     * @param after State of the target after the change.
+     */
+    recordUndo(name: string, target: IUndoTarget, before: any, after: any)
+    {
+        this.commander.do(new UndoCommand(name, target, before, after));
+    }
+
+    /**
+     * Undoes or redoes changes until the given history entry is the most recently applied one.
+     * @param index Index of the history entry, -1 to undo all changes.
+     */
+    revertTo(index: number)
+    {
+        const commander = this.commander;
+
+        while (commander.getPointer() > index && commander.canUndo()) {
+            commander.undo();
+        }
+        while (commander.getPointer() < index && commander.canRedo()) {
+            commander.redo();
+        }
+    }
+
+    clearHistory()
+    {
+        this.commander.clear();
+    }
+
     update()
     {
         const ins = this.ins;
@@ -102,6 +208,13 @@ export default class CVStoryApplication extends Component
             location.assign(this.referrer);
         }
 
+        if (ins.undo.changed) {
+            this.commander.undo();
+        }
+        if (ins.redo.changed) {
+            this.commander.redo();
+        }
+
         const cvDocument = this.documentProvider.activeComponent;
 
         if (cvDocument) {
@@ -122,6 +235,8 @@ export default class CVStoryApplication extends Component
                     .then(async () =>{
                         let data = await this.getMainComponent(CVAssetReader).getJSON(cvDocument.assetPath)
                         this.documentProvider.amendDocument(data, cvDocument.assetPath, false);
+                        // the document has been rebuilt, recorded states refer to disposed components
+                        this.clearHistory();
 
                         new Notification(`Successfully uploaded file to '${cvDocument.assetPath}'`, "info", 4000)
                     })
@@ -154,12 +269,46 @@ export default class CVStoryApplication extends Component
                 const fileName = this.assetManager.getAssetName(cvDocument.assetPath);
                 download.json(json, fileName);
             }
+
+            if (ins.exportGLB.changed) {
+                const fileName = this.assetManager.getAssetName(cvDocument.assetPath).replace(/(\.svx)?\.json$/, "") + ".glb";
+                const exporter = new SceneExporter(this.getMainComponent(CVAssetReader));
+
+                exporter.exportGLB(cvDocument)
+                .then(buffer => {
+                    const blob = new Blob([ buffer ], { type: "model/gltf-binary" });
+                    download.url(URL.createObjectURL(blob), fileName);
+                })
+                .catch(error => new Notification(`Failed to export scene as glTF: ${error.message}`, "error", 8000));
+            }
         }
 
 
         return false;
     }
 
+    protected onKeyDown(event: KeyboardEvent)
+    {
+        if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+            return;
+        }
+
+        // leave undo/redo in text fields to the browser
+        const target = event.composedPath()[0] as HTMLElement;
+        if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+            return;
+        }
+
+        if (event.code === "KeyZ") {
+            event.shiftKey ? this.ins.redo.set() : this.ins.undo.set();
+            event.preventDefault();
+        }
+        else if (event.code === "KeyY" && !event.shiftKey) {
+            this.ins.redo.set();
+            event.preventDefault();
+        }
+    }
+
     /**
      * Provoke a user prompt before unloading the page
      * @param event
@@ -15,13 +15,24 @@
  * limitations under the License.
  */
 
-import { Matrix3, Vector3, Box3, Line, Group, BufferGeometry, LineBasicMaterial, Box3Helper, BufferAttribute, Material } from "three";
+import { Matrix3, Vector3, Box3, Line, Group, BufferGeometry, LineBasicMaterial, Box3Helper, BufferAttribute, Material, Points } from "three";
 
 import CObject3D, { Node, types, IPointerEvent } from "@ff/scene/components/CObject3D";
+import Document from "@ff/core/Document";
+import download from "@ff/browser/download";
 
-import { ITape } from "client/schema/setup";
+import { ITape, IMeasurement, TMeasurementType } from "client/schema/setup";
 
 import Pin from "../utils/Pin";
+import Measurement, {
+    EMeasurementType,
+    getMinPoints,
+    isComplete,
+    getMeasurementValue,
+    getLabelPosition,
+    getMeasurementUnit,
+    formatMeasurement,
+} from "../utils/Measurement";
 import CVModel2 from "./CVModel2";
 import CVScene from "client/components/CVScene";
 import { EUnitType } from "client/schema/common";
@@ -39,6 +50,23 @@ const _vec3up = new Vector3(0, 1, 0);
 
 export enum ETapeState { SetStart, SetEnd }
 
+export { EMeasurementType };
+
+interface ISavedMeasurement
+{
+    data: IMeasurement;
+    object: Measurement;
+    label: Annotation;
+}
+
+/**
+ * Measuring tape. In distance mode, the tape measures the distance between a start and an end point.
+ * In polyline, angle and area mode, the tape collects points until the measurement is complete.
+ * Angles are complete with three points, polylines and areas are completed with the finish event.
+ * The current measurement can be saved as named measurement. Saved measurements are part of the
+ * document and stay visible independent of the tape; the visible ones are listed by id in
+ * the visibleMeasurements property, which can be recorded in snapshots.
+ */
 export default class CVTape extends CObject3D
 {
     static readonly typeName: string = "CVTape";
@@ -55,11 +83,19 @@ export default class CVTape extends CObject3D
         globalUnits: types.Enum("Model.GlobalUnits", EUnitType, EUnitType.cm),
         localUnits: types.Enum("Model.LocalUnits", EUnitType, EUnitType.cm),
         enabled: types.Boolean("Tape.Enabled", false),
+        mode: types.Enum("Tape.Mode", EMeasurementType, EMeasurementType.Distance),
+        finish: types.Event("Tape.Finish"),
+        save: types.Event("Tape.Save"),
+        exportCSV: types.Event("Tape.ExportCSV"),
+        visibleMeasurements: types.String("Tape.VisibleMeasurements"),
     };
 
     protected static readonly tapeOuts = {
         state: types.Enum("Tape.State", ETapeState),
         distance: types.Number("Tape.Distance"),
+        value: types.Number("Tape.Value"),
+        pointCount: types.Integer("Tape.PointCount"),
+        count: types.Integer("Measurements.Count"),
         unitScale: types.Number("UnitScale", { preset: 1, precision: 5 })
     };
 
@@ -79,15 +115,32 @@ export default class CVTape extends CObject3D
             this.ins.startDirection,
             this.ins.endPosition,
             this.ins.endDirection,
+            this.ins.visibleMeasurements,
         ];
     }
 
+    /** The saved measurements. */
+    get measurements() {
+        return this._measurements.map(measurement => measurement.data);
+    }
+
     protected startPin: Pin = null;
     protected endPin: Pin = null;
     protected line: Line = null;
     protected annotationView: CVStaticAnnotationView = null;
     protected label: Annotation = null;
 
+    protected tapeGroup: Group = null;
+    protected pending: Measurement = null;
+    protected pendingPoints: number[][] = [];
+    protected pendingDirections: number[][] = [];
+
+    protected measurementGroup: Group = null;
+    protected measurementView: CVStaticAnnotationView = null;
+    protected pinScale = 1;
+
+    private _measurements: ISavedMeasurement[] = [];
+
     constructor(node: Node, id: string)
     {
         super(node, id);
@@ -124,7 +177,16 @@ export default class CVTape extends CObject3D
         this.annotationView.ins.visible.setValue(false);
         this.annotationView.addAnnotation(annotation);
 
-        this.object3D.add(this.startPin, this.endPin, this.line);
+        // the tape group contains the current measurement and is hidden with the tape,
+        // saved measurements stay visible
+        this.tapeGroup = new Group();
+        this.tapeGroup.add(this.startPin, this.endPin, this.line);
+
+        this.measurementGroup = new Group();
+        this.measurementView = this.node.createComponent(CVStaticAnnotationView);
+        this.measurementView.ins.visible.setValue(true);
+
+        this.object3D.add(this.tapeGroup, this.measurementGroup);
     }
 
     create()
@@ -138,7 +200,12 @@ export default class CVTape extends CObject3D
 
     dispose()
     {
-        this.object3D.remove(this.startPin, this.endPin, this.line);
+        this.clearPending();
+        this._measurements.forEach(measurement => this.disposeMeasurement(measurement));
+        this._measurements.length = 0;
+
+        this.tapeGroup.remove(this.startPin, this.endPin, this.line);
+        this.object3D.remove(this.tapeGroup, this.measurementGroup);
 
         this.startPin.dispose();
         this.endPin.dispose();
@@ -165,27 +232,71 @@ export default class CVTape extends CObject3D
 
         super.update(context);
 
+        // only the current measurement is hidden with the tape
+        if (ins.visible.changed) {
+            this.tapeGroup.visible = ins.visible.value;
+            this.object3D.visible = true;
+        }
+
         // determine pin scale based on scene/model bounding box
         if (ins.boundingBox.changed && ins.boundingBox.value) {
             ins.boundingBox.value.getSize(_vec3a);
             const radius = _vec3a.length() * 0.5;
+            this.pinScale = radius * 0.003;
 
-            startPin.scale.setScalar(radius * 0.003);
+            startPin.scale.setScalar(this.pinScale);
             startPin.updateMatrix();
 
-            endPin.scale.setScalar(radius * 0.003);
+            endPin.scale.setScalar(this.pinScale);
             endPin.updateMatrix();
 
+            if (this.pending) {
+                this.pending.setPinScale(this.pinScale);
+            }
+            this._measurements.forEach(measurement => measurement.object.setPinScale(this.pinScale));
+
             const defaultScale = radius * 0.05;
             this.annotationView.ins.unitScale.setValue(defaultScale);
+            this.measurementView.ins.unitScale.setValue(defaultScale);
+            this._measurements.forEach(measurement => this.updateMeasurement(measurement));
+            this.updatePending();
             ins.endPosition.set(); // always trigger recalculation
         }
 
+        if (ins.mode.changed) {
+            const isDistance = ins.mode.value === EMeasurementType.Distance;
+            this.clearPending();
+            startPin.visible = endPin.visible = line.visible = isDistance && this.outs.distance.value > 0;
+            this.annotationView.ins.visible.setValue(isDistance && this.outs.distance.value > 0 && ins.visible.value);
+            this.outs.value.setValue(isDistance ? this.outs.distance.value : 0);
+            this.outs.state.setValue(ETapeState.SetStart);
+            if (isDistance) {
+                ins.endPosition.set(); // restore distance label
+            }
+        }
+
+        if (ins.finish.changed && this.outs.state.value === ETapeState.SetEnd
+                && this.pendingPoints.length >= getMinPoints(ins.mode.value)) {
+            this.outs.state.setValue(ETapeState.SetStart);
+        }
+
+        if (ins.save.changed) {
+            this.saveMeasurement();
+        }
+
+        if (ins.visibleMeasurements.changed) {
+            this.updateVisibleMeasurements();
+        }
+
+        if (ins.exportCSV.changed && this._measurements.length > 0) {
+            download.text(this.toCSV(), "measurements.csv");
+        }
+
         // if tape is enabled, listen for pointer events to set tape start/end
         if (ins.enabled.changed) {
             if (ins.enabled.value) {
                 this.system.on<IPointerEvent>("pointer-up", this.onPointerUp, this);
-                this.annotationView.ins.visible.setValue(this.outs.distance.value > 0);
+                this.annotationView.ins.visible.setValue(this.getCurrentValue() > 0);
             }
             else {
                 this.system.off<IPointerEvent>("pointer-up", this.onPointerUp, this);
@@ -197,7 +308,10 @@ export default class CVTape extends CObject3D
             if(ins.visible.value) {
                 const startPos = ins.startPosition.value;
                 const endPos = ins.endPosition.value;
-                if(startPos[0] != endPos[0] || startPos[1] != endPos[1] || startPos[2] != endPos[2]) {
+                if (ins.mode.value !== EMeasurementType.Distance) {
+                    this.annotationView.ins.visible.setValue(this.getCurrentValue() > 0);
+                }
+                else if(startPos[0] != endPos[0] || startPos[1] != endPos[1] || startPos[2] != endPos[2]) {
                     startPin.visible = true;
                     endPin.visible = true;
                     line.visible = true;
@@ -225,7 +339,9 @@ export default class CVTape extends CObject3D
             positions[1] = startPin.position.y;
             positions[2] = startPin.position.z;
             lineGeometry.attributes.position.needsUpdate = true;
-            this.annotationView.ins.visible.setValue(false);
+            if (ins.mode.value === EMeasurementType.Distance) {
+                this.annotationView.ins.visible.setValue(false);
+            }
         }
 
         // update tape end point
@@ -247,15 +363,20 @@ export default class CVTape extends CObject3D
             const tapeLength = _vec3a.distanceTo(_vec3b);
             this.outs.distance.setValue(tapeLength);
 
-            // update distance label
-            const data = this.label.data;
-            const scaleFactor = 1/this.annotationView.ins.unitScale.value;
-            data.position = [scaleFactor*(positions[0]+positions[3])/2.0,scaleFactor*(positions[1]+positions[4])/2.0,scaleFactor*(positions[2]+positions[5])/2.0];
-            const units = this.ins.globalUnits.getOptionText();
-            this.label.title = tapeLength.toFixed(2) + " " + units;
-            this.annotationView.updateAnnotation(this.label, true);
-            if(tapeLength > 0 && this.ins.visible.value) {
-                this.annotationView.ins.visible.setValue(true);
+            // the label shows the current measurement, which is the tape only in distance mode
+            if (ins.mode.value === EMeasurementType.Distance) {
+                this.outs.value.setValue(tapeLength);
+
+                // update distance label
+                const data = this.label.data;
+                const scaleFactor = 1/this.annotationView.ins.unitScale.value;
+                data.position = [scaleFactor*(positions[0]+positions[3])/2.0,scaleFactor*(positions[1]+positions[4])/2.0,scaleFactor*(positions[2]+positions[5])/2.0];
+                const units = this.ins.globalUnits.getOptionText();
+                this.label.title = tapeLength.toFixed(2) + " " + units;
+                this.annotationView.updateAnnotation(this.label, true);
+                if(tapeLength > 0 && this.ins.visible.value) {
+                    this.annotationView.ins.visible.setValue(true);
+                }
             }
         }
 
@@ -272,19 +393,123 @@ export default class CVTape extends CObject3D
             endDirection: data.endDirection || [ 1, 0, 0 ]
         });
         this.ins.enabled.copyValue(false);  // enable not set from data
+
+        this._measurements.forEach(measurement => this.disposeMeasurement(measurement));
+        this._measurements = [];
+
+        const measurements = data.measurements || [];
+        measurements.forEach(measurement => this.addMeasurement({
+            id: measurement.id,
+            name: measurement.name,
+            type: measurement.type,
+            points: measurement.points.map(point => point.slice()),
+            directions: measurement.directions.map(direction => direction.slice()),
+        }));
+
+        this.ins.visibleMeasurements.setValue(measurements
+            .filter(measurement => measurement.visible !== false)
+            .map(measurement => measurement.id).join(","));
     }
 
     toData(): ITape
     {
         const ins = this.ins;
 
-        return {
+        const data: ITape = {
             enabled: ins.visible.cloneValue()/*,
             startPosition: ins.startPosition.cloneValue(),
             startDirection: ins.startDirection.cloneValue(),
             endPosition: ins.endPosition.cloneValue(),
             endDirection: ins.endDirection.cloneValue()*/
         };
+
+        if (this._measurements.length > 0) {
+            const visibleIds = this.getVisibleIds();
+
+            data.measurements = this._measurements.map(({ data }) => {
+                const measurement: IMeasurement = {
+                    id: data.id,
+                    name: data.name,
+                    type: data.type,
+                    points: data.points.map(point => point.slice()),
+                    directions: data.directions.map(direction => direction.slice()),
+                };
+                if (visibleIds.indexOf(data.id) < 0) {
+                    measurement.visible = false;
+                }
+                return measurement;
+            });
+        }
+
+        return data;
+    }
+
+    /**
+     * Returns the value of the given measurement: a length or area in scene units, or an angle in degrees.
+     */
+    getMeasurementValue(measurement: IMeasurement): number
+    {
+        return getMeasurementValue(EMeasurementType[measurement.type], measurement.points);
+    }
+
+    renameMeasurement(id: string, name: string)
+    {
+        const measurement = this.getMeasurement(id);
+        if (measurement) {
+            measurement.data.name = name;
+            this.updateMeasurement(measurement);
+            this.emit("update");
+        }
+    }
+
+    deleteMeasurement(id: string)
+    {
+        const measurement = this.getMeasurement(id);
+        if (measurement) {
+            this.disposeMeasurement(measurement);
+            this._measurements.splice(this._measurements.indexOf(measurement), 1);
+            this.outs.count.setValue(this._measurements.length);
+            this.setMeasurementVisible(id, false);
+            this.emit("update");
+        }
+    }
+
+    isMeasurementVisible(id: string): boolean
+    {
+        return this.getVisibleIds().indexOf(id) >= 0;
+    }
+
+    setMeasurementVisible(id: string, visible: boolean)
+    {
+        const ids = this.getVisibleIds().filter(visibleId => visibleId !== id);
+        if (visible) {
+            ids.push(id);
+        }
+
+        this.ins.visibleMeasurements.setValue(ids.join(","));
+    }
+
+    /**
+     * Returns the saved measurements as comma separated values. Lengths, areas and points are
+     * given in scene units, angles in degrees.
+     */
+    toCSV(): string
+    {
+        const units = this.ins.globalUnits.getOptionText();
+        const rows = [ [ "Name", "Type", "Value", "Unit", "Points" ] ];
+
+        this._measurements.forEach(({ data }) => {
+            const type = EMeasurementType[data.type];
+            rows.push([
+                data.name,
+                data.type,
+                String(+this.getMeasurementValue(data).toFixed(6)),
+                getMeasurementUnit(type, units),
+                data.points.map(point => point.map(value => +value.toFixed(6)).join(" ")).join("; "),
+            ]);
+        });
+
+        return rows.map(row => row.map(field => /[",;\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field).join(",")).join("\n") + "\n";
     }
 
     protected onPointerUp(event: IPointerEvent)
@@ -305,6 +530,17 @@ export default class CVTape extends CObject3D
         const position = event.view.pickPosition(event, bounds).applyMatrix4(worldMatrix); 
         const normal = event.view.pickNormal(event).applyMatrix3(_mat3).normalize();
 
+        // point clouds usually come without normals, pins are pointing up instead
+        const points = event.object3D as Points;
+        if (points.isPoints && !points.geometry.getAttribute("normal")) {
+            normal.set(0, 1, 0);
+        }
+
+        if (this.ins.mode.value !== EMeasurementType.Distance) {
+            this.addPendingPoint(position.toArray(), normal.toArray());
+            return;
+        }
+
         // update pins and measurement line
         const { startPin, endPin, line, ins, outs } = this;
 
@@ -347,6 +583,197 @@ export default class CVTape extends CObject3D
         _vec3a.fromArray(ins.endPosition.value);
         ins.endPosition.setValue(_vec3a.multiplyScalar(this.outs.unitScale.value).toArray());
 
+        const scale = this.outs.unitScale.value;
+        const scalePoints = (points: number[][]) => points.forEach(point => _vec3a.fromArray(point).multiplyScalar(scale).toArray(point));
+
+        scalePoints(this.pendingPoints);
+        this.updatePending();
+
+        this._measurements.forEach(measurement => {
+            scalePoints(measurement.data.points);
+            this.updateMeasurement(measurement);
+        });
+
         ins.localUnits.setValue(toUnits);
     }
+
+    /** Returns the value of the current measurement. */
+    protected getCurrentValue(): number
+    {
+        const mode = this.ins.mode.value;
+        return mode === EMeasurementType.Distance ? this.outs.distance.value : getMeasurementValue(mode, this.pendingPoints);
+    }
+
+    protected addPendingPoint(position: number[], direction: number[])
+    {
+        const { ins, outs } = this;
+        const mode = ins.mode.value;
+
+        // start a new measurement after the previous one has been completed
+        if (outs.state.value === ETapeState.SetStart) {
+            this.clearPending();
+        }
+
+        this.pendingPoints.push(position);
+        this.pendingDirections.push(direction);
+        this.updatePending();
+
+        outs.state.setValue(isComplete(mode, this.pendingPoints.length) ? ETapeState.SetStart : ETapeState.SetEnd);
+    }
+
+    protected clearPending()
+    {
+        if (this.pending) {
+            this.tapeGroup.remove(this.pending);
+            this.pending.dispose();
+            this.pending = null;
+        }
+
+        this.pendingPoints = [];
+        this.pendingDirections = [];
+        this.outs.pointCount.setValue(0);
+    }
+
+    /** Updates the graphics and the label of the pending measurement. */
+    protected updatePending()
+    {
+        const { ins, outs } = this;
+        const mode = ins.mode.value;
+        const points = this.pendingPoints;
+
+        if (points.length === 0 || mode === EMeasurementType.Distance) {
+            return;
+        }
+
+        if (!this.pending) {
+            this.pending = new Measurement(mode);
+            this.pending.setPinScale(this.pinScale);
+            this.tapeGroup.add(this.pending);
+        }
+
+        this.pending.setPoints(points, this.pendingDirections);
+
+        const value = getMeasurementValue(mode, points);
+        outs.pointCount.setValue(points.length);
+        outs.value.setValue(value);
+
+        const scaleFactor = 1 / this.annotationView.ins.unitScale.value;
+        this.label.data.position = getLabelPosition(mode, points).map(component => component * scaleFactor);
+        this.label.title = formatMeasurement(mode, value, ins.globalUnits.getOptionText());
+        this.annotationView.updateAnnotation(this.label, true);
+        this.annotationView.ins.visible.setValue(value > 0 && ins.visible.value);
+    }
+
+    /** Saves the current measurement if it is complete. */
+    protected saveMeasurement()
+    {
+        const { ins, outs } = this;
+        const mode = ins.mode.value;
+        let points: number[][], directions: number[][];
+
+        if (mode === EMeasurementType.Distance) {
+            if (outs.distance.value <= 0 || outs.state.value !== ETapeState.SetStart) {
+                return;
+            }
+            points = [ ins.startPosition.cloneValue(), ins.endPosition.cloneValue() ];
+            directions = [ ins.startDirection.cloneValue(), ins.endDirection.cloneValue() ];
+        }
+        else {
+            if (outs.state.value !== ETapeState.SetStart || this.pendingPoints.length < getMinPoints(mode)) {
+                return;
+            }
+            points = this.pendingPoints.map(point => point.slice());
+            directions = this.pendingDirections.map(direction => direction.slice());
+        }
+
+        const id = Document.generateId();
+        this.addMeasurement({
+            id,
+            name: `Measurement ${this._measurements.length + 1}`,
+            type: EMeasurementType[mode] as TMeasurementType,
+            points,
+            directions,
+        });
+
+        this.setMeasurementVisible(id, true);
+    }
+
+    protected addMeasurement(data: IMeasurement)
+    {
+        const type = EMeasurementType[data.type];
+        if (type === undefined) {
+            return;
+        }
+
+        const object = new Measurement(type);
+        object.setPinScale(this.pinScale);
+        object.visible = false;
+        this.measurementGroup.add(object);
+
+        const label = new Annotation(undefined);
+        label.data.style = "Standard";
+        label.data.direction = [0,0,0];
+
+        const measurement: ISavedMeasurement = { data, object, label };
+        this._measurements.push(measurement);
+        this.updateMeasurement(measurement);
+
+        this.outs.count.setValue(this._measurements.length);
+    }
+
+    protected updateMeasurement(measurement: ISavedMeasurement)
+    {
+        const { data, object, label } = measurement;
+        const type = EMeasurementType[data.type];
+        const value = getMeasurementValue(type, data.points);
+        const scaleFactor = 1 / this.measurementView.ins.unitScale.value;
+
+        object.setPoints(data.points, data.directions);
+
+        label.data.position = getLabelPosition(type, data.points).map(component => component * scaleFactor);
+        label.title = `${data.name}: ${formatMeasurement(type, value, this.ins.globalUnits.getOptionText())}`;
+
+        if (object.visible) {
+            this.measurementView.updateAnnotation(label, true);
+        }
+    }
+
+    protected disposeMeasurement(measurement: ISavedMeasurement)
+    {
+        if (measurement.object.visible) {
+            this.measurementView.removeAnnotation(measurement.label);
+        }
+
+        this.measurementGroup.remove(measurement.object);
+        measurement.object.dispose();
+        measurement.label.dispose();
+    }
+
+    protected updateVisibleMeasurements()
+    {
+        const visibleIds = this.getVisibleIds();
+
+        this._measurements.forEach(measurement => {
+            const visible = visibleIds.indexOf(measurement.data.id) >= 0;
+            if (visible !== measurement.object.visible) {
+                measurement.object.visible = visible;
+                if (visible) {
+                    this.measurementView.addAnnotation(measurement.label);
+                }
+                else {
+                    this.measurementView.removeAnnotation(measurement.label);
+                }
+            }
+        });
+    }
+
+    protected getMeasurement(id: string): ISavedMeasurement
+    {
+        return this._measurements.find(measurement => measurement.data.id === id);
+    }
+
+    protected getVisibleIds(): string[]
+    {
+        return this.ins.visibleMeasurements.value.split(",").filter(id => !!id);
+    }
 }
\ No newline at end of file
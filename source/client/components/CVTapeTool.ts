@@ -16,10 +16,12 @@
  */
 
 import "../ui/properties/PropertyBoolean";
+import "../ui/properties/PropertyOptions";
 import "../ui/properties/PropertyString";
 
 import CVDocument from "./CVDocument";
-import { ETapeState } from "./CVTape";
+import { ETapeState, EMeasurementType } from "./CVTape";
+import { formatMeasurement, getMinPoints } from "../utils/Measurement";
 
 import CVTool, { ToolView, customElement, html } from "./CVTool";
 
@@ -63,34 +65,63 @@ export class TapeToolView extends ToolView<CVTapeTool>
         const tool = this.tool;
         const tape = document.setup.tape;
         const enabled = tape.ins.enabled;
+        const mode = tape.ins.mode.value;
         const state = tape.outs.state.value;
         const distance = tape.outs.distance.value;
+        const pointCount = tape.outs.pointCount.value;
         const language = document.setup.language;
+        const units = document.root.scene.ins.units.getOptionText();
+
+        const isDistance = mode === EMeasurementType.Distance;
+        const isComplete = state === ETapeState.SetStart && (isDistance ? distance > 0 : pointCount > 0);
+        const canFinish = !isDistance && mode !== EMeasurementType.Angle
+            && state === ETapeState.SetEnd && pointCount >= getMinPoints(mode);
 
         let text;
 
         if (!enabled.value) {
             text = language.getLocalizedString("Switch on to take measurements") + ".";
         }
+        else if (isComplete) {
+            text = formatMeasurement(mode, tape.outs.value.value, units);
+        }
+        else if (!isDistance) {
+            text = language.getLocalizedString("Tap on model to add points") + ".";
+        }
         else if (distance === 0) {
             text = language.getLocalizedString("Tap on model to set start of tape") + ".";
         }
-        else if (state === ETapeState.SetStart) {
-            const units = document.root.scene.ins.units.getOptionText();
-            text = `${distance.toFixed(2)} ${units}`;
-        }
         else {
             text = language.getLocalizedString("Tap on model to set end of tape") + ".";
         }
 
         this.statusMsg = text;
 
+        const measurements = tape.measurements.map(measurement => html`<div class="sv-measurement">
+            <ff-button icon="eye" title=${language.getLocalizedString("Show Measurement")} ?selected=${tape.isMeasurementVisible(measurement.id)}
+                @click=${() => tape.setMeasurementVisible(measurement.id, !tape.isMeasurementVisible(measurement.id))}></ff-button>
+            <input class="sv-measurement-name" type="text" .value=${measurement.name} aria-label=${language.getLocalizedString("Name")}
+                @change=${(event: Event) => tape.renameMeasurement(measurement.id, (event.target as HTMLInputElement).value)}>
+            <div class="sv-measurement-value">${formatMeasurement(EMeasurementType[measurement.type], tape.getMeasurementValue(measurement), units)}</div>
+            <ff-button icon="close" title=${language.getLocalizedString("Delete Measurement")} @click=${() => tape.deleteMeasurement(measurement.id)}></ff-button>
+        </div>`);
+
         return html`<div class="sv-section"><ff-button class="sv-section-lead" title=${language.getLocalizedString("Close Tool")} @click=${this.onClose} transparent icon="close"></ff-button>
             <div class="sv-tool-controls">
                 <sv-property-boolean .property=${enabled} .language=${language} name=${language.getLocalizedString("Tape Tool")}></sv-property-boolean>
-                <div class="sv-property-view"><label class="ff-label ff-off">${language.getLocalizedString("Measured Distance")}</label>
+                <sv-property-options .property=${tape.ins.mode} .language=${language} name=${language.getLocalizedString("Mode")}></sv-property-options>
+                <div class="sv-property-view"><label class="ff-label ff-off">${language.getLocalizedString(isDistance ? "Measured Distance" : "Measured Value")}</label>
                 <div class="ff-string" aria-live="polite" aria-atomic="true"></div></div>
-            </div></div>`;
+                <div class="sv-property sv-measurement-commands">
+                    <label class="ff-label ff-off"></label>
+                    <div class="sv-options">
+                        ${canFinish ? html`<ff-button text=${language.getLocalizedString("Finish")} @click=${this.onClickFinish}></ff-button>` : null}
+                        <ff-button text=${language.getLocalizedString("Save")} ?disabled=${!isComplete} @click=${this.onClickSave}></ff-button>
+                        <ff-button text=${language.getLocalizedString("Export CSV")} ?disabled=${measurements.length === 0} @click=${this.onClickExport}></ff-button>
+                    </div>
+                </div>
+            </div></div>
+            ${measurements.length > 0 ? html`<div class="sv-section sv-measurement-list">${measurements}</div>` : null}`;
     }
 
     protected updated(changedProperties): void
@@ -127,6 +158,21 @@ export class TapeToolView extends ToolView<CVTapeTool>
         focusElement.focus();
     }
 
+    protected onClickFinish()
+    {
+        this.activeDocument.setup.tape.ins.finish.set();
+    }
+
+    protected onClickSave()
+    {
+        this.activeDocument.setup.tape.ins.save.set();
+    }
+
+    protected onClickExport()
+    {
+        this.activeDocument.setup.tape.ins.exportCSV.set();
+    }
+
     protected onClose(event: MouseEvent)
     {
         this.parentElement.dispatchEvent(new CustomEvent("close"));
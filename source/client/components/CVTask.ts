@@ -24,6 +24,7 @@ import CVDocument from "./CVDocument";
 import NodeView, { customElement, property, html } from "../ui/explorer/NodeView";
 import Property from "@ff/graph/Property";
 import CVDocumentProvider from "./CVDocumentProvider";
+import type CVStoryApplication from "./CVStoryApplication";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -38,11 +39,25 @@ export interface CVTaskConfiguration{
     lodEnabled?: boolean
 }
 
+/**
+ * Snapshot of the state edited by a task, recorded in the undo history.
+ */
+export interface IUndoState
+{
+    /** The object the state belongs to. States of different targets are never compared. */
+    target: object;
+    /** Serialized state, used to detect changes. */
+    data: string;
+}
+
 /**
  * Base class for tasks in the Voyager Story authoring environment. A task provides a number of tools. The tools operate
  * in the context of the currently selected node or component.
  *
  * In order to be aware of the currently selected node, CVTask inherits from CVNodeObserver.
+ *
+ * Tasks supporting undo/redo override [[getUndoState]] and [[applyUndoState]], and call
+ * [[recordUndo]] or [[scheduleUndo]] after modifying their state.
  */
 export default class CVTask extends CVNodeObserver
 {
@@ -70,6 +85,10 @@ export default class CVTask extends CVNodeObserver
 
     private _isActiveTask = false;
 
+    private _undoState: IUndoState = null;
+    private _undoName = "";
+    private _undoTimer = 0;
+
     protected configuration :CVTaskConfiguration = {
         bracketsVisible: undefined,
         interfaceVisible: undefined,
@@ -92,6 +111,7 @@ export default class CVTask extends CVNodeObserver
             this.deactivateTask();
         }
 
+        window.clearTimeout(this._undoTimer);
         super.dispose();
     }
 
@@ -122,6 +142,8 @@ export default class CVTask extends CVNodeObserver
      */
     deactivateTask()
     {
+        this.flushUndo();
+
         const savedConfig = this._savedConfig;
 
         if (typeof savedConfig.bracketsVisible !== "undefined") {
@@ -133,6 +155,85 @@ export default class CVTask extends CVNodeObserver
         this.outs.isActive.setValue(false);
     }
 
+    /**
+     * Restores a state recorded in the undo history.
+     */
+    restoreUndoState(state: IUndoState)
+    {
+        window.clearTimeout(this._undoTimer);
+        this._undoTimer = 0;
+
+        this.applyUndoState(state);
+        this._undoState = this.getUndoState();
+    }
+
+    /**
+     * Override to return a snapshot of the state edited by the task. Return null if there is nothing to record.
+     */
+    protected getUndoState(): IUndoState
+    {
+        return null;
+    }
+
+    /**
+     * Override to restore a state previously returned by [[getUndoState]].
+     */
+    protected applyUndoState(state: IUndoState)
+    {
+    }
+
+    /**
+     * Compares the current state with the last recorded one and adds an entry to the undo history if it changed.
+     * @param name Name of the change, displayed in the history.
+     */
+    protected recordUndo(name: string)
+    {
+        window.clearTimeout(this._undoTimer);
+        this._undoTimer = 0;
+
+        const previous = this._undoState;
+        const next = this._undoState = this.getUndoState();
+        const story = this.system.getComponent<CVStoryApplication>("CVStoryApplication", true);
+
+        if (story && previous && next && previous.target === next.target && previous.data !== next.data) {
+            story.recordUndo(name, this, previous, next);
+        }
+    }
+
+    /**
+     * Records the current state after a delay. Use for continuous edits, e.g. typing or dragging,
+     * so that they are combined into a single history entry.
+     * @param name Name of the change, displayed in the history.
+     */
+    protected scheduleUndo(name: string)
+    {
+        window.clearTimeout(this._undoTimer);
+        this._undoName = name;
+        this._undoTimer = window.setTimeout(() => this.recordUndo(name), 500);
+    }
+
+    /**
+     * Immediately records a change scheduled with [[scheduleUndo]]. Call before applying
+     * a new change to keep it separate from pending ones.
+     */
+    protected flushUndo()
+    {
+        if (this._undoTimer) {
+            this.recordUndo(this._undoName);
+        }
+    }
+
+    /**
+     * Takes the current state as the new reference without recording a change.
+     * Call after switching to a different target, e.g. when the active node changes.
+     */
+    protected resetUndo()
+    {
+        window.clearTimeout(this._undoTimer);
+        this._undoTimer = 0;
+        this._undoState = this.getUndoState();
+    }
+
     /**
      * Called when the currently active document changes.
      */
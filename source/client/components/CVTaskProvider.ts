@@ -25,7 +25,6 @@ import CComponentProvider, {
 
 import CVTask from "./CVTask";
 import taskSets, { ETaskMode } from "../applications/taskSets";
-import { DEFAULT_LANGUAGE, ELanguageStringType, ELanguageType } from "client/schema/common";
 import CVLanguageManager from "./CVLanguageManager";
 
 ////////////////////////////////////////////////////////////////////////////////
@@ -20,7 +20,8 @@ import { ITweenState } from "@ff/graph/components/CTweenMachine";
 import { IPulseContext } from "@ff/graph/components/CPulse";
 
 import { ITour, ITours, ITourStep } from "client/schema/setup";
-import { ELanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { DEFAULT_LANGUAGE } from "client/schema/common";
+import { normalizeLanguageKeys, toDocumentLanguageKeys } from "client/utils/languages";
 
 import CVSnapshots, { EEasingCurve } from "./CVSnapshots";
 import CVAnalytics from "./CVAnalytics";
@@ -95,11 +96,11 @@ export default class CVTours extends Component
             tour.titles[DEFAULT_LANGUAGE] = tour.title;
         }
 
-        return tour.titles[ELanguageType[this.language.outs.activeLanguage.value]] || "Missing content";
+        return tour.titles[this.language.outs.activeLanguage.value] || "Missing content";
     }
     set title(inTitle: string) {
         const tour = this.activeTour;
-        tour.titles[ELanguageType[this.language.outs.activeLanguage.value]] = inTitle; 
+        tour.titles[this.language.outs.activeLanguage.value] = inTitle; 
     }
     get lead() {
         const tour = this.activeTour;
@@ -108,11 +109,11 @@ export default class CVTours extends Component
             tour.leads[DEFAULT_LANGUAGE] = tour.lead;
         }
 
-        return tour.leads[ELanguageType[this.language.outs.activeLanguage.value]] || "";
+        return tour.leads[this.language.outs.activeLanguage.value] || "";
     }
     set lead(inLead: string) {
         const tour = this.activeTour;
-        tour.leads[ELanguageType[this.language.outs.activeLanguage.value]] = inLead;
+        tour.leads[this.language.outs.activeLanguage.value] = inLead;
     }
     get taglist() {
         const tour = this.activeTour;
@@ -123,11 +124,11 @@ export default class CVTours extends Component
             }
         }
 
-        return tour.taglist[ELanguageType[this.language.outs.activeLanguage.value]] || [];
+        return tour.taglist[this.language.outs.activeLanguage.value] || [];
     }
     set taglist(inTags: string[]) {
         const tour = this.activeTour;
-        tour.taglist[ELanguageType[this.language.outs.activeLanguage.value]] = inTags;
+        tour.taglist[this.language.outs.activeLanguage.value] = inTags;
     }
     get stepTitle() {
         const step = this.activeStep;
@@ -138,7 +139,7 @@ export default class CVTours extends Component
                 step.titles[DEFAULT_LANGUAGE] = step.title;
             }
 
-            return step.titles[ELanguageType[this.language.outs.activeLanguage.value]] || "Missing content";
+            return step.titles[this.language.outs.activeLanguage.value] || "Missing content";
         }
         else {
             return null;
@@ -147,14 +148,14 @@ export default class CVTours extends Component
     set stepTitle(inTitle: string) {
         const step = this.activeStep;
         if(step) {
-            step.titles[ELanguageType[this.language.outs.activeLanguage.value]] = inTitle;
+            step.titles[this.language.outs.activeLanguage.value] = inTitle;
         }
     }
     get stepAltText() {
         const step = this.activeStep;
 
         if(step) {
-            return step.altTexts[ELanguageType[this.language.outs.activeLanguage.value]] || "Missing content";
+            return step.altTexts[this.language.outs.activeLanguage.value] || "Missing content";
         }
         else {
             return null;
@@ -163,7 +164,7 @@ export default class CVTours extends Component
     set stepAltText(inText: string) {
         const step = this.activeStep;
         if(step) {
-            step.altTexts[ELanguageType[this.language.outs.activeLanguage.value]] = inText;
+            step.altTexts[this.language.outs.activeLanguage.value] = inText;
         }
     }
 
@@ -293,23 +294,23 @@ export default class CVTours extends Component
         this._tours = data.map(tour => ({
             id: tour.id,
             title: tour.title,
-            titles: tour.titles || {},
+            titles: normalizeLanguageKeys(tour.titles) || {},
             steps: tour.steps.map(step => ({
                 title: step.title,
-                titles: step.titles || {},
-                altTexts: step.altTexts || {},
+                titles: normalizeLanguageKeys(step.titles) || {},
+                altTexts: normalizeLanguageKeys(step.altTexts) || {},
                 id: step.id,
             })),
             lead: tour.lead || "",
-            leads: tour.leads || {},
+            leads: normalizeLanguageKeys(tour.leads) || {},
             tags: tour.tags || [],
-            taglist: tour.taglist || {}
+            taglist: normalizeLanguageKeys(tour.taglist) || {}
         }));
 
         // update langauges used in tours
         this._tours.forEach( tour => {
             Object.keys(tour.titles).forEach( key => {
-                this.language.addLanguage(ELanguageType[key]);
+                this.language.addLanguage(key);
             });
 
             // TODO: Delete when single string properties are phased out
@@ -337,14 +338,14 @@ export default class CVTours extends Component
                     const tourstep: Partial<ITourStep> = {};
                     tourstep.id = step.id;
                     if (Object.keys(step.titles).length > 0) {
-                        tourstep.titles = step.titles;
+                        tourstep.titles = toDocumentLanguageKeys(step.titles);
                     }
                     else if (step.title) {
                         tourstep.title = step.title;
                     }
 
                     if (Object.keys(step.altTexts).length > 0) {
-                        tourstep.altTexts = step.altTexts;
+                        tourstep.altTexts = toDocumentLanguageKeys(step.altTexts);
                     }
 
                     return tourstep as ITourStep;
@@ -352,19 +353,19 @@ export default class CVTours extends Component
             };
 
             if (Object.keys(tour.titles).length > 0) {
-                data.titles = tour.titles;
+                data.titles = toDocumentLanguageKeys(tour.titles);
             }
             else if (tour.title) {
                 data.title = tour.title;
             }
             if (Object.keys(tour.leads).length > 0) {
-                data.leads = tour.leads;
+                data.leads = toDocumentLanguageKeys(tour.leads);
             }
             else if (tour.lead) {
                 data.lead = tour.lead;
             }
             if (Object.keys(tour.taglist).length > 0) {
-                data.taglist = tour.taglist;
+                data.taglist = toDocumentLanguageKeys(tour.taglist);
             }
             else if (tour.tags.length > 0) {
                 data.tags = tour.tags;
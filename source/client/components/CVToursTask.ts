@@ -16,20 +16,35 @@
  */
 
 import { Node } from "@ff/graph/Component";
+import { InterpolationType } from "@ff/core/SplineTrack";
+import download from "@ff/browser/download";
+import Notification from "@ff/ui/Notification";
+import CPulse from "@ff/graph/components/CPulse";
+import CRenderer from "@ff/scene/components/CRenderer";
 
-import CVTask, { types } from "./CVTask";
+import CVTask, { types, IUndoState } from "./CVTask";
 import ToursTaskView from "../ui/story/ToursTaskView";
 
 import CVDocument from "./CVDocument";
 import CVTours from "./CVTours";
 import CVSnapshots, { EEasingCurve } from "./CVSnapshots";
-import { ELanguageType } from "client/schema/common";
+import { ICameraPathKey, TPathInterpolation } from "client/schema/setup";
+import { ITweenState } from "@ff/graph/components/CTweenMachine";
 import Document from "@ff/core/Document";
+import TourVideoRecorder from "../io/TourVideoRecorder";
 ////////////////////////////////////////////////////////////////////////////////
 
 let _nextTourIndex = 0;
 let _nextStepIndex = 0;
 
+const _videoSizes = [
+    { name: "640 x 360", width: 640, height: 360 },
+    { name: "1280 x 720", width: 1280, height: 720 },
+    { name: "1920 x 1080", width: 1920, height: 1080 },
+    { name: "1080 x 1080", width: 1080, height: 1080 },
+    { name: "1080 x 1920", width: 1080, height: 1920 },
+];
+
 export default class CVToursTask extends CVTask
 {
     static readonly typeName: string = "CVToursTask";
@@ -54,10 +69,27 @@ export default class CVToursTask extends CVTask
         stepCurve: types.Enum("Step.Curve", EEasingCurve),
         stepDuration: types.Number("Step.Duration", 1),
         stepThreshold: types.Percent("Step.Threshold", 0.5),
-        stepAltText: types.String("Step.AltText")
+        stepAltText: types.String("Step.AltText"),
+        pathTime: types.Number("Path.Time", { preset: 0, min: 0 }),
+        pathKeyIndex: types.Integer("Path.KeyIndex", -1),
+        pathKeyTime: types.Number("Path.KeyTime", { preset: 0, min: 0 }),
+        pathKeyInterpolation: types.Enum("Path.KeyInterpolation", InterpolationType, InterpolationType.Spline),
+        addPathKey: types.Event("Path.AddKey"),
+        updatePathKey: types.Event("Path.UpdateKey"),
+        deletePathKey: types.Event("Path.DeleteKey"),
+        clearPath: types.Event("Path.Clear"),
+        videoResolution: types.Option("Video.Resolution", _videoSizes.map(size => size.name), 1),
+        videoFrameRate: types.Integer("Video.FrameRate", { preset: 30, min: 1, max: 60 }),
+        videoHoldTime: types.Number("Video.HoldTime", { preset: 2, min: 0 }),
+        videoAnnotations: types.Boolean("Video.Annotations", true),
+        videoCaptions: types.Boolean("Video.Captions", true),
+        exportVideo: types.Event("Video.Export"),
+        cancelVideo: types.Event("Video.Cancel"),
     };
 
     protected static readonly outs = {
+        videoRecording: types.Boolean("Video.Recording"),
+        videoProgress: types.Percent("Video.Progress"),
     };
 
     ins = this.addInputs<CVTask, typeof CVToursTask.ins>(CVToursTask.ins);
@@ -66,6 +98,8 @@ export default class CVToursTask extends CVTask
     tours: CVTours = null;
     machine: CVSnapshots = null;
 
+    protected recorder: TourVideoRecorder = null;
+
     constructor(node: Node, id: string)
     {
         super(node, id);
@@ -103,13 +137,28 @@ export default class CVToursTask extends CVTask
         const languageManager = this.activeDocument.setup.language;
 
 
+        if (ins.cancelVideo.changed && this.recorder) {
+            this.recorder.cancel();
+        }
+        // no edits while recording a video
+        if (this.outs.videoRecording.value) {
+            return false;
+        }
+
         if (tour) {
             const stepList = tour.steps;
             const stepIndex = tours.outs.stepIndex.value;
             const step = stepList[stepIndex];
 
+            if (ins.exportVideo.changed) {
+                this.exportVideo();
+                return true;
+            }
+
             // tour step actions
             if (ins.createStep.changed) {
+                this.flushUndo();
+
                 const id = machine.setState({
                     values: machine.getCurrentValues(),
                     curve: EEasingCurve.EaseOutQuad,
@@ -123,9 +172,10 @@ export default class CVToursTask extends CVTask
                     altTexts: {},
                     id
                 });
-                stepList[stepIndex + 1].titles[ELanguageType[languageManager.ins.primarySceneLanguage.value]] = languageManager.getSceneSetupLocalizedString("New Step #") + _nextStepIndex++;
+                stepList[stepIndex + 1].titles[languageManager.ins.primarySceneLanguage.value] = languageManager.getSceneSetupLocalizedString("New Step #") + _nextStepIndex++;
 
                 tours.ins.stepIndex.setValue(stepIndex + 1);
+                this.recordUndo("Create Step");
                 return true;
             }
 
@@ -140,29 +190,41 @@ export default class CVToursTask extends CVTask
                     machine.ins.duration.setValue(ins.stepDuration.value);
                     machine.ins.threshold.setValue(ins.stepThreshold.value);
                     tours.ins.stepIndex.setValue(stepIndex);
+                    this.scheduleUndo("Edit Step");
                     return true;
                 }
 
                 if (ins.updateStep.changed) {
+                    this.flushUndo();
                     machine.ins.store.set();
+                    this.scheduleUndo("Update Step");
+                    return true;
+                }
+                if (this.updatePath(step.id)) {
                     return true;
                 }
                 if (ins.deleteStep.changed) {
+                    this.flushUndo();
                     stepList.splice(stepIndex, 1);
                     machine.ins.delete.set();
                     tours.ins.stepIndex.setValue(stepIndex);
+                    this.scheduleUndo("Delete Step");
                     return true;
                 }
                 if (stepIndex > 0 && ins.moveStepUp.changed) {
+                    this.flushUndo();
                     stepList[stepIndex] = stepList[stepIndex - 1];
                     stepList[stepIndex - 1] = step;
                     tours.ins.stepIndex.setValue(stepIndex - 1);
+                    this.recordUndo("Move Step");
                     return true;
                 }
                 if (stepIndex < stepList.length - 1 && ins.moveStepDown.changed) {
+                    this.flushUndo();
                     stepList[stepIndex] = stepList[stepIndex + 1];
                     stepList[stepIndex + 1] = step;
                     tours.ins.stepIndex.setValue(stepIndex + 1);
+                    this.recordUndo("Move Step");
                     return true;
                 }
             }
@@ -179,30 +241,38 @@ export default class CVToursTask extends CVTask
                     tours.taglist = ins.tourTags.value.split(",").map(tag => tag.trim()).filter(tag => !!tag);
                 }
                 tours.ins.tourIndex.set();
+                this.scheduleUndo("Edit Tour");
                 return true;
             }
             if (ins.deleteTour.changed) {
+                this.flushUndo();
                 tour.steps.forEach(step => machine.deleteState(step.id));
                 tourList.splice(tourIndex, 1);
                 tours.ins.tourIndex.setValue(tourIndex);
                 tours.outs.count.setValue(tourList.length);
+                this.recordUndo("Delete Tour");
                 return true;
             }
             if (tourIndex > 0 && ins.moveTourUp.changed) {
+                this.flushUndo();
                 tourList[tourIndex] = tourList[tourIndex - 1];
                 tourList[tourIndex - 1] = tour;
                 tours.ins.tourIndex.setValue(tourIndex - 1);
+                this.recordUndo("Move Tour");
                 return true;
             }
             if (tourIndex < tourList.length - 1 && ins.moveTourDown.changed) {
+                this.flushUndo();
                 tourList[tourIndex] = tourList[tourIndex + 1];
                 tourList[tourIndex + 1] = tour;
                 tours.ins.tourIndex.setValue(tourIndex + 1);
+                this.recordUndo("Move Tour");
                 return true;
             }
         }
 
         if (ins.createTour.changed) {
+            this.flushUndo();
             tourList.splice(tourIndex + 1, 0, {
                 id: Document.generateId(),
                 title: "",
@@ -213,9 +283,10 @@ export default class CVToursTask extends CVTask
                 taglist: {},
                 steps: []
             });
-            tourList[tourIndex + 1].titles[ELanguageType[languageManager.ins.primarySceneLanguage.value]] = "New Tour #" + _nextTourIndex++;
+            tourList[tourIndex + 1].titles[languageManager.ins.primarySceneLanguage.value] = "New Tour #" + _nextTourIndex++;
             tours.ins.tourIndex.setValue(tourIndex + 1);
             tours.outs.count.setValue(tourList.length);
+            this.recordUndo("Create Tour");
             
             //Disabled in eCorpus to prevent language switching
             //languageManager.ins.activeLanguage.setValue(languageManager.ins.primarySceneLanguage.value);
@@ -230,6 +301,162 @@ export default class CVToursTask extends CVTask
         return new ToursTaskView(this);
     }
 
+    /**
+     * Records the active tour to a WebM video and downloads the file.
+     */
+    protected exportVideo()
+    {
+        const ins = this.ins;
+        const outs = this.outs;
+        const size = _videoSizes[ins.videoResolution.value];
+        const fileName = (this.tours.title || "tour").replace(/[^\w-]+/g, "_") + ".webm";
+
+        if (!this.recorder) {
+            this.recorder = new TourVideoRecorder(this.getMainComponent(CRenderer), this.getMainComponent(CPulse));
+        }
+
+        outs.videoRecording.setValue(true);
+        outs.videoProgress.setValue(0);
+
+        this.recorder.record(this.tours, {
+            width: size.width,
+            height: size.height,
+            frameRate: ins.videoFrameRate.value,
+            holdTime: ins.videoHoldTime.value,
+            bitrate: size.width * size.height * 4,
+            annotations: ins.videoAnnotations.value,
+            captions: ins.videoCaptions.value,
+        }, progress => outs.videoProgress.setValue(progress))
+        .then(blob => {
+            outs.videoRecording.setValue(false);
+
+            if (blob) {
+                download.url(URL.createObjectURL(blob), fileName);
+            }
+            else {
+                new Notification("Video export cancelled.", "info", 4000);
+            }
+        })
+        .catch(error => {
+            outs.videoRecording.setValue(false);
+            new Notification(`Failed to export video: ${error.message}`, "error", 8000);
+        });
+    }
+
+    /**
+     * Handles camera path edits of the given step. New keys and updated keys take the current camera pose.
+     * @returns True if the path has been edited.
+     */
+    protected updatePath(stepId: string): boolean
+    {
+        const ins = this.ins;
+        const machine = this.machine;
+        const state = machine.getState(stepId);
+        if (!state) {
+            return false;
+        }
+
+        const path = state.path || [];
+        const key = path[ins.pathKeyIndex.value];
+        const navigation = this.activeDocument.setup.navigation;
+
+        if (ins.addPathKey.changed) {
+            this.flushUndo();
+            const time = ins.pathTime.value > 0 && ins.pathTime.value < state.duration ? ins.pathTime.value : state.duration * 0.5;
+            const newKey: ICameraPathKey = {
+                time,
+                orbit: navigation.ins.orbit.cloneValue(),
+                offset: navigation.ins.offset.cloneValue(),
+                interpolation: InterpolationType[ins.pathKeyInterpolation.value] as TPathInterpolation,
+            };
+            machine.setPath(stepId, path.concat(newKey));
+            this.selectPathKey(machine.getState(stepId).path.indexOf(newKey));
+            this.recordUndo("Add Path Key");
+            return true;
+        }
+        if (ins.clearPath.changed) {
+            this.flushUndo();
+            machine.setPath(stepId, null);
+            this.selectPathKey(-1);
+            this.recordUndo("Clear Path");
+            return true;
+        }
+        if (ins.pathKeyIndex.changed) {
+            this.selectPathKey(key ? ins.pathKeyIndex.value : -1);
+            return true;
+        }
+        if (ins.pathTime.changed) {
+            this.previewPath(stepId, ins.pathTime.value);
+            return true;
+        }
+
+        if (!key) {
+            return false;
+        }
+
+        if (ins.updatePathKey.changed) {
+            this.flushUndo();
+            key.orbit = navigation.ins.orbit.cloneValue();
+            key.offset = navigation.ins.offset.cloneValue();
+            this.selectPathKey(ins.pathKeyIndex.value);
+            this.recordUndo("Update Path Key");
+            return true;
+        }
+        if (ins.deletePathKey.changed) {
+            this.flushUndo();
+            machine.setPath(stepId, path.filter(pathKey => pathKey !== key));
+            this.selectPathKey(-1);
+            this.recordUndo("Delete Path Key");
+            return true;
+        }
+        if (ins.pathKeyTime.changed || ins.pathKeyInterpolation.changed) {
+            key.time = Math.min(ins.pathKeyTime.value, state.duration);
+            key.interpolation = InterpolationType[ins.pathKeyInterpolation.value] as TPathInterpolation;
+            machine.setPath(stepId, path);
+            this.selectPathKey(machine.getState(stepId).path.indexOf(key));
+            this.scheduleUndo("Edit Path Key");
+            return true;
+        }
+
+        return false;
+    }
+
+    /** Selects a key of the active step's path and moves the timeline to the key. */
+    protected selectPathKey(index: number)
+    {
+        const ins = this.ins;
+        const step = this.tours.activeStep;
+        const state = step ? this.machine.getState(step.id) : null;
+        const key = state && state.path ? state.path[index] : null;
+
+        ins.pathKeyIndex.setValue(key ? index : -1, true);
+        if (key) {
+            ins.pathKeyTime.setValue(key.time, true);
+            ins.pathKeyInterpolation.setValue(InterpolationType[key.interpolation || "Spline"], true);
+            ins.pathTime.setValue(key.time, true);
+            this.previewPath(step.id, key.time);
+        }
+    }
+
+    /**
+     * Moves the camera to its pose on the path of the given step at the given time. The path starts
+     * at the camera pose of the previous step, or at the pose before the tour for the first step.
+     */
+    protected previewPath(stepId: string, time: number)
+    {
+        const tours = this.tours;
+        const steps = tours.activeSteps;
+        const index = steps.findIndex(step => step.id === stepId);
+        const startState = this.machine.getState(index > 0 ? steps[index - 1].id : CVTours.sceneSnapshotId);
+
+        const pose = this.machine.getPathPose(stepId, time, startState ? startState.values : undefined);
+        if (pose) {
+            const navigation = this.activeDocument.setup.navigation;
+            navigation.ins.orbit.setValue(pose.orbit);
+            navigation.ins.offset.setValue(pose.offset);
+        }
+    }
+
     activateTask()
     {
         super.activateTask();
@@ -237,6 +464,8 @@ export default class CVToursTask extends CVTask
         if (this.tours) {
             this.tours.ins.enabled.setValue(true);
         }
+
+        this.resetUndo();
     }
 
     deactivateTask()
@@ -248,6 +477,49 @@ export default class CVToursTask extends CVTask
         super.deactivateTask();
     }
 
+    protected getUndoState(): IUndoState
+    {
+        const tours = this.tours;
+        if (!tours) {
+            return null;
+        }
+
+        // tour steps and their snapshot states
+        const tourList = tours.toData() || [];
+        const states: ITweenState[] = [];
+        tourList.forEach(tour => tour.steps.forEach(step => {
+            const state = this.machine.getState(step.id);
+            if (state) {
+                states.push(state);
+            }
+        }));
+
+        return { target: tours, data: JSON.stringify({ tours: tourList, states }) };
+    }
+
+    protected applyUndoState(state: IUndoState)
+    {
+        const tours = state.target as CVTours;
+        const machine = tours.getComponent(CVSnapshots);
+        const data = JSON.parse(state.data);
+        const valueCount = machine.getTargetProperties().length;
+
+        tours.tours.forEach(tour => tour.steps.forEach(step => machine.deleteState(step.id)));
+        data.states.forEach((tweenState: ITweenState) => {
+            // skip states recorded with a different set of snapshot targets
+            if (tweenState.values.length === valueCount) {
+                machine.setState(tweenState);
+            }
+        });
+
+        const tourIndex = tours.outs.tourIndex.value;
+        const stepIndex = tours.outs.stepIndex.value;
+
+        tours.fromData(data.tours);
+        tours.ins.tourIndex.setValue(Math.min(tourIndex, data.tours.length - 1));
+        tours.ins.stepIndex.setValue(stepIndex);
+    }
+
     protected onActiveDocument(previous: CVDocument, next: CVDocument)
     {
         if (previous) {
@@ -275,6 +547,7 @@ export default class CVToursTask extends CVTask
             }
         }
 
+        this.resetUndo();
         this.changed = true;
     }
 
@@ -300,6 +573,8 @@ export default class CVToursTask extends CVTask
         ins.stepCurve.setValue(state ? state.curve : EEasingCurve.Linear, true);
         ins.stepDuration.setValue(state ? state.duration : 1, true);
         ins.stepThreshold.setValue(state ? state.threshold : 0.5, true);
+        ins.pathKeyIndex.setValue(-1, true);
+        ins.pathTime.setValue(0, true);
     }
 
     protected onDocumentLanguageChange()
@@ -0,0 +1,455 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { types } from "@ff/graph/Component";
+
+import { TLanguageType } from "client/schema/common";
+import { normalizeLanguage } from "client/utils/languages";
+import { ESliceAxis, ESliceMode } from "client/schema/setup";
+
+import CVDocumentObserver from "./CVDocumentObserver";
+import CVDocument from "./CVDocument";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Minimum time in milliseconds between two updates of the URL hash. */
+const _updateInterval = 500;
+
+export interface IViewSlicePlane
+{
+    normal: number[];
+    position: number;
+}
+
+export interface IViewSlicerState
+{
+    mode: ESliceMode;
+    axis?: ESliceAxis;
+    position?: number;
+    inverted?: boolean;
+    planes?: IViewSlicePlane[];
+}
+
+/**
+ * State of the view which can be encoded in a link. All members are optional,
+ * missing members leave the corresponding state unchanged.
+ */
+export interface IViewState
+{
+    /** Orbit angles (pitch, yaw, roll) in degrees. */
+    orbit?: number[];
+    /** Camera offset in scene units. */
+    offset?: number[];
+    annotation?: string;
+    /** Active tags, separated by commas. */
+    tags?: string;
+    article?: string;
+    tour?: number;
+    step?: number;
+    slicer?: IViewSlicerState;
+    /** BCP-47 language tag, e.g. "en". */
+    language?: TLanguageType;
+}
+
+/**
+ * Encodes the state of the active document's view (camera, annotation, tags, article, tour step,
+ * slicer and language) as a string usable as URL hash, and restores the view from such a string.
+ * If enabled, the URL hash of the window is kept in sync with the view.
+ */
+export default class CVViewState extends CVDocumentObserver
+{
+    static readonly typeName: string = "CVViewState";
+
+    static readonly isSystemSingleton = true;
+
+    protected static readonly ins = {
+        enabled: types.Boolean("ViewState.Enabled"),
+    };
+
+    ins = this.addInputs(CVViewState.ins);
+
+    private _hash = "";
+    private _timer = 0;
+
+    constructor(node, id)
+    {
+        super(node, id);
+        this.onTimer = this.onTimer.bind(this);
+        this.onHashChange = this.onHashChange.bind(this);
+    }
+
+    create()
+    {
+        super.create();
+        this.startObserving();
+    }
+
+    dispose()
+    {
+        this.stopObserving();
+        window.removeEventListener("hashchange", this.onHashChange);
+        window.clearTimeout(this._timer);
+        super.dispose();
+    }
+
+    update()
+    {
+        const ins = this.ins;
+
+        if (ins.enabled.changed) {
+            if (ins.enabled.value) {
+                window.addEventListener("hashchange", this.onHashChange);
+                this.onViewUpdate();
+            }
+            else {
+                window.removeEventListener("hashchange", this.onHashChange);
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns the current view state of the active document, encoded as URL hash without leading "#".
+     */
+    getHash(): string
+    {
+        return this.activeDocument ? formatViewState(this.getState()) : "";
+    }
+
+    /**
+     * Restores the view state of the active document from a URL hash.
+     */
+    setHash(hash: string)
+    {
+        if (this.activeDocument) {
+            this.setState(parseViewState(hash));
+        }
+    }
+
+    /**
+     * Restores the view state of the active document from the URL hash of the window.
+     */
+    restore()
+    {
+        this._hash = window.location.hash.replace(/^#/, "");
+        this.setHash(this._hash);
+    }
+
+    getState(): IViewState
+    {
+        const setup = this.activeDocument.setup;
+        const state: IViewState = {};
+
+        const navigationIns = setup.navigation.ins;
+        state.orbit = navigationIns.orbit.value.slice();
+        state.offset = navigationIns.offset.value.slice();
+
+        const viewerIns = setup.viewer.ins;
+        if (viewerIns.activeAnnotation.value) {
+            state.annotation = viewerIns.activeAnnotation.value;
+        }
+        if (viewerIns.activeTags.value) {
+            state.tags = viewerIns.activeTags.value;
+        }
+
+        const reader = setup.reader;
+        if (reader.ins.enabled.value && reader.activeArticle) {
+            state.article = reader.activeArticle.id;
+        }
+
+        const tours = setup.tours;
+        if (tours.ins.enabled.value && tours.outs.tourIndex.value >= 0) {
+            state.tour = tours.outs.tourIndex.value;
+            state.step = Math.max(tours.outs.stepIndex.value, 0);
+        }
+
+        const slicer = setup.slicer;
+        const slicerIns = slicer.ins;
+        if (slicerIns.enabled.value) {
+            if (slicerIns.mode.value === ESliceMode.Free) {
+                const planes = [ 0, 1, 2 ].map(index => slicer.getPlaneProperties(index))
+                    .filter(plane => plane.enabled.value)
+                    .map(plane => ({ normal: plane.normal.value.slice(), position: plane.position.value }));
+
+                state.slicer = { mode: ESliceMode.Free, planes };
+            }
+            else {
+                state.slicer = {
+                    mode: ESliceMode.Axis,
+                    axis: slicerIns.axis.value,
+                    position: slicerIns.position.value,
+                    inverted: slicerIns.inverted.value,
+                };
+            }
+        }
+
+        state.language = setup.language.outs.activeLanguage.value;
+
+        return state;
+    }
+
+    setState(state: IViewState)
+    {
+        const setup = this.activeDocument.setup;
+
+        if (state.language) {
+            setup.language.ins.activeLanguage.setValue(state.language);
+        }
+
+        if (state.tags !== undefined) {
+            setup.viewer.ins.activeTags.setValue(state.tags);
+        }
+        if (state.annotation !== undefined) {
+            setup.viewer.ins.activeAnnotation.setValue(state.annotation);
+        }
+
+        if (state.article) {
+            const readerIns = setup.reader.ins;
+            readerIns.enabled.setValue(true);
+            readerIns.articleId.setValue(state.article);
+        }
+
+        if (state.slicer) {
+            this.setSlicerState(state.slicer);
+        }
+
+        // the camera of a tour step overrides the camera of the state
+        if (state.tour >= 0 && state.tour < setup.tours.tours.length) {
+            const toursIns = setup.tours.ins;
+            toursIns.enabled.setValue(true);
+            toursIns.tourIndex.setValue(state.tour);
+            toursIns.stepIndex.setValue(state.step || 0);
+        }
+        else {
+            const navigationIns = setup.navigation.ins;
+            if (state.orbit) {
+                navigationIns.orbit.setValue(state.orbit);
+            }
+            if (state.offset) {
+                navigationIns.offset.setValue(state.offset);
+            }
+        }
+    }
+
+    protected setSlicerState(state: IViewSlicerState)
+    {
+        const slicer = this.activeDocument.setup.slicer;
+        const ins = slicer.ins;
+
+        ins.enabled.setValue(true);
+        ins.mode.setValue(state.mode);
+
+        if (state.mode === ESliceMode.Free) {
+            const planes = state.planes || [];
+
+            for (let i = 0; i < 3; ++i) {
+                const properties = slicer.getPlaneProperties(i);
+                const plane = planes[i];
+
+                properties.enabled.setValue(!!plane);
+                if (plane) {
+                    properties.normal.setValue(plane.normal);
+                    properties.position.setValue(plane.position);
+                }
+            }
+        }
+        else {
+            ins.axis.setValue(state.axis);
+            ins.position.setValue(state.position);
+            ins.inverted.setValue(!!state.inverted);
+        }
+    }
+
+    protected onActiveDocument(previous: CVDocument, next: CVDocument)
+    {
+        const components = (target: CVDocument) => {
+            const setup = target.setup;
+            return [ setup.navigation, setup.viewer, setup.reader, setup.tours, setup.slicer, setup.language ];
+        };
+
+        if (previous) {
+            components(previous).forEach(component => component.off("update", this.onViewUpdate, this));
+        }
+        if (next) {
+            components(next).forEach(component => component.on("update", this.onViewUpdate, this));
+        }
+    }
+
+    protected onViewUpdate()
+    {
+        // throttle updates of the URL hash
+        if (this.ins.enabled.value && !this._timer) {
+            this._timer = window.setTimeout(this.onTimer, _updateInterval);
+        }
+    }
+
+    protected onTimer()
+    {
+        this._timer = 0;
+
+        if (!this.ins.enabled.value || !this.activeDocument) {
+            return;
+        }
+
+        const hash = this.getHash();
+        if (hash !== this._hash) {
+            this._hash = hash;
+            // replace the history entry, navigating the view doesn't create entries
+            const url = window.location.pathname + window.location.search + "#" + hash;
+            window.history.replaceState(window.history.state, "", url);
+        }
+    }
+
+    protected onHashChange()
+    {
+        const hash = window.location.hash.replace(/^#/, "");
+        if (hash !== this._hash) {
+            this._hash = hash;
+            this.setHash(hash);
+        }
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Encodes a view state as URL hash, e.g. "orbit=-25,30,0&offset=0,0,150&annotation=abc&lang=en".
+ */
+export function formatViewState(state: IViewState): string
+{
+    const params: string[] = [];
+    const add = (key: string, value: string) => {
+        // keep separators readable
+        params.push(key + "=" + encodeURIComponent(value).replace(/%2C/g, ",").replace(/%3A/g, ":"));
+    };
+
+    if (state.orbit) {
+        add("orbit", formatNumbers(state.orbit, 2));
+    }
+    if (state.offset) {
+        add("offset", state.offset.map(value => String(Number(value.toPrecision(6)))).join(","));
+    }
+    if (state.annotation) {
+        add("annotation", state.annotation);
+    }
+    if (state.tags) {
+        add("tags", state.tags);
+    }
+    if (state.article) {
+        add("article", state.article);
+    }
+    if (state.tour >= 0) {
+        add("tour", String(state.tour));
+        add("step", String(state.step || 0));
+    }
+
+    const slicer = state.slicer;
+    if (slicer) {
+        if (slicer.mode === ESliceMode.Free) {
+            const planes = (slicer.planes || []).map(plane => formatNumbers([ ...plane.normal, plane.position ], 4));
+            add("slice", [ "free", ...planes ].join(":"));
+        }
+        else {
+            const axis = ESliceAxis[slicer.axis].toLowerCase();
+            add("slice", axis + ":" + formatNumbers([ slicer.position ], 4) + (slicer.inverted ? ":inv" : ""));
+        }
+    }
+
+    if (state.language) {
+        add("lang", state.language);
+    }
+
+    return params.join("&");
+}
+
+/**
+ * Decodes a view state from a URL hash, with or without leading "#". Invalid values are ignored.
+ */
+export function parseViewState(hash: string): IViewState
+{
+    const params = new URLSearchParams(hash.replace(/^#/, ""));
+    const state: IViewState = {};
+
+    const orbit = parseNumbers(params.get("orbit"), 3);
+    if (orbit) {
+        state.orbit = orbit;
+    }
+    const offset = parseNumbers(params.get("offset"), 3);
+    if (offset) {
+        state.offset = offset;
+    }
+
+    if (params.has("annotation")) {
+        state.annotation = params.get("annotation");
+    }
+    if (params.has("tags")) {
+        state.tags = params.get("tags");
+    }
+    if (params.get("article")) {
+        state.article = params.get("article");
+    }
+
+    const tour = parseInt(params.get("tour"));
+    if (tour >= 0) {
+        state.tour = tour;
+        state.step = Math.max(parseInt(params.get("step")) || 0, 0);
+    }
+
+    const slice = params.get("slice");
+    if (slice) {
+        const parts = slice.split(":");
+
+        if (parts[0] === "free") {
+            const planes = parts.slice(1, 4).map(part => parseNumbers(part, 4)).filter(numbers => !!numbers);
+            state.slicer = {
+                mode: ESliceMode.Free,
+                planes: planes.map(numbers => ({ normal: numbers.slice(0, 3), position: numbers[3] })),
+            };
+        }
+        else {
+            const axis = ESliceAxis[parts[0].toUpperCase()];
+            const position = parseFloat(parts[1]);
+
+            if (axis !== undefined && isFinite(position)) {
+                state.slicer = { mode: ESliceMode.Axis, axis, position, inverted: parts[2] === "inv" };
+            }
+        }
+    }
+
+    const language = normalizeLanguage(params.get("lang"));
+    if (language) {
+        state.language = language;
+    }
+
+    return state;
+}
+
+function formatNumbers(values: number[], digits: number)
+{
+    return values.map(value => String(Number(value.toFixed(digits)))).join(",");
+}
+
+function parseNumbers(text: string, count: number): number[]
+{
+    if (!text) {
+        return null;
+    }
+
+    const numbers = text.split(",").map(value => parseFloat(value));
+    return numbers.length === count && numbers.every(value => isFinite(value)) ? numbers : null;
+}
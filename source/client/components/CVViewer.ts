@@ -28,6 +28,7 @@ import CVAnnotationView, { IActiveTagUpdateEvent, IAnnotationClickEvent, ITagUpd
 import CVAnalytics from "./CVAnalytics";
 import CVLanguageManager from "./CVLanguageManager";
 import CVARManager from "./CVARManager";
+import CVEventDispatcher from "./CVEventDispatcher";
 import {getFocusableElements} from "../utils/focusHelpers";
 import CVSetup from "./CVSetup";
 import { CLight } from "./lights/CVLight";
@@ -110,6 +111,9 @@ export default class CVViewer extends Component
     protected get ar() {
         return this.getMainComponent(CVARManager);
     }
+    protected get eventDispatcher() {
+        return this.getMainComponent(CVEventDispatcher);
+    }
 
     get rootElement() {
         return this._rootElement;
@@ -346,7 +350,7 @@ export default class CVViewer extends Component
         const id = event.annotation ? event.annotation.id : "";
         this.ins.activeAnnotation.setValue(id);
 
-        this.rootElement.dispatchEvent(new CustomEvent('annotation-active', { detail: id }));
+        this.eventDispatcher.dispatch("annotation-active", id);
     }
 
     protected onModelComponent(event: IComponentEvent<CVModel2>)
@@ -405,7 +409,7 @@ export default class CVViewer extends Component
     }
 
     protected onModelLoad(event: IModelLoadEvent) {
-        this.rootElement.dispatchEvent(new CustomEvent('model-load', { detail: EDerivativeQuality[event.quality] }));
+        this.eventDispatcher.dispatch("model-load", EDerivativeQuality[event.quality]);
         this.refreshTagCloud();
 
         // update variant list
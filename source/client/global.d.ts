@@ -16,6 +16,8 @@ declare const ENV_DEVELOPMENT: boolean;
 declare const ENV_PRODUCTION: boolean;
 // Webpack constant: true during local build
 declare const ENV_LOCAL: boolean;
+// Webpack constant: language codes of the string resource files in assets/language
+declare const ENV_LANGUAGES: string[];
 
 // Google Analytics global variable
 declare const gtag: any;
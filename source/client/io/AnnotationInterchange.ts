@@ -0,0 +1,586 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import sanitizeHtml from "sanitize-html";
+
+import { Dictionary } from "@ff/core/types";
+
+import { DEFAULT_LANGUAGE, TLanguageType } from "client/schema/common";
+import { IAnnotation } from "client/schema/model";
+import { normalizeLanguage } from "client/utils/languages";
+
+import Annotation from "../models/Annotation";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export enum EAnnotationFormat { WebAnnotation, IIIF, CSV }
+
+export interface IAnnotationExportOptions
+{
+    /** URL of the annotated model. */
+    source: string;
+    /** Language of titles, leads and tags from documents without language dictionaries. */
+    language?: TLanguageType;
+}
+
+export interface IAnnotationImportResult
+{
+    annotations: IAnnotation[];
+    /** Number of entries skipped because they have no valid 3D position. */
+    skipped: number;
+}
+
+/** Namespace of the Voyager specific annotation properties in JSON-LD exports. */
+export const VOYAGER_NAMESPACE = "https://smithsonian.github.io/dpo-voyager/ns#";
+
+const _webAnnotationContext = "http://www.w3.org/ns/anno.jsonld";
+const _iiifContext = "http://iiif.io/api/presentation/3/context.json";
+
+const _defaultDirection = [ 0, 0, 1 ];
+const _idPattern = /^[\w-]+$/;
+
+const _leadOptions = {
+    allowedTags: [ "b", "i", "em", "strong", "a", "sup", "sub" ],
+    allowedAttributes: {
+        "a": [ "href", "target" ]
+    }
+};
+
+/**
+ * Exports annotations as W3C Web Annotation collection (JSON-LD). Each annotation targets the model
+ * with a 3D point selector, titles, leads and tags are textual bodies with their language.
+ */
+export function exportWebAnnotations(annotations: IAnnotation[], options: IAnnotationExportOptions): any
+{
+    return {
+        "@context": [ _webAnnotationContext, { "voyager": VOYAGER_NAMESPACE } ],
+        id: `${options.source}#annotations`,
+        type: "AnnotationCollection",
+        total: annotations.length,
+        first: {
+            id: `${options.source}#annotations-1`,
+            type: "AnnotationPage",
+            startIndex: 0,
+            items: annotations.map(data => {
+                const titles = getTitles(data, options.language);
+                const bodies = Object.keys(titles).map(language => ({
+                    type: "TextualBody", purpose: "describing", format: "text/plain", language, value: titles[language]
+                }));
+
+                return {
+                    id: getAnnotationUri(data, options),
+                    type: "Annotation",
+                    motivation: "commenting",
+                    body: bodies.concat(getBodies(data, options.language)),
+                    target: {
+                        source: options.source,
+                        selector: getPointSelector(data),
+                    },
+                    ...getVoyagerProperties(data),
+                };
+            }),
+        },
+    };
+}
+
+/**
+ * Exports annotations as IIIF Presentation 3 annotation page. Titles are given as label,
+ * the target is the model with a 3D point selector.
+ */
+export function exportIIIFAnnotations(annotations: IAnnotation[], options: IAnnotationExportOptions): any
+{
+    return {
+        // IIIF requires its context to be the last one
+        "@context": [ { "voyager": VOYAGER_NAMESPACE }, _iiifContext ],
+        id: `${options.source}#annotations`,
+        type: "AnnotationPage",
+        items: annotations.map(data => {
+            const titles = getTitles(data, options.language);
+            const label: Dictionary<string[]> = {};
+            Object.keys(titles).forEach(language => label[language] = [ titles[language] ]);
+
+            return {
+                id: getAnnotationUri(data, options),
+                type: "Annotation",
+                motivation: "commenting",
+                label,
+                body: getBodies(data, options.language),
+                target: {
+                    type: "SpecificResource",
+                    source: { id: options.source, type: "Model" },
+                    selector: [ getPointSelector(data) ],
+                },
+                ...getVoyagerProperties(data),
+            };
+        }),
+    };
+}
+
+/**
+ * Exports annotations as CSV table with columns id, position, direction, and title, lead and tags
+ * for each language, e.g. "title:en". Vectors are given as numbers separated by spaces, tags are
+ * separated by commas.
+ */
+export function exportCSVAnnotations(annotations: IAnnotation[], options: IAnnotationExportOptions): string
+{
+    const languages: TLanguageType[] = [];
+    const addLanguages = (dictionary: Dictionary<any>) => Object.keys(dictionary).forEach(language => {
+        if (languages.indexOf(language) < 0) {
+            languages.push(language);
+        }
+    });
+
+    const rows = annotations.map(data => {
+        const titles = getTitles(data, options.language);
+        const leads = getLeads(data, options.language);
+        const tags = getTagLists(data, options.language);
+        addLanguages(titles);
+        addLanguages(leads);
+        addLanguages(tags);
+        return { data, titles, leads, tags };
+    });
+
+    const header = [ "id", "position", "direction" ];
+    languages.forEach(language => header.push(`title:${language}`, `lead:${language}`, `tags:${language}`));
+
+    const lines = rows.map(({ data, titles, leads, tags }) => {
+        const cells = [ data.id, data.position.join(" "), (data.direction || _defaultDirection).join(" ") ];
+        languages.forEach(language => cells.push(
+            titles[language] || "", leads[language] || "", (tags[language] || []).join(", ")
+        ));
+        return cells.map(escapeCSV).join(",");
+    });
+
+    return [ header.join(",") ].concat(lines).join("\r\n") + "\r\n";
+}
+
+/**
+ * Reads annotations from a W3C Web Annotation or IIIF JSON-LD document, a CSV table or
+ * a list of Voyager annotations. The format is detected from the file name and content.
+ * Throws an error if the format isn't supported.
+ * @param text The file content.
+ * @param fileName Name of the file, used to detect CSV files.
+ * @param language Language of texts without language information.
+ */
+export function parseAnnotations(text: string, fileName: string, language: TLanguageType): IAnnotationImportResult
+{
+    text = text.replace(/^\uFEFF/, "").trim();
+    language = normalizeLanguage(language) || DEFAULT_LANGUAGE;
+
+    const result = /\.csv$/i.test(fileName) || !/^[\[{]/.test(text) ?
+        parseCSVAnnotations(text, language) : parseJSONAnnotations(JSON.parse(text), language);
+
+    // make sure ids are valid and unique within the imported annotations
+    const ids = {};
+    result.annotations.forEach(annotation => {
+        if (!annotation.id || !_idPattern.test(annotation.id) || ids[annotation.id]) {
+            annotation.id = Annotation.generateId();
+        }
+        ids[annotation.id] = true;
+    });
+
+    return result;
+}
+
+function parseJSONAnnotations(json: any, language: TLanguageType): IAnnotationImportResult
+{
+    let items: any[];
+
+    if (Array.isArray(json)) {
+        items = json;
+    }
+    else if (json && json.type === "AnnotationCollection") {
+        items = json.first && Array.isArray(json.first.items) ? json.first.items : (json.items || []);
+    }
+    else if (json && json.type === "AnnotationPage") {
+        items = json.items || [];
+    }
+    else if (json && json.type === "Annotation") {
+        items = [ json ];
+    }
+    else {
+        throw new Error("unsupported annotation format, expected a Web Annotation collection, a IIIF annotation page or a list of annotations");
+    }
+
+    const annotations: IAnnotation[] = [];
+    items.forEach(item => {
+        const annotation = item && item.type === undefined && Array.isArray(item.position) ?
+            fromVoyagerAnnotation(item) : fromWebAnnotation(item, language);
+
+        if (annotation) {
+            annotations.push(annotation);
+        }
+    });
+
+    return { annotations, skipped: items.length - annotations.length };
+}
+
+function parseCSVAnnotations(text: string, language: TLanguageType): IAnnotationImportResult
+{
+    // spreadsheets using a comma as decimal separator export with semicolons
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const delimiter = firstLine.indexOf(",") < 0 && firstLine.indexOf(";") >= 0 ? ";" : ",";
+
+    const rows = parseCSV(text, delimiter).filter(row => row.some(cell => cell.trim() !== ""));
+    if (rows.length === 0) {
+        return { annotations: [], skipped: 0 };
+    }
+
+    const header = rows.shift().map(cell => cell.trim());
+    const column = (name: string) => header.findIndex(cell => cell.toLowerCase() === name);
+
+    const idColumn = column("id");
+    const positionColumn = column("position");
+    const directionColumn = column("direction");
+
+    // with semicolons, numbers may use a decimal comma
+    const vector = (cell: string) => parseVector(delimiter === ";" && cell ? cell.replace(/,/g, ".") : cell);
+
+    if (positionColumn < 0) {
+        throw new Error("missing 'position' column in CSV table");
+    }
+
+    const annotations: IAnnotation[] = [];
+    rows.forEach(row => {
+        const position = vector(row[positionColumn]);
+        if (!position) {
+            return;
+        }
+
+        const annotation: IAnnotation = {
+            id: idColumn >= 0 ? (row[idColumn] || "").trim() : "",
+            titles: {},
+            leads: {},
+            taglist: {},
+            position,
+            direction: vector(row[directionColumn]) || _defaultDirection.slice(),
+        };
+
+        header.forEach((name, index) => {
+            const [ field, tag ] = name.split(":");
+            const key = tag ? normalizeLanguage(tag) : language;
+            const value = (row[index] || "").trim();
+
+            if (!key || !value) {
+                return;
+            }
+
+            switch(field.toLowerCase()) {
+                case "title":
+                    annotation.titles[key] = value;
+                    break;
+                case "lead":
+                    annotation.leads[key] = sanitizeHtml(value, _leadOptions);
+                    break;
+                case "tags":
+                    annotation.taglist[key] = value.split(",").map(tag => tag.trim()).filter(tag => !!tag);
+                    break;
+            }
+        });
+
+        annotations.push(annotation);
+    });
+
+    return { annotations, skipped: rows.length - annotations.length };
+}
+
+function fromVoyagerAnnotation(item: IAnnotation): IAnnotation
+{
+    if (!parseVector(item.position)) {
+        return null;
+    }
+
+    const annotation: IAnnotation = JSON.parse(JSON.stringify(item));
+    annotation.direction = parseVector(annotation.direction) || _defaultDirection.slice();
+
+    if (annotation.leads) {
+        Object.keys(annotation.leads).forEach(key => annotation.leads[key] = sanitizeHtml(annotation.leads[key], _leadOptions));
+    }
+    if (annotation.lead) {
+        annotation.lead = sanitizeHtml(annotation.lead, _leadOptions);
+    }
+
+    return annotation;
+}
+
+function fromWebAnnotation(item: any, language: TLanguageType): IAnnotation
+{
+    const selector = item && findPointSelector(item.target);
+    if (!selector) {
+        return null;
+    }
+
+    const id = typeof item.id === "string" ? item.id : (item["@id"] || "");
+
+    const annotation: IAnnotation = {
+        id: String(id).split(/[#/:=]/).pop(),
+        titles: {},
+        leads: {},
+        taglist: {},
+        position: [ selector.x, selector.y, selector.z ],
+        direction: parseVector(getVoyagerProperty(item, "direction")) || _defaultDirection.slice(),
+    };
+
+    // IIIF label: language map with arrays of strings
+    const label = item.label;
+    if (typeof label === "string") {
+        annotation.titles[language] = label;
+    }
+    else if (label && typeof label === "object") {
+        Object.keys(label).forEach(key => {
+            const values = Array.isArray(label[key]) ? label[key] : [ label[key] ];
+            annotation.titles[normalizeLanguage(key) || language] = values.join(" ");
+        });
+    }
+
+    if (typeof item.bodyValue === "string") {
+        annotation.leads[language] = escapeText(item.bodyValue);
+    }
+
+    getTextualBodies(item.body).forEach(body => {
+        const key = normalizeLanguage(Array.isArray(body.language) ? body.language[0] : body.language) || language;
+        const purposes = Array.isArray(body.purpose) ? body.purpose : [ body.purpose || item.motivation ];
+        const value = String(body.value).trim();
+
+        if (!value) {
+            return;
+        }
+
+        if (purposes.indexOf("tagging") >= 0) {
+            const tags = annotation.taglist[key] = annotation.taglist[key] || [];
+            tags.push(value);
+        }
+        else if (purposes.indexOf("describing") >= 0 || purposes.indexOf("identifying") >= 0) {
+            annotation.titles[key] = annotation.titles[key] || value;
+        }
+        else {
+            const lead = body.format === "text/html" ? sanitizeHtml(value, _leadOptions) : escapeText(value);
+            annotation.leads[key] = annotation.leads[key] ? annotation.leads[key] + "<br>" + lead : lead;
+        }
+    });
+
+    const style = getVoyagerProperty(item, "style");
+    if (typeof style === "string") {
+        annotation.style = style;
+    }
+    const marker = getVoyagerProperty(item, "marker");
+    if (typeof marker === "string") {
+        annotation.marker = marker;
+    }
+    const scale = getVoyagerProperty(item, "scale");
+    if (typeof scale === "number" && scale > 0) {
+        annotation.scale = scale;
+    }
+    const color = parseVector(getVoyagerProperty(item, "color"));
+    if (color) {
+        annotation.color = color;
+    }
+
+    return annotation;
+}
+
+function getAnnotationUri(data: IAnnotation, options: IAnnotationExportOptions)
+{
+    return `${options.source}#annotation=${data.id}`;
+}
+
+function getPointSelector(data: IAnnotation)
+{
+    const [ x, y, z ] = data.position;
+    return { type: "PointSelector", x, y, z };
+}
+
+function getBodies(data: IAnnotation, language: TLanguageType): any[]
+{
+    const bodies = [];
+
+    const leads = getLeads(data, language);
+    Object.keys(leads).forEach(key => bodies.push({
+        type: "TextualBody", purpose: "commenting", format: "text/html", language: key, value: leads[key]
+    }));
+
+    const tagLists = getTagLists(data, language);
+    Object.keys(tagLists).forEach(key => tagLists[key].forEach(tag => bodies.push({
+        type: "TextualBody", purpose: "tagging", language: key, value: tag
+    })));
+
+    return bodies;
+}
+
+function getVoyagerProperties(data: IAnnotation)
+{
+    const properties = {
+        "voyager:direction": (data.direction || _defaultDirection).slice(),
+    };
+
+    if (data.style) {
+        properties["voyager:style"] = data.style;
+    }
+    if (data.marker) {
+        properties["voyager:marker"] = data.marker;
+    }
+    if (data.scale !== undefined) {
+        properties["voyager:scale"] = data.scale;
+    }
+    if (data.color) {
+        properties["voyager:color"] = data.color.slice();
+    }
+
+    return properties;
+}
+
+function getVoyagerProperty(item: any, name: string)
+{
+    const value = item["voyager:" + name];
+    return value !== undefined ? value : item[VOYAGER_NAMESPACE + name];
+}
+
+// titles, leads and tags are single values in documents before language dictionaries
+function getTitles(data: IAnnotation, language: TLanguageType): Dictionary<string>
+{
+    return data.titles && Object.keys(data.titles).length > 0 ? data.titles :
+        (data.title ? { [language || DEFAULT_LANGUAGE]: data.title } : {});
+}
+
+function getLeads(data: IAnnotation, language: TLanguageType): Dictionary<string>
+{
+    const leads = data.leads && Object.keys(data.leads).length > 0 ? data.leads :
+        (data.lead ? { [language || DEFAULT_LANGUAGE]: data.lead } : {});
+
+    const result: Dictionary<string> = {};
+    Object.keys(leads).filter(key => !!leads[key]).forEach(key => result[key] = leads[key]);
+    return result;
+}
+
+function getTagLists(data: IAnnotation, language: TLanguageType): Dictionary<string[]>
+{
+    const tagLists = data.taglist && Object.keys(data.taglist).length > 0 ? data.taglist :
+        (data.tags && data.tags.length > 0 ? { [language || DEFAULT_LANGUAGE]: data.tags } : {});
+
+    const result: Dictionary<string[]> = {};
+    Object.keys(tagLists).filter(key => tagLists[key].length > 0).forEach(key => result[key] = tagLists[key]);
+    return result;
+}
+
+function getTextualBodies(body: any): any[]
+{
+    if (!body) {
+        return [];
+    }
+    if (Array.isArray(body)) {
+        return [].concat(...body.map(getTextualBodies));
+    }
+    if (body.type === "Choice" && Array.isArray(body.items)) {
+        return getTextualBodies(body.items);
+    }
+    if (typeof body === "object" && body.value !== undefined) {
+        return [ body ];
+    }
+
+    return [];
+}
+
+function findPointSelector(target: any): { x: number, y: number, z: number }
+{
+    if (!target || typeof target !== "object") {
+        return null;
+    }
+    if (Array.isArray(target)) {
+        for (const item of target) {
+            const selector = findPointSelector(item);
+            if (selector) {
+                return selector;
+            }
+        }
+        return null;
+    }
+
+    if (target.type === "PointSelector" && isFinite(target.x) && isFinite(target.y) && isFinite(target.z)) {
+        return { x: Number(target.x), y: Number(target.y), z: Number(target.z) };
+    }
+
+    return findPointSelector(target.selector) || findPointSelector(target.refinedBy);
+}
+
+function parseVector(value: any): number[]
+{
+    const values = Array.isArray(value) ? value.map(Number) :
+        (typeof value === "string" ? value.trim().split(/[\s;]+/).map(Number) : null);
+
+    return values && values.length === 3 && values.every(isFinite) ? values : null;
+}
+
+function parseCSV(text: string, delimiter: string): string[][]
+{
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0, n = text.length; i < n; ++i) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === "\"") {
+                if (text[i + 1] === "\"") {
+                    cell += "\"";
+                    i++;
+                }
+                else {
+                    quoted = false;
+                }
+            }
+            else {
+                cell += char;
+            }
+        }
+        else if (char === "\"") {
+            quoted = true;
+        }
+        else if (char === delimiter) {
+            row.push(cell);
+            cell = "";
+        }
+        else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        }
+        else {
+            cell += char;
+        }
+    }
+
+    row.push(cell);
+    rows.push(row);
+
+    return rows;
+}
+
+function escapeCSV(value: string)
+{
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+function escapeText(text: string)
+{
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
@@ -0,0 +1,333 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Object3D,
+    Mesh,
+    BufferGeometry,
+    BufferAttribute,
+    InterleavedBufferAttribute,
+    Material,
+    MeshStandardMaterial,
+    Texture,
+} from "three";
+
+import {GLTFExporter} from "three/examples/jsm/exporters/GLTFExporter.js";
+import {mergeVertices} from "three/examples/jsm/utils/BufferGeometryUtils.js";
+
+import CVAssetReader from "../components/CVAssetReader";
+
+import { EGeometryCompression } from "./GLBCompressor";
+import { createExportMaterial } from "./SceneExporter";
+import type { ProcessModelRequest, ProcessModelResult, ISimplifiedGeometry } from "./processModel";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export { EGeometryCompression };
+
+export interface IDerivativeOptions
+{
+    /** Target number of faces, the source is not simplified if it has fewer faces. */
+    numFaces: number;
+    /** Maximum width and height of textures in pixels. */
+    imageSize: number;
+    geometryCompression: EGeometryCompression;
+    /** Converts textures to KTX2 (Basis Universal). */
+    textureCompression: boolean;
+}
+
+export interface IGeneratedDerivative
+{
+    /** The binary glTF file. */
+    buffer: ArrayBuffer;
+    numFaces: number;
+    imageSize: number;
+    byteSize: number;
+}
+
+const _textureKeys = [ "map", "normalMap", "aoMap", "roughnessMap", "metalnessMap", "emissiveMap" ];
+
+/**
+ * Generates lower quality derivatives from a loaded model. Meshes are simplified to the target face count,
+ * textures are scaled down to the target image size. The result can be compressed with Draco or meshoptimizer
+ * and KTX2 textures. Simplification and compression run in a web worker.
+ *
+ * The Draco encoder is loaded from the system assets (js/draco/draco_encoder.js). The KTX2 encoder
+ * (js/basis/basis_encoder.js and basis_encoder.wasm from the Basis Universal project) is optional and must be
+ * added to the system assets to enable texture compression, see [[isTextureCompressionAvailable]].
+ */
+export default class DerivativeGenerator
+{
+    protected assetReader: CVAssetReader;
+    protected worker: Worker = null;
+
+    constructor(assetReader: CVAssetReader)
+    {
+        this.assetReader = assetReader;
+    }
+
+    /**
+     * Resolves to true if the KTX2 encoder has been added to the system assets.
+     */
+    async isTextureCompressionAvailable(): Promise<boolean>
+    {
+        try {
+            const response = await fetch(this.getEncoderUrl("js/basis/basis_encoder.js"), { method: "HEAD" });
+            return response.ok;
+        }
+        catch(error) {
+            return false;
+        }
+    }
+
+    /**
+     * Generates a binary glTF derivative from the given model.
+     * @param source The object tree of a loaded derivative.
+     * @param options Target face count, texture size and compression.
+     * @param onProgress Called with a short description of each processing step.
+     */
+    async generate(source: Object3D, options: IDerivativeOptions, onProgress?: (step: string) => void): Promise<IGeneratedDerivative>
+    {
+        const meshes: Mesh[] = [];
+        source.traverse(object => {
+            const mesh = object as Mesh;
+            if (mesh.isMesh && mesh.geometry.getAttribute("position") && !this.getMaterials(mesh).some(material => material["isVolumeMaterial"])) {
+                meshes.push(mesh);
+            }
+        });
+
+        if (meshes.length === 0) {
+            throw new Error("the model doesn't contain any meshes");
+        }
+
+        this.startWorker();
+
+        try {
+            onProgress && onProgress("Simplifying geometry");
+            const geometries = await this.simplifyGeometries(meshes, options.numFaces);
+
+            onProgress && onProgress("Exporting model");
+            const root = this.cloneObject(source, geometries);
+            const exporter = new GLTFExporter();
+            let buffer = await exporter.parseAsync(root, { binary: true, maxTextureSize: options.imageSize }) as ArrayBuffer;
+
+            if (options.geometryCompression !== EGeometryCompression.None || options.textureCompression) {
+                onProgress && onProgress("Compressing model");
+                const result = await this.run({
+                    type: "compress",
+                    buffer,
+                    geometryCompression: options.geometryCompression,
+                    textureCompression: options.textureCompression,
+                    dracoEncoderUrl: this.getEncoderUrl("js/draco/draco_encoder.js"),
+                    basisEncoderUrl: this.getEncoderUrl("js/basis/basis_encoder.js"),
+                }, [ buffer ]);
+                buffer = result.buffer;
+            }
+
+            let numFaces = 0;
+            geometries.forEach(geometry => numFaces += geometry.index.count / 3);
+
+            return {
+                buffer,
+                numFaces,
+                imageSize: this.getImageSize(meshes, options.imageSize),
+                byteSize: buffer.byteLength,
+            };
+        }
+        finally {
+            this.stopWorker();
+        }
+    }
+
+    /**
+     * Simplifies the geometries of the given meshes. The target face count is distributed
+     * among the geometries in proportion to their face count.
+     */
+    protected async simplifyGeometries(meshes: Mesh[], numFaces: number): Promise<Map<BufferGeometry, BufferGeometry>>
+    {
+        const sources: BufferGeometry[] = [];
+        meshes.forEach(mesh => sources.indexOf(mesh.geometry) < 0 && sources.push(mesh.geometry));
+
+        // welding vertices turns triangle soups into connected surfaces which can be simplified
+        const indexed = sources.map(geometry => geometry.index ? geometry : mergeVertices(geometry));
+
+        let totalFaces = 0;
+        indexed.forEach(geometry => totalFaces += geometry.index.count / 3);
+        const ratio = Math.min(1, numFaces / totalFaces);
+
+        const result = await this.run({
+            type: "simplify",
+            geometries: indexed.map(geometry => {
+                const position = geometry.getAttribute("position");
+                const positions = new Float32Array(position.count * 3);
+                for (let i = 0; i < position.count; ++i) {
+                    positions[i * 3] = position.getX(i);
+                    positions[i * 3 + 1] = position.getY(i);
+                    positions[i * 3 + 2] = position.getZ(i);
+                }
+
+                const faceCount = geometry.index.count / 3;
+                const groups = geometry.groups.length > 0
+                    ? geometry.groups.map(group => ({ start: group.start, count: Math.min(group.count, geometry.index.count - group.start) }))
+                    : [ { start: 0, count: geometry.index.count } ];
+
+                return {
+                    positions,
+                    indices: Uint32Array.from(geometry.index.array as ArrayLike<number>),
+                    groups,
+                    targetCount: Math.max(1, Math.round(faceCount * ratio)),
+                };
+            }),
+        });
+
+        const geometries = new Map<BufferGeometry, BufferGeometry>();
+        sources.forEach((source, index) => {
+            geometries.set(source, this.createGeometry(indexed[index], result.geometries[index]));
+            if (indexed[index] !== source) {
+                indexed[index].dispose();
+            }
+        });
+
+        return geometries;
+    }
+
+    /** Creates a geometry with the simplified indices and the remaining vertices of the source geometry. */
+    protected createGeometry(source: BufferGeometry, simplified: ISimplifiedGeometry): BufferGeometry
+    {
+        const geometry = new BufferGeometry();
+        const { remap, vertexCount } = simplified;
+
+        Object.keys(source.attributes).forEach(name => {
+            const attribute = source.getAttribute(name) as BufferAttribute | InterleavedBufferAttribute;
+            const itemSize = attribute.itemSize;
+            const interleaved = (attribute as InterleavedBufferAttribute).isInterleavedBufferAttribute;
+            const sourceArray = interleaved ? (attribute as InterleavedBufferAttribute).data.array : attribute.array;
+            const stride = interleaved ? (attribute as InterleavedBufferAttribute).data.stride : itemSize;
+            const offset = interleaved ? (attribute as InterleavedBufferAttribute).offset : 0;
+
+            const ArrayType = (sourceArray as any).constructor;
+            const array = new ArrayType(vertexCount * itemSize);
+
+            // copy raw values, normalized integer attributes stay normalized
+            for (let i = 0; i < remap.length; ++i) {
+                const target = remap[i];
+                if (target !== 0xffffffff) {
+                    for (let c = 0; c < itemSize; ++c) {
+                        array[target * itemSize + c] = sourceArray[i * stride + offset + c];
+                    }
+                }
+            }
+
+            geometry.setAttribute(name, new BufferAttribute(array, itemSize, attribute.normalized));
+        });
+
+        const indices = vertexCount > 65535 ? simplified.indices : Uint16Array.from(simplified.indices);
+        geometry.setIndex(new BufferAttribute(indices, 1));
+        if (source.groups.length > 0) {
+            simplified.groups.forEach((group, index) => geometry.addGroup(group.start, group.count, source.groups[index].materialIndex));
+        }
+
+        geometry.userData = Object.assign({}, source.userData);
+        return geometry;
+    }
+
+    /** Copies the object tree with simplified geometries and plain standard materials. */
+    protected cloneObject(source: Object3D, geometries: Map<BufferGeometry, BufferGeometry>): Object3D
+    {
+        const mesh = source as Mesh;
+        let target: Object3D;
+
+        if (mesh.isMesh && geometries.has(mesh.geometry)) {
+            const materials = this.getMaterials(mesh).map(material => createExportMaterial(material as MeshStandardMaterial));
+            target = new Mesh(geometries.get(mesh.geometry), Array.isArray(mesh.material) ? materials : materials[0]);
+        }
+        else {
+            target = new Object3D();
+        }
+
+        target.name = source.name;
+        target.position.copy(source.position);
+        target.quaternion.copy(source.quaternion);
+        target.scale.copy(source.scale);
+
+        source.children.forEach(child => target.add(this.cloneObject(child, geometries)));
+        return target;
+    }
+
+    /** Returns the largest texture dimension after scaling textures down to the given size. */
+    protected getImageSize(meshes: Mesh[], maxSize: number): number
+    {
+        let imageSize = 0;
+
+        meshes.forEach(mesh => this.getMaterials(mesh).forEach(material => {
+            _textureKeys.forEach(key => {
+                const texture = material[key] as Texture;
+                const image = texture && texture.image as { width: number, height: number };
+                if (image && image.width && image.height) {
+                    imageSize = Math.max(imageSize, Math.min(image.width, maxSize), Math.min(image.height, maxSize));
+                }
+            });
+        }));
+
+        return imageSize;
+    }
+
+    protected getMaterials(mesh: Mesh): Material[]
+    {
+        return Array.isArray(mesh.material) ? mesh.material : [ mesh.material ];
+    }
+
+    protected getEncoderUrl(assetPath: string): string
+    {
+        return new URL(this.assetReader.getSystemAssetUrl(assetPath), window.location.href).href;
+    }
+
+    protected startWorker()
+    {
+        if (!window.Worker) {
+            throw new Error("web workers are not supported");
+        }
+        // Cross-origin workers are blocked by browsers, see CVDocument.validateDocument
+        if (new URL("./processModel.ts", import.meta.url).origin !== window.location.origin) {
+            throw new Error(`the worker script is cross-origin to page ${window.location.origin}`);
+        }
+
+        this.worker = new Worker(new URL("./processModel.ts", import.meta.url));
+    }
+
+    protected stopWorker()
+    {
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = null;
+        }
+    }
+
+    /** Sends a request to the worker, requests are processed one at a time. */
+    protected run(request: ProcessModelRequest, transfer: Transferable[] = []): Promise<ProcessModelResult>
+    {
+        return new Promise((resolve, reject) => {
+            this.worker.onmessage = (event: MessageEvent<ProcessModelResult>) => {
+                event.data.error ? reject(new Error(event.data.error)) : resolve(event.data);
+            };
+            this.worker.onerror = (event: ErrorEvent) => {
+                reject(new Error(event.message || "unexpected worker error"));
+            };
+            this.worker.postMessage(request, transfer);
+        });
+    }
+}
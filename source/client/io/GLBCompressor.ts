@@ -0,0 +1,583 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+export enum EGeometryCompression { None, Draco, Meshopt }
+
+export interface IImageData
+{
+    data: Uint8Array | Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const TRIANGLES = 4;
+
+const _componentArrays = {
+    5120: Int8Array,
+    5121: Uint8Array,
+    5122: Int16Array,
+    5123: Uint16Array,
+    5125: Uint32Array,
+    5126: Float32Array,
+};
+
+const _typeSizes = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+// quantization bits per Draco attribute type
+const _dracoQuantization = { POSITION: 14, NORMAL: 10, TEX_COORD: 12, COLOR: 8, GENERIC: 12 };
+
+type TDracoAttributeType = "POSITION" | "NORMAL" | "TEX_COORD" | "COLOR" | "GENERIC";
+
+interface IDracoMeshBuilder
+{
+    AddFacesToMesh(mesh: object, faceCount: number, indices: Uint32Array): boolean;
+    AddFloatAttributeToMesh(mesh: object, type: number, count: number, itemSize: number, values: ArrayLike<number>): number;
+}
+
+interface IDracoExpertEncoder
+{
+    SetAttributeQuantization(attribute: number, bits: number): void;
+    SetSpeedOptions(encodingSpeed: number, decodingSpeed: number): void;
+    SetTrackEncodedProperties(track: boolean): void;
+    EncodeToDracoBuffer(deduplicateValues: boolean, output: object): number;
+    GetNumberOfEncodedPoints(): number;
+    GetNumberOfEncodedFaces(): number;
+}
+
+/** Parts of the Draco encoder module (draco_encoder.js) used by the compressor. */
+export interface IDracoEncoderModule extends Record<TDracoAttributeType, number>
+{
+    MeshBuilder: new () => IDracoMeshBuilder;
+    Mesh: new () => object;
+    DracoInt8Array: new () => { GetValue(index: number): number };
+    ExpertEncoder: new (mesh: object) => IDracoExpertEncoder;
+    destroy(object: object): void;
+}
+
+interface IBasisEncoder
+{
+    setCreateKTX2File(enabled: boolean): void;
+    setKTX2SRGBTransferFunc(srgb: boolean): void;
+    setSliceSourceImage(slice: number, image: Uint8Array, width: number, height: number, imageType: number | boolean): boolean;
+    setMipGen(enabled: boolean): void;
+    setMipSRGB(srgb: boolean): void;
+    setPerceptual(perceptual: boolean): void;
+    setUASTC(enabled: boolean): void;
+    setQualityLevel(level: number): void;
+    setKTX2UASTCSupercompression(enabled: boolean): void;
+    encode(output: Uint8Array): number;
+    delete(): void;
+}
+
+/** Parts of the Basis Universal encoder module (basis_encoder.js) used by the compressor. */
+export interface IBasisEncoderModule
+{
+    BasisEncoder: new () => IBasisEncoder;
+    /** Source image types, available in newer versions of the encoder. */
+    ldr_image_type?: { cRGBA32: number };
+    initializeBasis(): void;
+}
+
+interface IMeshoptView
+{
+    data: Uint8Array;
+    byteStride: number;
+    count: number;
+    mode: string;
+}
+
+const align4 = (value: number) => Math.ceil(value / 4) * 4;
+
+/**
+ * Compresses the geometry and textures of binary glTF (glb) files, as written by three's GLTFExporter.
+ * Geometry can be compressed with Draco (KHR_draco_mesh_compression) or meshoptimizer (EXT_meshopt_compression),
+ * textures with Basis Universal (KHR_texture_basisu). The encoder modules are passed in by the caller,
+ * so the compressor can run wherever the encoders are available, e.g. in a worker.
+ */
+export default class GLBCompressor
+{
+    json: any = null;
+
+    protected viewData: Uint8Array[];
+    protected meshoptViews: Record<number, IMeshoptView> = {};
+
+    constructor(buffer: ArrayBuffer)
+    {
+        const view = new DataView(buffer);
+        if (buffer.byteLength < 12 || view.getUint32(0, true) !== GLB_MAGIC) {
+            throw new Error("not a binary glTF file");
+        }
+
+        let bin = new Uint8Array(0);
+        for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+            const length = view.getUint32(offset, true);
+            const type = view.getUint32(offset + 4, true);
+            const start = offset + 8;
+
+            if (type === CHUNK_JSON) {
+                this.json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, start, length)));
+            }
+            else if (type === CHUNK_BIN) {
+                bin = new Uint8Array(buffer, start, length);
+            }
+            offset = start + length;
+        }
+
+        if (!this.json) {
+            throw new Error("glb file without JSON chunk");
+        }
+        if ((this.json.buffers || []).length > 1 || (this.json.buffers || []).some(buffer => buffer.uri !== undefined)) {
+            throw new Error("only self-contained glb files with a single buffer are supported");
+        }
+
+        this.viewData = (this.json.bufferViews || []).map(view => {
+            const byteOffset = view.byteOffset || 0;
+            return bin.subarray(byteOffset, byteOffset + view.byteLength);
+        });
+    }
+
+    /**
+     * Compresses all triangle primitives with float attributes using the given Draco encoder module.
+     * Other primitives are left uncompressed.
+     */
+    compressDraco(draco: IDracoEncoderModule)
+    {
+        const accessors = this.json.accessors || [];
+        let compressed = false;
+
+        this.forEachPrimitive(primitive => {
+            const names = Object.keys(primitive.attributes);
+            const supported = (primitive.mode === undefined || primitive.mode === TRIANGLES) && !primitive.targets
+                && names.every(name => accessors[primitive.attributes[name]].componentType === FLOAT && !accessors[primitive.attributes[name]].sparse);
+
+            if (!supported) {
+                return;
+            }
+
+            const builder = new draco.MeshBuilder();
+            const mesh = new draco.Mesh();
+            const encoded = new draco.DracoInt8Array();
+            let encoder: IDracoExpertEncoder = null;
+
+            try {
+                const vertexCount = accessors[primitive.attributes.POSITION].count;
+                const indices = primitive.indices !== undefined
+                    ? Uint32Array.from(this.readAccessor(primitive.indices))
+                    : Uint32Array.from({ length: vertexCount }, (v, i) => i);
+
+                builder.AddFacesToMesh(mesh, indices.length / 3, indices);
+
+                const attributes: Record<string, number> = {};
+                const types: Record<string, TDracoAttributeType> = {};
+                names.forEach(name => {
+                    const accessor = accessors[primitive.attributes[name]];
+                    const type: TDracoAttributeType = types[name] = name === "POSITION" ? "POSITION" : name === "NORMAL" ? "NORMAL"
+                        : name.startsWith("TEXCOORD_") ? "TEX_COORD" : name.startsWith("COLOR_") ? "COLOR" : "GENERIC";
+
+                    attributes[name] = builder.AddFloatAttributeToMesh(mesh, draco[type], accessor.count,
+                        _typeSizes[accessor.type], this.readAccessor(primitive.attributes[name]));
+                });
+
+                // the expert encoder reports the number of encoded points, which may differ from the source
+                encoder = new draco.ExpertEncoder(mesh);
+                names.forEach(name => encoder.SetAttributeQuantization(attributes[name], _dracoQuantization[types[name]]));
+                encoder.SetSpeedOptions(5, 5);
+                encoder.SetTrackEncodedProperties(true);
+
+                const length = encoder.EncodeToDracoBuffer(true, encoded);
+                if (!length) {
+                    throw new Error("Draco encoding failed");
+                }
+
+                const data = new Uint8Array(length);
+                for (let i = 0; i < length; ++i) {
+                    data[i] = encoded.GetValue(i);
+                }
+
+                // accessors describe the decoded data, the encoder defines the number and order of points
+                const pointCount = encoder.GetNumberOfEncodedPoints();
+                const faceCount = encoder.GetNumberOfEncodedFaces();
+
+                names.forEach(name => {
+                    const { componentType, type, normalized, min, max } = accessors[primitive.attributes[name]];
+                    primitive.attributes[name] = this.addAccessor({ componentType, type, normalized, min, max, count: pointCount });
+                });
+                primitive.indices = this.addAccessor({
+                    componentType: pointCount > 65535 ? UNSIGNED_INT : UNSIGNED_SHORT,
+                    type: "SCALAR",
+                    count: faceCount * 3,
+                });
+                primitive.extensions = Object.assign({}, primitive.extensions, {
+                    KHR_draco_mesh_compression: { bufferView: this.addBufferView(data), attributes },
+                });
+
+                compressed = true;
+            }
+            finally {
+                draco.destroy(encoded);
+                draco.destroy(mesh);
+                draco.destroy(builder);
+                encoder && draco.destroy(encoder);
+            }
+        });
+
+        if (compressed) {
+            this.useExtension("KHR_draco_mesh_compression", true);
+        }
+    }
+
+    /**
+     * Compresses the vertex and index buffer views of all primitives with the given meshoptimizer encoder.
+     * The encoder must be ready. Buffer views shared between vertex and index data are left uncompressed.
+     */
+    compressMeshopt(encoder: { encodeGltfBuffer: (source: Uint8Array, count: number, size: number, mode: string) => Uint8Array })
+    {
+        const accessors = this.json.accessors || [];
+        const bufferViews = this.json.bufferViews || [];
+        const views: Record<number, IMeshoptView | null> = {};
+
+        const addView = (index: number, view: IMeshoptView) => {
+            const accessor = accessors[index];
+            const previous = views[accessor.bufferView];
+            const valid = !accessor.sparse && !accessor.byteOffset && view.byteStride % (view.mode === "ATTRIBUTES" ? 4 : 2) === 0
+                && (previous === undefined || (previous && previous.mode === view.mode && previous.count === view.count));
+
+            views[accessor.bufferView] = valid ? view : null;
+        };
+
+        this.forEachPrimitive(primitive => {
+            if (primitive.extensions && primitive.extensions.KHR_draco_mesh_compression) {
+                return;
+            }
+
+            Object.keys(primitive.attributes).forEach(name => {
+                const accessor = accessors[primitive.attributes[name]];
+                const elementSize = _typeSizes[accessor.type] * _componentArrays[accessor.componentType].BYTES_PER_ELEMENT;
+                const byteStride = bufferViews[accessor.bufferView].byteStride || elementSize;
+                addView(primitive.attributes[name], { data: null, byteStride, count: accessor.count, mode: "ATTRIBUTES" });
+            });
+
+            if (primitive.indices !== undefined) {
+                const accessor = accessors[primitive.indices];
+                const isTriangles = (primitive.mode === undefined || primitive.mode === TRIANGLES) && accessor.count % 3 === 0;
+                addView(primitive.indices, {
+                    data: null,
+                    byteStride: _componentArrays[accessor.componentType].BYTES_PER_ELEMENT,
+                    count: accessor.count,
+                    mode: isTriangles ? "TRIANGLES" : "INDICES",
+                });
+            }
+        });
+
+        let compressed = false;
+
+        Object.keys(views).forEach(key => {
+            const index = Number(key);
+            const view = views[index];
+            if (view) {
+                const source = this.viewData[index].subarray(0, view.count * view.byteStride);
+                view.data = encoder.encodeGltfBuffer(source, view.count, view.byteStride, view.mode);
+                this.meshoptViews[index] = view;
+                compressed = true;
+            }
+        });
+
+        if (compressed) {
+            this.useExtension("EXT_meshopt_compression", true);
+        }
+    }
+
+    /**
+     * Converts all embedded PNG and JPEG images to KTX2 with the given Basis Universal encoder module.
+     * Color textures are encoded with ETC1S, other textures (e.g. normal maps) with UASTC.
+     * @param basis Initialized Basis Universal encoder module.
+     * @param decodeImage Decodes an image file to RGBA pixels.
+     */
+    async compressTextures(basis: IBasisEncoderModule, decodeImage: (data: Uint8Array, mimeType: string) => Promise<IImageData>)
+    {
+        const images = this.json.images || [];
+        const textures = this.json.textures || [];
+
+        // images used as color textures are in sRGB
+        const colorImages = new Set<number>();
+        (this.json.materials || []).forEach(material => {
+            const pbr = material.pbrMetallicRoughness || {};
+            [ pbr.baseColorTexture, material.emissiveTexture ].forEach(info => {
+                if (info && textures[info.index] && textures[info.index].source !== undefined) {
+                    colorImages.add(textures[info.index].source);
+                }
+            });
+        });
+
+        const converted = new Set<number>();
+
+        for (let index = 0; index < images.length; ++index) {
+            const image = images[index];
+            if (image.bufferView === undefined || (image.mimeType !== "image/png" && image.mimeType !== "image/jpeg")) {
+                continue;
+            }
+
+            const { data, width, height } = await decodeImage(this.viewData[image.bufferView], image.mimeType);
+            const isColor = colorImages.has(index);
+
+            const encoder = new basis.BasisEncoder();
+            let length = 0;
+            const output = new Uint8Array(width * height * 4 + 65536);
+
+            try {
+                encoder.setCreateKTX2File(true);
+                encoder.setKTX2SRGBTransferFunc(isColor);
+                encoder.setSliceSourceImage(0, new Uint8Array(data.buffer, data.byteOffset, data.byteLength), width, height,
+                    basis.ldr_image_type ? basis.ldr_image_type.cRGBA32 : false);
+                encoder.setMipGen(true);
+                encoder.setMipSRGB(isColor);
+                encoder.setPerceptual(isColor);
+
+                if (isColor) {
+                    encoder.setUASTC(false);
+                    encoder.setQualityLevel(128);
+                }
+                else {
+                    encoder.setUASTC(true);
+                    encoder.setKTX2UASTCSupercompression(true);
+                }
+
+                length = encoder.encode(output);
+            }
+            finally {
+                encoder.delete();
+            }
+
+            if (!length) {
+                throw new Error(`failed to encode texture image #${index} to KTX2`);
+            }
+
+            this.viewData[image.bufferView] = output.slice(0, length);
+            this.json.bufferViews[image.bufferView].byteLength = length;
+            image.mimeType = "image/ktx2";
+            converted.add(index);
+        }
+
+        textures.forEach(texture => {
+            if (converted.has(texture.source)) {
+                texture.extensions = Object.assign({}, texture.extensions, { KHR_texture_basisu: { source: texture.source } });
+                delete texture.source;
+            }
+        });
+
+        if (converted.size > 0) {
+            this.useExtension("KHR_texture_basisu", true);
+        }
+    }
+
+    /**
+     * Writes the glb file. Accessors and buffer views which are no longer referenced are removed.
+     */
+    write(): ArrayBuffer
+    {
+        this.removeUnusedAccessors();
+
+        const json = this.json;
+        const used = new Set<number>();
+        (json.accessors || []).forEach(accessor => accessor.bufferView !== undefined && used.add(accessor.bufferView));
+        (json.images || []).forEach(image => image.bufferView !== undefined && used.add(image.bufferView));
+        this.forEachPrimitive(primitive => {
+            const draco = primitive.extensions && primitive.extensions.KHR_draco_mesh_compression;
+            draco && used.add(draco.bufferView);
+        });
+
+        const remap: Record<number, number> = {};
+        const chunks: { offset: number, data: Uint8Array }[] = [];
+        const bufferViews = [];
+        let byteLength = 0;
+        let fallbackLength = 0;
+
+        (json.bufferViews || []).forEach((view, index) => {
+            if (!used.has(index)) {
+                return;
+            }
+
+            remap[index] = bufferViews.length;
+            bufferViews.push(view);
+
+            const meshopt = this.meshoptViews[index];
+            const data = meshopt ? meshopt.data : this.viewData[index];
+            chunks.push({ offset: byteLength, data });
+
+            if (meshopt) {
+                // the original buffer view refers to the uncompressed fallback buffer without data
+                view.buffer = 1;
+                view.byteOffset = fallbackLength;
+                view.byteLength = meshopt.count * meshopt.byteStride;
+                view.extensions = Object.assign({}, view.extensions, {
+                    EXT_meshopt_compression: {
+                        buffer: 0,
+                        byteOffset: byteLength,
+                        byteLength: data.length,
+                        byteStride: meshopt.byteStride,
+                        count: meshopt.count,
+                        mode: meshopt.mode,
+                    }
+                });
+                fallbackLength += align4(view.byteLength);
+            }
+            else {
+                view.buffer = 0;
+                view.byteOffset = byteLength;
+                view.byteLength = data.length;
+            }
+
+            byteLength += align4(data.length);
+        });
+
+        json.bufferViews = bufferViews;
+        (json.accessors || []).forEach(accessor => {
+            if (accessor.bufferView !== undefined) accessor.bufferView = remap[accessor.bufferView];
+        });
+        (json.images || []).forEach(image => {
+            if (image.bufferView !== undefined) image.bufferView = remap[image.bufferView];
+        });
+        this.forEachPrimitive(primitive => {
+            const draco = primitive.extensions && primitive.extensions.KHR_draco_mesh_compression;
+            if (draco) draco.bufferView = remap[draco.bufferView];
+        });
+
+        json.buffers = [ { byteLength } ];
+        if (fallbackLength > 0) {
+            json.buffers.push({ byteLength: fallbackLength, extensions: { EXT_meshopt_compression: { fallback: true } } });
+        }
+
+        const bin = new Uint8Array(byteLength);
+        chunks.forEach(({ offset, data }) => bin.set(data, offset));
+
+        // the JSON chunk is padded with spaces, the binary chunk with zeros
+        const jsonData = new TextEncoder().encode(JSON.stringify(json));
+        const jsonChunk = new Uint8Array(align4(jsonData.length)).fill(0x20);
+        jsonChunk.set(jsonData);
+
+        const totalLength = 12 + 8 + jsonChunk.length + (byteLength > 0 ? 8 + byteLength : 0);
+        const buffer = new ArrayBuffer(totalLength);
+        const view = new DataView(buffer);
+        const bytes = new Uint8Array(buffer);
+
+        view.setUint32(0, GLB_MAGIC, true);
+        view.setUint32(4, 2, true);
+        view.setUint32(8, totalLength, true);
+        view.setUint32(12, jsonChunk.length, true);
+        view.setUint32(16, CHUNK_JSON, true);
+        bytes.set(jsonChunk, 20);
+
+        if (byteLength > 0) {
+            const offset = 20 + jsonChunk.length;
+            view.setUint32(offset, byteLength, true);
+            view.setUint32(offset + 4, CHUNK_BIN, true);
+            bytes.set(bin, offset + 8);
+        }
+
+        return buffer;
+    }
+
+    protected forEachPrimitive(callback: (primitive: any) => void)
+    {
+        (this.json.meshes || []).forEach(mesh => mesh.primitives.forEach(callback));
+    }
+
+    /** Returns a copy of the accessor's elements as a tightly packed typed array. */
+    protected readAccessor(index: number)
+    {
+        const accessor = this.json.accessors[index];
+        const ArrayType = _componentArrays[accessor.componentType];
+        const elementSize = _typeSizes[accessor.type] * ArrayType.BYTES_PER_ELEMENT;
+        const byteStride = this.json.bufferViews[accessor.bufferView].byteStride || elementSize;
+        const source = this.viewData[accessor.bufferView];
+        const byteOffset = accessor.byteOffset || 0;
+
+        const bytes = new Uint8Array(accessor.count * elementSize);
+        for (let i = 0; i < accessor.count; ++i) {
+            const start = byteOffset + i * byteStride;
+            bytes.set(source.subarray(start, start + elementSize), i * elementSize);
+        }
+
+        return new ArrayType(bytes.buffer);
+    }
+
+    protected addAccessor(accessor: any): number
+    {
+        this.json.accessors = this.json.accessors || [];
+        return this.json.accessors.push(accessor) - 1;
+    }
+
+    protected addBufferView(data: Uint8Array): number
+    {
+        this.json.bufferViews = this.json.bufferViews || [];
+        this.viewData.push(data);
+        return this.json.bufferViews.push({ buffer: 0, byteOffset: 0, byteLength: data.length }) - 1;
+    }
+
+    protected useExtension(name: string, required: boolean)
+    {
+        const json = this.json;
+        json.extensionsUsed = json.extensionsUsed || [];
+        json.extensionsUsed.indexOf(name) < 0 && json.extensionsUsed.push(name);
+
+        if (required) {
+            json.extensionsRequired = json.extensionsRequired || [];
+            json.extensionsRequired.indexOf(name) < 0 && json.extensionsRequired.push(name);
+        }
+    }
+
+    /** Removes accessors replaced during compression, the references to the remaining accessors are updated. */
+    protected removeUnusedAccessors()
+    {
+        const json = this.json;
+        const references: { owner: any, key: string | number }[] = [];
+
+        this.forEachPrimitive(primitive => {
+            Object.keys(primitive.attributes).forEach(name => references.push({ owner: primitive.attributes, key: name }));
+            primitive.indices !== undefined && references.push({ owner: primitive, key: "indices" });
+            (primitive.targets || []).forEach(target => Object.keys(target).forEach(name => references.push({ owner: target, key: name })));
+        });
+        (json.skins || []).forEach(skin => {
+            skin.inverseBindMatrices !== undefined && references.push({ owner: skin, key: "inverseBindMatrices" });
+        });
+        (json.animations || []).forEach(animation => animation.samplers.forEach(sampler => {
+            references.push({ owner: sampler, key: "input" }, { owner: sampler, key: "output" });
+        }));
+
+        const remap: Record<number, number> = {};
+        const accessors = [];
+
+        references.forEach(({ owner, key }) => {
+            const index = owner[key];
+            if (remap[index] === undefined) {
+                remap[index] = accessors.push(json.accessors[index]) - 1;
+            }
+            owner[key] = remap[index];
+        });
+
+        json.accessors = accessors;
+    }
+}
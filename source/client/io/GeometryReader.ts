@@ -15,37 +15,88 @@
  * limitations under the License.
  */
 
-import { LoadingManager, BufferGeometry } from "three";
+import { LoadingManager, BufferGeometry, FileLoader, Object3D, Mesh } from "three";
 
 import {OBJLoader} from "three/examples/jsm/loaders/OBJLoader.js";
 import {PLYLoader} from "three/examples/jsm/loaders/PLYLoader.js";
+import {STLLoader} from "three/examples/jsm/loaders/STLLoader.js";
+import {ThreeMFLoader} from "three/examples/jsm/loaders/3MFLoader.js";
+import {FBXLoader} from "three/examples/jsm/loaders/FBXLoader.js";
+import {mergeGeometries} from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import {unzipSync, strFromU8} from "three/examples/jsm/libs/fflate.module.js";
+
+import { TUnitType } from "client/schema/common";
 
 ////////////////////////////////////////////////////////////////////////////////
 
+// units of 3MF models, micron is converted to millimeters
+const _3mfUnits: Record<string, [TUnitType, number]> = {
+    micron: [ "mm", 0.001 ],
+    millimeter: [ "mm", 1 ],
+    centimeter: [ "cm", 1 ],
+    meter: [ "m", 1 ],
+    inch: [ "in", 1 ],
+    foot: [ "ft", 1 ],
+};
+
+// FBX unit scale factors (centimeters per unit)
+const _fbxUnits: Record<number, TUnitType> = {
+    0.1: "mm",
+    1: "cm",
+    100: "m",
+    2.54: "in",
+    30.48: "ft",
+};
+
+/**
+ * Loads meshes as a single buffer geometry. Supported formats are OBJ, PLY, STL, 3MF and FBX.
+ * Formats containing multiple meshes (3MF, FBX) are merged into one geometry, textures and materials are ignored.
+ * If the format specifies the units of the geometry (3MF, FBX), they are stored in the geometry's user data as "units".
+ */
 export default class GeometryReader
 {
-    static readonly extensions = [ "obj", "ply" ];
+    static readonly extensions = [ "obj", "ply", "stl", "3mf", "fbx" ];
 
     protected objLoader: any;
     protected plyLoader: any;
+    protected stlLoader: STLLoader;
+    protected threeMFLoader: ThreeMFLoader;
+    protected fbxLoader: FBXLoader;
+    protected fileLoader: FileLoader;
 
     constructor(loadingManager: LoadingManager)
     {
         this.objLoader = new OBJLoader(loadingManager);
         this.plyLoader = new PLYLoader(loadingManager);
+        this.stlLoader = new STLLoader(loadingManager);
+        this.threeMFLoader = new ThreeMFLoader(loadingManager);
+        this.fbxLoader = new FBXLoader(loadingManager);
+        this.fileLoader = new FileLoader(loadingManager);
+        this.fileLoader.setResponseType("arraybuffer");
     }
 
     isValid(url: string): boolean
     {
-        const extension = url.split(".").pop().toLowerCase();
+        const extension = url.split(/[?#]/)[0].split(".").pop().toLowerCase();
         return GeometryReader.extensions.indexOf(extension) >= 0;
     }
 
     get(url: string): Promise<BufferGeometry>
     {
-        const extension = url.split(".").pop().toLowerCase();
+        const extension = url.split(/[?#]/)[0].split(".").pop().toLowerCase();
 
         return new Promise((resolve, reject) => {
+            const onError = error => reject(new Error(`Can't load geometry from '${url}': ${error.message || error}`));
+
+            const parse = (parser: () => BufferGeometry) => {
+                try {
+                    resolve(parser());
+                }
+                catch(error) {
+                    onError(error);
+                }
+            };
+
             if (extension === "obj") {
                 this.objLoader.load(url, result => {
                     const geometry = result.children[0].geometry;
@@ -54,7 +105,7 @@ export default class GeometryReader
                     }
 
                     return reject(new Error(`Can't parse geometry from '${url}'`));
-                });
+                }, null, onError);
             }
             else if (extension === "ply") {
                 this.plyLoader.load(url, geometry => {
@@ -63,11 +114,101 @@ export default class GeometryReader
                     }
 
                     return reject(new Error(`Can't parse geometry from '${url}'`));
-                });
+                }, null, onError);
+            }
+            else if (extension === "stl") {
+                // STL files don't specify units
+                this.fileLoader.load(url, buffer => parse(() => {
+                    const geometry = this.stlLoader.parse(buffer as ArrayBuffer);
+                    if (!geometry.getAttribute("position") || geometry.getAttribute("position").count === 0) {
+                        throw new Error("the file doesn't contain any triangles");
+                    }
+                    return geometry;
+                }), null, onError);
+            }
+            else if (extension === "3mf") {
+                this.fileLoader.load(url, buffer => parse(() => {
+                    const geometry = this.mergeMeshes(this.threeMFLoader.parse(buffer as ArrayBuffer));
+                    const [ units, scale ] = _3mfUnits[this.get3MFUnit(buffer as ArrayBuffer)] || _3mfUnits.millimeter;
+                    if (scale !== 1) {
+                        geometry.scale(scale, scale, scale);
+                    }
+                    geometry.userData["units"] = units;
+                    return geometry;
+                }), null, onError);
+            }
+            else if (extension === "fbx") {
+                this.fileLoader.load(url, buffer => parse(() => {
+                    const group = this.fbxLoader.parse(buffer as ArrayBuffer, url.substring(0, url.lastIndexOf("/") + 1));
+                    const geometry = this.mergeMeshes(group);
+                    const scaleFactor: number = group.userData["unitScaleFactor"] || 1;
+                    // units without a matching unit type are converted to centimeters
+                    if (!_fbxUnits[scaleFactor]) {
+                        geometry.scale(scaleFactor, scaleFactor, scaleFactor);
+                    }
+                    geometry.userData["units"] = _fbxUnits[scaleFactor] || "cm";
+                    return geometry;
+                }), null, onError);
             }
             else {
-                throw new Error(`Can't load geometry, unknown extension: '${extension}' in '${url}'`);
+                reject(new Error(`Can't load geometry, unknown extension: '${extension}' in '${url}', supported formats: ${GeometryReader.extensions.join(", ")}`));
+            }
+        });
+    }
+
+    /**
+     * Merges the geometries of all meshes in the given object tree, applying their transforms.
+     * Only attributes present in all geometries are kept.
+     */
+    protected mergeMeshes(root: Object3D): BufferGeometry
+    {
+        const geometries: BufferGeometry[] = [];
+        root.updateMatrixWorld(true);
+
+        root.traverse(object => {
+            const mesh = object as Mesh;
+            if (mesh.isMesh && mesh.geometry.getAttribute("position")) {
+                const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry.clone();
+                geometry.applyMatrix4(mesh.matrixWorld);
+                geometry.clearGroups();
+                geometries.push(geometry);
             }
         });
+
+        if (geometries.length === 0) {
+            throw new Error("the file doesn't contain any meshes");
+        }
+
+        const names = Object.keys(geometries[0].attributes)
+            .filter(name => geometries.every(geometry => !!geometry.getAttribute(name)));
+
+        geometries.forEach(geometry => {
+            Object.keys(geometry.attributes).forEach(name => names.indexOf(name) < 0 && geometry.deleteAttribute(name));
+            geometry.morphAttributes = {};
+        });
+
+        const merged = geometries.length > 1 ? mergeGeometries(geometries) : geometries[0];
+        if (!merged) {
+            throw new Error("the meshes in the file can't be combined");
+        }
+
+        if (geometries.length > 1) {
+            geometries.forEach(geometry => geometry.dispose());
+        }
+
+        if (!merged.getAttribute("normal")) {
+            merged.computeVertexNormals();
+        }
+
+        return merged;
+    }
+
+    /** Returns the unit specified in the model part of a 3MF package, millimeter by default. */
+    protected get3MFUnit(buffer: ArrayBuffer): string
+    {
+        const files = unzipSync(new Uint8Array(buffer), { filter: file => /^3D\/.*\.model$/i.test(file.name) });
+        const name = Object.keys(files)[0];
+        const match = name && strFromU8(files[name]).match(/<model\b[^>]*\sunit\s*=\s*["'](\w+)["']/);
+        return match ? match[1] : "millimeter";
     }
-}
\ No newline at end of file
+}
@@ -89,6 +89,21 @@ export default class ModelReader
         this.gltfLoader = null;
     }
 
+    /**
+     * Returns the URLs of the Draco decoder and Basis transcoder files, e.g. to store them for offline use.
+     * Decoders are loaded on demand, the Draco decoder either as WebAssembly or as JavaScript module.
+     */
+    getDecoderUrls(): string[]
+    {
+        const dracoPath: string = this.gltfLoader.dracoLoader ? this.gltfLoader.dracoLoader["decoderPath"] : this.customDracoPath;
+        const basisPath: string = (this.gltfLoader as any).ktx2Loader.transcoderPath;
+
+        return [
+            ...[ "draco_decoder.js", "draco_decoder.wasm", "draco_wasm_wrapper.js" ].map(file => dracoPath + file),
+            ...[ "basis_transcoder.js", "basis_transcoder.wasm" ].map(file => basisPath + file),
+        ];
+    }
+
     isValid(url: string): boolean
     {
         const extension = url.split(".").pop().toLowerCase();
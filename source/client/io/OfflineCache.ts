@@ -0,0 +1,452 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { IDocument } from "client/schema/document";
+import { TDerivativeQuality } from "client/schema/model";
+import { getResourcePath } from "client/utils/languages";
+
+import CVAssetManager from "../components/CVAssetManager";
+import CVAssetReader from "../components/CVAssetReader";
+import CVDocument from "../components/CVDocument";
+import { environmentImages } from "../components/CVEnvironment";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Prefix of the names of caches holding offline documents, must match the prefix used in offlineWorker.ts. */
+export const OFFLINE_CACHE_PREFIX = "voyager-offline:";
+
+/** Search parameter identifying the manifest entry in a document cache. */
+const _manifestParam = "voyager-offline";
+/** Number of files fetched in parallel. */
+const _fetchConcurrency = 4;
+
+const _defaultQualities: TDerivativeQuality[] = [ "Thumb", "Low", "Medium", "High", "Highest" ];
+
+/** System assets used by Explorer, relative to the system asset path. */
+const _systemAssets = [
+    "fonts/Roboto-Bold.json",
+    "fonts/Roboto-Bold.png",
+    "images/spinner.svg",
+    "images/logo-sm.svg",
+    "images/logo-full.svg",
+    ...environmentImages.map(name => "images/" + name),
+];
+
+/** Files loaded by the page that belong to the application, e.g. script chunks, workers, styles and fonts. */
+const _applicationFile = /\.(js|mjs|wasm|css|woff2?|ttf|otf)$/i;
+
+export interface IOfflineOptions
+{
+    /** Qualities of the model derivatives to store, all qualities except AR by default. */
+    qualities?: TDerivativeQuality[];
+    /** Called after each stored file. */
+    onProgress?: (stored: number, total: number) => void;
+}
+
+/**
+ * Information about a document stored for offline use.
+ */
+export interface IOfflineDocumentInfo
+{
+    /** URL of the document. */
+    document: string;
+    /** Version of the stored files, derived from the document content and the stored qualities. */
+    version: string;
+    qualities: TDerivativeQuality[];
+    /** Time the files were stored, as ISO 8601 string. */
+    date: string;
+    files: number;
+    byteSize: number;
+}
+
+interface IOfflineManifest extends IOfflineDocumentInfo
+{
+    urls: string[];
+}
+
+/**
+ * Storage usage report, lists the documents stored for offline use.
+ */
+export interface IOfflineReport
+{
+    /** False if the browser doesn't support service workers or cache storage, e.g. on insecure origins. */
+    supported: boolean;
+    /** True if a service worker controls the page, serving stored files. */
+    active: boolean;
+    documents: IOfflineDocumentInfo[];
+    /** Storage used by the origin in bytes, including other data than offline documents. */
+    usage: number;
+    /** Storage available to the origin in bytes. */
+    quota: number;
+}
+
+/**
+ * Stores Voyager documents with all files needed to display them in the browser's cache storage,
+ * where they are served from by the service worker in offline mode (see offlineWorker.ts).
+ *
+ * Each document is stored in its own cache, named after the document URL and a version derived from the
+ * document content. When the document changes, storing it again creates a new cache and deletes the outdated one,
+ * so the stored version stays usable until the new version is complete.
+ */
+export default class OfflineCache
+{
+    protected assetManager: CVAssetManager;
+    protected assetReader: CVAssetReader;
+
+    static get isSupported() {
+        return "serviceWorker" in navigator && "caches" in window && window.isSecureContext;
+    }
+
+    constructor(assetManager: CVAssetManager, assetReader: CVAssetReader)
+    {
+        this.assetManager = assetManager;
+        this.assetReader = assetReader;
+    }
+
+    /**
+     * Registers the service worker at the given URL. The scope of the worker is its folder,
+     * which must contain the pages using offline documents.
+     */
+    register(workerUrl: string): Promise<void>
+    {
+        if (!OfflineCache.isSupported) {
+            return Promise.reject(new Error("offline use not supported by this browser or origin"));
+        }
+
+        return navigator.serviceWorker.register(workerUrl).then(() => {
+            if (ENV_DEVELOPMENT) {
+                console.log("OfflineCache.register - service worker: %s", workerUrl);
+            }
+        });
+    }
+
+    /**
+     * Stores the given document with the files needed to display it. Does nothing if the current version
+     * of the document is already stored. Resolves with information about the stored document.
+     */
+    async store(document: CVDocument, options?: IOfflineOptions): Promise<IOfflineDocumentInfo>
+    {
+        if (!OfflineCache.isSupported) {
+            throw new Error("offline use not supported by this browser or origin");
+        }
+
+        const qualities = options && options.qualities || _defaultQualities;
+        const onProgress = options && options.onProgress;
+
+        const documentUrl = this.assetManager.getAssetUrl(document.assetPath);
+        const documentText = await this.fetchText(documentUrl);
+        const version = await this.getVersion(documentText + qualities.join());
+
+        const cacheName = OFFLINE_CACHE_PREFIX + version + ":" + documentUrl;
+        const existing = await this.findCaches(documentUrl);
+
+        if (existing.indexOf(cacheName) >= 0) {
+            const manifest = await this.readManifest(cacheName, documentUrl);
+            if (manifest) {
+                return this.getInfo(manifest);
+            }
+        }
+
+        const urls = await this.collectUrls(document, JSON.parse(documentText), documentUrl, qualities);
+        const cache = await caches.open(cacheName);
+
+        let byteSize = 0;
+        let stored = 0;
+
+        try {
+            await this.forEachParallel(urls, async url => {
+                const response = await fetch(url, { cache: "reload" });
+                if (!response.ok) {
+                    throw new Error(`failed to fetch from '${url}', status: ${response.status} ${response.statusText}`);
+                }
+
+                // let the cache read the body, its size is taken from the headers where available
+                const contentLength = parseInt(response.headers.get("Content-Length"));
+                await cache.put(url, response);
+
+                if (contentLength >= 0) {
+                    byteSize += contentLength;
+                }
+                else {
+                    const cached = await cache.match(url);
+                    byteSize += cached ? (await cached.blob()).size : 0;
+                }
+
+                onProgress && onProgress(++stored, urls.length);
+            });
+        }
+        catch(error) {
+            // keep the previous version until a complete version is stored
+            await caches.delete(cacheName);
+            throw error;
+        }
+
+        const manifest: IOfflineManifest = {
+            document: documentUrl,
+            version,
+            qualities: qualities.slice(),
+            date: new Date().toISOString(),
+            files: urls.length,
+            byteSize,
+            urls,
+        };
+
+        await cache.put(this.getManifestUrl(documentUrl), new Response(JSON.stringify(manifest), {
+            headers: { "Content-Type": "application/json" }
+        }));
+
+        await Promise.all(existing.filter(name => name !== cacheName).map(name => caches.delete(name)));
+
+        // ask the browser not to evict the stored files under storage pressure
+        if (navigator.storage && navigator.storage.persist) {
+            await navigator.storage.persist();
+        }
+
+        return this.getInfo(manifest);
+    }
+
+    /**
+     * Deletes the stored files of the given document, or of all documents if no document is given.
+     * Resolves with the number of deleted document versions.
+     */
+    async remove(document?: CVDocument): Promise<number>
+    {
+        if (!OfflineCache.isSupported) {
+            return 0;
+        }
+
+        const names = await this.findCaches(document ? this.assetManager.getAssetUrl(document.assetPath) : null);
+        await Promise.all(names.map(name => caches.delete(name)));
+        return names.length;
+    }
+
+    /**
+     * Returns a report of the stored documents and the storage used by the origin.
+     */
+    async getReport(): Promise<IOfflineReport>
+    {
+        const report: IOfflineReport = {
+            supported: OfflineCache.isSupported,
+            active: false,
+            documents: [],
+            usage: 0,
+            quota: 0,
+        };
+
+        if (!report.supported) {
+            return report;
+        }
+
+        report.active = !!navigator.serviceWorker.controller;
+
+        const names = await this.findCaches(null);
+        for (const name of names) {
+            const documentUrl = name.slice(name.indexOf(":", OFFLINE_CACHE_PREFIX.length) + 1);
+            const manifest = await this.readManifest(name, documentUrl);
+            if (manifest) {
+                report.documents.push(this.getInfo(manifest));
+            }
+        }
+
+        if (navigator.storage && navigator.storage.estimate) {
+            const estimate = await navigator.storage.estimate();
+            report.usage = estimate.usage || 0;
+            report.quota = estimate.quota || 0;
+        }
+
+        return report;
+    }
+
+    /**
+     * Returns the URLs of all files needed to display the given document: the document, model derivatives
+     * of the given qualities, annotation images, articles and their images, audio and captions,
+     * system assets (fonts, images, languages, decoders) and the files of the application itself.
+     */
+    protected async collectUrls(document: CVDocument, data: IDocument, documentUrl: string, qualities: TDerivativeQuality[]): Promise<string[]>
+    {
+        const urls = new Set<string>();
+        const add = (url: string, base?: string) => {
+            if (url && !url.startsWith("data:") && !url.startsWith("blob:")) {
+                const absoluteUrl = new URL(url, base || window.location.href);
+                absoluteUrl.hash = "";
+                urls.add(absoluteUrl.href);
+            }
+        };
+        const addAsset = (uri: string) => uri && add(this.assetManager.getAssetUrl(uri));
+
+        add(documentUrl);
+
+        // document assets
+        const articleUrls: string[] = [];
+        const modelUrls: string[] = [];
+
+        (data.models || []).forEach(model => {
+            (model.derivatives || []).forEach(derivative => {
+                if (qualities.indexOf(derivative.quality) >= 0 && (derivative.usage === "Web3D" || derivative.quality === "AR")) {
+                    derivative.assets.forEach(asset => {
+                        addAsset(asset.uri);
+                        if (/\.gltf$/i.test(asset.uri)) {
+                            modelUrls.push(this.assetManager.getAssetUrl(asset.uri));
+                        }
+                    });
+                }
+            });
+            (model.annotations || []).forEach(annotation => addAsset(annotation.imageUri));
+        });
+
+        (data.metas || []).forEach(meta => {
+            (meta.images || []).forEach(image => addAsset(image.uri));
+            (meta.articles || []).forEach(article => {
+                const uris = [ article.uri, ...Object.keys(article.uris || {}).map(key => article.uris[key]) ];
+                uris.filter(uri => !!uri).forEach(uri => {
+                    addAsset(uri);
+                    articleUrls.push(this.assetManager.getAssetUrl(uri));
+                });
+                addAsset(article.thumbnailUri);
+            });
+            (meta.audio || []).forEach(clip => {
+                Object.keys(clip.uris || {}).forEach(key => addAsset(clip.uris[key]));
+                Object.keys(clip.captionUris || {}).forEach(key => addAsset(clip.captionUris[key]));
+            });
+        });
+
+        // images embedded in articles, relative to the article
+        for (const articleUrl of articleUrls) {
+            this.findReferences(await this.fetchText(articleUrl), /src=["'](.*?)["']/g)
+                .forEach(src => add(src, articleUrl));
+        }
+
+        // buffers and images of glTF models with external files
+        for (const modelUrl of modelUrls) {
+            const gltf = JSON.parse(await this.fetchText(modelUrl));
+            [ ...(gltf.buffers || []), ...(gltf.images || []) ].forEach(item => add(item.uri, modelUrl));
+        }
+
+        // system assets
+        const assetReader = this.assetReader;
+        const language = document.setup.language;
+        const languages = [ "en", language.ins.uiLanguage.value, ...language.sceneLanguages.map(option => option.id) ];
+
+        _systemAssets.forEach(path => add(assetReader.getSystemAssetUrl(path)));
+        languages.forEach(tag => add(assetReader.getSystemAssetUrl(getResourcePath(tag))));
+        assetReader.modelLoader.getDecoderUrls().forEach(url => add(url));
+
+        // application: the page, its scripts and style sheets, files referenced by style sheets,
+        // and files loaded on demand, e.g. script chunks and workers
+        add(window.location.href);
+
+        const elements = Array.from(window.document.querySelectorAll("script[src], link[rel=stylesheet][href], link[rel~=icon][href]"));
+        const styleSheets: string[] = [];
+
+        elements.forEach(element => {
+            const url = element.getAttribute("src") || element.getAttribute("href");
+            add(url);
+            if (element.tagName === "LINK" && element.getAttribute("rel") === "stylesheet") {
+                styleSheets.push(new URL(url, window.location.href).href);
+            }
+        });
+
+        for (const styleSheetUrl of styleSheets) {
+            this.findReferences(await this.fetchText(styleSheetUrl), /url\(\s*["']?(.*?)["']?\s*\)/g)
+                .forEach(url => add(url, styleSheetUrl));
+        }
+
+        performance.getEntriesByType("resource").forEach(entry => {
+            if (_applicationFile.test(new URL(entry.name).pathname)) {
+                add(entry.name);
+            }
+        });
+
+        return Array.from(urls);
+    }
+
+    /** Returns the first group of all matches of the given global expression. */
+    protected findReferences(content: string, expression: RegExp): string[]
+    {
+        const references: string[] = [];
+        let match: RegExpExecArray;
+
+        while ((match = expression.exec(content)) !== null) {
+            references.push(match[1]);
+        }
+
+        return references;
+    }
+
+    protected async findCaches(documentUrl: string): Promise<string[]>
+    {
+        const names = await caches.keys();
+
+        return names.filter(name => name.startsWith(OFFLINE_CACHE_PREFIX)
+            && (!documentUrl || name.endsWith(":" + documentUrl)));
+    }
+
+    protected async readManifest(cacheName: string, documentUrl: string): Promise<IOfflineManifest>
+    {
+        const cache = await caches.open(cacheName);
+        const response = await cache.match(this.getManifestUrl(documentUrl));
+        return response ? response.json() : null;
+    }
+
+    protected getManifestUrl(documentUrl: string)
+    {
+        const url = new URL(documentUrl);
+        url.searchParams.set(_manifestParam, "manifest");
+        return url.href;
+    }
+
+    protected getInfo(manifest: IOfflineManifest): IOfflineDocumentInfo
+    {
+        const { document, version, qualities, date, files, byteSize } = manifest;
+        return { document, version, qualities, date, files, byteSize };
+    }
+
+    protected async getVersion(text: string): Promise<string>
+    {
+        const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+        return Array.from(new Uint8Array(digest)).slice(0, 8)
+            .map(byte => byte.toString(16).padStart(2, "0")).join("");
+    }
+
+    protected async fetchText(url: string): Promise<string>
+    {
+        // bypass stored files, see offlineWorker.ts
+        const response = await fetch(url, { cache: "reload" });
+        if (!response.ok) {
+            throw new Error(`failed to fetch from '${url}', status: ${response.status} ${response.statusText}`);
+        }
+
+        return response.text();
+    }
+
+    protected async forEachParallel(items: string[], callback: (item: string) => Promise<void>)
+    {
+        let index = 0;
+        const next = async () => {
+            while (index < items.length) {
+                await callback(items[index++]);
+            }
+        };
+
+        const workers = [];
+        for (let i = 0; i < Math.min(_fetchConcurrency, items.length); ++i) {
+            workers.push(next());
+        }
+
+        await Promise.all(workers);
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LoadingManager, BufferGeometry, BufferAttribute, FileLoader, Color, SRGBColorSpace, Vector3 } from "three";
+
+import {PLYLoader} from "three/examples/jsm/loaders/PLYLoader.js";
+import {PCDLoader} from "three/examples/jsm/loaders/PCDLoader.js";
+import {XYZLoader} from "three/examples/jsm/loaders/XYZLoader.js";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const _color = new Color();
+
+// byte offset of the RGB values within a point record, by LAS point data format
+const _lasColorOffsets = { 2: 20, 3: 28, 5: 28, 7: 30, 8: 30, 10: 30 };
+
+/**
+ * Loads point clouds as buffer geometry with position and (optional) color attributes.
+ * Supported formats are PLY (vertices only, faces are ignored), PCD, XYZ and uncompressed LAS.
+ */
+export default class PointCloudReader
+{
+    static readonly extensions = [ "ply", "pcd", "xyz", "las", "laz" ];
+
+    protected plyLoader: PLYLoader;
+    protected pcdLoader: PCDLoader;
+    protected xyzLoader: XYZLoader;
+    protected fileLoader: FileLoader;
+
+    constructor(loadingManager: LoadingManager)
+    {
+        this.plyLoader = new PLYLoader(loadingManager);
+        this.pcdLoader = new PCDLoader(loadingManager);
+        this.xyzLoader = new XYZLoader(loadingManager);
+        this.fileLoader = new FileLoader(loadingManager);
+        this.fileLoader.setResponseType("arraybuffer");
+    }
+
+    /**
+     * Returns true if the file contains a point cloud. PLY files may contain either meshes or point clouds,
+     * they are point clouds if their header declares no faces.
+     */
+    static async isPointCloudFile(file: File): Promise<boolean>
+    {
+        const extension = file.name.split(".").pop().toLowerCase();
+
+        if (extension !== "ply") {
+            return PointCloudReader.extensions.indexOf(extension) >= 0;
+        }
+
+        // the header is ASCII text, also in binary files
+        const text = await file.slice(0, 65536).text();
+        const header = text.split("end_header")[0];
+        const faces = /element\s+face\s+(\d+)/.exec(header);
+
+        return !faces || parseInt(faces[1]) === 0;
+    }
+
+    isValid(url: string): boolean
+    {
+        const extension = url.split(".").pop().toLowerCase();
+        return PointCloudReader.extensions.indexOf(extension) >= 0;
+    }
+
+    get(url: string): Promise<BufferGeometry>
+    {
+        const extension = url.split(/[?#]/)[0].split(".").pop().toLowerCase();
+
+        return new Promise((resolve, reject) => {
+            const onError = error => reject(new Error(`Can't load point cloud from '${url}': ${error.message || error}`));
+
+            if (extension === "ply") {
+                this.plyLoader.load(url, geometry => {
+                    // point clouds are rendered from the vertices only
+                    geometry.setIndex(null);
+                    resolve(geometry);
+                }, null, onError);
+            }
+            else if (extension === "pcd") {
+                this.pcdLoader.load(url, points => resolve(points.geometry), null, onError);
+            }
+            else if (extension === "xyz") {
+                this.xyzLoader.load(url, geometry => resolve(geometry), null, onError);
+            }
+            else if (extension === "las") {
+                this.fileLoader.load(url, buffer => {
+                    try {
+                        resolve(this.parseLAS(buffer as ArrayBuffer));
+                    }
+                    catch(error) {
+                        onError(error);
+                    }
+                }, null, onError);
+            }
+            else if (extension === "laz") {
+                reject(new Error(`Can't load '${url}', compressed LAZ point clouds are not supported, please convert to LAS`));
+            }
+            else {
+                reject(new Error(`Can't load point cloud, unknown extension: '${extension}' in '${url}'`));
+            }
+        });
+    }
+
+    /**
+     * Parses an uncompressed LAS 1.0 - 1.4 file. LAS coordinates are usually geo-referenced with the z axis up.
+     * Points are converted to y up and centered around the origin, the original center is stored
+     * in the geometry's user data as "origin".
+     */
+    protected parseLAS(buffer: ArrayBuffer): BufferGeometry
+    {
+        const view = new DataView(buffer);
+        const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+
+        if (signature !== "LASF") {
+            throw new Error("not a LAS file");
+        }
+
+        const versionMinor = view.getUint8(25);
+        const pointOffset = view.getUint32(96, true);
+        const formatByte = view.getUint8(104);
+        const recordLength = view.getUint16(105, true);
+
+        if (formatByte & 0xc0) {
+            throw new Error("compressed LAZ point clouds are not supported, please convert to LAS");
+        }
+
+        const format = formatByte & 0x3f;
+        let count = view.getUint32(107, true);
+        if (count === 0 && versionMinor >= 4) {
+            count = Number(view.getBigUint64(247, true));
+        }
+
+        count = Math.min(count, Math.floor((buffer.byteLength - pointOffset) / recordLength));
+
+        const scale = new Vector3(view.getFloat64(131, true), view.getFloat64(139, true), view.getFloat64(147, true));
+        const offset = new Vector3(view.getFloat64(155, true), view.getFloat64(163, true), view.getFloat64(171, true));
+        const center = new Vector3(
+            (view.getFloat64(179, true) + view.getFloat64(187, true)) * 0.5,
+            (view.getFloat64(195, true) + view.getFloat64(203, true)) * 0.5,
+            (view.getFloat64(211, true) + view.getFloat64(219, true)) * 0.5
+        );
+
+        const positions = new Float32Array(count * 3);
+        const colors = new Float32Array(count * 3);
+        const colorOffset: number = _lasColorOffsets[format];
+
+        // colors are either 8 or 16 bit, determined by the largest value,
+        // intensities (used if there are no colors) are normalized
+        let colorScale = 1 / 255;
+        if (colorOffset !== undefined) {
+            for (let i = 0; i < count; ++i) {
+                const base = pointOffset + i * recordLength + colorOffset;
+                if (view.getUint16(base, true) > 255 || view.getUint16(base + 2, true) > 255 || view.getUint16(base + 4, true) > 255) {
+                    colorScale = 1 / 65535;
+                    break;
+                }
+            }
+        }
+        else {
+            let maxIntensity = 1;
+            for (let i = 0; i < count; ++i) {
+                maxIntensity = Math.max(maxIntensity, view.getUint16(pointOffset + i * recordLength + 12, true));
+            }
+            colorScale = 1 / maxIntensity;
+        }
+
+        for (let i = 0; i < count; ++i) {
+            const base = pointOffset + i * recordLength;
+            const x = view.getInt32(base, true) * scale.x + offset.x - center.x;
+            const y = view.getInt32(base + 4, true) * scale.y + offset.y - center.y;
+            const z = view.getInt32(base + 8, true) * scale.z + offset.z - center.z;
+
+            positions[i * 3] = x;
+            positions[i * 3 + 1] = z;
+            positions[i * 3 + 2] = -y;
+
+            if (colorOffset !== undefined) {
+                _color.setRGB(
+                    view.getUint16(base + colorOffset, true) * colorScale,
+                    view.getUint16(base + colorOffset + 2, true) * colorScale,
+                    view.getUint16(base + colorOffset + 4, true) * colorScale,
+                    SRGBColorSpace
+                );
+            }
+            else {
+                // no colors, use intensity instead
+                _color.setScalar(view.getUint16(base + 12, true) * colorScale);
+            }
+
+            _color.toArray(colors, i * 3);
+        }
+
+        const geometry = new BufferGeometry();
+        geometry.setAttribute("position", new BufferAttribute(positions, 3));
+        geometry.setAttribute("color", new BufferAttribute(colors, 3));
+        geometry.userData["origin"] = center.toArray();
+
+        return geometry;
+    }
+}
@@ -0,0 +1,341 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    Object3D,
+    Group,
+    Scene,
+    Mesh,
+    Points,
+    Material,
+    MeshStandardMaterial,
+    PointsMaterial,
+    PerspectiveCamera,
+    OrthographicCamera,
+    Light,
+    DirectionalLight,
+    SpotLight,
+    Matrix4,
+    Vector3,
+    Quaternion,
+} from "three";
+
+import {GLTFExporter} from "three/examples/jsm/exporters/GLTFExporter.js";
+
+import * as helpers from "@ff/three/helpers";
+import CLight from "@ff/scene/components/CLight";
+import CRenderer from "@ff/scene/components/CRenderer";
+import UniversalCamera from "@ff/three/UniversalCamera";
+
+import { EUnitType } from "client/schema/common";
+import { IAnnotation } from "client/schema/model";
+import { IArticle } from "client/schema/meta";
+import unitScaleFactor from "client/utils/unitScaleFactor";
+
+import CVDocument from "../components/CVDocument";
+import CVModel2 from "../components/CVModel2";
+import CVScene from "../components/CVScene";
+import CVAssetReader from "../components/CVAssetReader";
+import CVAnnotationView from "../components/CVAnnotationView";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const _vec3a = new Vector3();
+const _vec3b = new Vector3();
+const _quat = new Quaternion();
+const _mat4 = new Matrix4();
+
+/** Name of the extras property holding Voyager data in exported glTF files. */
+export const VOYAGER_EXTRAS = "voyager";
+
+/**
+ * Creates a standard material with the current settings of the given mesh material.
+ * Textures are shared, Voyager specific shader data is not copied.
+ */
+export function createExportMaterial(source: MeshStandardMaterial): MeshStandardMaterial
+{
+    const material = new MeshStandardMaterial({
+        name: source.name,
+        color: source.color,
+        opacity: source.opacity,
+        transparent: source.transparent,
+        alphaTest: source.alphaTest,
+        side: source.side,
+        vertexColors: source.vertexColors,
+    });
+
+    if (source["isMeshStandardMaterial"]) {
+        material.setValues({
+            roughness: source.roughness,
+            metalness: source.metalness,
+            map: source.map,
+            normalMap: source.normalMap,
+            normalScale: source.normalScale,
+            aoMap: source.aoMap,
+            aoMapIntensity: source.aoMapIntensity,
+            roughnessMap: source.roughnessMap,
+            metalnessMap: source.metalnessMap,
+            emissive: source.emissive,
+            emissiveMap: source.emissiveMap,
+            emissiveIntensity: source.emissiveIntensity,
+        });
+    }
+
+    return material;
+}
+
+/**
+ * Exports the authored scene of a Voyager document as a binary glTF (glb) file.
+ * The export contains the currently loaded derivative of each visible model with its pose and current
+ * material settings, the lights and the active camera. Volume derivatives are not exported.
+ *
+ * Voyager data is stored as glTF extras in the "voyager" property:
+ * - scene extras: titles, intros, articles (including their HTML content), tours and tour step views (snapshots)
+ * - model node extras: annotations, with positions and directions in the node's coordinate frame
+ *
+ * The exported scene is in meters, as required by glTF.
+ */
+export default class SceneExporter
+{
+    protected assetReader: CVAssetReader;
+
+    constructor(assetReader: CVAssetReader)
+    {
+        this.assetReader = assetReader;
+    }
+
+    async exportGLB(document: CVDocument): Promise<ArrayBuffer>
+    {
+        const scene = new Scene();
+        scene.name = document.ins.title.value || "Voyager Scene";
+
+        // scene units to meters
+        const sceneUnits = document.getInnerComponent(CVScene).ins.units.getValidatedValue();
+        const root = new Group();
+        root.name = "Voyager";
+        root.scale.setScalar(unitScaleFactor(sceneUnits, EUnitType.m));
+        scene.add(root);
+
+        document.getInnerComponents(CVModel2).forEach(model => {
+            const node = this.createModelNode(model);
+            node && root.add(node);
+        });
+
+        document.getInnerComponents(CLight).forEach(light => {
+            if (light.ins.enabled.value) {
+                const node = this.createLightNode(light.light);
+                node && root.add(node);
+            }
+        });
+
+        const renderer = document.system.getMainComponent(CRenderer);
+        const camera = renderer.activeSceneComponent && renderer.activeSceneComponent.activeCamera;
+        if (camera) {
+            root.add(this.createCameraNode(camera));
+        }
+
+        scene.userData[VOYAGER_EXTRAS] = await this.getSceneData(document);
+
+        const exporter = new GLTFExporter();
+        return exporter.parseAsync(scene, { binary: true, onlyVisible: true }) as Promise<ArrayBuffer>;
+    }
+
+    /**
+     * Creates a node for the active derivative of the given model. The node transform combines the
+     * model's world transform and pose. Annotations are attached to the node as extras.
+     */
+    protected createModelNode(model: CVModel2): Object3D
+    {
+        const derivative = model.activeDerivative;
+        if (!derivative || !derivative.model || !model.ins.visible.value) {
+            return null;
+        }
+
+        const object = this.cloneObject(derivative.model);
+        if (!object) {
+            return null;
+        }
+
+        const node = new Group();
+        node.name = model.node.name;
+        model.object3D.updateMatrixWorld(true);
+        model.object3D.matrixWorld.decompose(node.position, node.quaternion, node.scale);
+        node.add(object);
+
+        // annotation coordinates include the model pose, transform them into the node frame
+        _vec3a.fromArray(model.ins.position.value);
+        helpers.degreesToQuaternion(model.ins.rotation.value, CVModel2.rotationOrder, _quat);
+        _mat4.compose(_vec3a, _quat, _vec3b.setScalar(1)).invert();
+        _quat.invert();
+
+        const annotations: IAnnotation[] = model.getComponent(CVAnnotationView).toData().map(annotation => {
+            const data = Object.assign({}, annotation);
+            if (data.position) {
+                data.position = _vec3a.fromArray(data.position).applyMatrix4(_mat4).toArray();
+            }
+            if (data.direction) {
+                data.direction = _vec3a.fromArray(data.direction).applyQuaternion(_quat).toArray();
+            }
+            return data;
+        });
+
+        if (annotations.length > 0) {
+            node.userData[VOYAGER_EXTRAS] = { annotations };
+        }
+
+        return node;
+    }
+
+    /**
+     * Copies the object tree of a derivative. Meshes and points get standard materials with the current
+     * material settings, so that no Voyager specific shader data ends up in the export.
+     */
+    protected cloneObject(source: Object3D): Object3D
+    {
+        if (!source.visible) {
+            return null;
+        }
+
+        let target: Object3D;
+        const material = source["material"] as Material | Material[];
+        const materials = Array.isArray(material) ? material : [ material ];
+
+        if ((source as Mesh).isMesh) {
+            if (materials.some(material => material["isVolumeMaterial"])) {
+                return null;
+            }
+            const exportMaterials = materials.map(material => createExportMaterial(material as MeshStandardMaterial));
+            target = new Mesh((source as Mesh).geometry, Array.isArray(material) ? exportMaterials : exportMaterials[0]);
+        }
+        else if ((source as Points).isPoints) {
+            target = new Points((source as Points).geometry, this.createPointsMaterial(materials[0] as PointsMaterial));
+        }
+        else {
+            target = new Object3D();
+        }
+
+        target.name = source.name;
+        target.position.copy(source.position);
+        target.quaternion.copy(source.quaternion);
+        target.scale.copy(source.scale);
+
+        source.children.forEach(child => {
+            const clone = this.cloneObject(child);
+            clone && target.add(clone);
+        });
+
+        return target;
+    }
+
+    protected createPointsMaterial(source: PointsMaterial): PointsMaterial
+    {
+        return new PointsMaterial({
+            name: source.name,
+            color: source.color,
+            size: source.size,
+            vertexColors: source.vertexColors,
+        });
+    }
+
+    /**
+     * Creates a copy of the given light in world space. Directional and spot lights are oriented
+     * towards their target, as glTF lights shine along their node's negative z axis.
+     */
+    protected createLightNode(source: Light): Object3D
+    {
+        const light = source.clone(false) as Light;
+        source.updateMatrixWorld(true);
+        source.matrixWorld.decompose(light.position, light.quaternion, light.scale);
+        light.scale.setScalar(1);
+
+        const directional = light as Light as DirectionalLight;
+        if (directional.isDirectionalLight || (light as Light as SpotLight).isSpotLight) {
+            const target = (source as Light as DirectionalLight).target;
+            target.updateMatrixWorld(true);
+            light.lookAt(_vec3a.setFromMatrixPosition(target.matrixWorld));
+            directional.target = new Object3D();
+            directional.target.position.set(0, 0, -1);
+            light.add(directional.target);
+        }
+
+        return light;
+    }
+
+    protected createCameraNode(source: UniversalCamera): Object3D
+    {
+        let camera: PerspectiveCamera | OrthographicCamera;
+
+        if (source.isOrthographicCamera) {
+            const dy = source.size / (2 * source.zoom);
+            const dx = dy * source.aspect;
+            camera = new OrthographicCamera(-dx, dx, dy, -dy, source.near, source.far);
+        }
+        else {
+            camera = new PerspectiveCamera(source.fov, source.aspect, source.near, source.far);
+        }
+
+        camera.name = "Camera";
+        source.updateMatrixWorld(true);
+        source.matrixWorld.decompose(camera.position, camera.quaternion, camera.scale);
+        return camera;
+    }
+
+    /**
+     * Collects titles, articles and tours of the document. The content of articles is embedded,
+     * articles whose content can't be loaded are exported without content.
+     */
+    protected async getSceneData(document: CVDocument)
+    {
+        const data = document.deflateDocument();
+        const scene = data.scenes[data.scene];
+        const meta = data.metas && scene.meta !== undefined ? data.metas[scene.meta] : null;
+        const setup = data.setups && scene.setup !== undefined ? data.setups[scene.setup] : null;
+
+        const articles = await Promise.all(((meta && meta.articles) || []).map(article => this.getArticleData(article)));
+
+        return {
+            generator: data.asset.generator,
+            version: data.asset.version,
+            copyright: data.asset.copyright,
+            titles: meta && meta.collection ? meta.collection["titles"] : undefined,
+            intros: meta && meta.collection ? meta.collection["intros"] : undefined,
+            articles,
+            tours: setup ? setup.tours : undefined,
+            snapshots: setup ? setup.snapshots : undefined,
+        };
+    }
+
+    protected async getArticleData(article: IArticle)
+    {
+        const uris = Object.assign({}, article.uris);
+        if (article.uri && Object.keys(uris).length === 0) {
+            uris["default"] = article.uri;
+        }
+
+        const content = {};
+        for (const key of Object.keys(uris)) {
+            try {
+                content[key] = await this.assetReader.getText(uris[key]);
+            }
+            catch(error) {
+                console.warn(`SceneExporter - failed to load article content '${uris[key]}': ${error.message}`);
+            }
+        }
+
+        return Object.assign({}, article, { content });
+    }
+}
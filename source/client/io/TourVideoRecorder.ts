@@ -0,0 +1,455 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Object3D, Vector3, Camera } from "three";
+
+import CPulse from "@ff/graph/components/CPulse";
+import CRenderer from "@ff/scene/components/CRenderer";
+import RenderView from "@ff/scene/RenderView";
+import HTMLSpriteGroup from "@ff/three/HTMLSpriteGroup";
+
+import CVTours from "../components/CVTours";
+import CVAnnotationView from "../components/CVAnnotationView";
+import AnnotationSprite from "../annotations/AnnotationSprite";
+
+import WebMWriter from "./WebMWriter";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export interface IVideoOptions
+{
+    width: number;
+    height: number;
+    frameRate: number;
+    /** Time in seconds each step is shown after its transition. */
+    holdTime: number;
+    /** Target bit rate in bits per second. */
+    bitrate: number;
+    /** Draws annotation markers and titles. */
+    annotations: boolean;
+    /** Draws the step title as caption. */
+    captions: boolean;
+}
+
+interface IFrameEncoder
+{
+    /** Encodes the current content of the canvas as frame at the given time in seconds. */
+    encode(canvas: HTMLCanvasElement, time: number, isKey: boolean): Promise<void>;
+    /** Finishes encoding and returns the video file. */
+    finish(duration: number): Promise<Blob>;
+    close(): void;
+}
+
+const _vec3 = new Vector3();
+
+// key frame interval in seconds
+const _keyInterval = 2;
+
+/**
+ * Renders the active tour to a WebM video. The tour is stepped through with a simulated clock,
+ * the pulse is stopped and advanced by a fixed time per frame, so transitions are frame-exact
+ * independent of rendering speed. Frames are encoded with WebCodecs if available. Otherwise the
+ * recorder falls back to MediaRecorder, which records in real time.
+ */
+export default class TourVideoRecorder
+{
+    protected renderer: CRenderer;
+    protected pulse: CPulse;
+
+    private _isRecording = false;
+    private _isCancelled = false;
+
+    constructor(renderer: CRenderer, pulse: CPulse)
+    {
+        this.renderer = renderer;
+        this.pulse = pulse;
+    }
+
+    get isRecording() {
+        return this._isRecording;
+    }
+
+    /**
+     * Cancels a running recording.
+     */
+    cancel()
+    {
+        this._isCancelled = true;
+    }
+
+    /**
+     * Plays the active tour from the first to the last step and records it.
+     * @param tours The tours component with the tour to be recorded.
+     * @param options Resolution, frame rate and content of the video.
+     * @param onProgress Called after each frame with the completed fraction.
+     * @returns The video file, or null if recording has been cancelled.
+     */
+    async record(tours: CVTours, options: IVideoOptions, onProgress?: (progress: number) => void): Promise<Blob | null>
+    {
+        if (this._isRecording) {
+            throw new Error("recording in progress");
+        }
+
+        const steps = tours.activeSteps;
+        if (!steps || steps.length === 0) {
+            throw new Error("the active tour doesn't contain any steps");
+        }
+
+        const view = this.renderer.views[0];
+        if (!view) {
+            throw new Error("no render view");
+        }
+
+        const { width, height, frameRate } = options;
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+
+        const encoder = await WebCodecsEncoder.create(width, height, frameRate, options.bitrate)
+            || StreamEncoder.create(canvas, options.bitrate);
+
+        if (!encoder) {
+            throw new Error("video recording is not supported by this browser");
+        }
+
+        // each step is shown for its transition time plus the hold time, the first step starts without transition
+        const machine = tours.snapshots;
+        const stepFrames = steps.map((step, index) => {
+            const state = machine.getState(step.id);
+            const transition = index > 0 && state ? state.duration : 0;
+            return Math.max(1, Math.round((transition + options.holdTime) * frameRate));
+        });
+        const frameCount = stepFrames.reduce((sum, frames) => sum + frames, 0);
+        const keyFrames = Math.round(_keyInterval * frameRate);
+
+        const stepIndex = tours.outs.stepIndex.value;
+        const pulse = this.pulse;
+
+        this._isRecording = true;
+        this._isCancelled = false;
+
+        pulse.stop();
+        view.setFixedSize(width, height);
+
+        try {
+            const context = canvas.getContext("2d");
+            let frame = 0;
+
+            for (let step = 0; step < stepFrames.length; ++step) {
+                if (step === 0) {
+                    tours.ins.stepIndex.setValue(0);
+                }
+                else {
+                    tours.ins.next.set();
+                }
+
+                for (let i = 0; i < stepFrames[step]; ++i, ++frame) {
+                    if (this._isCancelled) {
+                        return null;
+                    }
+
+                    pulse.advance(1 / frameRate);
+                    this.renderFrame(view, context, tours, options);
+                    await encoder.encode(canvas, frame / frameRate, frame % keyFrames === 0);
+
+                    onProgress && onProgress((frame + 1) / frameCount);
+
+                    // give the browser a chance to update the user interface
+                    await new Promise(resolve => setTimeout(resolve));
+                }
+            }
+
+            return await encoder.finish(frameCount / frameRate);
+        }
+        finally {
+            encoder.close();
+            view.setFixedSize();
+            pulse.start();
+            tours.ins.stepIndex.setValue(stepIndex);
+
+            this._isRecording = false;
+        }
+    }
+
+    protected renderFrame(view: RenderView, context: CanvasRenderingContext2D, tours: CVTours, options: IVideoOptions)
+    {
+        const { width, height } = options;
+
+        view.render();
+        context.drawImage(view.canvas, 0, 0, width, height);
+
+        const scene = this.renderer.activeSceneComponent;
+        const camera = scene && view.viewports[0] ? view.viewports[0].updateCamera(scene.activeCamera) : null;
+
+        if (options.annotations && camera) {
+            tours.getGraphComponents(CVAnnotationView).forEach(annotations =>
+                this.drawAnnotations(annotations, camera, context, width, height));
+        }
+        if (options.captions) {
+            this.drawCaption(tours.outs.stepTitle.value, context, width, height);
+        }
+    }
+
+    /** Draws a marker and the title of each visible annotation. */
+    protected drawAnnotations(annotations: CVAnnotationView, camera: Camera, context: CanvasRenderingContext2D, width: number, height: number)
+    {
+        const group = annotations.object3D as HTMLSpriteGroup;
+        if (!group || !group.getVisible() || !isVisible(group)) {
+            return;
+        }
+
+        const scale = height / 720;
+        context.font = `${Math.round(16 * scale)}px sans-serif`;
+        context.textBaseline = "middle";
+        context.lineWidth = 2 * scale;
+
+        (group.children as AnnotationSprite[]).forEach(sprite => {
+            const data = sprite.annotation.data;
+            if (!data.visible || !sprite.getVisible()) {
+                return;
+            }
+
+            _vec3.setFromMatrixPosition(sprite.matrixWorld).project(camera);
+            // skip annotations outside the view frustum depth range, i.e. behind the camera
+            if (_vec3.z < -1 || _vec3.z > 1) {
+                return;
+            }
+
+            const x = (_vec3.x + 1) * 0.5 * width;
+            const y = (1 - _vec3.y) * 0.5 * height;
+            const color = data.color.map(value => Math.round(value * 255)).join(",");
+
+            context.fillStyle = `rgb(${color})`;
+            context.strokeStyle = "white";
+            context.beginPath();
+            context.arc(x, y, 6 * scale, 0, Math.PI * 2);
+            context.fill();
+            context.stroke();
+
+            const title = stripTags(sprite.annotation.title);
+            if (title) {
+                const padding = 6 * scale;
+                const textWidth = context.measureText(title).width;
+                const left = x + 12 * scale;
+                const boxHeight = 24 * scale;
+
+                context.fillStyle = "rgba(0,0,0,0.6)";
+                context.fillRect(left, y - boxHeight * 0.5, textWidth + padding * 2, boxHeight);
+                context.fillStyle = "white";
+                context.fillText(title, left + padding, y);
+            }
+        });
+    }
+
+    /** Draws the given text in a bar at the bottom of the frame. */
+    protected drawCaption(text: string, context: CanvasRenderingContext2D, width: number, height: number)
+    {
+        text = stripTags(text);
+        if (!text) {
+            return;
+        }
+
+        const fontSize = Math.round(height / 24);
+        const barHeight = fontSize * 2;
+
+        context.fillStyle = "rgba(0,0,0,0.6)";
+        context.fillRect(0, height - barHeight, width, barHeight);
+
+        context.font = `${fontSize}px sans-serif`;
+        context.textAlign = "center";
+        context.textBaseline = "middle";
+        context.fillStyle = "white";
+        context.fillText(text, width * 0.5, height - barHeight * 0.5, width - fontSize * 2);
+        context.textAlign = "start";
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+// VP9 profile 0, level 1.0, 8 bit, falls back to VP8
+const _codecs = [
+    { config: "vp09.00.10.08", codecId: "V_VP9" },
+    { config: "vp8", codecId: "V_VP8" },
+];
+
+/**
+ * Encodes frames with the WebCodecs VideoEncoder and writes them to a WebM file.
+ * The TypeScript DOM library doesn't include WebCodecs, the API is accessed untyped.
+ */
+class WebCodecsEncoder implements IFrameEncoder
+{
+    static async create(width: number, height: number, frameRate: number, bitrate: number): Promise<WebCodecsEncoder | null>
+    {
+        const VideoEncoder = window["VideoEncoder"];
+        if (!VideoEncoder || !window["VideoFrame"]) {
+            return null;
+        }
+
+        for (const codec of _codecs) {
+            const config = { codec: codec.config, width, height, bitrate, framerate: frameRate };
+            const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+            if (support && support.supported) {
+                return new WebCodecsEncoder(config, codec.codecId);
+            }
+        }
+
+        return null;
+    }
+
+    protected encoder: any;
+    protected writer: WebMWriter;
+    protected error: Error = null;
+
+    constructor(config: any, codecId: string)
+    {
+        this.writer = new WebMWriter(codecId, config.width, config.height);
+
+        this.encoder = new window["VideoEncoder"]({
+            output: chunk => {
+                const data = new Uint8Array(chunk.byteLength);
+                chunk.copyTo(data);
+                // chunk timestamps are in microseconds
+                this.writer.addFrame(data, chunk.timestamp * 0.001, chunk.type === "key");
+            },
+            error: error => this.error = error,
+        });
+
+        this.encoder.configure(config);
+    }
+
+    async encode(canvas: HTMLCanvasElement, time: number, isKey: boolean)
+    {
+        if (this.error) {
+            throw this.error;
+        }
+
+        const frame = new window["VideoFrame"](canvas, { timestamp: Math.round(time * 1000000) });
+        this.encoder.encode(frame, { keyFrame: isKey });
+        frame.close();
+
+        // wait for the encoder to catch up
+        while (this.encoder.encodeQueueSize > 2) {
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    }
+
+    async finish(duration: number)
+    {
+        await this.encoder.flush();
+
+        if (this.error) {
+            throw this.error;
+        }
+
+        return this.writer.toBlob(duration * 1000);
+    }
+
+    close()
+    {
+        if (this.encoder.state !== "closed") {
+            this.encoder.close();
+        }
+    }
+}
+
+const _mimeTypes = [ "video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm" ];
+
+/**
+ * Records frames from a canvas stream with MediaRecorder. MediaRecorder uses real time timestamps,
+ * frames are therefore captured when they are due. If rendering is slower than the frame rate,
+ * the video is recorded slower than real time.
+ */
+class StreamEncoder implements IFrameEncoder
+{
+    static create(canvas: HTMLCanvasElement, bitrate: number): StreamEncoder | null
+    {
+        if (typeof MediaRecorder === "undefined" || !canvas.captureStream) {
+            return null;
+        }
+
+        const mimeType = _mimeTypes.find(type => MediaRecorder.isTypeSupported(type));
+        return mimeType ? new StreamEncoder(canvas, mimeType, bitrate) : null;
+    }
+
+    protected track: CanvasCaptureMediaStreamTrack;
+    protected recorder: MediaRecorder;
+    protected chunks: Blob[] = [];
+    protected startTime = 0;
+
+    constructor(canvas: HTMLCanvasElement, mimeType: string, bitrate: number)
+    {
+        const stream = canvas.captureStream(0);
+        this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+        this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: bitrate });
+        this.recorder.ondataavailable = event => this.chunks.push(event.data);
+    }
+
+    async encode(canvas: HTMLCanvasElement, time: number, isKey: boolean)
+    {
+        if (this.recorder.state === "inactive") {
+            this.recorder.start();
+            this.startTime = performance.now() - time * 1000;
+        }
+
+        await this.waitUntil(time);
+        this.track.requestFrame();
+    }
+
+    async finish(duration: number)
+    {
+        await this.waitUntil(duration);
+
+        const recorder = this.recorder;
+        const stopped = new Promise(resolve => recorder.onstop = resolve);
+        recorder.stop();
+        await stopped;
+
+        return new Blob(this.chunks, { type: "video/webm" });
+    }
+
+    close()
+    {
+        if (this.recorder.state !== "inactive") {
+            this.recorder.stop();
+        }
+
+        this.track.stop();
+    }
+
+    protected waitUntil(time: number): Promise<void>
+    {
+        const delay = this.startTime + time * 1000 - performance.now();
+        return delay > 0 ? new Promise(resolve => setTimeout(resolve, delay)) : Promise.resolve();
+    }
+}
+
+function isVisible(object: Object3D)
+{
+    for (; object; object = object.parent) {
+        if (!object.visible) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+function stripTags(text: string)
+{
+    return text ? text.replace(/<[^>]*>/g, "").trim() : "";
+}
@@ -0,0 +1,171 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LoadingManager, FileLoader, Data3DTexture, RedFormat, UnsignedByteType, LinearFilter, Vector3 } from "three";
+
+import {NRRDLoader} from "three/examples/jsm/loaders/NRRDLoader.js";
+
+import { IVolumeLayout, TVolumeDataType } from "client/schema/model";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const _bytesPerVoxel: Record<TVolumeDataType, number> = {
+    uint8: 1, int8: 1, uint16: 2, int16: 2, uint32: 4, int32: 4, float32: 4
+};
+
+export interface IVolumeData
+{
+    /** Voxel values, normalized to the range of the volume and stored as 8 bit red channel. */
+    texture: Data3DTexture;
+    /** Number of voxels along the x, y and z axes. */
+    dimensions: Vector3;
+    /** Distance between voxel centers along the x, y and z axes. */
+    spacing: Vector3;
+}
+
+/**
+ * Loads volumes (e.g. CT scans) as 3D textures. Supported formats are NRRD with attached data
+ * and raw slice stacks. The layout of raw data must be given with the asset.
+ */
+export default class VolumeReader
+{
+    static readonly extensions = [ "nrrd", "raw" ];
+
+    protected nrrdLoader: NRRDLoader;
+    protected fileLoader: FileLoader;
+
+    constructor(loadingManager: LoadingManager)
+    {
+        this.nrrdLoader = new NRRDLoader(loadingManager);
+        this.fileLoader = new FileLoader(loadingManager);
+        this.fileLoader.setResponseType("arraybuffer");
+    }
+
+    isValid(url: string): boolean
+    {
+        const extension = url.split(".").pop().toLowerCase();
+        return VolumeReader.extensions.indexOf(extension) >= 0;
+    }
+
+    get(url: string, layout?: IVolumeLayout): Promise<IVolumeData>
+    {
+        const extension = url.split(/[?#]/)[0].split(".").pop().toLowerCase();
+
+        return new Promise((resolve, reject) => {
+            const onError = error => reject(new Error(`Can't load volume from '${url}': ${error.message || error}`));
+
+            if (extension === "nrrd") {
+                this.nrrdLoader.load(url, volume => {
+                    if (!volume.zLength || volume.zLength < 2) {
+                        return onError(new Error("not a 3D volume"));
+                    }
+                    resolve(this.createVolume(
+                        volume.data,
+                        new Vector3(volume.xLength, volume.yLength, volume.zLength),
+                        new Vector3().fromArray(volume.spacing)
+                    ));
+                }, null, onError);
+            }
+            else if (layout && layout.dimensions) {
+                this.fileLoader.load(url, buffer => {
+                    try {
+                        resolve(this.parseRaw(buffer as ArrayBuffer, layout));
+                    }
+                    catch(error) {
+                        onError(error);
+                    }
+                }, null, onError);
+            }
+            else if (extension === "raw") {
+                reject(new Error(`Can't load volume from '${url}', the asset doesn't specify the dimensions of the raw data`));
+            }
+            else {
+                reject(new Error(`Can't load volume, unknown extension: '${extension}' in '${url}'`));
+            }
+        });
+    }
+
+    protected parseRaw(buffer: ArrayBuffer, layout: IVolumeLayout): IVolumeData
+    {
+        const dimensions = new Vector3().fromArray(layout.dimensions);
+        const dataType = layout.dataType || "uint8";
+        const bytesPerVoxel = _bytesPerVoxel[dataType];
+        const count = dimensions.x * dimensions.y * dimensions.z;
+
+        if (!bytesPerVoxel) {
+            throw new Error(`unknown data type: '${dataType}'`);
+        }
+        if (buffer.byteLength < count * bytesPerVoxel) {
+            throw new Error(`expected ${count * bytesPerVoxel} bytes for ${layout.dimensions.join(" x ")} ${dataType} voxels, got ${buffer.byteLength}`);
+        }
+
+        const view = new DataView(buffer);
+        const littleEndian = layout.littleEndian !== false;
+        const values = dataType === "uint8" ? new Uint8Array(buffer, 0, count) : new Float32Array(count);
+
+        if (dataType !== "uint8") {
+            const getter: (offset: number, littleEndian?: boolean) => number = {
+                int8: view.getInt8,
+                uint16: view.getUint16,
+                int16: view.getInt16,
+                uint32: view.getUint32,
+                int32: view.getInt32,
+                float32: view.getFloat32,
+            }[dataType].bind(view);
+
+            for (let i = 0; i < count; ++i) {
+                values[i] = getter(i * bytesPerVoxel, littleEndian);
+            }
+        }
+
+        const spacing = layout.spacing ? new Vector3().fromArray(layout.spacing) : new Vector3(1, 1, 1);
+        return this.createVolume(values, dimensions, spacing);
+    }
+
+    /**
+     * Creates a 3D texture from the given voxel values. Values are normalized to the range
+     * between the smallest and largest value and quantized to 8 bits.
+     */
+    protected createVolume(values: ArrayLike<number>, dimensions: Vector3, spacing: Vector3): IVolumeData
+    {
+        const count = dimensions.x * dimensions.y * dimensions.z;
+
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = 0; i < count; ++i) {
+            const value = values[i];
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+
+        const scale = max > min ? 255 / (max - min) : 0;
+        const data = new Uint8Array(count);
+        for (let i = 0; i < count; ++i) {
+            data[i] = (values[i] - min) * scale;
+        }
+
+        const texture = new Data3DTexture(data, dimensions.x, dimensions.y, dimensions.z);
+        texture.format = RedFormat;
+        texture.type = UnsignedByteType;
+        texture.minFilter = LinearFilter;
+        texture.magFilter = LinearFilter;
+        texture.unpackAlignment = 1;
+        texture.needsUpdate = true;
+
+        return { texture, dimensions, spacing };
+    }
+}
@@ -0,0 +1,222 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+type Element = [ number, Uint8Array | Element[] ];
+
+interface IFrame
+{
+    data: Uint8Array;
+    /** Timestamp in milliseconds. */
+    time: number;
+    isKey: boolean;
+}
+
+// Matroska element ids
+const EBML = 0x1A45DFA3, EBMLVersion = 0x4286, EBMLReadVersion = 0x42F7, EBMLMaxIDLength = 0x42F2,
+    EBMLMaxSizeLength = 0x42F3, DocType = 0x4282, DocTypeVersion = 0x4287, DocTypeReadVersion = 0x4285;
+const Segment = 0x18538067, Info = 0x1549A966, TimecodeScale = 0x2AD7B1, MuxingApp = 0x4D80,
+    WritingApp = 0x5741, Duration = 0x4489;
+const Tracks = 0x1654AE6B, TrackEntry = 0xAE, TrackNumber = 0xD7, TrackUID = 0x73C5, TrackType = 0x83,
+    CodecID = 0x86, FlagLacing = 0x9C, Video = 0xE0, PixelWidth = 0xB0, PixelHeight = 0xBA;
+const Cluster = 0x1F43B675, Timecode = 0xE7, SimpleBlock = 0xA3;
+
+// maximum relative time of a block in a cluster (signed 16 bit)
+const _maxBlockTime = 32767;
+
+/**
+ * Writes encoded video frames to a WebM file with a single video track. Frames are kept
+ * in memory until the file is created. Timestamps are stored in milliseconds.
+ */
+export default class WebMWriter
+{
+    readonly codecId: string;
+    readonly width: number;
+    readonly height: number;
+
+    private _frames: IFrame[] = [];
+
+    /**
+     * @param codecId Matroska codec id, e.g. "V_VP8" or "V_VP9".
+     * @param width Frame width in pixels.
+     * @param height Frame height in pixels.
+     */
+    constructor(codecId: string, width: number, height: number)
+    {
+        this.codecId = codecId;
+        this.width = width;
+        this.height = height;
+    }
+
+    /**
+     * Adds an encoded frame. Frames must be added in presentation order, the first frame must be a key frame.
+     * @param data The encoded frame.
+     * @param time Presentation time in milliseconds.
+     * @param isKey True for key frames.
+     */
+    addFrame(data: Uint8Array, time: number, isKey: boolean)
+    {
+        if (this._frames.length === 0 && !isKey) {
+            throw new Error("the first frame must be a key frame");
+        }
+
+        this._frames.push({ data, time: Math.round(time), isKey });
+    }
+
+    /**
+     * Creates the WebM file.
+     * @param duration Duration of the video in milliseconds.
+     */
+    toBlob(duration: number): Blob
+    {
+        const header: Element = [ EBML, [
+            [ EBMLVersion, uint(1) ],
+            [ EBMLReadVersion, uint(1) ],
+            [ EBMLMaxIDLength, uint(4) ],
+            [ EBMLMaxSizeLength, uint(8) ],
+            [ DocType, text("webm") ],
+            [ DocTypeVersion, uint(2) ],
+            [ DocTypeReadVersion, uint(2) ],
+        ]];
+
+        const info: Element = [ Info, [
+            [ TimecodeScale, uint(1000000) ],
+            [ MuxingApp, text("Voyager") ],
+            [ WritingApp, text("Voyager") ],
+            [ Duration, float(duration) ],
+        ]];
+
+        const tracks: Element = [ Tracks, [
+            [ TrackEntry, [
+                [ TrackNumber, uint(1) ],
+                [ TrackUID, uint(1) ],
+                [ TrackType, uint(1) ],
+                [ CodecID, text(this.codecId) ],
+                [ FlagLacing, uint(0) ],
+                [ Video, [
+                    [ PixelWidth, uint(this.width) ],
+                    [ PixelHeight, uint(this.height) ],
+                ]],
+            ]],
+        ]];
+
+        const segment: Element = [ Segment, [ info, tracks, ...this.createClusters() ]];
+
+        const parts: Uint8Array[] = [];
+        encode(header, parts);
+        encode(segment, parts);
+        return new Blob(parts, { type: "video/webm" });
+    }
+
+    /** Groups the frames in clusters, starting a new cluster at each key frame. */
+    protected createClusters(): Element[]
+    {
+        const clusters: Element[] = [];
+        let blocks: Element[] = null;
+        let clusterTime = 0;
+
+        this._frames.forEach(frame => {
+            if (!blocks || frame.isKey || frame.time - clusterTime > _maxBlockTime) {
+                clusterTime = frame.time;
+                blocks = [ [ Timecode, uint(clusterTime) ] ];
+                clusters.push([ Cluster, blocks ]);
+            }
+
+            const block = new Uint8Array(4 + frame.data.length);
+            const relativeTime = frame.time - clusterTime;
+            block[0] = 0x81; // track number 1
+            block[1] = (relativeTime >> 8) & 0xff;
+            block[2] = relativeTime & 0xff;
+            block[3] = frame.isKey ? 0x80 : 0;
+            block.set(frame.data, 4);
+            blocks.push([ SimpleBlock, block ]);
+        });
+
+        return clusters;
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function encode(element: Element, parts: Uint8Array[]): number
+{
+    const [ id, content ] = element;
+    const idBytes = id.toString(16).length / 2;
+    const idPart = new Uint8Array(idBytes);
+    for (let i = 0; i < idBytes; ++i) {
+        idPart[i] = (id >> ((idBytes - i - 1) * 8)) & 0xff;
+    }
+
+    parts.push(idPart);
+    const sizeIndex = parts.length;
+    parts.push(null);
+
+    let size = 0;
+    if (content instanceof Uint8Array) {
+        parts.push(content);
+        size = content.length;
+    }
+    else {
+        content.forEach(child => size += encode(child, parts));
+    }
+
+    const sizePart = vint(size);
+    parts[sizeIndex] = sizePart;
+    return idPart.length + sizePart.length + size;
+}
+
+/** Encodes an element size as variable length integer. */
+function vint(value: number): Uint8Array
+{
+    let length = 1;
+    while (length < 8 && value >= Math.pow(2, 7 * length) - 1) {
+        length++;
+    }
+
+    const bytes = new Uint8Array(length);
+    for (let i = length - 1; i >= 0; --i) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+    }
+
+    bytes[0] |= 1 << (8 - length);
+    return bytes;
+}
+
+function uint(value: number): Uint8Array
+{
+    const bytes: number[] = [];
+    do {
+        bytes.unshift(value % 256);
+        value = Math.floor(value / 256);
+    } while (value > 0);
+
+    return new Uint8Array(bytes);
+}
+
+function float(value: number): Uint8Array
+{
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return bytes;
+}
+
+function text(value: string): Uint8Array
+{
+    return new TextEncoder().encode(value);
+}
@@ -0,0 +1,133 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Service worker serving the documents stored by OfflineCache, so Explorer starts and runs without network.
+ * Built as separate entry "voyager-offline-worker.js", which must be served from the folder of the pages using it.
+ *
+ * Stored files are served first, other requests go to the network. Requests with cache mode "reload" or "no-store"
+ * always go to the network, OfflineCache uses them to check for new versions of the stored documents.
+ * Stored pages, scripts and style sheets are updated in the background, so new versions of the application
+ * are used from the next start on.
+ */
+
+/** Must match OFFLINE_CACHE_PREFIX in OfflineCache.ts. */
+const cachePrefix = "voyager-offline:";
+
+const applicationDestinations = [ "document", "script", "style", "worker" ];
+
+// the service worker global scope, not typed by the DOM library
+const worker = self as any;
+
+worker.addEventListener("install", () => {
+    worker.skipWaiting();
+});
+
+worker.addEventListener("activate", event => {
+    // control open pages without reload
+    event.waitUntil(worker.clients.claim());
+});
+
+worker.addEventListener("fetch", event => {
+    const request: Request = event.request;
+
+    if (request.method !== "GET" || request.cache === "reload" || request.cache === "no-store") {
+        return;
+    }
+
+    event.respondWith(respond(request, promise => event.waitUntil(promise)));
+});
+
+async function respond(request: Request, waitUntil: (promise: Promise<any>) => void): Promise<Response>
+{
+    const { response, cache } = await findResponse(request);
+
+    if (!response) {
+        return fetch(request);
+    }
+
+    if (applicationDestinations.indexOf(request.destination) >= 0) {
+        waitUntil(update(cache, request.url));
+    }
+
+    // audio and video elements request ranges of the file
+    const range = request.headers.get("Range");
+    return range ? createRangeResponse(response, range) : response;
+}
+
+async function findResponse(request: Request): Promise<{ response: Response, cache: Cache }>
+{
+    const names = (await caches.keys()).filter(name => name.startsWith(cachePrefix));
+
+    for (const name of names) {
+        const cache = await caches.open(name);
+        const response = await cache.match(request.url);
+        if (response) {
+            return { response, cache };
+        }
+    }
+
+    return { response: null, cache: null };
+}
+
+async function update(cache: Cache, url: string): Promise<void>
+{
+    try {
+        const response = await fetch(url, { cache: "no-cache" });
+        if (response.ok) {
+            await cache.put(url, response);
+        }
+    }
+    catch(e) {
+        // offline, keep the stored version
+    }
+}
+
+async function createRangeResponse(response: Response, range: string): Promise<Response>
+{
+    const blob = await response.blob();
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+
+    let start = match && match[1] ? parseInt(match[1]) : 0;
+    let end = match && match[2] ? parseInt(match[2]) : blob.size - 1;
+
+    if (match && !match[1] && match[2]) {
+        // suffix range, the last bytes of the file
+        start = Math.max(0, blob.size - parseInt(match[2]));
+        end = blob.size - 1;
+    }
+
+    if (!match || start >= blob.size || end < start) {
+        return new Response(null, {
+            status: 416,
+            headers: { "Content-Range": `bytes */${blob.size}` },
+        });
+    }
+
+    end = Math.min(end, blob.size - 1);
+
+    const headers = new Headers(response.headers);
+    headers.set("Content-Range", `bytes ${start}-${end}/${blob.size}`);
+    headers.set("Content-Length", String(end - start + 1));
+
+    return new Response(blob.slice(start, end + 1), { status: 206, statusText: "Partial Content", headers });
+}
+
+// keeps the declarations above in module scope
+export {};
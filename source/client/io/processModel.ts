@@ -0,0 +1,169 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MeshoptSimplifier, MeshoptEncoder } from "meshoptimizer";
+
+import GLBCompressor, { EGeometryCompression, IImageData, IDracoEncoderModule, IBasisEncoderModule } from "./GLBCompressor";
+
+////////////////////////////////////////////////////////////////////////////////
+
+declare function importScripts(...urls: string[]): void;
+
+export interface IGeometryGroup
+{
+    start: number;
+    count: number;
+}
+
+export interface ISimplifyGeometry
+{
+    positions: Float32Array;
+    indices: Uint32Array;
+    groups: IGeometryGroup[];
+    /** Number of triangles to reduce the geometry to. */
+    targetCount: number;
+}
+
+export interface ISimplifiedGeometry
+{
+    /** Triangle indices, referring to the compacted vertices. */
+    indices: Uint32Array;
+    groups: IGeometryGroup[];
+    /** Maps original vertex indices to compacted ones, unused vertices map to 0xffffffff. */
+    remap: Uint32Array;
+    vertexCount: number;
+}
+
+export type ProcessModelRequest = {
+    type: "simplify";
+    geometries: ISimplifyGeometry[];
+} | {
+    type: "compress";
+    buffer: ArrayBuffer;
+    geometryCompression: EGeometryCompression;
+    textureCompression: boolean;
+    /** Absolute URLs of the encoder scripts, loaded on demand. */
+    dracoEncoderUrl: string;
+    basisEncoderUrl: string;
+};
+
+export type ProcessModelResult = {
+    error: string | null;
+    geometries?: ISimplifiedGeometry[];
+    buffer?: ArrayBuffer;
+};
+
+let _dracoEncoder: IDracoEncoderModule = null;
+let _basisEncoder: IBasisEncoderModule = null;
+
+function simplifyGeometry({ positions, indices, groups, targetCount }: ISimplifyGeometry): ISimplifiedGeometry
+{
+    const ratio = Math.min(1, targetCount * 3 / indices.length);
+    const parts = groups.map(group => {
+        const source = indices.subarray(group.start, group.start + group.count);
+        const targetIndexCount = Math.floor(source.length * ratio / 3) * 3;
+        // no error limit, the face count is the target
+        return ratio < 1 ? MeshoptSimplifier.simplify(source, positions, 3, targetIndexCount, 1)[0] : source;
+    });
+
+    const result = new Uint32Array(parts.reduce((count, part) => count + part.length, 0));
+    const resultGroups: IGeometryGroup[] = [];
+    let start = 0;
+
+    parts.forEach(part => {
+        result.set(part, start);
+        resultGroups.push({ start, count: part.length });
+        start += part.length;
+    });
+
+    // compactMesh rewrites the indices, the remap table is used to compact the vertex attributes
+    const [ remap, vertexCount ] = result.length > 0 ? MeshoptSimplifier.compactMesh(result) : [ new Uint32Array(0), 0 ];
+    return { indices: result, groups: resultGroups, remap, vertexCount };
+}
+
+async function compressModel(request: Extract<ProcessModelRequest, { type: "compress" }>): Promise<ArrayBuffer>
+{
+    const compressor = new GLBCompressor(request.buffer);
+
+    if (request.geometryCompression === EGeometryCompression.Draco) {
+        if (!_dracoEncoder) {
+            importScripts(request.dracoEncoderUrl);
+            _dracoEncoder = self["DracoEncoderModule"]();
+        }
+        compressor.compressDraco(_dracoEncoder);
+    }
+    else if (request.geometryCompression === EGeometryCompression.Meshopt) {
+        await MeshoptEncoder.ready;
+        compressor.compressMeshopt(MeshoptEncoder);
+    }
+
+    if (request.textureCompression) {
+        if (!_basisEncoder) {
+            try {
+                importScripts(request.basisEncoderUrl);
+            }
+            catch(error) {
+                throw new Error(`the KTX2 encoder is not available at '${request.basisEncoderUrl}'`);
+            }
+            _basisEncoder = await self["BASIS"]({ locateFile: file => new URL(file, request.basisEncoderUrl).href });
+            _basisEncoder.initializeBasis();
+        }
+        await compressor.compressTextures(_basisEncoder, decodeImage);
+    }
+
+    return compressor.write();
+}
+
+async function decodeImage(data: Uint8Array, mimeType: string): Promise<IImageData>
+{
+    const bitmap = await createImageBitmap(new Blob([ data ], { type: mimeType }), {
+        colorSpaceConversion: "none",
+        premultiplyAlpha: "none",
+    });
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D;
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { data: image.data, width: image.width, height: image.height };
+}
+
+/**
+ * Web worker generating model derivatives. Simplifies geometry with meshoptimizer and
+ * compresses binary glTF files. Results and failures are both reported via postMessage,
+ * one message per request.
+ */
+onmessage = async ({data}: MessageEvent<ProcessModelRequest>) => {
+    try {
+        if (data.type === "simplify") {
+            await MeshoptSimplifier.ready;
+            const geometries = data.geometries.map(simplifyGeometry);
+            const transfer = [];
+            geometries.forEach(geometry => transfer.push(geometry.indices.buffer, geometry.remap.buffer));
+            postMessage({ error: null, geometries } as ProcessModelResult, { transfer });
+        }
+        else {
+            const buffer = await compressModel(data);
+            postMessage({ error: null, buffer } as ProcessModelResult, { transfer: [ buffer ] });
+        }
+    }
+    catch(error) {
+        postMessage({ error: error.message || String(error) } as ProcessModelResult);
+    }
+};
@@ -16,6 +16,8 @@
 
 import AjvCore from "ajv";
 
+import { Dictionary } from "@ff/core/types";
+
 import documentSchema from "client/schema/json/document.schema.json";
 import commonSchema from "client/schema/json/common.schema.json";
 import metaSchema from "client/schema/json/meta.schema.json";
@@ -28,6 +30,13 @@ import type { IDocument } from "client/schema/document";
 
 export type ValidationResult = { error: string | null };
 
+export interface IValidationRequest
+{
+    document: IDocument;
+    /** JSON schemas of setup features registered by plugins, by feature name. */
+    featureSchemas?: Dictionary<object>;
+}
+
 const schemaValidator = new AjvCore({
     schemas: [
         documentSchema,
@@ -49,15 +58,41 @@ if(!validateDocument){
 }
 
 /**
- * Web worker that validates a document against the JSON-schema. Both outcomes
- * (success and validation failure) are reported via postMessage so they can be
- * correlated to the request that produced them. onerror is reserved for
- * unexpected failures such as schema setup above.
+ * Validates the data of plugin setup features in all setups of the document.
+ * Returns the error messages, empty if the data is valid.
+ */
+function validateFeatures(document: IDocument, featureSchemas: Dictionary<object>): string[]
+{
+    const errors: string[] = [];
+
+    Object.keys(featureSchemas).forEach(name => {
+        const validateFeature = schemaValidator.compile(featureSchemas[name]);
+
+        (document.setups || []).forEach((setup, index) => {
+            if (setup[name] !== undefined && !validateFeature(setup[name])) {
+                errors.push(schemaValidator.errorsText(
+                    validateFeature.errors, { separator: ", ", dataVar: `document.setups[${index}].${name}` }));
+            }
+        });
+    });
+
+    return errors;
+}
+
+/**
+ * Web worker that validates a document against the JSON-schema, and the data of plugin setup
+ * features against their schemas. Both outcomes (success and validation failure) are reported
+ * via postMessage so they can be correlated to the request that produced them. onerror is
+ * reserved for unexpected failures such as schema setup above.
  */
-onmessage = ({data}:MessageEvent<IDocument>) => {
-    const result: ValidationResult = validateDocument(data)
-        ? { error: null }
-        : { error: schemaValidator.errorsText(
-            validateDocument.errors, { separator: ", ", dataVar: "document" }) };
+onmessage = ({data}:MessageEvent<IValidationRequest>) => {
+    const errors = validateDocument(data.document) ? [] : [ schemaValidator.errorsText(
+        validateDocument.errors, { separator: ", ", dataVar: "document" }) ];
+
+    if (data.featureSchemas) {
+        errors.push(...validateFeatures(data.document, data.featureSchemas));
+    }
+
+    const result: ValidationResult = { error: errors.length > 0 ? errors.join(", ") : null };
     postMessage(result);
 };
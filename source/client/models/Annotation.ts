@@ -19,7 +19,8 @@ import Document, { IDocumentDisposeEvent, IDocumentUpdateEvent } from "@ff/core/
 
 import { IAnnotation } from "client/schema/model";
 import AnnotationFactory from "client/annotations/AnnotationFactory";
-import { ELanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { TLanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { normalizeLanguageKeys, toDocumentLanguage } from "client/utils/languages";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -31,27 +32,27 @@ export type IAnnotationDisposeEvent = IDocumentDisposeEvent<Annotation>;
 export default class Annotation extends Document<IAnnotation, IAnnotation>
 {
     static readonly defaultColor = [ 0, 0.61, 0.87 ];
-    private _language : ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    private _language : TLanguageType = DEFAULT_LANGUAGE;
     private _leadChanged : boolean = false;
 
     get title() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.titles).length === 0) {
-            this.data.titles[ELanguageType[this.language]] = this.data.title;
+            this.data.titles[this.language] = this.data.title;
         }
 
-        return this.data.titles[ELanguageType[this.language]] || "Missing content";
+        return this.data.titles[this.language] || "Missing content";
     }
 
     set title(inTitle: string) {
-        this.data.titles[ELanguageType[this.language]] = inTitle;
+        this.data.titles[this.language] = inTitle;
         this.update();
     }
     
-    titleIn(language: ELanguageType){
+    titleIn(language: TLanguageType){
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.titles).length === 0) {
-            this.data.titles[ELanguageType[this.language]] = this.data.title;
+            this.data.titles[this.language] = this.data.title;
         }
         return this.data.titles[language];
     }
@@ -59,52 +60,52 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
     get lead() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.leads).length === 0) {
-            this.data.leads[ELanguageType[this.language]] = this.data.lead;
+            this.data.leads[this.language] = this.data.lead;
         }
 
-        const hasAltContent = Object.keys(this.data.leads).some(key => this.data.leads[key] && key !== ELanguageType[this.language]);
+        const hasAltContent = Object.keys(this.data.leads).some(key => this.data.leads[key] && key !== this.language);
 
-        return this.data.leads[ELanguageType[this.language]] || (hasAltContent ? "Missing content" : "");
+        return this.data.leads[this.language] || (hasAltContent ? "Missing content" : "");
     }
     set lead(inLead: string) {
-        this.data.leads[ELanguageType[this.language]] = inLead;
+        this.data.leads[this.language] = inLead;
         this.update();
     }
     get tags() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.taglist).length === 0) {
             if(this.data.tags.length > 0) {
-                this.data.taglist[ELanguageType[this.language]] = this.data.tags;
+                this.data.taglist[this.language] = this.data.tags;
             }
         }
 
-        const hasAltContent = Object.keys(this.data.taglist).some(key => this.data.taglist[key].length > 0 && key !== ELanguageType[this.language]);
+        const hasAltContent = Object.keys(this.data.taglist).some(key => this.data.taglist[key].length > 0 && key !== this.language);
 
-        return this.data.taglist[ELanguageType[this.language]] && this.data.taglist[ELanguageType[this.language]].length > 0 ? 
-            this.data.taglist[ELanguageType[this.language]] : (hasAltContent ? ["Missing content"] : []);
+        return this.data.taglist[this.language] && this.data.taglist[this.language].length > 0 ? 
+            this.data.taglist[this.language] : (hasAltContent ? ["Missing content"] : []);
     }
     set tags(inTags: string[]) {
-        this.data.taglist[ELanguageType[this.language]] = inTags;
+        this.data.taglist[this.language] = inTags;
         this.update();
     }
     get language() {
         return this._language;
     }
-    set language(newLanguage: ELanguageType) {
+    set language(newLanguage: TLanguageType) {
         this._language = newLanguage;
     }
     get imageCredit() {
-        return this.data.imageCredit[ELanguageType[this.language]] || "";
+        return this.data.imageCredit[this.language] || "";
     }
     set imageCredit(inCredit: string) {
-        this.data.imageCredit[ELanguageType[this.language]] = inCredit;
+        this.data.imageCredit[this.language] = inCredit;
         this.update();
     }
     get imageAltText() {
-        return this.data.imageAltText[ELanguageType[this.language]] || "";
+        return this.data.imageAltText[this.language] || "";
     }
     set imageAltText(inAlt: string) {
-        this.data.imageAltText[ELanguageType[this.language]] = inAlt;
+        this.data.imageAltText[this.language] = inAlt;
         this.update();
     }
 
@@ -163,7 +164,7 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
         if (Object.keys(this.data.titles).length > 0) {
             json.titles = {};
             Object.keys(this.data.titles).forEach( key => {
-                json.titles[key] = data.titles[key];
+                json.titles[toDocumentLanguage(key)] = data.titles[key];
             })
         }
         else if (data.title) {
@@ -172,7 +173,7 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
         if (Object.keys(this.data.leads).length > 0) {
             json.leads = {};
             Object.keys(this.data.leads).forEach( key => {
-                json.leads[key] = data.leads[key];
+                json.leads[toDocumentLanguage(key)] = data.leads[key];
             })
         }
         else if (data.lead) {
@@ -184,7 +185,7 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
         if (Object.keys(this.data.taglist).length > 0) {
             json.taglist = {};
             Object.keys(this.data.taglist).forEach( key => {
-                json.taglist[key] = data.taglist[key].slice();
+                json.taglist[toDocumentLanguage(key)] = data.taglist[key].slice();
             })
         }
         else if (data.tags.length > 0) {
@@ -202,13 +203,13 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
         if (Object.keys(this.data.imageCredit).length > 0) {
             json.imageCredit = {};
             Object.keys(this.data.imageCredit).forEach( key => {
-                json.imageCredit[key] = data.imageCredit[key];
+                json.imageCredit[toDocumentLanguage(key)] = data.imageCredit[key];
             })
         }
         if (Object.keys(this.data.imageAltText).length > 0) {
             json.imageAltText = {};
             Object.keys(this.data.imageAltText).forEach( key => {
-                json.imageAltText[key] = data.imageAltText[key];
+                json.imageAltText[toDocumentLanguage(key)] = data.imageAltText[key];
             })
         }
         if (data.audioId) {
@@ -259,17 +260,17 @@ export default class Annotation extends Document<IAnnotation, IAnnotation>
         data.id = json.id;
 
         data.title = json.title || "";
-        data.titles = json.titles || {};
+        data.titles = normalizeLanguageKeys(json.titles) || {};
         data.lead = json.lead || "";
-        data.leads = json.leads || {};
+        data.leads = normalizeLanguageKeys(json.leads) || {};
         data.marker = json.marker || "";
         data.tags = json.tags || [];
-        data.taglist = json.taglist || {};
+        data.taglist = normalizeLanguageKeys(json.taglist) || {};
 
         data.articleId = json.articleId || "";
         data.imageUri = json.imageUri || "";
-        data.imageCredit = json.imageCredit || {};
-        data.imageAltText = json.imageAltText || {};
+        data.imageCredit = normalizeLanguageKeys(json.imageCredit) || {};
+        data.imageAltText = normalizeLanguageKeys(json.imageAltText) || {};
         data.audioId = json.audioId || "";
         data.viewId = json.viewId || "";
 
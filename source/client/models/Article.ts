@@ -18,7 +18,8 @@
 import Document, { IDocumentDisposeEvent, IDocumentUpdateEvent } from "@ff/core/Document";
 
 import { IArticle } from "client/schema/meta";
-import { ELanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { TLanguageType, DEFAULT_LANGUAGE } from "client/schema/common";
+import { normalizeLanguageKeys, toDocumentLanguage } from "client/utils/languages";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -29,7 +30,7 @@ export type IArticleDisposeEvent = IDocumentDisposeEvent<Article>;
 
 export default class Article extends Document<IArticle>
 {
-    private _language : ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    private _language : TLanguageType = DEFAULT_LANGUAGE;
 
     static fromJSON(json: IArticle)
     {
@@ -44,28 +45,28 @@ export default class Article extends Document<IArticle>
     get title() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.titles).length === 0) {
-            this.data.titles[ELanguageType[this.language]] = this.data.title;
+            this.data.titles[this.language] = this.data.title;
         }
 
-        return this.data.titles[ELanguageType[this.language]] || "Missing content";
+        return this.data.titles[this.language] || "Missing content";
     }
     set title(inTitle: string) {
-        this.data.titles[ELanguageType[this.language]] = inTitle;
+        this.data.titles[this.language] = inTitle;
         this.update();
     }
     get defaultTitle() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.titles).length === 0) {
-            this.data.titles[ELanguageType[this.language]] = this.data.title;
+            this.data.titles[this.language] = this.data.title;
         }
 
-        return this.data.titles[ELanguageType[this.language]] || "Missing content";
+        return this.data.titles[this.language] || "Missing content";
     }
     
-    titleIn(language: ELanguageType){
+    titleIn(language: TLanguageType){
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.titles).length === 0) {
-            this.data.titles[ELanguageType[this.language]] = this.data.title;
+            this.data.titles[this.language] = this.data.title;
         }
         return this.data.titles[language];
     }
@@ -73,45 +74,45 @@ export default class Article extends Document<IArticle>
     get uri() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.uris).length === 0) {
-            this.data.uris[ELanguageType[this.language]] = this.data.uri;
+            this.data.uris[this.language] = this.data.uri;
         }
 
-        return this.data.uris[ELanguageType[this.language]];
+        return this.data.uris[this.language];
     }
     set uri(inUri: string) {
-        this.data.uris[ELanguageType[this.language]] = inUri;
+        this.data.uris[this.language] = inUri;
         this.update();
     }
     get lead() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.leads).length === 0) {
-            this.data.leads[ELanguageType[this.language]] = this.data.lead;
+            this.data.leads[this.language] = this.data.lead;
         }
 
-        return this.data.leads[ELanguageType[this.language]] || "";
+        return this.data.leads[this.language] || "";
     }
     set lead(inLead: string) {
-        this.data.leads[ELanguageType[this.language]] = inLead;
+        this.data.leads[this.language] = inLead;
         this.update();
     }
     get tags() {
         // TODO: Temporary - remove when single string properties are phased out
         if(Object.keys(this.data.taglist).length === 0) {
             if(this.data.tags.length > 0) {
-                this.data.taglist[ELanguageType[this.language]] = this.data.tags;
+                this.data.taglist[this.language] = this.data.tags;
             }
         }
 
-        return this.data.taglist[ELanguageType[this.language]] || [];
+        return this.data.taglist[this.language] || [];
     }
     set tags(inTags: string[]) {
-        this.data.taglist[ELanguageType[this.language]] = inTags;
+        this.data.taglist[this.language] = inTags;
         this.update();
     }
     get language() {
         return this._language;
     }
-    set language(newLanguage: ELanguageType) {
+    set language(newLanguage: TLanguageType) {
         this._language = newLanguage;
     }
 
@@ -141,7 +142,7 @@ export default class Article extends Document<IArticle>
         if(Object.keys(this.data.uris).length > 0) {
             json.uris = {};
             Object.keys(this.data.uris).forEach( key => {
-                json.uris[key] = data.uris[key];
+                json.uris[toDocumentLanguage(key)] = data.uris[key];
             })
         }
         else if(data.uri) {
@@ -151,7 +152,7 @@ export default class Article extends Document<IArticle>
         if (Object.keys(this.data.titles).length > 0) {
             json.titles = {};
             Object.keys(this.data.titles).forEach( key => {
-                json.titles[key] = data.titles[key];
+                json.titles[toDocumentLanguage(key)] = data.titles[key];
             })
         }
         else if (data.title) {
@@ -161,7 +162,7 @@ export default class Article extends Document<IArticle>
         if (Object.keys(this.data.leads).length > 0) {
             json.leads = {};
             Object.keys(this.data.leads).forEach( key => {
-                json.leads[key] = data.leads[key];
+                json.leads[toDocumentLanguage(key)] = data.leads[key];
             })
         }
         else if (data.lead) {
@@ -171,7 +172,7 @@ export default class Article extends Document<IArticle>
         if (Object.keys(this.data.taglist).length > 0) {
             json.taglist = {};
             Object.keys(this.data.taglist).forEach( key => {
-                json.taglist[key] = data.taglist[key].slice();
+                json.taglist[toDocumentLanguage(key)] = data.taglist[key].slice();
             })
         }
         else if (data.tags.length > 0) {
@@ -189,14 +190,14 @@ export default class Article extends Document<IArticle>
     {
         data.id = json.id;
         data.uri = json.uri || "";
-        data.uris = json.uris || {};
+        data.uris = normalizeLanguageKeys(json.uris) || {};
 
         data.title = json.title || "";
-        data.titles = json.titles || {};
+        data.titles = normalizeLanguageKeys(json.titles) || {};
         data.lead = json.lead || "";
-        data.leads = json.leads || {};
+        data.leads = normalizeLanguageKeys(json.leads) || {};
         data.tags = json.tags || [];
-        data.taglist = json.taglist || {};
+        data.taglist = normalizeLanguageKeys(json.taglist) || {};
         data.mimeType = json.mimeType || "";
         data.thumbnailUri = json.thumbnailUri || "";
     }
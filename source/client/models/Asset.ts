@@ -17,7 +17,7 @@
 
 import Document, { IDocumentDisposeEvent, IDocumentUpdateEvent } from "@ff/core/Document";
 
-import { EAssetType, EMapType, IAsset as IAssetJSON, TAssetType, TMapType } from "client/schema/model";
+import { EAssetType, EMapType, IAsset as IAssetJSON, IVolumeLayout, TAssetType, TMapType } from "client/schema/model";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -56,6 +56,21 @@ export default class Asset extends Document<IAsset, IAssetJSON>
         this.data.mimeType = this.guessAssetMimeType();
     }
 
+    setPoints(uri: string)
+    {
+        this.data.uri = uri;
+        this.data.type = EAssetType.Points;
+        this.data.mimeType = this.guessAssetMimeType();
+    }
+
+    setVolume(uri: string, layout?: IVolumeLayout)
+    {
+        this.data.uri = uri;
+        this.data.type = EAssetType.Volume;
+        this.data.mimeType = this.guessAssetMimeType();
+        this.data.volume = layout;
+    }
+
     setTexture(uri: string, mapType: EMapType)
     {
         this.data.uri = uri;
@@ -86,6 +101,7 @@ export default class Asset extends Document<IAsset, IAssetJSON>
             numFaces: 0,
             numVertices: 0,
             imageSize: 0,
+            volume: undefined,
         };
     }
 
@@ -117,6 +133,11 @@ export default class Asset extends Document<IAsset, IAssetJSON>
                 json.imageSize = data.imageSize;
             }
         }
+
+        // for raw volume assets, save the voxel layout
+        if (data.type === EAssetType.Volume && data.volume) {
+            json.volume = Object.assign({}, data.volume);
+        }
     }
 
     protected inflate(json: IAssetJSON, data: IAsset)
@@ -128,6 +149,7 @@ export default class Asset extends Document<IAsset, IAssetJSON>
         data.byteSize = json.byteSize || 0;
         data.numFaces = json.numFaces || 0;
         data.imageSize = json.imageSize || 0;
+        data.volume = json.volume ? Object.assign({}, json.volume) : undefined;
 
         if (data.type === undefined) {
             data.type = this.guessAssetType();
@@ -163,9 +185,16 @@ export default class Asset extends Document<IAsset, IAssetJSON>
         if (extension === "gltf" || extension === "glb") {
             return EAssetType.Model
         }
-        if (extension === "obj" || extension === "ply") {
+        // PLY files may also contain point clouds, these are detected when loading the geometry
+        if (extension === "obj" || extension === "ply" || extension === "stl" || extension === "3mf" || extension === "fbx") {
             return EAssetType.Geometry
         }
+        if (extension === "pcd" || extension === "xyz" || extension === "las" || extension === "laz") {
+            return EAssetType.Points;
+        }
+        if (extension === "nrrd" || extension === "raw") {
+            return EAssetType.Volume;
+        }
         if (extension === "jpg" || extension === "png") {
             return EAssetType.Image;
         }
@@ -15,7 +15,7 @@
  * limitations under the License.
  */
 
-import { Object3D, Mesh, Texture, MeshStandardMaterial, Vector3, Material } from "three";
+import { Object3D, Mesh, Points, BufferGeometry, Texture, MeshStandardMaterial, Vector3, Material, BoxGeometry } from "three";
 
 import { disposeObject } from "@ff/three/helpers";
 
@@ -33,6 +33,8 @@ import CVAssetReader from "../components/CVAssetReader";
 
 import Asset, { EAssetType, EMapType } from "./Asset";
 import { addCustomMaterialDefines, extendShaders, } from "client/shaders/ShaderExtension";
+import PointCloudMaterial from "client/shaders/PointCloudMaterial";
+import VolumeMaterial from "client/shaders/VolumeMaterial";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -175,8 +177,15 @@ export default class Derivative extends Document<IDerivative, IDerivativeJSON>
         if (geoAsset) {
             return assetReader.getGeometry(geoAsset.data.uri)
             .then(geometry => {
+                // PLY files without faces are point clouds, these have no textures
+                if (!geometry.index && geoAsset.data.uri.split(/[?#]/)[0].toLowerCase().endsWith(".ply")) {
+                    this.createPoints(geometry);
+                    return [];
+                }
+
                 this.model = new Mesh(geometry, new MeshStandardMaterial());
                 this.model.castShadow = true;
+                this.model.userData["units"] = geometry.userData["units"];
 
                 return Promise.all(imageAssets.map(asset => assetReader.getTexture(asset.data.uri)))
                 .catch(error => {
@@ -185,6 +194,10 @@ export default class Derivative extends Document<IDerivative, IDerivativeJSON>
                 });
             })
             .then(textures => {
+                if ((this.model as Points).isPoints) {
+                    return this.model;
+                }
+
                 const material = (this.model as Mesh).material as MeshStandardMaterial;
                 this.assignTextures(imageAssets, textures, material);
 
@@ -204,6 +217,31 @@ export default class Derivative extends Document<IDerivative, IDerivativeJSON>
                 return this.model;
             });
         }
+
+        const pointsAsset = this.findAsset(EAssetType.Points);
+
+        if (pointsAsset) {
+            return assetReader.getPointCloud(pointsAsset.data.uri)
+            .then(geometry => this.createPoints(geometry));
+        }
+
+        const volumeAsset = this.findAsset(EAssetType.Volume);
+
+        if (volumeAsset) {
+            return assetReader.getVolume(volumeAsset.data.uri, volumeAsset.data.volume)
+            .then(volume => {
+                const material = new VolumeMaterial(volume.texture);
+                material.userData.paramCopy = {};
+
+                // the volume is rendered inside a unit box, scaled to the extent of the voxel grid
+                const mesh = new Mesh(new BoxGeometry(1, 1, 1), material);
+                mesh.scale.copy(volume.dimensions).multiply(volume.spacing);
+
+                this.model = new Object3D();
+                this.model.add(mesh);
+                return this.model;
+            });
+        }
     }
 
     unload()
@@ -320,6 +358,19 @@ export default class Derivative extends Document<IDerivative, IDerivativeJSON>
         data.assets = json.assets.map(assetJson => new Asset(assetJson));
     }
 
+    protected createPoints(geometry: BufferGeometry): Object3D
+    {
+        const material = new PointCloudMaterial({ size: 2, vertexColors: !!geometry.getAttribute("color") });
+        material.userData.paramCopy = {};
+
+        if (!material.vertexColors) {
+            material.color.setScalar(0.7);
+        }
+
+        this.model = new Points(geometry, material);
+        return this.model;
+    }
+
     protected assignTextures(assets: Asset[], textures: Texture[], material: MeshStandardMaterial)
     {
         for (let i = 0; i < assets.length; ++i) {
@@ -17,7 +17,7 @@
 
 import { Dictionary } from "@ff/core/types";
 
-import { IDerivative } from "client/schema/model";
+import { IDerivative, IVolumeLayout } from "client/schema/model";
 
 import Derivative, { EDerivativeQuality, EDerivativeUsage } from "./Derivative";
 import Asset, { EMapType } from "./Asset";
@@ -198,6 +198,34 @@ export default class DerivativeList
         return derivative;
     }
 
+    createPointsAsset(pointsPath: string, quality?: EDerivativeQuality | string): Derivative
+    {
+        quality = (typeof quality === "string" ? EDerivativeQuality[quality] : quality) as EDerivativeQuality;
+        quality = quality != null ? quality : EDerivativeQuality.Medium;
+
+        const derivative = this.getOrCreate(EDerivativeUsage.Web3D, quality);
+
+        const asset = new Asset();
+        asset.setPoints(pointsPath);
+        derivative.addAsset(asset);
+
+        return derivative;
+    }
+
+    createVolumeAsset(volumePath: string, quality?: EDerivativeQuality | string, layout?: IVolumeLayout): Derivative
+    {
+        quality = (typeof quality === "string" ? EDerivativeQuality[quality] : quality) as EDerivativeQuality;
+        quality = quality != null ? quality : EDerivativeQuality.Medium;
+
+        const derivative = this.getOrCreate(EDerivativeUsage.Web3D, quality);
+
+        const asset = new Asset();
+        asset.setVolume(volumePath, layout);
+        derivative.addAsset(asset);
+
+        return derivative;
+    }
+
     clear()
     {
         for (let key in this.derivatives) {
@@ -20,6 +20,8 @@ import CScene from "@ff/scene/components/CScene";
 
 import CVDocumentProvider from "../components/CVDocumentProvider";
 import CVNodeProvider from "../components/CVNodeProvider";
+import CVEventDispatcher from "../components/CVEventDispatcher";
+import CVViewState from "../components/CVViewState";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -36,11 +38,19 @@ export default class NVDocuments extends Node
     get nodeProvider() {
         return this.components.get(CVNodeProvider);
     }
+    get eventDispatcher() {
+        return this.components.get(CVEventDispatcher);
+    }
+    get viewState() {
+        return this.components.get(CVViewState);
+    }
 
     createComponents()
     {
         this.createComponent(CScene, "Master Scene");
         this.createComponent(CVDocumentProvider);
         this.createComponent(CVNodeProvider);
+        this.createComponent(CVEventDispatcher);
+        this.createComponent(CVViewState);
     }
 }
\ No newline at end of file
@@ -25,19 +25,9 @@ export type Quaternion = Vector4;
 export type ColorRGB = Vector3;
 export type ColorRGBA = Vector4;
 
-export type TLanguageType = "EN" | "ES" | "DE" | "NL" | "JA" | "FR" | "IT" | "HAW" | "AR";
-export enum ELanguageType { EN, ES, DE, NL, JA, FR, IT, HAW, AR }
-export enum ELanguageStringType {
-    EN = 'English',
-    ES = 'Spanish (Español)',
-    DE = 'German (Deutsch)',
-    NL = 'Dutch (Nederlands)',
-    JA = 'Japanese (日本語)',
-    FR = 'French (Français)',
-    IT = 'Italian (Italiano)',
-    HAW = 'Hawaiian (ʻŌlelo Hawaiʻi)',
-    AR = 'Arabic (العربية)',
-}
-export const DEFAULT_LANGUAGE = "EN";
+/** BCP-47 language tag, e.g. "en", "pt-BR" or "zh-Hant". Earlier documents use upper case codes, e.g. "EN". */
+export type TLanguageType = string;
+/** Language of content without language information. */
+export const DEFAULT_LANGUAGE: TLanguageType = "en";
 
 
@@ -37,6 +37,14 @@ export type TAssetType = "Model" | "Geometry" | "Image" | "Texture" | "Points" |
 export enum EMapType { Color, Emissive, Occlusion, Normal, MetallicRoughness, Zone }
 export type TMapType = "Color" | "Emissive" | "Occlusion" | "Normal" | "MetallicRoughness" | "Zone";
 
+export enum EVolumeMode { Composite, MaximumIntensity, IsoSurface }
+export type TVolumeMode = "Composite" | "MaximumIntensity" | "IsoSurface";
+
+export enum ETransferPreset { Grayscale, Bone, SoftTissue, Thermal }
+export type TTransferPreset = "Grayscale" | "Bone" | "SoftTissue" | "Thermal";
+
+export type TVolumeDataType = "uint8" | "int8" | "uint16" | "int16" | "uint32" | "int32" | "float32";
+
 export enum ESideType { Front, Back, Double, Default }
 export type TSideType = "Front" | "Back" | "Double"| "Default";
 
@@ -57,6 +65,8 @@ export interface IModel
     rotation?: QuaternionTuple;
     boundingBox?: IBoundingBox;
     material?: IPBRMaterialSettings;
+    points?: IPointCloudSettings;
+    volume?: IVolumeSettings;
     annotations?: IAnnotation[];
 }
 
@@ -131,6 +141,47 @@ export interface IAsset
     numFaces?: number;
     imageSize?: number;
     mapType?: TMapType;
+    volume?: IVolumeLayout;
+}
+
+/**
+ * Layout of a raw volume asset, a stack of slices without header.
+ * Volumes in formats with a header (NRRD) don't need a layout.
+ */
+export interface IVolumeLayout
+{
+    /** Number of voxels along the x, y and z axes. */
+    dimensions: Vector3;
+    /** Distance between voxel centers along the x, y and z axes, in model units. */
+    spacing?: Vector3;
+    dataType?: TVolumeDataType;
+    littleEndian?: boolean;
+}
+
+/**
+ * Display settings for point cloud derivatives.
+ */
+export interface IPointCloudSettings
+{
+    /** Point size in pixels. */
+    size?: number;
+    /** If true, the point size decreases with distance from the camera. */
+    attenuation?: boolean;
+    /** Strength of the shading of points towards their rim, 0 to 1. */
+    shading?: number;
+}
+
+/**
+ * Display settings for volume derivatives.
+ */
+export interface IVolumeSettings
+{
+    mode?: TVolumeMode;
+    transfer?: TTransferPreset;
+    /** Voxel values below the threshold are transparent, in iso surface mode the surface is placed at the threshold. 0 to 1. */
+    threshold?: number;
+    /** Opacity of the volume per voxel, 0 to 1. */
+    density?: number;
 }
 
 export interface IPBRMaterialSettings
@@ -1,5 +1,5 @@
 import { Dictionary } from "@ff/core/types";
-import { ELanguageType, TLanguageType } from "./common";
+import { TLanguageType } from "./common";
 
 /**
  * 3D Foundation Project
@@ -34,6 +34,17 @@ export enum EReaderPosition { Overlay, Left, Right }
 export type TSliceAxis = "X" | "Y" | "Z";
 export enum ESliceAxis { X, Y, Z }
 
+export type TSliceMode = "Axis" | "Free";
+export enum ESliceMode { Axis, Free }
+
+export type TCompareMode = "Split" | "Swipe";
+export enum ECompareMode { Split, Swipe }
+
+export type TCompareOrientation = "Horizontal" | "Vertical";
+export enum ECompareOrientation { Horizontal, Vertical }
+
+export type TPathInterpolation = "Step" | "Linear" | "Ease" | "Spline";
+
 export interface ISetup
 {
     interface?: IInterface;
@@ -47,9 +58,13 @@ export interface ISetup
     grid?: IGrid;
     tape?: ITape;
     slicer?: ISlicer;
+    comparison?: IComparison;
     tours?: ITours;
     snapshots?: ISnapshots;
     audio?: IAudio;
+
+    /** Data of features registered by plugins, see CVSetup.registerFeature. */
+    [feature: string]: any;
 }
 
 export interface IInterface
@@ -108,6 +123,7 @@ export interface IWalkNavigation
     rotation: number[];
     minPosition: number[];
     maxPosition: number[];
+    speed?: number;
 }
 
 export interface IBackground
@@ -151,6 +167,8 @@ export interface IAudio
     narrationId?: string;
 }
 
+export type TMeasurementType = "Distance" | "Polyline" | "Angle" | "Area";
+
 export interface ITape
 {
     enabled: boolean;
@@ -158,6 +176,19 @@ export interface ITape
     startDirection?: number[];
     endPosition?: number[];
     endDirection?: number[];
+    measurements?: IMeasurement[];
+}
+
+export interface IMeasurement
+{
+    id: string;
+    name: string;
+    type: TMeasurementType;
+    /** Measured points in scene units. */
+    points: number[][];
+    /** Surface normals at the measured points. */
+    directions: number[][];
+    visible?: boolean;
 }
 
 export interface ISlicer
@@ -167,6 +198,37 @@ export interface ISlicer
     inverted: boolean;
     position: number;
     color: number[];
+    mode?: TSliceMode;
+    planes?: ISlicePlane[];
+    caps?: boolean;
+}
+
+/**
+ * Freely oriented slicing plane.
+ */
+export interface ISlicePlane
+{
+    enabled: boolean;
+    /** Plane normal, pointing towards the removed side. */
+    normal: number[];
+    /** Position of the plane along its normal, relative to the scene bounding box (0..1). */
+    position: number;
+}
+
+/**
+ * Comparison of two sets of models in split or overlapping (swipe) views with linked navigation.
+ */
+export interface IComparison
+{
+    enabled: boolean;
+    mode: TCompareMode;
+    orientation: TCompareOrientation;
+    /** Position of the split between the two views (0..1). */
+    position: number;
+    /** Ids of the nodes shown in the first (left or top) view. */
+    first?: string[];
+    /** Ids of the nodes shown in the second (right or bottom) view. */
+    second?: string[];
 }
 
 export type ITours = ITour[];
@@ -181,9 +243,25 @@ export interface ISnapshots
         duration: number;
         threshold: number;
         values: any[];
+        /** Keyframed camera path of the transition to the state. */
+        path?: ICameraPathKey[];
     }[];
 }
 
+/**
+ * Key of a camera path. The path starts at the camera position before the transition
+ * and ends at the camera position of the target state.
+ */
+export interface ICameraPathKey
+{
+    /** Time in seconds from the start of the transition. */
+    time: number;
+    orbit: number[];
+    offset: number[];
+    /** Interpolation towards the next key, "Spline" if not given. */
+    interpolation?: TPathInterpolation;
+}
+
 export interface ITour
 {
     id?: string;
@@ -207,5 +285,5 @@ export interface ITourStep
 export interface ILanguageOption
 {
     name: string;
-    id: ELanguageType;
+    id: TLanguageType;
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PointsMaterial, PointsMaterialParameters, Vector3 } from "three";
+
+import { addCustomMaterialDefines } from "./ShaderExtension";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Material for point clouds. Renders points as round splats with a size given in pixels.
+ * With attenuation enabled, points have their nominal size at the reference distance from the
+ * camera and grow or shrink with perspective. Shading darkens the splats towards their rim, which gives
+ * dense point clouds some depth without normals. This is not eye-dome lighting (EDL): EDL shades each pixel
+ * by comparing its depth to the depth of neighboring pixels, which requires a screen space pass the
+ * renderer doesn't provide.
+ */
+export default class PointCloudMaterial extends PointsMaterial
+{
+    isPointCloudMaterial = true;
+
+    uniforms = {
+        shading: { value: 0.5 },
+        referenceDistance: { value: 1 },
+    };
+
+    constructor(parameters?: PointsMaterialParameters)
+    {
+        super(parameters);
+
+        this.sizeAttenuation = false;
+
+        // defines are shared with the mesh materials, so the slicer and shader modes can treat all materials alike
+        addCustomMaterialDefines(this);
+        this.defines["POINT_ATTENUATION"] = false;
+
+        this.onBeforeCompile = shader => {
+            shader.uniforms.shading = this.uniforms.shading;
+            shader.uniforms.referenceDistance = this.uniforms.referenceDistance;
+            // expected by the slicer and overlay handling of mesh materials, unused for points
+            shader.uniforms.cutPlaneColor = { value: new Vector3() };
+            shader.uniforms.zoneMap = { value: null };
+
+            shader.vertexShader = shader.vertexShader
+            .replace("uniform float size;", "uniform float size;\nuniform float referenceDistance;")
+            .replace("gl_PointSize = size;", [
+                "gl_PointSize = size;",
+                "#ifdef POINT_ATTENUATION",
+                "  if (isPerspectiveMatrix(projectionMatrix)) {",
+                "    gl_PointSize = max(1.0, size * referenceDistance / -mvPosition.z);",
+                "  }",
+                "#endif",
+            ].join("\n"));
+
+            shader.fragmentShader = shader.fragmentShader
+            .replace("uniform float opacity;", "uniform float opacity;\nuniform float shading;")
+            .replace("#include <color_fragment>", [
+                "#include <color_fragment>",
+                "vec2 pointCoord = gl_PointCoord * 2.0 - 1.0;",
+                "float pointRadius = dot(pointCoord, pointCoord);",
+                "if (pointRadius > 1.0) discard;",
+                "diffuseColor.rgb *= 1.0 - shading * pointRadius;",
+            ].join("\n"));
+
+            this.userData.shader = shader;
+        };
+    }
+
+    get shading() {
+        return this.uniforms.shading.value;
+    }
+    set shading(value: number) {
+        this.uniforms.shading.value = value;
+    }
+
+    get attenuation() {
+        return !!this.defines["POINT_ATTENUATION"];
+    }
+    set attenuation(enabled: boolean) {
+        if (enabled !== this.attenuation) {
+            this.defines["POINT_ATTENUATION"] = enabled;
+            this.needsUpdate = true;
+        }
+    }
+
+    get referenceDistance() {
+        return this.uniforms.referenceDistance.value;
+    }
+    set referenceDistance(value: number) {
+        this.uniforms.referenceDistance.value = value;
+    }
+}
@@ -0,0 +1,293 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ShaderMaterial, Data3DTexture, DataTexture, Color, Vector3, BackSide, LinearFilter, RGBAFormat } from "three";
+
+import { EVolumeMode, ETransferPreset } from "client/schema/model";
+
+import { addCustomMaterialDefines } from "./ShaderExtension";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export { EVolumeMode, ETransferPreset };
+
+/** Transfer function control points: voxel value, red, green, blue, opacity. */
+const _transferPresets: Record<ETransferPreset, number[][]> = {
+    [ETransferPreset.Grayscale]: [
+        [ 0, 0, 0, 0, 0 ],
+        [ 1, 1, 1, 1, 1 ],
+    ],
+    [ETransferPreset.Bone]: [
+        [ 0, 0, 0, 0, 0 ],
+        [ 0.3, 0.55, 0.25, 0.15, 0 ],
+        [ 0.5, 0.9, 0.8, 0.7, 0.6 ],
+        [ 1, 1, 1, 0.95, 1 ],
+    ],
+    [ETransferPreset.SoftTissue]: [
+        [ 0, 0, 0, 0, 0 ],
+        [ 0.15, 0.8, 0.4, 0.3, 0.05 ],
+        [ 0.4, 0.9, 0.6, 0.5, 0.2 ],
+        [ 0.7, 1, 0.95, 0.9, 0.8 ],
+        [ 1, 1, 1, 1, 1 ],
+    ],
+    [ETransferPreset.Thermal]: [
+        [ 0, 0, 0, 0, 0 ],
+        [ 0.35, 0.8, 0, 0, 0.3 ],
+        [ 0.7, 1, 0.8, 0, 0.7 ],
+        [ 1, 1, 1, 1, 1 ],
+    ],
+};
+
+const _transferSize = 256;
+
+/**
+ * Creates a lookup texture for the given transfer function preset
+ * by interpolating linearly between its control points.
+ */
+export function createTransferTexture(preset: ETransferPreset): DataTexture
+{
+    const points = _transferPresets[preset] || _transferPresets[ETransferPreset.Grayscale];
+    const data = new Uint8Array(_transferSize * 4);
+
+    for (let i = 0, j = 0; i < _transferSize; ++i) {
+        const value = i / (_transferSize - 1);
+        while (j < points.length - 2 && points[j + 1][0] < value) {
+            j++;
+        }
+
+        const p0 = points[j], p1 = points[j + 1];
+        const t = Math.min(1, Math.max(0, (value - p0[0]) / (p1[0] - p0[0])));
+        for (let k = 0; k < 4; ++k) {
+            data[i * 4 + k] = (p0[k + 1] + (p1[k + 1] - p0[k + 1]) * t) * 255;
+        }
+    }
+
+    const texture = new DataTexture(data, _transferSize, 1, RGBAFormat);
+    texture.minFilter = LinearFilter;
+    texture.magFilter = LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+/**
+ * Renders a volume by ray marching through a 3D texture. The material must be applied to a unit box
+ * centered at the origin, scaled to the extent of the volume. Samples on the clipped side of the
+ * renderer's clipping planes are skipped, so the slicer cuts through the volume instead of the box.
+ *
+ * Modes: composite blends the samples front to back, maximum intensity shows the brightest sample
+ * along each ray, iso surface renders the shaded surface where the voxel values reach the threshold.
+ */
+export default class VolumeMaterial extends ShaderMaterial
+{
+    isVolumeMaterial = true;
+
+    color = new Color(1, 1, 1);
+
+    uniforms = {
+        volume: { value: null as Data3DTexture },
+        transfer: { value: null as DataTexture },
+        dimensions: { value: new Vector3(1, 1, 1) },
+        tint: { value: this.color },
+        mode: { value: EVolumeMode.Composite as number },
+        threshold: { value: 0.2 },
+        density: { value: 0.5 },
+        // expected by the slicer and overlay handling of mesh materials, unused for volumes
+        cutPlaneColor: { value: new Vector3() },
+        zoneMap: { value: null },
+    };
+
+    vertexShader = [
+        "#include <common>",
+        "#include <clipping_planes_pars_vertex>",
+
+        "varying vec3 vOrigin;",
+        "varying vec3 vDirection;",
+
+        "void main() {",
+        "  #include <begin_vertex>",
+        "  #include <project_vertex>",
+        "  #include <clipping_planes_vertex>",
+
+        "  mat4 inverseModel = inverse(modelMatrix);",
+        "  if (isPerspectiveMatrix(projectionMatrix)) {",
+        "    vOrigin = (inverseModel * vec4(cameraPosition, 1.0)).xyz;",
+        "    vDirection = position - vOrigin;",
+        "  } else {",
+        "    vDirection = (inverseModel * vec4(-viewMatrix[0][2], -viewMatrix[1][2], -viewMatrix[2][2], 0.0)).xyz;",
+        "    vOrigin = position - vDirection * 4.0;",
+        "  }",
+        "}",
+    ].join("\n");
+
+    fragmentShader = [
+        "#include <common>",
+        "#include <clipping_planes_pars_fragment>",
+
+        "uniform mat4 modelMatrix;",
+        "uniform sampler3D volume;",
+        "uniform sampler2D transfer;",
+        "uniform vec3 dimensions;",
+        "uniform vec3 tint;",
+        "uniform int mode;",
+        "uniform float threshold;",
+        "uniform float density;",
+
+        "varying vec3 vOrigin;",
+        "varying vec3 vDirection;",
+
+        "vec2 hitBox(vec3 origin, vec3 direction) {",
+        "  vec3 inverseDirection = 1.0 / direction;",
+        "  vec3 t0 = (vec3(-0.5) - origin) * inverseDirection;",
+        "  vec3 t1 = (vec3(0.5) - origin) * inverseDirection;",
+        "  vec3 tMin = min(t0, t1);",
+        "  vec3 tMax = max(t0, t1);",
+        "  return vec2(max(tMin.x, max(tMin.y, tMin.z)), min(tMax.x, min(tMax.y, tMax.z)));",
+        "}",
+
+        "bool isClipped(mat4 modelView, vec3 position) {",
+        "  #if NUM_CLIPPING_PLANES > 0",
+        "    vec3 clipPosition = -(modelView * vec4(position, 1.0)).xyz;",
+        "    for (int i = 0; i < NUM_CLIPPING_PLANES; i++) {",
+        "      if (dot(clipPosition, clippingPlanes[i].xyz) > clippingPlanes[i].w) return true;",
+        "    }",
+        "  #endif",
+        "  return false;",
+        "}",
+
+        "float sampleVolume(vec3 position) {",
+        "  return texture(volume, position + 0.5).r;",
+        "}",
+
+        "vec3 gradient(vec3 position) {",
+        "  vec3 d = 1.0 / dimensions;",
+        "  return vec3(",
+        "    sampleVolume(position + vec3(d.x, 0.0, 0.0)) - sampleVolume(position - vec3(d.x, 0.0, 0.0)),",
+        "    sampleVolume(position + vec3(0.0, d.y, 0.0)) - sampleVolume(position - vec3(0.0, d.y, 0.0)),",
+        "    sampleVolume(position + vec3(0.0, 0.0, d.z)) - sampleVolume(position - vec3(0.0, 0.0, d.z))",
+        "  );",
+        "}",
+
+        "void main() {",
+        "  #ifdef DOUBLE_SIDED",
+        "    // the volume is rendered once, from the back faces of the box",
+        "    if (gl_FrontFacing) discard;",
+        "  #endif",
+
+        "  vec3 direction = normalize(vDirection);",
+        "  vec2 bounds = hitBox(vOrigin, direction);",
+        "  bounds.x = max(bounds.x, 0.0);",
+        "  if (bounds.x >= bounds.y) discard;",
+
+        "  // step about one voxel",
+        "  vec3 stepSizes = 1.0 / (abs(direction) * dimensions);",
+        "  float delta = min(stepSizes.x, min(stepSizes.y, stepSizes.z));",
+        "  mat4 modelView = viewMatrix * modelMatrix;",
+
+        "  vec4 color = vec4(0.0);",
+        "  float maxValue = 0.0;",
+
+        "  for (float t = bounds.x + 0.5 * delta; t < bounds.y; t += delta) {",
+        "    vec3 position = vOrigin + direction * t;",
+        "    if (isClipped(modelView, position)) continue;",
+        "    float value = sampleVolume(position);",
+        "    if (value < threshold) continue;",
+
+        "    if (mode == 1) {",
+        "      maxValue = max(maxValue, value);",
+        "    }",
+        "    else if (mode == 2) {",
+        "      vec3 normal = normalize(-gradient(position));",
+        "      float light = 0.25 + 0.75 * abs(dot(normal, direction));",
+        "      color = vec4(texture(transfer, vec2(value, 0.5)).rgb * light, 1.0);",
+        "      break;",
+        "    }",
+        "    else {",
+        "      vec4 sampleColor = texture(transfer, vec2(value, 0.5));",
+        "      float alpha = sampleColor.a * density * (1.0 - color.a);",
+        "      color.rgb += sampleColor.rgb * alpha;",
+        "      color.a += alpha;",
+        "      if (color.a > 0.98) break;",
+        "    }",
+        "  }",
+
+        "  if (mode == 1) {",
+        "    vec4 sampleColor = texture(transfer, vec2(maxValue, 0.5));",
+        "    color = maxValue > 0.0 ? vec4(sampleColor.rgb * sampleColor.a, sampleColor.a) : vec4(0.0);",
+        "  }",
+
+        "  if (color.a <= 0.0) discard;",
+
+        "  // colors are accumulated with premultiplied alpha",
+        "  gl_FragColor = vec4(color.rgb * tint / color.a, color.a);",
+
+        "  #include <tonemapping_fragment>",
+        "  #include <colorspace_fragment>",
+        "}",
+    ].join("\n");
+
+    constructor(volume: Data3DTexture)
+    {
+        super();
+
+        this.uniforms.volume.value = volume;
+        this.uniforms.dimensions.value.set(volume.image.width, volume.image.height, volume.image.depth);
+        this.uniforms.transfer.value = createTransferTexture(ETransferPreset.Grayscale);
+
+        this.side = BackSide;
+        this.transparent = true;
+        this.depthWrite = false;
+        this.clipping = true;
+
+        // defines are shared with the mesh materials, so the slicer can treat all materials alike
+        addCustomMaterialDefines(this);
+        this.userData.shader = { uniforms: this.uniforms };
+    }
+
+    get mode() {
+        return this.uniforms.mode.value as EVolumeMode;
+    }
+    set mode(mode: EVolumeMode) {
+        this.uniforms.mode.value = mode;
+    }
+
+    get threshold() {
+        return this.uniforms.threshold.value;
+    }
+    set threshold(value: number) {
+        this.uniforms.threshold.value = value;
+    }
+
+    get density() {
+        return this.uniforms.density.value;
+    }
+    set density(value: number) {
+        this.uniforms.density.value = value;
+    }
+
+    setTransferPreset(preset: ETransferPreset)
+    {
+        this.uniforms.transfer.value?.dispose();
+        this.uniforms.transfer.value = createTransferTexture(preset);
+    }
+
+    dispose()
+    {
+        this.uniforms.volume.value?.dispose();
+        this.uniforms.transfer.value?.dispose();
+        super.dispose();
+    }
+}
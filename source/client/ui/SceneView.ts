@@ -17,7 +17,7 @@
 
 import ManipTarget from "@ff/browser/ManipTarget"
 import System from "@ff/graph/System";
-import RenderQuadView, { ILayoutChange } from "@ff/scene/RenderQuadView";
+import RenderQuadView, { ILayoutChange, ISplitChange } from "@ff/scene/RenderQuadView";
 import SystemView, { customElement, html } from "@ff/scene/ui/SystemView";
 import Notification from "@ff/ui/Notification";
 
@@ -75,6 +75,7 @@ export default class SceneView extends SystemView
         this.addEventListener("wheel", this.manipTarget.onWheel);
         this.addEventListener("contextmenu", this.manipTarget.onContextMenu);
         this.addEventListener("keydown", this.manipTarget.onKeyDown);
+        this.addEventListener("keyup", this.manipTarget.onKeyUp);
 
         this.pointerEventsEnabled = true;
     }
@@ -133,6 +134,10 @@ export default class SceneView extends SystemView
 
         this.view = new RenderQuadView(this.system, this.canvas, this.overlay);
         this.view.on<ILayoutChange>("layout", event => {this.splitter.layout = event.layout; this.dispatchEvent(new CustomEvent("layout"))});
+        this.view.on<ISplitChange>("split", event => {
+            this.splitter.horizontalPosition = event.horizontalSplit;
+            this.splitter.verticalPosition = event.verticalSplit;
+        });
 
         this.view.layout = EQuadViewLayout.Single;
         this.splitter.layout = EQuadViewLayout.Single;
@@ -180,6 +185,7 @@ export default class SceneView extends SystemView
             this.addEventListener("wheel", this.manipTarget.onWheel);
             this.addEventListener("contextmenu", this.manipTarget.onContextMenu);
             this.addEventListener("keydown", this.manipTarget.onKeyDown);
+            this.addEventListener("keyup", this.manipTarget.onKeyUp);
 
             // disable default touch action on mobile devices
             this.style.touchAction = "none";
@@ -198,6 +204,7 @@ export default class SceneView extends SystemView
             this.removeEventListener("wheel", this.manipTarget.onWheel);
             this.removeEventListener("contextmenu", this.manipTarget.onContextMenu);
             this.removeEventListener("keydown", this.manipTarget.onKeyDown);
+            this.removeEventListener("keyup", this.manipTarget.onKeyUp);
 
             // enable default touch action on mobile devices
             this.style.touchAction = "auto";
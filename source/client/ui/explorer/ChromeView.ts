@@ -36,7 +36,9 @@ import DocumentView, { customElement, html } from "./DocumentView";
 import LanguageMenu from "./LanguageMenu";
 import { EUIElements } from "client/components/CVInterface";
 import CVAssetReader from "client/components/CVAssetReader";
+import CVAnalytics from "client/components/CVAnalytics";
 import SplashScreen from "./SplashScreen";
+import ConsentPrompt from "./ConsentPrompt";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -56,6 +58,10 @@ export default class ChromeView extends DocumentView
         return this.system.getMainComponent(CVAssetReader);
     }
 
+    protected get analytics() {
+        return this.system.getMainComponent(CVAnalytics);
+    }
+
     protected firstConnected()
     {
         this.style.pointerEvents = "none";
@@ -68,6 +74,7 @@ export default class ChromeView extends DocumentView
     {
         super.connected();
         this.toolProvider.ins.visible.on("value", this.onUpdate, this);
+        this.analytics.on("consent", this.onUpdate, this);
         this.activeDocument.setup.language.outs.activeLanguage.on("value", this.onUpdate, this);
         this.activeDocument.setup.audio.outs.isPlaying.on("value", this.onUpdate, this);
         this.activeDocument.setup.audio.outs.narrationPlaying.on("value", this.onUpdate, this);
@@ -83,6 +90,7 @@ export default class ChromeView extends DocumentView
         this.activeDocument.setup.audio.outs.narrationPlaying.off("value", this.onUpdate, this);
         this.activeDocument.setup.audio.outs.isPlaying.off("value", this.onUpdate, this);
         this.activeDocument.setup.language.outs.activeLanguage.off("value", this.onUpdate, this);
+        this.analytics.off("consent", this.onUpdate, this);
         this.toolProvider.ins.visible.off("value", this.onUpdate, this);
         super.disconnected();
     }
@@ -98,6 +106,9 @@ export default class ChromeView extends DocumentView
 
         const setup = document.setup;
 
+        this.lang = setup.language.outs.activeLanguage.value;
+        this.dir = setup.language.directionString();
+
         const interfaceVisible = setup.interface.ins.visible.value;
         const logoVisible = setup.interface.ins.logo.value && setup.interface.isShowing(EUIElements.logo);
         const menuVisible = setup.interface.ins.menu.value && setup.interface.isShowing(EUIElements.menu);
@@ -140,6 +151,14 @@ export default class ChromeView extends DocumentView
             this.needsSplash = false;
         }
 
+        const analytics = this.analytics;
+        if (analytics.needsConsentPrompt && !this.querySelector("sv-consent-prompt")) {
+            ConsentPrompt.show(this, setup.language).then(granted => {
+                // dismissing the prompt denies consent for this visit only
+                analytics.setConsent(!!granted, granted !== null);
+            });
+        }
+
         if (!interfaceVisible) {
             return html``;
         }
@@ -181,7 +200,7 @@ export default class ChromeView extends DocumentView
                     ${resetVisible ? html`<ff-button icon="undo" id="main-reset" title=${languageManager.getLocalizedString("Reset")} ?selected=${false} @click=${this.resetViewer} class="sv-text-icon"></ff-button>` : ""}
                     ${captionsVisible ? html`<ff-button icon="caption" id="main-caption" title=${languageManager.getLocalizedString("Captions")} ?selected=${captionsEnabled} @click=${this.updateCaptions} class="sv-text-icon"></ff-button>` : ""}
                     ${languagesVisible ? html`<ff-button id="language" style=${setup.language.codeString().length > 2 ? "font-size:0.9em"
-                         : ""} text=${setup.language.codeString()} title=${languageManager.getLocalizedString("Set Language")} @click=${this.openLanguageMenu} class="sv-text-icon"></ff-button>` : null}
+                         : ""} text=${setup.language.codeString().toUpperCase()} title=${languageManager.getLocalizedString("Set Language")} @click=${this.openLanguageMenu} class="sv-text-icon"></ff-button>` : null}
                     ${helpVisible ? html`<ff-button icon="help" id="main-help" title=${languageManager.getLocalizedString("Help")} ?selected=${false} @click=${this.openHelp} class="sv-text-icon"></ff-button>` : ""}
                 </div>
             </div>`;
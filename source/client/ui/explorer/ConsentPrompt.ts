@@ -0,0 +1,89 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Popup, { customElement, html } from "@ff/ui/Popup";
+
+import "@ff/ui/Button";
+import CVLanguageManager from "client/components/CVLanguageManager";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Asks the visitor for consent to collect usage statistics.
+ * Resolves with true if consent is given, false if it is denied and null if the prompt is dismissed.
+ */
+@customElement("sv-consent-prompt")
+export default class ConsentPrompt extends Popup
+{
+    protected language: CVLanguageManager = null;
+    protected granted: boolean = null;
+
+    static show(parent: HTMLElement, language: CVLanguageManager): Promise<boolean>
+    {
+        const prompt = new ConsentPrompt(parent, language);
+        parent.appendChild(prompt);
+
+        return new Promise(resolve => {
+            prompt.on("close", () => resolve(prompt.granted));
+        });
+    }
+
+    constructor(parent: HTMLElement, language: CVLanguageManager)
+    {
+        super();
+
+        this.language = language;
+        this.position = "center";
+        this.portal = parent;
+        this.modal = true;
+    }
+
+    close()
+    {
+        this.dispatchEvent(new CustomEvent("close"));
+        this.remove();
+    }
+
+    protected firstConnected()
+    {
+        super.firstConnected();
+        this.classList.add("sv-consent-prompt");
+        this.setAttribute("role", "dialog");
+    }
+
+    protected render()
+    {
+        const language = this.language;
+
+        return html`
+            <div class="ff-flex-row">
+                <div class="ff-flex-spacer">${language.getLocalizedString("Allow the collection of anonymous usage statistics to help us improve this experience?")}</div>
+                <ff-button icon="close" transparent class="ff-close-button" title=${language.getLocalizedString("Close")} @click=${this.close}></ff-button>
+            </div>
+            <div class="ff-flex-row sv-centered">
+                <ff-button class="ff-button ff-control" text=${language.getLocalizedString("Accept")} @click=${() => this.onChoice(true)}></ff-button>
+                <ff-button class="ff-button ff-control" text=${language.getLocalizedString("Decline")} @click=${() => this.onChoice(false)}></ff-button>
+            </div>
+        `;
+    }
+
+    protected onChoice(granted: boolean)
+    {
+        this.granted = granted;
+        this.close();
+    }
+}
@@ -119,6 +119,13 @@ export default class ContentView extends DocumentView
         const tours = this.tours;
         const navigation = this.navigation;
 
+        // text direction and language of the content, e.g. for right-to-left languages
+        if (this.activeDocument) {
+            const language = this.activeDocument.setup.language;
+            this.lang = language.outs.activeLanguage.value;
+            this.dir = language.directionString();
+        }
+
         // TODO - Hack, figure out a better place for this.
         const overlayElement = this.arManager.shadowRoot.querySelector('ff-viewport-overlay');
         if(overlayElement) {
@@ -218,7 +225,8 @@ export default class ContentView extends DocumentView
                 next.setup.reader.ins.position,
                 next.setup.reader.ins.enabled,
                 next.setup.tours.outs.tourIndex,
-                next.setup.navigation.ins.isInUse
+                next.setup.navigation.ins.isInUse,
+                next.setup.language.outs.activeLanguage
             );
         }
 
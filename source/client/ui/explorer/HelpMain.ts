@@ -135,6 +135,7 @@ export default class HelpMain extends Popup
                                         <div class="sv-help-text">${HelpMain.twoFinger}Two-finger drag</div>
                                         <div class="sr-only"> Or.</div>
                                         <div class="sv-help-text">Shift + ${HelpMain.arrowKeys}Arrow keys</div>
+                                        ${!isOrbit ? html`<div class="sr-only"> Or.</div><div class="sv-help-text">A / D keys</div>` : null}
                                     </div>
                                     <div class="sv-help-section">
                                         <ff-icon class="ff-off" name="zoom"></ff-icon>
@@ -144,6 +145,7 @@ export default class HelpMain extends Popup
                                         <div class="sv-help-text">${HelpMain.pinch}Two-finger pinch</div>
                                         <div class="sr-only"> Or.</div>
                                         <div class="sv-help-text">${isOrbit ? 'Ctrl + ' : ''}${isOrbit ? HelpMain.arrowKeys : HelpMain.arrowKeysUD}Arrow keys</div>
+                                        ${!isOrbit ? html`<div class="sr-only"> Or.</div><div class="sv-help-text">W / S keys</div>` : null}
                                     </div>
                                     <div id="sr-trigger" class="sr-only"></div>
                                 </div>`;
@@ -24,6 +24,7 @@ import CVDocument from "../../components/CVDocument";
 import CVARManager from "../../components/CVARManager";
 import CVScene from "../../components/CVScene";
 import CVModel2 from "../../components/CVModel2";
+import CVViewState from "../../components/CVViewState";
 import { EDerivativeQuality } from "../../schema/model";
 
 import DocumentView, { customElement, html } from "./DocumentView";
@@ -53,6 +54,9 @@ export default class MainMenu extends DocumentView
     protected get arManager() {
         return this.system.getMainComponent(CVARManager);
     }
+    protected get viewState() {
+        return this.system.getMainComponent(CVViewState);
+    }
     protected get sceneNode() {
         return this.system.getComponent(CVScene);
     }
@@ -215,7 +219,8 @@ export default class MainMenu extends DocumentView
             this.requestUpdate();
 
             const container = this.closest("sv-chrome-view") as HTMLElement;
-            ShareMenu.show(container, this.activeDocument.setup.language).then(() => {
+            const viewHash = this.viewState.getHash();
+            ShareMenu.show(container, this.activeDocument.setup.language, viewHash).then(() => {
                 this.shareButtonSelected = false;
                 this.requestUpdate();
                 this.setElementFocus("share-btn");
@@ -127,7 +127,13 @@ export default class MainView extends CustomElement
                 controls: this.getAttribute("controls"),
                 prompt: this.getAttribute("prompt"),
                 reader: this.getAttribute("reader"),
-                lang: this.getAttribute("lang")
+                lang: this.getAttribute("lang"),
+                messageOrigins: this.getAttribute("messageOrigins"),
+                viewState: this.getAttribute("viewState"),
+                analytics: this.getAttribute("analytics"),
+                analyticsConsent: this.getAttribute("analyticsConsent"),
+                offline: this.getAttribute("offline"),
+                offlineWorker: this.getAttribute("offlineWorker")
             };
 
             this.application = new ExplorerApplication(null, props);
@@ -345,7 +351,7 @@ export default class MainView extends CustomElement
     setActiveAnnotation(id: string)
     {
         if(this.application) {
-            this.viewer.ins.activeAnnotation.setValue(id);
+            this.application.setActiveAnnotation(id);
         }
     }
 
@@ -402,7 +408,7 @@ export default class MainView extends CustomElement
     getTags()
     {
         if(this.application) {
-            return this.viewer.outs.tagCloud.value;
+            return this.application.getTags();
         }
     }
 
@@ -410,8 +416,7 @@ export default class MainView extends CustomElement
     setActiveTags(tags: string)
     {
         if(this.application) {
-            const viewerActiveTags = this.viewer.ins.activeTags;
-            viewerActiveTags.setValue(tags);
+            this.application.setActiveTags(tags);
         }
     }
 }
@@ -22,7 +22,6 @@ import "@ff/ui/TextEdit";
 import TextEdit from "@ff/ui/TextEdit";
 import CVLanguageManager from "client/components/CVLanguageManager";
 import {getFocusableElements, focusTrap} from "../../utils/focusHelpers";
-import { DEFAULT_LANGUAGE, ELanguageType } from "client/schema/common";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -31,12 +30,13 @@ export default class ShareMenu extends Popup
 {
     protected name: string;
     protected url: string;
+    protected viewUrl: string;
     protected language: CVLanguageManager = null;
     protected needsFocus: boolean = false;
 
-    static show(parent: HTMLElement, language: CVLanguageManager): Promise<void>
+    static show(parent: HTMLElement, language: CVLanguageManager, viewHash?: string): Promise<void>
     {
-        const menu = new ShareMenu(parent, language);
+        const menu = new ShareMenu(parent, language, viewHash);
         parent.appendChild(menu);
 
         return new Promise((resolve, reject) => {
@@ -44,7 +44,7 @@ export default class ShareMenu extends Popup
         });
     }
 
-    constructor( parent: HTMLElement, language: CVLanguageManager )
+    constructor( parent: HTMLElement, language: CVLanguageManager, viewHash?: string )
     {
         super();
 
@@ -54,8 +54,10 @@ export default class ShareMenu extends Popup
         this.modal = true;
         let match = /\/scenes\/([^/]+).*?/.exec(window.location.href); 
         let u = new URL((match?`/ui/scenes/${match[1]}/view`:""), window.location.href);
-        u.searchParams.set("lang", ELanguageType[language.ins.activeLanguage.value]);
+        u.searchParams.set("lang", language.ins.activeLanguage.value);
         this.url = u.toString();
+        u.hash = viewHash || "";
+        this.viewUrl = u.toString();
         this.name = match?.[1];
     }
 
@@ -103,7 +105,12 @@ export default class ShareMenu extends Popup
             <div class="ff-title" id="embedTitle">${language.getLocalizedString("Embed Link")}</div>
             <div class="ff-flex-row sv-embed-link">
                 <ff-text-edit readonly aria-labelledby="embedTitle" text=${iFrameEmbedCode}></ff-text-edit>
-                <ff-button icon="copy" title=${language.getLocalizedString("Copy link to Clipboard")} @click=${this.onClickCopy}></ff-button>
+                <ff-button icon="copy" title=${language.getLocalizedString("Copy link to Clipboard")} @click=${() => this.onClickCopy("sv-embed-link")}></ff-button>
+            </div>
+            <div class="ff-title" id="viewLinkTitle">${language.getLocalizedString("Link to this View")}</div>
+            <div class="ff-flex-row sv-view-link">
+                <ff-text-edit readonly aria-labelledby="viewLinkTitle" text=${this.viewUrl}></ff-text-edit>
+                <ff-button icon="copy" title=${language.getLocalizedString("Copy link to this View")} @click=${() => this.onClickCopy("sv-view-link")}></ff-button>
             </div>
         </div>
         `;
@@ -119,9 +126,10 @@ export default class ShareMenu extends Popup
         }
     }
 
-    protected onClickCopy()
+    protected onClickCopy(rowClass: string)
     {
-        const textArea = this.getElementsByTagName("ff-text-edit").item(0) as TextEdit;
+        const row = this.getElementsByClassName(rowClass).item(0);
+        const textArea = row.getElementsByTagName("ff-text-edit").item(0) as TextEdit;
         textArea.select();
         document.execCommand("copy");
     }
@@ -19,7 +19,7 @@ import CustomElement, { customElement, property, html } from "@ff/ui/CustomEleme
 import "@ff/ui/Button";
 
 import { ITour } from "client/schema/setup";
-import { ELanguageType } from "client/schema/common";
+import { TLanguageType } from "client/schema/common";
 import {getFocusableElements, focusTrap} from "../../utils/focusHelpers"
 import { unsafeHTML } from "lit-html/directives/unsafe-html";
 
@@ -39,7 +39,7 @@ export default class TourMenu extends CustomElement
     tours: ITour[];
 
     @property({ attribute: false })
-    activeLanguage: ELanguageType;
+    activeLanguage: TLanguageType;
 
     protected needsFocus: boolean = false;
     protected focusableElements: HTMLElement[] = [];
@@ -55,10 +55,10 @@ export default class TourMenu extends CustomElement
     {
         return html`<div role="option" title="tour entry" tabindex=${index === 0 ? "0" : "-1"} @keydown=${e =>this.onKeyDown(e, index)} class="sv-entry" @click=${e => this.onClickTour(e, index)}>
             <div class="sv-titlebar">              
-                <h1>${unsafeHTML( Object.keys(tour.titles).length > 0 ? tour.titles[ELanguageType[this.activeLanguage]] || "Missing content" : tour.title )}</h1>
+                <h1>${unsafeHTML( Object.keys(tour.titles).length > 0 ? tour.titles[this.activeLanguage] || "Missing content" : tour.title )}</h1>
                 <ff-icon class="ff-off" name="triangle-right">
             </div>
-            <p>${unsafeHTML( (Object.keys(tour.leads).length > 0 && (Object.values(tour.leads).find((lead)=> lead)))? (tour.leads[ELanguageType[this.activeLanguage]] || "Missing content"): tour.lead )}</p>
+            <p>${unsafeHTML( (Object.keys(tour.leads).length > 0 && (Object.values(tour.leads).find((lead)=> lead)))? (tour.leads[this.activeLanguage] || "Missing content"): tour.lead )}</p>
         </div>`;
     }
 
@@ -0,0 +1,63 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {live} from "lit-html/directives/live";
+
+import { customElement, html } from "@ff/ui/CustomElement";
+
+import { getLanguageInfo, languageRegistry } from "client/utils/languages";
+
+import PropertyBase from "./PropertyBase";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Dropdown for string properties holding a BCP-47 language tag. Lists the languages
+ * of the [[languageRegistry]], and the current value if it isn't part of the registry.
+ */
+@customElement("sv-property-language")
+export default class PropertyLanguage extends PropertyBase
+{
+    type = "string";
+
+    protected firstConnected()
+    {
+        super.firstConnected();
+        this.classList.add("sv-property-language");
+    }
+
+    protected render()
+    {
+        const property = this.property;
+        const name = this.name || property.name;
+        const value = property.value;
+
+        const languages = languageRegistry.slice();
+        if (value && !languages.some(language => language.code === value)) {
+            languages.push(getLanguageInfo(value));
+        }
+
+        return html`
+            <label class="ff-label ff-off">${name}</label>
+            <select ?disabled=${this.ariaDisabled === "true"} .value=${live(value)} class="sv-property-field" @change=${(e)=>{
+                this.property.setValue(e.target.value)
+            }}>
+                ${languages.map(language => html`<option value=${language.code} ?selected=${language.code === value}>${language.name}</option>`)}
+            </select>
+        `;
+    }
+}
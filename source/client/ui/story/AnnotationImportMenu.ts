@@ -0,0 +1,150 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Popup, { customElement, html } from "@ff/ui/Popup";
+
+import "@ff/ui/Button";
+
+import CVLanguageManager from "client/components/CVLanguageManager";
+import { EAnnotationConflict } from "client/components/CVAnnotationsTask";
+import { IAnnotation } from "client/schema/model";
+import { IAnnotationImportResult } from "client/io/AnnotationInterchange";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Previews annotations read from a file before they are merged into the active model's annotations.
+ * Lists the annotations, marks the ones with an id already in use and lets the user choose how to resolve conflicts.
+ */
+@customElement("sv-annotation-import-menu")
+export default class AnnotationImportMenu extends Popup
+{
+    protected language: CVLanguageManager = null;
+    protected filename: string = "";
+    protected result: IAnnotationImportResult = null;
+    protected conflicts: string[] = [];
+    protected conflictSelection: EAnnotationConflict = EAnnotationConflict.Rename;
+
+    static show(parent: HTMLElement, language: CVLanguageManager, filename: string, result: IAnnotationImportResult, conflicts: string[]): Promise<EAnnotationConflict>
+    {
+        const menu = new AnnotationImportMenu(language, filename, result, conflicts);
+        parent.appendChild(menu);
+
+        return new Promise((resolve, reject) => {
+            menu.on("confirm", () => resolve(menu.conflictSelection));
+            menu.on("close", () => reject());
+        });
+    }
+
+    constructor(language: CVLanguageManager, filename: string, result: IAnnotationImportResult, conflicts: string[])
+    {
+        super();
+
+        this.language = language;
+        this.filename = filename;
+        this.result = result;
+        this.conflicts = conflicts;
+        this.position = "center";
+        this.modal = true;
+    }
+
+    close()
+    {
+        this.dispatchEvent(new CustomEvent("close"));
+        this.remove();
+    }
+
+    confirm()
+    {
+        this.dispatchEvent(new CustomEvent("confirm"));
+        this.remove();
+    }
+
+    protected firstConnected()
+    {
+        super.firstConnected();
+        this.classList.add("sv-option-menu", "sv-import-menu", "sv-annotation-import-menu");
+    }
+
+    protected renderAnnotationEntry(annotation: IAnnotation)
+    {
+        const language = this.language;
+        const activeLanguage = language.ins.activeLanguage.value;
+        const titles = annotation.titles || {};
+        const title = titles[activeLanguage] || titles[Object.keys(titles)[0]] || annotation.title || annotation.id;
+        const isConflict = this.conflicts.indexOf(annotation.id) >= 0;
+
+        return html`<div class="sv-entry ff-flex-row">
+            <div class="ff-flex-spacer ff-ellipsis" title=${annotation.id}>${title}</div>
+            ${isConflict ? html`<div class="sv-import-error-msg">${language.getUILocalizedString("Existing id")}</div>` : null}
+        </div>`;
+    }
+
+    protected renderConflictEntry(conflict: EAnnotationConflict, text: string)
+    {
+        return html`<div class="sv-entry" @click=${e => this.onClickConflict(e, conflict)} ?selected=${ conflict === this.conflictSelection }>
+            ${this.language.getUILocalizedString(text)}
+        </div>`;
+    }
+
+    protected render()
+    {
+        const language = this.language;
+        const annotations = this.result.annotations;
+        const skipped = this.result.skipped;
+
+        return html`
+        <div>
+            <div class="ff-flex-column ff-fullsize">
+                <div class="ff-flex-row">
+                    <div class="ff-flex-spacer ff-title">${language.getUILocalizedString("File:")} <i>${this.filename}</i></div>
+                    <ff-button icon="close" transparent class="ff-close-button" title=${language.getUILocalizedString("Close")} @click=${this.close}></ff-button>
+                </div>
+                <div class="ff-flex-row">
+                    <div class="ff-flex-spacer ff-header">${language.getUILocalizedString("Annotations")}: ${annotations.length}</div>
+                </div>
+                <div class="ff-splitter-section" style="flex-basis: 70%">
+                    ${annotations.length > 0 ? html`<div class="ff-scroll-y">
+                        ${annotations.map(annotation => this.renderAnnotationEntry(annotation))}
+                    </div>` : html`<div class="ff-flex-row sv-centered sv-notification" style="height:100%; align-items:center">${language.getUILocalizedString("No annotations found")}</div>`}
+                </div>
+                ${skipped > 0 ? html`<div class="ff-flex-row sv-notification">${language.getUILocalizedString("Skipped entries without 3D position")}: ${skipped}</div>` : null}
+                ${this.conflicts.length > 0 ? html`
+                <div class="ff-flex-row">
+                    <div class="ff-flex-spacer ff-header">${language.getUILocalizedString("Existing ids")}: ${this.conflicts.length}</div>
+                </div>
+                <div>
+                    ${this.renderConflictEntry(EAnnotationConflict.Rename, "Keep both")}
+                    ${this.renderConflictEntry(EAnnotationConflict.Replace, "Replace existing")}
+                    ${this.renderConflictEntry(EAnnotationConflict.Skip, "Skip")}
+                </div>` : null}
+                <div class="ff-flex-row sv-centered">
+                    <ff-button icon="upload" class="ff-button ff-control" text=${language.getUILocalizedString("Import Annotations")} ?disabled=${annotations.length === 0} @click=${this.confirm}></ff-button>
+                </div>
+            </div>
+        </div>
+        `;
+    }
+
+    protected onClickConflict(e: MouseEvent, conflict: EAnnotationConflict)
+    {
+        e.stopPropagation();
+
+        this.conflictSelection = conflict;
+        this.requestUpdate();
+    }
+}
@@ -19,7 +19,7 @@ import { customElement, property, html } from "@ff/ui/CustomElement";
 import List from "@ff/ui/List";
 
 import Annotation from "../../models/Annotation";
-import { DEFAULT_LANGUAGE, ELanguageType } from "client/schema/common";
+import { DEFAULT_LANGUAGE, TLanguageType } from "client/schema/common";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -37,11 +37,11 @@ class AnnotationList extends List<Annotation>
     @property({ attribute: false })
     selectedItem: Annotation = null;
 
-    @property({type: ELanguageType})
-    activeLanguage: ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    @property({type: String})
+    activeLanguage: TLanguageType = DEFAULT_LANGUAGE;
 
-    @property({type: ELanguageType})
-    primarySceneLanguage: ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    @property({type: String})
+    primarySceneLanguage: TLanguageType = DEFAULT_LANGUAGE;
 
     protected firstConnected()
     {
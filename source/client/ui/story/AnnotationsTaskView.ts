@@ -28,14 +28,15 @@ import Notification from "@ff/ui/Notification";
 
 import "./AnnotationList";
 import { ISelectAnnotationEvent } from "./AnnotationList";
+import AnnotationImportMenu from "./AnnotationImportMenu";
 
 import CVAnnotationView from "../../components/CVAnnotationView";
 import CVAnnotationsTask, { EAnnotationsTaskMode } from "../../components/CVAnnotationsTask";
 import { TaskView } from "../../components/CVTask";
-import { ELanguageStringType, ELanguageType } from "client/schema/common";
 
 import sanitizeHtml from 'sanitize-html';
 import CVMediaManager from "client/components/CVMediaManager";
+import { parseAnnotations } from "client/io/AnnotationInterchange";
 
 ////////////////////////////////////////////////////////////////////////////////
 export const MAX_LEAD_CHARS = 200;
@@ -83,8 +84,8 @@ export default class AnnotationsTaskView extends TaskView<CVAnnotationsTask>
         const node = this.activeNode;
         const annotations = node && node.getComponent(CVAnnotationView, true);
         const languageManager = this.activeDocument.setup.language;
-        const primarySceneLanguage = ELanguageType[languageManager.ins.primarySceneLanguage.value];
-        const activeLanguage = ELanguageType[languageManager.ins.activeLanguage.value];
+        const primarySceneLanguage = languageManager.ins.primarySceneLanguage.value;
+        const activeLanguage = languageManager.ins.activeLanguage.value;
 
         if (!annotations) {
             // set cursor to grab
@@ -149,6 +150,11 @@ export default class AnnotationsTaskView extends TaskView<CVAnnotationsTask>
             <ff-button text="${languageManager.getUILocalizedString("Create")}" icon="create" index=${EAnnotationsTaskMode.Create} selectedIndex=${modeProp.value} @click=${this.onClickMode}></ff-button>       
             <ff-button text="${languageManager.getUILocalizedString("Delete")}" icon="trash" ?disabled=${!annotation} @click=${this.onClickDelete}></ff-button>  
         </div>
+        <div class="sv-commands">
+            <ff-button text="${languageManager.getUILocalizedString("Import")}" icon="upload" @click=${this.onClickImport}></ff-button>
+            <ff-button text="${languageManager.getUILocalizedString("Export")}" icon="download" ?disabled=${annotationList.length === 0} @click=${this.onClickExport}></ff-button>
+        </div>
+        <sv-property-view .property=${this.task.ins.exportFormat}></sv-property-view>
         <div class="ff-flex-item-stretch">
             <div class="ff-flex-column ff-fullsize">
                 <div class="ff-flex-row ff-group"><div class="sv-panel-header sv-task-item">${languageManager.getUILocalizedString("Default:") + " " + primarySceneLanguage}</div><div class="sv-panel-header sv-task-item sv-item-border-l">${languageManager.getUILocalizedString("Active:") + " " + activeLanguage}</div></div>
@@ -204,6 +210,52 @@ export default class AnnotationsTaskView extends TaskView<CVAnnotationsTask>
         this.task.removeAnnotation();
     }
 
+    /**
+     * User clicked the import button. Reads annotations from a file and shows a preview before merging.
+     */
+    protected onClickImport()
+    {
+        const mainView = document.getElementsByTagName("voyager-story")[0] as HTMLElement;
+        const languageManager = this.activeDocument.setup.language;
+
+        const input = document.createElement("input");
+        input.setAttribute("type", "file");
+        input.setAttribute("accept", ".json,.jsonld,.csv");
+        input.onchange = () => {
+            const file = input.files[0];
+            if (!file) {
+                return;
+            }
+
+            file.text()
+            .then(text => {
+                const result = parseAnnotations(text, file.name, languageManager.ins.primarySceneLanguage.value);
+                const conflicts = this.task.findConflicts(result.annotations);
+
+                return AnnotationImportMenu.show(mainView, languageManager, file.name, result, conflicts)
+                .then(conflict => {
+                    const count = this.task.importAnnotations(result.annotations, conflict);
+                    Notification.show(`Imported ${count} annotations.`, "info");
+                });
+            })
+            .catch(error => {
+                // closing the preview rejects without error
+                if (error) {
+                    Notification.show(`Failed to import annotations: ${error.message}`, "error");
+                }
+            });
+        };
+        input.click();
+    }
+
+    /**
+     * User clicked the export button.
+     */
+    protected onClickExport()
+    {
+        this.task.exportAnnotations();
+    }
+
     /**
      * User clicked the save view button.
      */
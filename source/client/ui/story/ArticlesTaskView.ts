@@ -26,7 +26,7 @@ import Article from "../../models/Article";
 
 import CVArticlesTask from "../../components/CVArticlesTask";
 import { TaskView } from "../../components/CVTask";
-import { DEFAULT_LANGUAGE, ELanguageType } from "client/schema/common";
+import { DEFAULT_LANGUAGE, TLanguageType } from "client/schema/common";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -57,8 +57,8 @@ export default class ArticlesTaskView extends TaskView<CVArticlesTask>
         const articles = task.articles;
         const activeArticle = task.activeArticle;
         const languageManager = this.activeDocument.setup.language;
-        const activeLanguage = ELanguageType[languageManager.ins.activeLanguage.value];
-        const primarySceneLanguage = ELanguageType[languageManager.ins.primarySceneLanguage.value];
+        const activeLanguage = languageManager.ins.activeLanguage.value;
+        const primarySceneLanguage = languageManager.ins.primarySceneLanguage.value;
 
         if (!articles) {
             return html`<div class="sv-placeholder">${languageManager.getUILocalizedString("Please select a scene or model node to edit its articles.")}</div>`;
@@ -194,11 +194,11 @@ export class ArticleList extends List<Article>
     @property({ attribute: false })
     selectedItem: Article = null;
 
-    @property({type: ELanguageType})
-    activeLanguage: ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    @property({type: String})
+    activeLanguage: TLanguageType = DEFAULT_LANGUAGE;
     
-    @property({type: ELanguageType})
-    primarySceneLanguage: ELanguageType = ELanguageType[DEFAULT_LANGUAGE];
+    @property({type: String})
+    primarySceneLanguage: TLanguageType = DEFAULT_LANGUAGE;
     
     protected firstConnected()
     {
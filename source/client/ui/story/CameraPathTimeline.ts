@@ -0,0 +1,153 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import math from "@ff/core/math";
+
+import CustomElement, { customElement, property, html } from "@ff/ui/CustomElement";
+import DragHelper, { IDragTarget } from "@ff/ui/DragHelper";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export interface ICameraPathTimelineEvent extends CustomEvent
+{
+    type: "select" | "seek" | "move";
+    target: CameraPathTimeline;
+    detail: {
+        /** Index of the key, -1 for "seek" events. */
+        index: number;
+        /** Time in seconds. */
+        time: number;
+    }
+}
+
+/**
+ * Timeline of a camera path, from the start to the end of a tour step transition.
+ * Clicking or dragging on the track emits "seek" events, clicking on a key emits a "select" event,
+ * dragging a key emits a "move" event when the key is dropped.
+ */
+@customElement("sv-camera-path-timeline")
+export default class CameraPathTimeline extends CustomElement implements IDragTarget
+{
+    /** Duration of the transition in seconds. */
+    @property({ type: Number })
+    duration = 1;
+
+    /** Times of the path keys. */
+    @property({ attribute: false })
+    keys: number[] = [];
+
+    @property({ type: Number })
+    selectedIndex = -1;
+
+    /** Time of the cursor. */
+    @property({ type: Number })
+    time = 0;
+
+    private _dragIndex = -1;
+    private _dragTime = 0;
+
+    constructor()
+    {
+        super();
+        new DragHelper(this);
+    }
+
+    dragStart(event: PointerEvent)
+    {
+        const target = event.target as HTMLElement;
+        this._dragIndex = target.classList.contains("sv-key") ? parseInt(target.getAttribute("data-index")) : -1;
+
+        if (this._dragIndex >= 0) {
+            this._dragTime = this.keys[this._dragIndex];
+            this.emit("select", this._dragIndex, this._dragTime);
+        }
+        else {
+            this.dragMove(event);
+        }
+    }
+
+    dragMove(event: PointerEvent)
+    {
+        const time = this.getTime(event.clientX);
+
+        if (this._dragIndex >= 0) {
+            this._dragTime = time;
+            this.requestUpdate();
+        }
+        else if (time !== this.time) {
+            this.emit("seek", -1, time);
+        }
+    }
+
+    dragEnd(event: PointerEvent)
+    {
+        const index = this._dragIndex;
+        this._dragIndex = -1;
+
+        if (index >= 0 && this._dragTime !== this.keys[index]) {
+            this.emit("move", index, this._dragTime);
+        }
+    }
+
+    protected firstConnected()
+    {
+        this.setStyle({
+            position: "relative",
+            touchAction: "none"
+        });
+
+        this.setAttribute("touch-action", "none");
+        this.classList.add("sv-camera-path-timeline");
+    }
+
+    protected render()
+    {
+        const duration = this.duration;
+
+        const keys = this.keys.map((time, index) => {
+            const isDragging = index === this._dragIndex;
+            const keyTime = isDragging ? this._dragTime : time;
+            const classes = "sv-key" + (index === this.selectedIndex ? " sv-selected" : "")
+                + (keyTime <= 0 || keyTime >= duration ? " sv-inactive" : "");
+
+            return html`<div class=${classes} data-index=${index} style="left: ${this.getPosition(keyTime)}"></div>`;
+        });
+
+        return html`<div class="sv-track"></div>
+            ${keys}
+            <div class="sv-cursor" style="left: ${this.getPosition(this.time)}"></div>
+            <div class="sv-time">${this.time.toFixed(2)}s / ${duration.toFixed(2)}s</div>`;
+    }
+
+    protected getPosition(time: number)
+    {
+        const position = this.duration > 0 ? math.limit(time / this.duration, 0, 1) : 0;
+        return `${(position * 100).toFixed(3)}%`;
+    }
+
+    protected getTime(clientX: number)
+    {
+        const rect = this.getBoundingClientRect();
+        const position = rect.width > 0 ? math.limit((clientX - rect.left) / rect.width, 0, 1) : 0;
+        return Math.round(position * this.duration * 100) / 100;
+    }
+
+    protected emit(type: ICameraPathTimelineEvent["type"], index: number, time: number)
+    {
+        this.dispatchEvent(new CustomEvent(type, { detail: { index, time } }));
+    }
+}
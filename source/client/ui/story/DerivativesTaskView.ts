@@ -25,6 +25,7 @@ import { EDerivativeUsage } from "client/schema/model";
 import CVDerivativesTask from "../../components/CVDerivativesTask";
 import { TaskView } from "../../components/CVTask";
 
+import "./PropertyView";
 import "./DerivativeList";
 import { ISelectDerivativeEvent } from "./DerivativeList";
 import NVNode from "client/nodes/NVNode";
@@ -34,6 +35,22 @@ import NVNode from "client/nodes/NVNode";
 @customElement("sv-derivatives-task-view")
 export default class DerivativesTaskView extends TaskView<CVDerivativesTask>
 {
+    protected connected()
+    {
+        super.connected();
+        this.task.outs.busy.on("value", this.onUpdate, this);
+        this.task.outs.step.on("value", this.onUpdate, this);
+        this.task.outs.textureCompressionAvailable.on("value", this.onUpdate, this);
+    }
+
+    protected disconnected()
+    {
+        this.task.outs.busy.off("value", this.onUpdate, this);
+        this.task.outs.step.off("value", this.onUpdate, this);
+        this.task.outs.textureCompressionAvailable.off("value", this.onUpdate, this);
+        super.disconnected();
+    }
+
     protected render()
     {
         if(!this.activeDocument) {
@@ -56,7 +73,21 @@ export default class DerivativesTaskView extends TaskView<CVDerivativesTask>
         const loadedQuality = model.outs.quality.value;
         const loadedDerivative = model.derivatives.get(EDerivativeUsage.Web3D, loadedQuality);
 
-        const detailView = activeDerivative ? html`` : null;
+        const ins = this.task.ins;
+        const busy = this.task.outs.busy.value;
+        const step = busy && this.task.outs.step.value;
+
+        const detailView = html`<div class="ff-flex-item-stretch"><div class="ff-scroll-y ff-flex-column sv-detail-view">
+            <div class="sv-label">${languageManager.getUILocalizedString("Generate Derivative")}</div>
+            <sv-property-view .property=${ins.quality} .label=${languageManager.getUILocalizedString("Quality")}></sv-property-view>
+            <sv-property-view .property=${ins.numFaces} .label=${languageManager.getUILocalizedString("Faces")}></sv-property-view>
+            <sv-property-view .property=${ins.geometryCompression} .label=${languageManager.getUILocalizedString("Geometry Compression")}></sv-property-view>
+            ${this.task.outs.textureCompressionAvailable.value ? html`<sv-property-view .property=${ins.textureCompression} .label=${languageManager.getUILocalizedString("KTX2 Textures")}></sv-property-view>` : null}
+            <div class="sv-commands">
+                <ff-button text="${languageManager.getUILocalizedString("Generate")}" icon="hierarchy" ?disabled=${busy} @click=${this.onClickGenerate}></ff-button>
+            </div>
+            ${step ? html`<div class="sv-label">${languageManager.getUILocalizedString(step)}...</div>` : null}
+        </div></div>`;
 
         return html`<div class="ff-flex-row ff-flex-wrap">
         </div>
@@ -64,6 +95,11 @@ export default class DerivativesTaskView extends TaskView<CVDerivativesTask>
         ${detailView}`
     }
 
+    protected onClickGenerate()
+    {
+        this.task.ins.generate.set();
+    }
+
     protected onSelectDerivative(event: ISelectDerivativeEvent)
     {
         if(event.detail.derivative) {
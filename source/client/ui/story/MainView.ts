@@ -36,6 +36,7 @@ import EditorPanel from "./EditorPanel";
 import TourPanel from "./TourPanel";
 import TaskPanel from "./TaskPanel";
 import NotesPanel from "./NotesPanel";
+import RevisionsPanel from "./RevisionsPanel";
 import ConsolePanel from "./ConsolePanel";
 import InspectorPanel from "./InspectorPanel";
 import AssetPanel from "./AssetPanel";
@@ -80,7 +81,7 @@ interface IUIState
 @customElement("voyager-story")
 export default class MainView extends CustomElement
 {
-    static readonly stateKey: string = "main-view-2";
+    static readonly stateKey: string = "main-view-3";
 
     protected application: StoryApplication;
     protected dockView: DockView;
@@ -142,6 +143,7 @@ export default class MainView extends CustomElement
         registry.set("tour-editor", () => new TourPanel(system));
         registry.set("task", () => new TaskPanel(system));
         registry.set("notes", () => new NotesPanel(system));
+        registry.set("revisions", () => new RevisionsPanel(system));
         registry.set("console", () => new ConsolePanel(system));
         registry.set("navigator", () => new NavigatorPanel(system));
         registry.set("hierarchy", () => new HierarchyTreeView(system));
@@ -270,6 +272,9 @@ export default class MainView extends CustomElement
                 }, {
                     contentId: "notes",
                     text: "Note Editor"
+                }, {
+                    contentId: "revisions",
+                    text: "Revisions"
                 }]
             }]
         }]
@@ -331,6 +336,9 @@ export default class MainView extends CustomElement
                 }, {
                     contentId: "notes",
                     text: "Note Editor"
+                }, {
+                    contentId: "revisions",
+                    text: "Revisions"
                 }, {
                     contentId: "console",
                     text: "Console"
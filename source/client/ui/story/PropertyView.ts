@@ -30,6 +30,7 @@ import "../properties/PropertyString";
 import "../properties/PropertySlider";
 import "../properties/PropertyNumber";
 import "../properties/PropertyOptions";
+import "../properties/PropertyLanguage";
 import "../properties/PropertyEvent";
 
 ////////////////////////////////////////////////////////////////////////////////
@@ -95,6 +96,8 @@ export default class PropertyView extends CustomElement
             return html`<sv-property-options aria-disabled=${disabled} dropdown name=${label} .property=${property}></sv-property-options>`;
         }else if(property.type === "boolean"){
             return html`<sv-property-boolean aria-disabled=${disabled} name=${label} .property=${property}></sv-property-boolean>`;
+        }else if(property.type === "string" && schema.semantic === "language"){
+            return html`<sv-property-language aria-disabled=${disabled} name=${label} .property=${property}></sv-property-language>`
         }else if(property.type === "string"){
             return html`<sv-property-string aria-disabled=${disabled} name=${label} .property=${property}></sv-property-string>`
         }else if(property.type === "number"){
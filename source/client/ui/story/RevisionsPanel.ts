@@ -0,0 +1,282 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import moment from "moment";
+
+import System from "@ff/graph/System";
+
+import "@ff/ui/Table";
+import Table, { ITableColumn, ITableRowClickEvent } from "@ff/ui/Table";
+
+import "@ff/ui/Splitter";
+import "@ff/ui/Button";
+import Notification from "@ff/ui/Notification";
+
+import { IDocument } from "client/schema/document";
+import diffDocuments, { IDocumentDiffEntry } from "client/utils/documentDiff";
+
+import DocumentView, { customElement, html } from "../explorer/DocumentView";
+import CVDocument from "../../components/CVDocument";
+import CVAssetManager from "../../components/CVAssetManager";
+import CVAssetWriter from "../../components/CVAssetWriter";
+import CVStoryApplication from "../../components/CVStoryApplication";
+import CVTaskProvider, { ETaskMode } from "../../components/CVTaskProvider";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Revision of a document, as listed by the development server's /revisions API. */
+interface IRevision
+{
+    id: string;
+    date: string;
+    byteSize: number;
+}
+
+/**
+ * Lists the revisions the server has kept of the active document. Selecting a revision shows
+ * the changes between the revision and the document in its current (possibly unsaved) state.
+ * Restoring a revision saves it as the document, the replaced document is kept as a new revision.
+ */
+@customElement("sv-revisions-panel")
+export default class RevisionsPanel extends DocumentView
+{
+    protected static tableColumns: ITableColumn<IRevision>[] = [
+        { header: "Date", width: 0.7,
+            cell: row => moment(row.date).format("YYYY-MM-DD HH:mm:ss"),
+            sortable: true
+        },
+        { header: "Size", width: 0.3,
+            cell: row => `${(row.byteSize / 1024).toFixed(1)} kB`,
+            sortable: true
+        },
+    ];
+
+    protected revisionTable: Table<IRevision>;
+
+    protected revisions: IRevision[] = null;
+    protected activeRevision: IRevision = null;
+    protected differences: IDocumentDiffEntry[] = null;
+    protected revisionData: IDocument = null;
+    protected errorMessage = "";
+
+    protected get assetManager() {
+        return this.system.getMainComponent(CVAssetManager);
+    }
+    protected get assetWriter() {
+        return this.system.getMainComponent(CVAssetWriter);
+    }
+    protected get story() {
+        return this.system.getMainComponent(CVStoryApplication);
+    }
+    protected get taskProvider() {
+        return this.system.getMainComponent(CVTaskProvider);
+    }
+
+    constructor(system?: System)
+    {
+        super(system);
+
+        this.revisionTable = new Table<IRevision>();
+        this.revisionTable.columns = RevisionsPanel.tableColumns;
+        this.revisionTable.placeholder = "No revisions available.";
+        this.revisionTable.addEventListener("rowclick", this.onClickTableRow.bind(this));
+    }
+
+    protected firstConnected()
+    {
+        this.classList.add("sv-panel", "sv-revisions-panel");
+    }
+
+    protected renderDifferences()
+    {
+        const languageManager = this.activeDocument.setup.language;
+        const differences = this.differences;
+
+        if (!this.activeRevision) {
+            return html`<div class="ff-placeholder">
+                <div>${languageManager.getUILocalizedString("Select a revision to compare it with the current document.")}</div>
+            </div>`;
+        }
+        if (!differences) {
+            return html`<div class="ff-placeholder"><div>${languageManager.getUILocalizedString("Loading...")}</div></div>`;
+        }
+        if (differences.length === 0) {
+            return html`<div class="ff-placeholder">
+                <div>${languageManager.getUILocalizedString("The revision is identical to the current document.")}</div>
+            </div>`;
+        }
+
+        return html`<div class="ff-scroll-y sv-detail-view">
+            <div class="sv-revision-caption">${languageManager.getUILocalizedString("Changes since this revision")}</div>
+            ${differences.map(entry => html`<div class="sv-revision-change sv-${entry.change}">
+                <span class="sv-revision-change-type">${languageManager.getUILocalizedString(entry.change)}</span>
+                <span>${languageManager.getUILocalizedString(entry.category)}</span>
+                <span class="sv-revision-change-name">${entry.name}</span>
+            </div>`)}
+        </div>`;
+    }
+
+    protected render()
+    {
+        if (!this.activeDocument) {
+            return;
+        }
+
+        const languageManager = this.activeDocument.setup.language;
+
+        if (this.taskProvider.ins.mode.getValidatedValue() === ETaskMode.Standalone) {
+            return html`<div class="ff-placeholder">
+                <div>${languageManager.getUILocalizedString("Revision history is not available in standalone mode.")}</div>
+            </div>`;
+        }
+
+        const revisionTable = this.revisionTable;
+        revisionTable.rows = this.revisions || [];
+        revisionTable.selectedRows = this.activeRevision;
+        revisionTable.requestUpdate();
+
+        return html`<div class="sv-panel-header">
+            <ff-button text="${languageManager.getUILocalizedString("Refresh")}" icon="redo" @click=${this.onClickRefresh}></ff-button>
+            <ff-button text="${languageManager.getUILocalizedString("Restore")}" icon="undo" ?disabled=${!this.revisionData} @click=${this.onClickRestore}></ff-button>
+        </div>
+        <div class="ff-flex-item-stretch ff-flex-row">
+            <div class="ff-splitter-section" style="flex-basis: 40%">
+                ${this.errorMessage ? html`<div class="ff-placeholder"><div>${this.errorMessage}</div></div>` :
+                    html`<div class="ff-scroll-y ff-flex-column">${revisionTable}</div>`}
+            </div>
+            <ff-splitter></ff-splitter>
+            <div class="ff-splitter-section" style="flex-basis: 60%">
+                ${this.renderDifferences()}
+            </div>
+        </div>`;
+    }
+
+    protected onActiveDocument(previous: CVDocument, next: CVDocument)
+    {
+        this.revisions = null;
+        this.selectRevision(null);
+
+        if (next) {
+            this.fetchRevisions();
+        }
+    }
+
+    protected onClickRefresh()
+    {
+        this.fetchRevisions();
+
+        if (this.activeRevision) {
+            this.selectRevision(this.activeRevision);
+        }
+    }
+
+    protected onClickTableRow(event: ITableRowClickEvent<IRevision>)
+    {
+        this.selectRevision(event.detail.row);
+    }
+
+    protected onClickRestore()
+    {
+        const document = this.activeDocument;
+        const revision = this.activeRevision;
+
+        const data = this.revisionData;
+
+        if (!document || !data) {
+            return;
+        }
+
+        const assetPath = document.assetPath;
+
+        // saving creates a revision of the replaced document on the server
+        this.assetWriter.putJSON(data, assetPath)
+        .then(() => {
+            this.documentProvider.amendDocument(data, assetPath, false);
+            // the document has been rebuilt, recorded states refer to disposed components
+            this.story.clearHistory();
+
+            new Notification(`Restored revision from ${moment(revision.date).format("YYYY-MM-DD HH:mm:ss")}`, "info", 4000);
+            this.fetchRevisions();
+            this.selectRevision(revision);
+        })
+        .catch(error => new Notification(`Failed to restore revision: ${error.message}`, "error", 8000));
+    }
+
+    protected getRevisionsUrl()
+    {
+        const url = new URL(this.assetManager.getAssetUrl(this.activeDocument.assetPath));
+        return `${url.origin}/revisions${url.pathname}`;
+    }
+
+    protected fetchRevisions()
+    {
+        const languageManager = this.activeDocument.setup.language;
+
+        fetch(this.getRevisionsUrl(), { headers: { "Accept": "application/json" } })
+        .then(res => {
+            if (!res.ok) {
+                throw new Error(res.statusText);
+            }
+            return res.json();
+        })
+        .then(data => {
+            const active = this.activeRevision;
+            this.revisions = data.revisions;
+            // keep the selected revision, the list contains new objects
+            this.activeRevision = active && this.revisions.find(revision => revision.id === active.id) || active;
+            this.errorMessage = "";
+            this.requestUpdate();
+        })
+        .catch(error => {
+            console.warn(`failed to fetch document revisions: ${error.message}`);
+            this.revisions = null;
+            this.errorMessage = languageManager.getUILocalizedString("Revision history is not available for this document.");
+            this.requestUpdate();
+        });
+    }
+
+    protected selectRevision(revision: IRevision)
+    {
+        this.activeRevision = revision;
+        this.revisionData = null;
+        this.differences = null;
+        this.requestUpdate();
+
+        if (!revision) {
+            return;
+        }
+
+        fetch(`${this.getRevisionsUrl()}?id=${encodeURIComponent(revision.id)}`)
+        .then(res => {
+            if (!res.ok) {
+                throw new Error(res.statusText);
+            }
+            return res.json();
+        })
+        .then((data: IDocument) => {
+            // the selection may have changed in the meantime
+            if (this.activeRevision && revision.id === this.activeRevision.id && this.activeDocument) {
+                this.revisionData = data;
+                this.differences = diffDocuments(data, this.activeDocument.deflateDocument());
+                this.requestUpdate();
+            }
+        })
+        .catch(error => {
+            Notification.show(`Failed to load revision: ${error.message}`, "error");
+        });
+    }
+}
@@ -25,6 +25,7 @@ import { customElement, html, property } from "@ff/ui/CustomElement";
 import Tree from "@ff/ui/Tree";
 
 import CVSettingsTask from "../../components/CVSettingsTask";
+import CVSetup from "../../components/CVSetup";
 import { TaskView } from "../../components/CVTask";
 import NVNode from "../../nodes/NVNode";
 
@@ -64,6 +65,8 @@ interface ITreeNode
     text: string;
     classes: string;
     property?: Property;
+    /** Settings element of a plugin feature. */
+    element?: HTMLElement;
 }
 
 @customElement("sv-settings-tree")
@@ -94,6 +97,9 @@ export class SettingsTree extends Tree<ITreeNode>
 
     protected renderNodeHeader(node: ITreeNode)
     {
+        if (node.element) {
+            return html`${node.element}`;
+        }
         if (!node.property) {
             return html`<div class="ff-text ff-label ff-ellipsis">${node.text}</div>`;
         }
@@ -107,19 +113,34 @@ export class SettingsTree extends Tree<ITreeNode>
 
     protected createNodeTreeNode(node: Node): ITreeNode
     {
-        const components = node.components.getArray().filter(component => component["settingProperties"] && !component.tags.has("no_settings"));
+        const features = CVSetup.getPluginFeatures().filter(feature => !!feature.settingsElement);
+        const getFeature = (component: Component) => features.find(feature => component instanceof feature.type);
+
+        const components = node.components.getArray().filter(component =>
+            (component["settingProperties"] || getFeature(component)) && !component.tags.has("no_settings"));
 
         return {
             id: node.id,
             text: node.displayName,
             classes: "ff-node",
-            children: components.map(component => ({
-                id: component.id,
-                text: component.displayName,
-                classes: "ff-component",
-                property: null,
-                children: this.createPropertyNodes(component["settingProperties"]),
-            })),
+            children: components.map(component => {
+                const children = this.createPropertyNodes(component["settingProperties"] || []);
+
+                const feature = getFeature(component);
+                if (feature) {
+                    const element = document.createElement(feature.settingsElement);
+                    element["component"] = component;
+                    children.push({ id: component.id + "-settings", text: "", classes: "sv-feature-settings", children: [], element });
+                }
+
+                return {
+                    id: component.id,
+                    text: component.displayName,
+                    classes: "ff-component",
+                    property: null,
+                    children,
+                };
+            }),
         };
     }
 
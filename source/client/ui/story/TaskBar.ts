@@ -64,6 +64,7 @@ export default class TaskBar extends SystemView
     {
         this.taskProvider.on<ITaskSetEvent>("scoped-components", this.onUpdate, this);
         this.taskProvider.on<IActiveTaskEvent>("active-component", this.onUpdate, this);
+        this.story.commander.on("update", this.onUpdate, this);
         this.language.outs.uiLanguage.on("value", this.onUpdate, this);
     }
 
@@ -71,6 +72,7 @@ export default class TaskBar extends SystemView
     {
         this.taskProvider.off<ITaskSetEvent>("scoped-components", this.onUpdate, this);
         this.taskProvider.off<IActiveTaskEvent>("active-component", this.onUpdate, this);
+        this.story.commander.off("update", this.onUpdate, this);
         this.language.outs.uiLanguage.on("value", this.onUpdate, this);
     }
 
@@ -84,6 +86,8 @@ export default class TaskBar extends SystemView
         const exitButtonVisible = taskMode !== ETaskMode.Standalone;
         const languageManager = this.language;
         const saveName = languageManager.getUILocalizedString(taskMode !== ETaskMode.Standalone ? "Save" : "Download");
+        const commander = this.story.commander;
+        const historyIndex = commander.getPointer();
         return html`
             <img class="sv-story-logo" src=${this.assetReader.getSystemAssetUrl("images/voyager-75grey.svg")} alt="Logo"/>
             <div class="sv-mode ff-text">${taskModeText}</div>
@@ -95,9 +99,19 @@ export default class TaskBar extends SystemView
             <div class="sv-divider"></div>
             <div class="sv-spacer"></div>
             <div class="sv-divider"></div>
+            <div class="ff-flex-row ff-group sv-history">
+                <ff-button icon="undo" title=${commander.getUndoText()} ?disabled=${!commander.canUndo()} @click=${this.onClickUndo}></ff-button>
+                <select class="ff-input" title=${languageManager.getUILocalizedString("History")} @change=${this.onChangeHistory}>
+                    <option value="-1" ?selected=${historyIndex === -1}>${languageManager.getUILocalizedString("No changes")}</option>
+                    ${commander.getNames().map((name, index) => html`<option value=${index} ?selected=${index === historyIndex}>${name}</option>`)}
+                </select>
+                <ff-button icon="redo" title=${commander.getRedoText()} ?disabled=${!commander.canRedo()} @click=${this.onClickRedo}></ff-button>
+            </div>
+            <div class="sv-divider"></div>
             <div class="ff-flex-row ff-group">
                 <ff-button text=${saveName} icon="save" @click=${this.onClickSave}></ff-button>
                 ${downloadButtonVisible ? html`<ff-button text="${languageManager.getUILocalizedString("Download")}" icon="download" @click=${this.onClickDownload}></ff-button>` : null}
+                <ff-button text="${languageManager.getUILocalizedString("Export glTF")}" title="${languageManager.getUILocalizedString("Export the scene as binary glTF file")}" icon="download" @click=${this.onClickExportGLB}></ff-button>
                 ${exitButtonVisible ? html`<ff-button text="${languageManager.getUILocalizedString("Exit")}" icon="exit" @click=${this.onClickExit}></ff-button>` : null}
             </div>
         `;
@@ -111,6 +125,22 @@ export default class TaskBar extends SystemView
         }
     }
 
+    protected onClickUndo()
+    {
+        this.story.ins.undo.set();
+    }
+
+    protected onClickRedo()
+    {
+        this.story.ins.redo.set();
+    }
+
+    protected onChangeHistory(event: Event)
+    {
+        const index = parseInt((event.target as HTMLSelectElement).value);
+        this.story.revertTo(index);
+    }
+
     protected onClickSave()
     {
         this.story.ins.save.set();
@@ -121,6 +151,11 @@ export default class TaskBar extends SystemView
         this.story.ins.download.set();
     }
 
+    protected onClickExportGLB()
+    {
+        this.story.ins.exportGLB.set();
+    }
+
     protected onClickExit()
     {
         this.story.ins.exit.set();
@@ -27,7 +27,10 @@ import { ILineEditChangeEvent } from "@ff/ui/LineEdit";
 
 import CVDocument from "../../components/CVDocument";
 import { IButtonClickEvent } from "@ff/ui/Button";
-import { ELanguageType } from "client/schema/common";
+import { TLanguageType } from "client/schema/common";
+
+import "./CameraPathTimeline";
+import { ICameraPathTimelineEvent } from "./CameraPathTimeline";
 
 ////////////////////////////////////////////////////////////////////////////////
 
@@ -84,8 +87,8 @@ export default class ToursTaskView extends TaskView<CVToursTask>
         const activeTour = tours.activeTour;
         const props = task.ins;
         const languageManager = this.activeDocument.setup.language;
-        const activeLanguage = ELanguageType[languageManager.ins.activeLanguage.value];
-        const primarySceneLanguage = ELanguageType[languageManager.ins.primarySceneLanguage.value];
+        const activeLanguage = languageManager.ins.activeLanguage.value;
+        const primarySceneLanguage = languageManager.ins.primarySceneLanguage.value;
 
         const detailView = activeTour ? html`<div class="ff-scroll-y ff-flex-column sv-detail-view">
             <sv-property-view .property=${languageManager.ins.activeLanguage}></sv-property-view>
@@ -95,6 +98,8 @@ export default class ToursTaskView extends TaskView<CVToursTask>
             <ff-line-edit name="tags" text=${props.tourTags.value} @change=${this.onTextEdit}></ff-line-edit>
             <div class="sv-label">${languageManager.getUILocalizedString("Lead")}</div>
             <ff-text-edit name="lead" text=${props.tourLead.value} @change=${this.onTextEdit}></ff-text-edit>
+            ${this.renderCameraPath()}
+            ${this.renderVideoExport()}
         </div>` : null;
 
         return html`<div class="sv-commands">
@@ -120,6 +125,105 @@ export default class ToursTaskView extends TaskView<CVToursTask>
         </div>`;
     }
 
+    protected renderCameraPath()
+    {
+        const tours = this.task.tours;
+        const step = tours.activeStep;
+        const state = step ? this.snapshots.getState(step.id) : null;
+
+        if (!state) {
+            return null;
+        }
+
+        const props = this.task.ins;
+        const languageManager = this.activeDocument.setup.language;
+        const keys = state.path || [];
+        const hasKey = !!keys[props.pathKeyIndex.value];
+
+        return html`<div class="sv-label">${languageManager.getUILocalizedString("Camera Path")}</div>
+            <sv-camera-path-timeline .duration=${state.duration} .keys=${keys.map(key => key.time)}
+                .selectedIndex=${props.pathKeyIndex.value} .time=${props.pathTime.value}
+                @select=${this.onSelectPathKey} @seek=${this.onSeekPath} @move=${this.onMovePathKey}></sv-camera-path-timeline>
+            <div class="sv-commands">
+                <ff-button text="${languageManager.getUILocalizedString("Add Key")}" icon="create" @click=${this.onClickAddKey}></ff-button>
+                <ff-button text="${languageManager.getUILocalizedString("Update Key")}" icon="camera" ?disabled=${!hasKey} @click=${this.onClickUpdateKey}></ff-button>
+                <ff-button text="${languageManager.getUILocalizedString("Delete Key")}" icon="trash" ?disabled=${!hasKey} @click=${this.onClickDeleteKey}></ff-button>
+                <ff-button text="${languageManager.getUILocalizedString("Clear Path")}" icon="close" ?disabled=${keys.length === 0} @click=${this.onClickClearPath}></ff-button>
+            </div>
+            ${hasKey ? html`<sv-property-view .property=${props.pathKeyTime} .label=${languageManager.getUILocalizedString("Key Time")} commitonly></sv-property-view>
+                <sv-property-view .property=${props.pathKeyInterpolation} .label=${languageManager.getUILocalizedString("Interpolation")}></sv-property-view>` : null}`;
+    }
+
+    protected renderVideoExport()
+    {
+        const task = this.task;
+        const props = task.ins;
+        const languageManager = this.activeDocument.setup.language;
+        const isRecording = task.outs.videoRecording.value;
+        const progress = Math.round(task.outs.videoProgress.value * 100);
+        const hasSteps = task.tours.outs.stepCount.value > 0;
+
+        return html`<div class="sv-label">${languageManager.getUILocalizedString("Export Video")}</div>
+            <sv-property-view .property=${props.videoResolution} .label=${languageManager.getUILocalizedString("Resolution")}></sv-property-view>
+            <sv-property-view .property=${props.videoFrameRate} .label=${languageManager.getUILocalizedString("Frame Rate")}></sv-property-view>
+            <sv-property-view .property=${props.videoHoldTime} .label=${languageManager.getUILocalizedString("Hold Time")}></sv-property-view>
+            <sv-property-view .property=${props.videoAnnotations} .label=${languageManager.getUILocalizedString("Annotations")}></sv-property-view>
+            <sv-property-view .property=${props.videoCaptions} .label=${languageManager.getUILocalizedString("Captions")}></sv-property-view>
+            ${isRecording ? html`<div class="sv-video-progress">
+                <div class="sv-bar" style="width: ${progress}%"></div>
+                <div class="sv-text">${languageManager.getUILocalizedString("Recording")} ${progress}%</div>
+            </div>` : null}
+            <div class="sv-commands">
+                ${isRecording ? html`<ff-button text="${languageManager.getUILocalizedString("Cancel")}" icon="close" @click=${this.onClickCancelVideo}></ff-button>`
+                    : html`<ff-button text="${languageManager.getUILocalizedString("Export Video")}" icon="save" ?disabled=${!hasSteps} @click=${this.onClickExportVideo}></ff-button>`}
+            </div>`;
+    }
+
+    protected onClickExportVideo()
+    {
+        this.task.ins.exportVideo.set();
+    }
+
+    protected onClickCancelVideo()
+    {
+        this.task.ins.cancelVideo.set();
+    }
+
+    protected onSelectPathKey(event: ICameraPathTimelineEvent)
+    {
+        this.task.ins.pathKeyIndex.setValue(event.detail.index);
+    }
+
+    protected onSeekPath(event: ICameraPathTimelineEvent)
+    {
+        this.task.ins.pathTime.setValue(event.detail.time);
+    }
+
+    protected onMovePathKey(event: ICameraPathTimelineEvent)
+    {
+        this.task.ins.pathKeyTime.setValue(event.detail.time);
+    }
+
+    protected onClickAddKey()
+    {
+        this.task.ins.addPathKey.set();
+    }
+
+    protected onClickUpdateKey()
+    {
+        this.task.ins.updatePathKey.set();
+    }
+
+    protected onClickDeleteKey()
+    {
+        this.task.ins.deletePathKey.set();
+    }
+
+    protected onClickClearPath()
+    {
+        this.task.ins.clearPath.set();
+    }
+
     protected onClickCreate()
     {
         this.task.ins.createTour.set();
@@ -200,13 +304,43 @@ export default class ToursTaskView extends TaskView<CVToursTask>
         }
     }
 
+    protected connected()
+    {
+        super.connected();
+
+        const ins = this.task.ins;
+        ins.pathKeyIndex.on("value", this.onUpdate, this);
+        ins.pathTime.on("value", this.onUpdate, this);
+        ins.stepDuration.on("value", this.onUpdate, this);
+
+        const outs = this.task.outs;
+        outs.videoRecording.on("value", this.onUpdate, this);
+        outs.videoProgress.on("value", this.onUpdate, this);
+    }
+
+    protected disconnected()
+    {
+        const ins = this.task.ins;
+        ins.pathKeyIndex.off("value", this.onUpdate, this);
+        ins.pathTime.off("value", this.onUpdate, this);
+        ins.stepDuration.off("value", this.onUpdate, this);
+
+        const outs = this.task.outs;
+        outs.videoRecording.off("value", this.onUpdate, this);
+        outs.videoProgress.off("value", this.onUpdate, this);
+
+        super.disconnected();
+    }
+
     protected onActiveDocument(previous: CVDocument, next: CVDocument)
     {
         if (previous) {
             previous.setup.tours.outs.tourIndex.off("value", this.onUpdate, this);
+            previous.setup.tours.outs.stepIndex.off("value", this.onUpdate, this);
         }
         if (next) {
             next.setup.tours.outs.tourIndex.on("value", this.onUpdate, this);
+            next.setup.tours.outs.stepIndex.on("value", this.onUpdate, this);
         }
 
         this.requestUpdate();
@@ -231,10 +365,10 @@ export class TourList extends List<ITour>
     selectedItem: ITour = null;
 
     @property({ attribute: false })
-    activeLanguage: ELanguageType = null;
+    activeLanguage: TLanguageType = null;
 
     @property({ attribute: false })
-    primarySceneLanguage: ELanguageType = null;
+    primarySceneLanguage: TLanguageType = null;
 
     protected firstConnected()
     {
@@ -0,0 +1,227 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Group, Line, LineLoop, BufferGeometry, LineBasicMaterial, Material, Vector3 } from "three";
+
+import Pin from "./Pin";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export enum EMeasurementType { Distance, Polyline, Angle, Area }
+
+const _vec3a = new Vector3();
+const _vec3b = new Vector3();
+const _vec3c = new Vector3();
+const _vec3up = new Vector3(0, 1, 0);
+
+/**
+ * Returns the minimum number of points of a measurement of the given type.
+ */
+export function getMinPoints(type: EMeasurementType): number
+{
+    return type === EMeasurementType.Angle || type === EMeasurementType.Area ? 3 : 2;
+}
+
+/**
+ * Returns true if a measurement of the given type is complete with the given number of points.
+ * Polylines and areas take any number of points and are completed explicitly.
+ */
+export function isComplete(type: EMeasurementType, pointCount: number): boolean
+{
+    return (type === EMeasurementType.Distance && pointCount >= 2)
+        || (type === EMeasurementType.Angle && pointCount >= 3);
+}
+
+/**
+ * Computes the value of a measurement. Distances and polylines measure the length along the points,
+ * angles measure the angle in degrees at the second point, areas measure the area of the polygon
+ * projected onto its average plane.
+ */
+export function getMeasurementValue(type: EMeasurementType, points: number[][]): number
+{
+    const count = points.length;
+    if (count < getMinPoints(type)) {
+        return 0;
+    }
+
+    switch(type) {
+        case EMeasurementType.Distance:
+        case EMeasurementType.Polyline: {
+            let length = 0;
+            for (let i = 1; i < count; ++i) {
+                length += _vec3a.fromArray(points[i - 1]).distanceTo(_vec3b.fromArray(points[i]));
+            }
+            return length;
+        }
+
+        case EMeasurementType.Angle:
+            _vec3c.fromArray(points[1]);
+            _vec3a.fromArray(points[0]).sub(_vec3c);
+            _vec3b.fromArray(points[2]).sub(_vec3c);
+            return _vec3a.angleTo(_vec3b) * 180 / Math.PI;
+
+        case EMeasurementType.Area: {
+            // Newell's method: the sum of the cross products is the plane normal scaled by twice the area
+            _vec3c.set(0, 0, 0);
+            for (let i = 0; i < count; ++i) {
+                _vec3a.fromArray(points[i]);
+                _vec3b.fromArray(points[(i + 1) % count]);
+                _vec3c.add(_vec3a.cross(_vec3b));
+            }
+            return _vec3c.length() * 0.5;
+        }
+    }
+
+    return 0;
+}
+
+/**
+ * Returns the position of the label of a measurement: the center of the middle segment for
+ * distances and polylines, the vertex for angles, and the center of the points for areas.
+ */
+export function getLabelPosition(type: EMeasurementType, points: number[][]): number[]
+{
+    const count = points.length;
+
+    if (type === EMeasurementType.Angle && count > 1) {
+        return points[1].slice();
+    }
+    if (type === EMeasurementType.Area) {
+        _vec3a.set(0, 0, 0);
+        points.forEach(point => _vec3a.add(_vec3b.fromArray(point)));
+        return _vec3a.divideScalar(Math.max(1, count)).toArray();
+    }
+
+    if (count < 2) {
+        return count > 0 ? points[0].slice() : [ 0, 0, 0 ];
+    }
+
+    const index = Math.floor((count - 2) / 2);
+    _vec3a.fromArray(points[index]);
+    _vec3b.fromArray(points[index + 1]);
+    return _vec3a.add(_vec3b).multiplyScalar(0.5).toArray();
+}
+
+/**
+ * Returns the unit of a measurement value, given the length unit of the scene.
+ */
+export function getMeasurementUnit(type: EMeasurementType, units: string): string
+{
+    switch(type) {
+        case EMeasurementType.Angle:
+            return "°";
+        case EMeasurementType.Area:
+            return units + "²";
+        default:
+            return units;
+    }
+}
+
+export function formatMeasurement(type: EMeasurementType, value: number, units: string): string
+{
+    const unit = getMeasurementUnit(type, units);
+    return type === EMeasurementType.Angle ? value.toFixed(1) + unit : value.toFixed(2) + " " + unit;
+}
+
+/**
+ * Graphical representation of a measurement: a pin at each point, connected by a line.
+ * The line of an area measurement is closed.
+ */
+export default class Measurement extends Group
+{
+    readonly measurementType: EMeasurementType;
+
+    protected pins: Pin[] = [];
+    protected line: Line;
+    protected pinScale = 1;
+
+    constructor(type: EMeasurementType)
+    {
+        super();
+
+        this.measurementType = type;
+
+        const lineMaterial = new LineBasicMaterial();
+        lineMaterial.depthTest = false;
+        lineMaterial.transparent = true;
+
+        const geometry = new BufferGeometry();
+        this.line = type === EMeasurementType.Area ? new LineLoop(geometry, lineMaterial) : new Line(geometry, lineMaterial);
+        this.line.frustumCulled = false;
+        this.line.visible = false;
+
+        this.add(this.line);
+    }
+
+    dispose()
+    {
+        this.pins.forEach(pin => {
+            this.remove(pin);
+            pin.dispose();
+        });
+
+        this.pins.length = 0;
+
+        this.line.geometry.dispose();
+        (this.line.material as Material).dispose();
+    }
+
+    setPinScale(scale: number)
+    {
+        this.pinScale = scale;
+
+        this.pins.forEach(pin => {
+            pin.scale.setScalar(scale);
+            pin.updateMatrix();
+        });
+    }
+
+    /**
+     * Updates pins and line.
+     * @param points The measured points.
+     * @param directions Surface normals at the points, pins point along the normals.
+     */
+    setPoints(points: number[][], directions: number[][])
+    {
+        const pins = this.pins;
+
+        while (pins.length > points.length) {
+            const pin = pins.pop();
+            this.remove(pin);
+            pin.dispose();
+        }
+        while (pins.length < points.length) {
+            const pin = new Pin();
+            pin.matrixAutoUpdate = false;
+            pins.push(pin);
+            this.add(pin);
+        }
+
+        pins.forEach((pin, index) => {
+            pin.position.fromArray(points[index]);
+            _vec3a.fromArray(directions[index] || [ 0, 1, 0 ]);
+            pin.quaternion.setFromUnitVectors(_vec3up, _vec3a.normalize());
+            pin.scale.setScalar(this.pinScale);
+            pin.updateMatrix();
+        });
+
+        const line = this.line;
+        line.geometry.dispose();
+        line.geometry = new BufferGeometry().setFromPoints(points.map(point => new Vector3().fromArray(point)));
+        line.visible = points.length > 1;
+    }
+}
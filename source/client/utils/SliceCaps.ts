@@ -0,0 +1,239 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    AlwaysStencilFunc,
+    BackSide,
+    Box3,
+    DecrementWrapStencilOp,
+    DoubleSide,
+    FrontSide,
+    Group,
+    IncrementWrapStencilOp,
+    Mesh,
+    MeshBasicMaterial,
+    NotEqualStencilFunc,
+    Object3D,
+    Plane,
+    PlaneGeometry,
+    Scene,
+    Side,
+    StencilOp,
+    Vector3,
+    WebGLRenderer,
+} from "three";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Caps and stencil meshes are drawn after all model meshes. */
+const _baseRenderOrder = 1000;
+/** Layer not rendered during picking, see GPUPicker. */
+const _layer = 1;
+
+const _vec3a = new Vector3();
+const _vec3b = new Vector3();
+const _zAxis = new Vector3(0, 0, 1);
+
+interface IStencilMesh
+{
+    source: Mesh;
+    mesh: Mesh;
+}
+
+/**
+ * Renders solid caps on the cut faces of sliced meshes. For each slicing plane, the back faces of the
+ * meshes increment and the front faces decrement the stencil buffer. Where the stencil value is not
+ * zero, the cut plane lies inside a mesh, and a quad in the cut plane is drawn there.
+ * The meshes must be closed for the caps to be correct.
+ */
+export default class SliceCaps extends Group
+{
+    protected planes: Plane[] = [];
+    protected caps: Mesh[] = [];
+    protected stencilMaterials: MeshBasicMaterial[] = [];
+    protected stencilMeshes: IStencilMesh[] = [];
+    protected sources: Mesh[] = [];
+    protected color: number[] = [ 1, 1, 1 ];
+
+    constructor()
+    {
+        super();
+        this.name = "SliceCaps";
+    }
+
+    dispose()
+    {
+        this.setPlaneCount(0);
+    }
+
+    setColor(color: number[])
+    {
+        this.color = color.slice();
+        this.caps.forEach(cap => (cap.material as MeshBasicMaterial).color.fromArray(color));
+    }
+
+    /**
+     * Sets the meshes to be capped.
+     */
+    setMeshes(meshes: Mesh[])
+    {
+        this.sources = meshes.slice();
+        this.createStencilMeshes();
+    }
+
+    /**
+     * Updates the slicing planes. The stencil meshes are recreated if the number of planes changes.
+     * @param planes The slicing planes in world space. The objects are referenced, not copied.
+     * @param boundingBox The bounding box of the sliced meshes, used to size the caps.
+     */
+    setPlanes(planes: Plane[], boundingBox: Box3)
+    {
+        if (planes.length !== this.planes.length) {
+            this.setPlaneCount(planes.length);
+        }
+
+        this.planes.length = 0;
+        this.planes.push(...planes);
+
+        const center = boundingBox.getCenter(_vec3a);
+        const size = boundingBox.isEmpty() ? 1 : boundingBox.getSize(_vec3b).length() * 2;
+
+        planes.forEach((plane, index) => {
+            const stencilMaterials = this.stencilMaterials;
+            stencilMaterials[index * 2].clippingPlanes = [ plane ];
+            stencilMaterials[index * 2 + 1].clippingPlanes = [ plane ];
+
+            // caps are clipped by the other planes
+            const cap = this.caps[index];
+            (cap.material as MeshBasicMaterial).clippingPlanes = planes.filter(other => other !== plane);
+
+            plane.projectPoint(center, cap.position);
+            cap.quaternion.setFromUnitVectors(_zAxis, plane.normal);
+            cap.scale.setScalar(size);
+            cap.updateMatrix();
+        });
+    }
+
+    /**
+     * Synchronizes the stencil meshes with their source meshes. Call before rendering.
+     */
+    update()
+    {
+        const stencilMeshes = this.stencilMeshes;
+        for (let i = 0, n = stencilMeshes.length; i < n; ++i) {
+            const { source, mesh } = stencilMeshes[i];
+            mesh.visible = isVisibleInScene(source);
+            mesh.matrix.copy(source.matrixWorld);
+            mesh.matrixWorld.copy(source.matrixWorld);
+        }
+    }
+
+    protected setPlaneCount(count: number)
+    {
+        const { caps, stencilMaterials } = this;
+
+        while (caps.length > count) {
+            const cap = caps.pop();
+            this.remove(cap);
+            cap.geometry.dispose();
+            (cap.material as MeshBasicMaterial).dispose();
+            stencilMaterials.pop().dispose();
+            stencilMaterials.pop().dispose();
+        }
+
+        while (caps.length < count) {
+            const index = caps.length;
+            stencilMaterials.push(createStencilMaterial(BackSide, IncrementWrapStencilOp));
+            stencilMaterials.push(createStencilMaterial(FrontSide, DecrementWrapStencilOp));
+
+            const material = new MeshBasicMaterial({
+                side: DoubleSide,
+                stencilWrite: true,
+                stencilRef: 0,
+                stencilFunc: NotEqualStencilFunc,
+            });
+            material.color.fromArray(this.color);
+
+            const cap = new Mesh(new PlaneGeometry(1, 1), material);
+            cap.name = "SliceCap";
+            cap.matrixAutoUpdate = false;
+            cap.frustumCulled = false;
+            cap.renderOrder = _baseRenderOrder + index * 2 + 1;
+            cap.layers.set(_layer);
+            // reset the stencil buffer for the next plane
+            cap.onAfterRender = (renderer: WebGLRenderer) => renderer.clearStencil();
+
+            caps.push(cap);
+            this.add(cap);
+        }
+
+        this.createStencilMeshes();
+    }
+
+    protected createStencilMeshes()
+    {
+        this.stencilMeshes.forEach(stencilMesh => this.remove(stencilMesh.mesh));
+        this.stencilMeshes.length = 0;
+
+        const materials = this.stencilMaterials;
+
+        for (let i = 0, n = materials.length; i < n; ++i) {
+            const renderOrder = _baseRenderOrder + Math.floor(i / 2) * 2;
+
+            this.sources.forEach(source => {
+                const mesh = new Mesh(source.geometry, materials[i]);
+                mesh.matrixAutoUpdate = false;
+                mesh.matrixWorldAutoUpdate = false;
+                mesh.frustumCulled = false;
+                mesh.renderOrder = renderOrder;
+                mesh.layers.set(_layer);
+
+                this.stencilMeshes.push({ source, mesh });
+                this.add(mesh);
+            });
+        }
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function createStencilMaterial(side: Side, op: StencilOp)
+{
+    return new MeshBasicMaterial({
+        side,
+        colorWrite: false,
+        depthWrite: false,
+        depthTest: false,
+        stencilWrite: true,
+        stencilFunc: AlwaysStencilFunc,
+        stencilFail: op,
+        stencilZFail: op,
+        stencilZPass: op,
+    });
+}
+
+function isVisibleInScene(object: Object3D): boolean
+{
+    while (object.parent) {
+        if (!object.visible) {
+            return false;
+        }
+        object = object.parent;
+    }
+
+    return (object as Scene).isScene === true;
+}
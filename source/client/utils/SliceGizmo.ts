@@ -0,0 +1,133 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+    BufferGeometry,
+    ConeGeometry,
+    Group,
+    Line,
+    LineBasicMaterial,
+    LineLoop,
+    Material,
+    Mesh,
+    MeshBasicMaterial,
+    Object3D,
+    SphereGeometry,
+    Vector3,
+} from "three";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export enum ESliceGizmoHandle { None, Move, Rotate }
+
+const _renderOrder = 1010;
+const _zAxis = new Vector3(0, 0, 1);
+
+/**
+ * Interactive helper for a slicing plane: an outline of the plane, and an arrow along the plane normal
+ * pointing towards the removed side. The cone at the tip of the arrow moves the plane,
+ * the sphere behind it rotates the plane. The gizmo is modeled with its normal along the z axis
+ * and a size of 1.
+ */
+export default class SliceGizmo extends Group
+{
+    readonly moveHandle: Mesh;
+    readonly rotateHandle: Mesh;
+
+    protected outline: LineLoop;
+    protected shaft: Line;
+
+    constructor()
+    {
+        super();
+        this.name = "SliceGizmo";
+        this.matrixAutoUpdate = false;
+
+        const lineMaterial = new LineBasicMaterial({ depthTest: false, transparent: true, opacity: 0.6 });
+
+        this.outline = new LineLoop(new BufferGeometry().setFromPoints([
+            new Vector3(-0.5, -0.5, 0), new Vector3(0.5, -0.5, 0), new Vector3(0.5, 0.5, 0), new Vector3(-0.5, 0.5, 0),
+        ]), lineMaterial);
+
+        this.shaft = new Line(new BufferGeometry().setFromPoints([
+            new Vector3(0, 0, 0), new Vector3(0, 0, 0.4),
+        ]), lineMaterial);
+
+        const handleMaterial = new MeshBasicMaterial({ depthTest: false, transparent: true });
+
+        const coneGeometry = new ConeGeometry(0.025, 0.08, 16);
+        coneGeometry.rotateX(Math.PI * 0.5);
+        this.moveHandle = new Mesh(coneGeometry, handleMaterial);
+        this.moveHandle.position.set(0, 0, 0.44);
+
+        this.rotateHandle = new Mesh(new SphereGeometry(0.025, 16, 8), handleMaterial);
+        this.rotateHandle.position.set(0, 0, 0.54);
+
+        // lines are not pickable, handles are
+        this.outline.layers.set(1);
+        this.shaft.layers.set(1);
+
+        [ this.outline, this.shaft, this.moveHandle, this.rotateHandle ].forEach(object => {
+            object.renderOrder = _renderOrder;
+            object.frustumCulled = false;
+            this.add(object);
+        });
+    }
+
+    dispose()
+    {
+        this.outline.geometry.dispose();
+        this.shaft.geometry.dispose();
+        this.moveHandle.geometry.dispose();
+        this.rotateHandle.geometry.dispose();
+
+        (this.outline.material as Material).dispose();
+        (this.moveHandle.material as Material).dispose();
+    }
+
+    setColor(color: number[])
+    {
+        (this.outline.material as LineBasicMaterial).color.fromArray(color);
+        (this.moveHandle.material as MeshBasicMaterial).color.fromArray(color);
+    }
+
+    /**
+     * Places the gizmo.
+     * @param center Center of the plane.
+     * @param normal Normal of the plane, pointing towards the removed side.
+     * @param size Size of the plane outline.
+     */
+    setPlane(center: Vector3, normal: Vector3, size: number)
+    {
+        this.position.copy(center);
+        this.quaternion.setFromUnitVectors(_zAxis, normal);
+        this.scale.setScalar(size);
+        this.updateMatrix();
+    }
+
+    getHandle(object: Object3D): ESliceGizmoHandle
+    {
+        if (object === this.moveHandle) {
+            return ESliceGizmoHandle.Move;
+        }
+        if (object === this.rotateHandle) {
+            return ESliceGizmoHandle.Rotate;
+        }
+
+        return ESliceGizmoHandle.None;
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Dictionary } from "@ff/core/types";
+
+import { IDocument } from "client/schema/document";
+import { DEFAULT_LANGUAGE } from "client/schema/common";
+import { normalizeLanguageKeys } from "client/utils/languages";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export type TDiffCategory = "Model" | "Annotation" | "Article" | "Tour" | "Setup";
+export type TDiffChange = "added" | "removed" | "changed";
+
+export interface IDocumentDiffEntry
+{
+    category: TDiffCategory;
+    change: TDiffChange;
+    /** Display name of the item, e.g. the title of an annotation or the name of a setup section. */
+    name: string;
+}
+
+interface IDiffItem
+{
+    name: string;
+    data: any;
+}
+
+/**
+ * Compares the structure of two documents and lists the models, annotations, articles, tours
+ * and setup sections that have been added, removed or changed in the second document.
+ * Items are matched by their ids, models by the name of the node they are attached to.
+ */
+export default function diffDocuments(from: IDocument, to: IDocument): IDocumentDiffEntry[]
+{
+    const entries: IDocumentDiffEntry[] = [];
+
+    const compare = (category: TDiffCategory, fromItems: Map<string, IDiffItem>, toItems: Map<string, IDiffItem>) => {
+        fromItems.forEach((item, key) => {
+            const toItem = toItems.get(key);
+            if (!toItem) {
+                entries.push({ category, change: "removed", name: item.name });
+            }
+            else if (JSON.stringify(item.data) !== JSON.stringify(toItem.data)) {
+                entries.push({ category, change: "changed", name: toItem.name });
+            }
+        });
+        toItems.forEach((item, key) => {
+            if (!fromItems.has(key)) {
+                entries.push({ category, change: "added", name: item.name });
+            }
+        });
+    };
+
+    compare("Model", getModels(from), getModels(to));
+    compare("Annotation", getAnnotations(from), getAnnotations(to));
+    compare("Article", getArticles(from), getArticles(to));
+    compare("Tour", getTours(from), getTours(to));
+    compare("Setup", getSetupSections(from), getSetupSections(to));
+
+    return entries;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function getTitle(item: { title?: string, titles?: Dictionary<string> }, fallback: string)
+{
+    // documents use upper case keys for earlier languages, e.g. "EN"
+    const titles = normalizeLanguageKeys(item.titles || {});
+    return titles[DEFAULT_LANGUAGE] || Object.keys(titles).map(key => titles[key])[0] || item.title || fallback;
+}
+
+function getModelNames(document: IDocument): string[]
+{
+    const names = [];
+    (document.nodes || []).forEach(node => {
+        if (node.model !== undefined) {
+            names[node.model] = node.name;
+        }
+    });
+    return names;
+}
+
+function getModels(document: IDocument)
+{
+    const items = new Map<string, IDiffItem>();
+    const names = getModelNames(document);
+
+    (document.models || []).forEach((model, index) => {
+        const name = names[index] || `Model ${index + 1}`;
+        // annotations are compared separately
+        const data = Object.assign({}, model, { annotations: undefined });
+        items.set(name, { name, data });
+    });
+
+    return items;
+}
+
+function getAnnotations(document: IDocument)
+{
+    const items = new Map<string, IDiffItem>();
+
+    (document.models || []).forEach(model => {
+        (model.annotations || []).forEach(annotation => {
+            items.set(annotation.id, { name: getTitle(annotation, annotation.id), data: annotation });
+        });
+    });
+
+    return items;
+}
+
+function getArticles(document: IDocument)
+{
+    const items = new Map<string, IDiffItem>();
+
+    (document.metas || []).forEach(meta => {
+        (meta.articles || []).forEach(article => {
+            items.set(article.id, { name: getTitle(article, article.id), data: article });
+        });
+    });
+
+    return items;
+}
+
+function getSetup(document: IDocument)
+{
+    const scene = document.scenes && document.scenes[document.scene || 0];
+    return scene && document.setups && document.setups[scene.setup] || {};
+}
+
+function getTours(document: IDocument)
+{
+    const items = new Map<string, IDiffItem>();
+
+    (getSetup(document).tours || []).forEach((tour, index) => {
+        // tours of older documents may not have an id
+        items.set(tour.id || `#${index}`, { name: getTitle(tour, `Tour ${index + 1}`), data: tour });
+    });
+
+    return items;
+}
+
+function getSetupSections(document: IDocument)
+{
+    const items = new Map<string, IDiffItem>();
+    const setup = getSetup(document);
+
+    Object.keys(setup).forEach(key => {
+        // tours are compared separately, tour step views are stored in snapshots
+        if (key !== "tours") {
+            const name = key === "snapshots" ? "tour step views" : key;
+            items.set(key, { name, data: setup[key] });
+        }
+    });
+
+    return items;
+}
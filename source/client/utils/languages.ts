@@ -0,0 +1,202 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Dictionary } from "@ff/core/types";
+
+import { DEFAULT_LANGUAGE, TLanguageType } from "client/schema/common";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export type TLanguageDirection = "ltr" | "rtl";
+
+export interface ILanguageInfo
+{
+    /** Canonical BCP-47 language tag. */
+    code: TLanguageType;
+    /** English name, followed by the native name, e.g. "Spanish (Español)". */
+    name: string;
+    direction: TLanguageDirection;
+}
+
+const _tagPattern = /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i;
+
+// scripts and languages (if written without script subtag) written from right to left
+const _rtlScripts = [ "adlm", "arab", "hebr", "mand", "mend", "nkoo", "rohg", "samr", "syrc", "thaa", "yezi" ];
+const _rtlLanguages = [ "ar", "arc", "ckb", "dv", "fa", "he", "iw", "ks", "ku", "ps", "sd", "syr", "ug", "ur", "yi" ];
+
+// languages of earlier document versions, identified by upper case codes, e.g. "EN"
+const _legacyLanguages = [ "en", "es", "de", "nl", "ja", "fr", "it", "haw", "ar" ];
+
+// build-time list of the string resource files in assets/language
+const _resourceLanguages: TLanguageType[] = (typeof ENV_LANGUAGES !== "undefined" ? ENV_LANGUAGES : [ DEFAULT_LANGUAGE ])
+    .map(code => normalizeLanguage(code)).filter(code => !!code);
+
+/**
+ * Languages with user interface strings, discovered from the string resource files
+ * "language/string.resources.<code>.json". Documents may use further languages for their content.
+ */
+export const languageRegistry: ILanguageInfo[] = _resourceLanguages.map(code => getLanguageInfo(code));
+
+/**
+ * Returns the canonical form of a BCP-47 language tag, e.g. "en" for "EN" or "pt-BR" for "pt-br".
+ * Returns an empty string if the tag is invalid.
+ */
+export function normalizeLanguage(tag: string): TLanguageType
+{
+    tag = (tag || "").trim().replace(/_/g, "-");
+
+    if (!_tagPattern.test(tag)) {
+        return "";
+    }
+
+    return tag.split("-").map((subtag, index) => {
+        if (index > 0 && subtag.length === 4 && /^[a-z]+$/i.test(subtag)) {
+            // script
+            return subtag[0].toUpperCase() + subtag.substr(1).toLowerCase();
+        }
+        if (index > 0 && (subtag.length === 2 || /^[0-9]{3}$/.test(subtag))) {
+            // region
+            return subtag.toUpperCase();
+        }
+        return subtag.toLowerCase();
+    }).join("-");
+}
+
+export function isLanguageTag(tag: string): boolean
+{
+    return !!normalizeLanguage(tag);
+}
+
+/**
+ * Returns true if the language is written from right to left, based on its script
+ * subtag, or on its primary language if no script is given.
+ */
+export function isRightToLeft(tag: string): boolean
+{
+    const subtags = normalizeLanguage(tag).toLowerCase().split("-");
+    const script = subtags.slice(1).find(subtag => subtag.length === 4 && /^[a-z]+$/.test(subtag));
+
+    return script ? _rtlScripts.indexOf(script) >= 0 : _rtlLanguages.indexOf(subtags[0]) >= 0;
+}
+
+export function getLanguageDirection(tag: string): TLanguageDirection
+{
+    return isRightToLeft(tag) ? "rtl" : "ltr";
+}
+
+/**
+ * Returns a display name for the language: its English name followed by its native name,
+ * e.g. "Spanish (Español)". Falls back to the language tag if the browser can't name the language.
+ */
+export function getLanguageName(tag: string): string
+{
+    const code = normalizeLanguage(tag);
+    const DisplayNames = (Intl as any).DisplayNames;
+
+    if (!code || !DisplayNames) {
+        return code || tag;
+    }
+
+    try {
+        const english = new DisplayNames([ "en" ], { type: "language" }).of(code);
+        const native = new DisplayNames([ code ], { type: "language" }).of(code);
+        const name = english || code;
+
+        // unknown languages are named by their code
+        return native && native !== english && native !== code ?
+            `${name} (${native[0].toUpperCase() + native.substr(1)})` : name;
+    }
+    catch(e) {
+        return code;
+    }
+}
+
+export function getLanguageInfo(tag: string): ILanguageInfo
+{
+    const code = normalizeLanguage(tag);
+    return { code, name: getLanguageName(code), direction: getLanguageDirection(code) };
+}
+
+/**
+ * Returns the language of the string resources to use for the given language: the language itself,
+ * its primary language (e.g. "pt" for "pt-BR") or the default language.
+ */
+export function getResourceLanguage(tag: string): TLanguageType
+{
+    const code = normalizeLanguage(tag);
+
+    if (_resourceLanguages.indexOf(code) >= 0) {
+        return code;
+    }
+
+    const primary = code.split("-")[0];
+    return _resourceLanguages.find(language => language.split("-")[0] === primary) || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Returns the path of the string resource file for the given language, relative to the system assets.
+ */
+export function getResourcePath(tag: string): string
+{
+    return `language/string.resources.${getResourceLanguage(tag).toLowerCase()}.json`;
+}
+
+/**
+ * Converts the keys of a dictionary with language tag keys to their canonical form,
+ * e.g. upper case language keys of earlier document versions. Invalid keys are kept unchanged.
+ */
+export function normalizeLanguageKeys<T>(dictionary: Dictionary<T>): Dictionary<T>
+{
+    if (!dictionary) {
+        return dictionary;
+    }
+
+    const result: Dictionary<T> = {};
+    Object.keys(dictionary).forEach(key => {
+        result[normalizeLanguage(key) || key] = dictionary[key];
+    });
+
+    return result;
+}
+
+/**
+ * Returns the language code to write to documents. Languages of earlier document versions are written
+ * with their upper case code, e.g. "EN", so earlier versions of Voyager can still read the content.
+ */
+export function toDocumentLanguage(tag: string): string
+{
+    const code = normalizeLanguage(tag);
+    return _legacyLanguages.indexOf(code) >= 0 ? code.toUpperCase() : (code || tag);
+}
+
+/**
+ * Converts the keys of a dictionary with language tag keys to the codes written to documents,
+ * see [[toDocumentLanguage]]. Returns a new dictionary.
+ */
+export function toDocumentLanguageKeys<T>(dictionary: Dictionary<T>): Dictionary<T>
+{
+    if (!dictionary) {
+        return dictionary;
+    }
+
+    const result: Dictionary<T> = {};
+    Object.keys(dictionary).forEach(key => {
+        result[toDocumentLanguage(key)] = dictionary[key];
+    });
+
+    return result;
+}
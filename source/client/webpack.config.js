@@ -58,6 +58,8 @@ const apps = {
         entryPoint: "client/ui/explorer/MainView.ts",
         title: "Voyager Explorer",
         template: "explorer.hbs",
+        // the standalone page owns its URL, keep the view state in the hash
+        attributes: ` viewState="true"`,
     },
     "mini": {
         name: "voyager-mini",
@@ -89,6 +91,12 @@ try{
 
 const analyticsId = process.env["VOYAGER_ANALYTICS_ID"];
 
+// languages with string resources, e.g. "string.resources.pt-br.json"
+const languages = require("fs").readdirSync(path.resolve(dirs.assets, "language"))
+    .map(file => /^string\.resources\.(.+)\.json$/.exec(file))
+    .filter(match => !!match)
+    .map(match => match[1]);
+
 ////////////////////////////////////////////////////////////////////////////////
 
 module.exports = function(env, argv)
@@ -110,6 +118,14 @@ module.exports = function(env, argv)
         [app.name]: path.resolve(dirs.source, app.entryPoint)
     }),{});
 
+    if (build_apps.some(app => app === apps.explorer)) {
+        // service worker for offline use, at the output root so its scope covers the html pages
+        entries["voyager-offline-worker"] = {
+            import: path.resolve(dirs.source, "client/io/offlineWorker.ts"),
+            filename: "voyager-offline-worker.js",
+        };
+    }
+
     const plugins =build_apps.map((app) =>{
         return new HTMLWebpackPlugin({
             filename: isDevMode ? `${app.name}-dev${localTag}.html` : `${app.name}${localTag}.html`,
@@ -119,7 +135,7 @@ module.exports = function(env, argv)
             isDevelopment: isDevMode,
             isOffline: isOffline,
             analyticsId: analyticsId,
-            element: `<${app.name}></${app.name}>`,
+            element: `<${app.name}${app.attributes || ""}></${app.name}>`,
             chunks: [ app.name ],
         })
     });
@@ -173,6 +189,7 @@ module.exports = function(env, argv)
                 ENV_DEVELOPMENT: JSON.stringify(isDevMode),
                 ENV_OFFLINE: JSON.stringify(isOffline),
                 ENV_VERSION: JSON.stringify(`Voyager ${version} ${isDevMode ? " DEV" : " PROD"}`),
+                ENV_LANGUAGES: JSON.stringify(languages),
             }),
             new MiniCssExtractPlugin({
                 filename: isDevMode ? "css/[name].dev.css" : "css/[name].min.css",
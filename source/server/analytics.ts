@@ -0,0 +1,173 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+
+import * as express from "express";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Maximum size of an event in bytes. */
+const maxEventSize = "16kb";
+/** Maximum length of the text fields of an event. */
+const maxTextLength = 500;
+/** Maximum number of events accepted from a client address per minute. */
+const maxEventsPerMinute = 120;
+/** Size in bytes above which the event log is rotated. */
+const maxLogSize = 10 * 1024 * 1024;
+
+/** Event as written to the log, see IAnalyticsEvent of the client. */
+export interface IStoredEvent
+{
+    name: string;
+    value?: string | number | boolean;
+    label?: string;
+    title?: string;
+    session?: string;
+    time?: number;
+    /** Time the event has been received, as ISO 8601 string. */
+    received: string;
+}
+
+/**
+ * Creates a router collecting analytics events sent by Voyager Explorer's "local" analytics provider.
+ * Each event is appended as a line of JSON to the given file, with the time it has been received.
+ * Only the known event fields are stored. Events above a rate per client address are rejected.
+ * When the file grows beyond its maximum size, it is renamed to "<name>.1.jsonl", replacing the previous one.
+ *
+ * POST /analytics - appends the event sent as JSON request body
+ */
+export default function createAnalyticsRouter(logPath: string): express.Router
+{
+    const router = express.Router();
+    const clients = new Map<string, { start: number, count: number }>();
+
+    // appends are queued, so rotating the log doesn't interfere with pending writes
+    let queue: Promise<void> = Promise.resolve();
+
+    // beacons are sent as plain text
+    router.post("/analytics", express.text({ type: "*/*", limit: maxEventSize }), (req, res) => {
+        if (!acceptClient(clients, req.ip || "")) {
+            return res.status(429).send({ error: "too many events" });
+        }
+
+        let data;
+        try {
+            data = JSON.parse(req.body);
+        }
+        catch(e) {
+            return res.status(400).send({ error: "event is not valid JSON" });
+        }
+
+        const event = toStoredEvent(data);
+        if (!event) {
+            return res.status(400).send({ error: "event must be an object with a name and valid fields" });
+        }
+
+        const line = JSON.stringify(event) + "\n";
+
+        queue = queue.then(() => appendEvent(logPath, line))
+        .then(() => { res.sendStatus(204); })
+        .catch(error => {
+            console.warn(`failed to store analytics event: ${error.message}`);
+            res.sendStatus(500);
+        });
+    });
+
+    return router;
+}
+
+/**
+ * Counts an event of the client with the given address, returns false if the client exceeds its rate.
+ */
+function acceptClient(clients: Map<string, { start: number, count: number }>, address: string): boolean
+{
+    const now = Date.now();
+
+    // forget clients without events in the last minute
+    clients.forEach((client, key) => {
+        if (now - client.start > 60000) {
+            clients.delete(key);
+        }
+    });
+
+    const client = clients.get(address);
+    if (!client) {
+        clients.set(address, { start: now, count: 1 });
+        return true;
+    }
+
+    return ++client.count <= maxEventsPerMinute;
+}
+
+/**
+ * Returns the event fields to store, or null if the data isn't a valid event.
+ */
+function toStoredEvent(data: any): IStoredEvent | null
+{
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+        return null;
+    }
+
+    const isText = (value: any) => typeof value === "string" && value.length <= maxTextLength;
+
+    if (!isText(data.name) || !data.name) {
+        return null;
+    }
+
+    const event: IStoredEvent = { name: data.name, received: new Date().toISOString() };
+
+    if (data.value !== undefined) {
+        if (!isText(data.value) && typeof data.value !== "boolean" && !Number.isFinite(data.value)) {
+            return null;
+        }
+        event.value = data.value;
+    }
+    for (const key of [ "label", "title", "session" ]) {
+        if (data[key] !== undefined) {
+            if (!isText(data[key])) {
+                return null;
+            }
+            event[key] = data[key];
+        }
+    }
+    if (data.time !== undefined) {
+        if (!Number.isFinite(data.time)) {
+            return null;
+        }
+        event.time = data.time;
+    }
+
+    return event;
+}
+
+/**
+ * Appends a line to the log, after rotating the log if it has reached its maximum size.
+ */
+async function appendEvent(logPath: string, line: string)
+{
+    await fs.promises.mkdir(path.dirname(logPath), { recursive: true });
+
+    const stats = await fs.promises.stat(logPath).catch(() => null);
+    if (stats && stats.size + line.length > maxLogSize) {
+        const rotatedPath = logPath.replace(/(\.jsonl)?$/, ".1$1");
+        await fs.promises.rename(logPath, rotatedPath);
+    }
+
+    await fs.promises.appendFile(logPath, line);
+}
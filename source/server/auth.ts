@@ -0,0 +1,313 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import * as crypto from "crypto";
+
+import * as express from "express";
+
+////////////////////////////////////////////////////////////////////////////////
+
+/** Access level of a user, for the whole file tree or a folder. */
+export type TAccess = "none" | "ro" | "rw";
+
+export interface IAuthUser
+{
+    name: string;
+    /** Password, either plain text, "{SHA}" + base64 SHA-1 digest (htpasswd -s) or "{SHA256}" + base64 SHA-256 digest. */
+    password?: string;
+    role: TAccess;
+}
+
+/**
+ * Authentication configuration, loaded from the JSON file given in VOYAGER_AUTH_CONFIG.
+ *
+ * Example:
+ * {
+ *     "htpasswd": "voyager.htpasswd",
+ *     "users": { "alice": { "role": "rw" }, "bob": { "password": "secret", "role": "ro" } },
+ *     "anonymous": "ro",
+ *     "folders": {
+ *         "/lab/": { "*": "rw" },
+ *         "/private/": { "alice": "rw", "*": "none", "anonymous": "none" }
+ *     }
+ * }
+ *
+ * Folder rules are keyed by user name, "*" for any authenticated user and "anonymous" for
+ * unauthenticated requests. The most specific folder with a matching rule wins, otherwise
+ * the user's role (or the anonymous access level) applies.
+ */
+export interface IAuthConfig
+{
+    /** Realm reported in HTTP Basic authentication challenges. */
+    realm?: string;
+    /** Path of an htpasswd file with additional user passwords, relative to the configuration file. */
+    htpasswd?: string;
+    users?: { [name: string]: Partial<IAuthUser> };
+    /** Access level for unauthenticated requests, default is "ro". */
+    anonymous?: TAccess;
+    folders?: { [folder: string]: { [user: string]: TAccess } };
+    /** Lifetime of login sessions in seconds, default is 12 hours. */
+    sessionDuration?: number;
+}
+
+export interface IAuth
+{
+    /** Handles /auth/login, /auth/logout and /auth/user. */
+    router: express.Router;
+    /** Authenticates requests and enforces folder access. Files are identified by getFilePath. */
+    access: (getFilePath: (req: express.Request) => string) => express.RequestHandler;
+    /** Returns the access level of the request's user for the given file path. */
+    getAccess: (req: express.Request, filePath: string) => TAccess;
+}
+
+const _sessionCookie = "voyager-session";
+const _readMethods = [ "GET", "HEAD", "OPTIONS", "PROPFIND" ];
+const _accessLevels: TAccess[] = [ "none", "ro", "rw" ];
+
+/**
+ * Loads the authentication configuration from the environment. Returns null if authentication is not configured.
+ *
+ * VOYAGER_AUTH_CONFIG: path of a JSON configuration file, see [[IAuthConfig]].
+ * VOYAGER_USERS: additional users as "name:password:role" entries, separated by commas.
+ */
+export function loadAuthConfig(env: NodeJS.ProcessEnv): IAuthConfig
+{
+    const configPath = env["VOYAGER_AUTH_CONFIG"];
+    const userList = env["VOYAGER_USERS"];
+
+    if (!configPath && !userList) {
+        return null;
+    }
+
+    const config: IAuthConfig = configPath ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
+    const users = config.users = config.users || {};
+
+    if (config.htpasswd) {
+        const htpasswdPath = path.resolve(path.dirname(configPath), config.htpasswd);
+        parseHtpasswd(fs.readFileSync(htpasswdPath, "utf8")).forEach(user => {
+            users[user.name] = Object.assign({ role: "rw" }, users[user.name], { password: user.password });
+        });
+    }
+
+    if (userList) {
+        userList.split(",").map(entry => entry.trim()).filter(entry => entry).forEach(entry => {
+            const [ name, password, role ] = entry.split(":");
+            users[name] = Object.assign({}, users[name], { password, role: role || "rw" });
+        });
+    }
+
+    Object.keys(users).forEach(name => {
+        const user = users[name];
+        user.name = name;
+        if (_accessLevels.indexOf(user.role) < 0) {
+            throw new Error(`invalid role '${user.role}' for user '${name}'`);
+        }
+        if (user.password && user.password.startsWith("$")) {
+            console.warn(`unsupported password hash for user '${name}', use {SHA} or {SHA256} hashes or plain text`);
+        }
+    });
+
+    return config;
+}
+
+export function createAuth(config: IAuthConfig): IAuth
+{
+    const realm = config.realm || "Voyager";
+    const anonymous = config.anonymous || "ro";
+    const sessionDuration = (config.sessionDuration || 12 * 3600) * 1000;
+    const secret = process.env["VOYAGER_SESSION_SECRET"] || crypto.randomBytes(32).toString("hex");
+
+    // folder rules sorted from most to least specific
+    const folders = Object.keys(config.folders || {})
+        .map(folder => ({ folder: normalizeFolder(folder), rules: config.folders[folder] }))
+        .sort((a, b) => b.folder.length - a.folder.length);
+
+    const sign = (value: string) => crypto.createHmac("sha256", secret).update(value).digest("base64url");
+
+    const getUser = (req: express.Request): IAuthUser => {
+        const header = req.headers.authorization;
+        if (header && header.startsWith("Basic ")) {
+            const credentials = Buffer.from(header.slice(6), "base64").toString("utf8");
+            const index = credentials.indexOf(":");
+            return authenticate(config, credentials.slice(0, index), credentials.slice(index + 1));
+        }
+
+        const cookie = getCookie(req, _sessionCookie);
+        if (cookie) {
+            const [ name, expires, signature ] = cookie.split(".");
+            const user = config.users[Buffer.from(name || "", "base64url").toString("utf8")];
+            if (user && signature && safeEqual(signature, sign(`${name}.${expires}`)) && Date.now() < parseInt(expires)) {
+                return user as IAuthUser;
+            }
+        }
+
+        return null;
+    };
+
+    const getAccess = (req: express.Request, filePath: string): TAccess => {
+        const user: IAuthUser = req["user"] !== undefined ? req["user"] : getUser(req);
+        const normalizedPath = path.posix.normalize("/" + filePath);
+        const rulePath = normalizedPath.endsWith("/") ? normalizedPath : normalizedPath + "/";
+
+        for (const { folder, rules } of folders) {
+            if (rulePath.startsWith(folder)) {
+                const access = user ? (rules[user.name] || rules["*"]) : rules["anonymous"];
+                if (access) {
+                    return access;
+                }
+            }
+        }
+
+        return user ? user.role : anonymous;
+    };
+
+    const router = express.Router();
+
+    router.post("/auth/login", express.json(), express.urlencoded({ extended: false }), (req, res) => {
+        const body = req.body || {};
+        const user = authenticate(config, body.username, body.password);
+
+        if (!user) {
+            return res.status(401).send({ error: "invalid user name or password" });
+        }
+
+        const expires = Date.now() + sessionDuration;
+        const value = `${Buffer.from(user.name).toString("base64url")}.${expires}`;
+        res.cookie(_sessionCookie, `${value}.${sign(value)}`, { httpOnly: true, sameSite: "strict", expires: new Date(expires) });
+        res.send({ user: user.name, role: user.role });
+    });
+
+    router.post("/auth/logout", (req, res) => {
+        res.clearCookie(_sessionCookie);
+        res.send({ user: null });
+    });
+
+    router.get("/auth/user", (req, res) => {
+        const user = getUser(req);
+        res.send({ user: user ? user.name : null, role: user ? user.role : anonymous });
+    });
+
+    const access = (getFilePath: (req: express.Request) => string) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const header = req.headers.authorization;
+        const user = getUser(req);
+
+        if (header && !user) {
+            return challenge(res, realm);
+        }
+
+        req["user"] = user;
+
+        // the WebDAV server would try to authenticate the credentials against its own user manager
+        delete req.headers.authorization;
+
+        const isWrite = _readMethods.indexOf(req.method) < 0;
+        const paths: string[] = [];
+
+        try {
+            paths.push(getFilePath(req));
+
+            // MOVE and COPY also modify the destination
+            const destination = req.headers["destination"];
+            if (typeof destination === "string") {
+                paths.push(decodeURIComponent(new URL(destination, "http://localhost").pathname));
+            }
+        }
+        catch(e) {
+            return res.status(400).send({ error: "invalid path" });
+        }
+
+        const denied = paths.some(filePath => {
+            const level = _accessLevels.indexOf(getAccess(req, filePath));
+            return isWrite ? level < 2 : level < 1;
+        });
+
+        if (denied) {
+            return user ? res.status(403).send({ error: "access denied" }) : challenge(res, realm);
+        }
+
+        next();
+    };
+
+    return { router, access, getAccess };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function authenticate(config: IAuthConfig, name: string, password: string): IAuthUser
+{
+    const user = name && config.users[name] as IAuthUser;
+    if (!user || !user.password || typeof password !== "string") {
+        return null;
+    }
+
+    return verifyPassword(password, user.password) ? user : null;
+}
+
+function verifyPassword(password: string, hash: string): boolean
+{
+    if (hash.startsWith("{SHA}")) {
+        return safeEqual(hash.slice(5), crypto.createHash("sha1").update(password).digest("base64"));
+    }
+    if (hash.startsWith("{SHA256}")) {
+        return safeEqual(hash.slice(8), crypto.createHash("sha256").update(password).digest("base64"));
+    }
+    if (hash.startsWith("$")) {
+        // bcrypt and apr1 hashes would need additional dependencies
+        return false;
+    }
+
+    return safeEqual(hash, password);
+}
+
+function parseHtpasswd(text: string): { name: string, password: string }[]
+{
+    return text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith("#"))
+        .map(line => {
+            const index = line.indexOf(":");
+            return { name: line.slice(0, index), password: line.slice(index + 1) };
+        });
+}
+
+function normalizeFolder(folder: string)
+{
+    folder = "/" + folder.split("/").filter(part => part).join("/") + "/";
+    return folder === "//" ? "/" : folder;
+}
+
+function getCookie(req: express.Request, name: string): string
+{
+    const header = req.headers.cookie || "";
+    const entry = header.split(";").map(part => part.trim()).find(part => part.startsWith(name + "="));
+    return entry ? decodeURIComponent(entry.slice(name.length + 1)) : null;
+}
+
+function safeEqual(a: string, b: string): boolean
+{
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function challenge(res: express.Response, realm: string)
+{
+    res.set("WWW-Authenticate", `Basic realm="${realm}", charset="UTF-8"`);
+    res.status(401).send({ error: "authentication required" });
+}
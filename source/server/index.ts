@@ -27,6 +27,11 @@ import * as express from "express";
 import * as morgan from "morgan";
 import { v2 as webdav } from "webdav-server";
 
+import createSceneRouter from "./scenes";
+import createRevisionRouter from "./revisions";
+import createAnalyticsRouter from "./analytics";
+import { loadAuthConfig, createAuth } from "./auth";
+
 ////////////////////////////////////////////////////////////////////////////////
 // CONFIGURATION
 
@@ -36,7 +41,11 @@ const devMode: boolean = process.env["NODE_ENV"] !== "production";
 const rootDir = path.resolve(__dirname, "../../..");
 const staticDir = path.resolve(rootDir, "dist/");
 const fileDir = path.resolve(rootDir, "files/");
+const historyDir = path.resolve(rootDir, "history/");
+const analyticsPath = path.resolve(rootDir, "analytics/events.jsonl");
 const docDir = path.resolve(rootDir, "docs/_site/");
+const templatePath = path.resolve(rootDir, "source/client/templates/default.svx.json");
+const authConfig = loadAuthConfig(process.env);
 
 ////////////////////////////////////////////////////////////////////////////////
 // GREETING
@@ -57,7 +66,10 @@ Development Mode:        ${devMode}
 Root Directory:          ${rootDir}
 Static File Directory:   ${staticDir}
 WebDAV File Directory:   ${fileDir}
+Document History:        ${historyDir}
+Analytics Events:        ${analyticsPath}
 Documentation Directory: ${docDir}
+Authentication:          ${authConfig ? `${Object.keys(authConfig.users).length} users` : "disabled"}
 ------------------------------------------------------
 `);
 
@@ -77,6 +89,29 @@ app.use("/", express.static(staticDir));
 // documentation server
 app.use("/doc", express.static(docDir));
 
+// analytics events of the "local" provider, open to all visitors like the viewer itself
+app.use("/", createAnalyticsRouter(analyticsPath));
+
+// authentication and folder access, enforced for the scene API and WebDAV
+const auth = authConfig ? createAuth(authConfig) : null;
+
+if (auth) {
+    app.use(auth.router);
+    app.use(auth.access(req => {
+        // scene API requests refer to the scene folder, revision requests to the document
+        const match = /^\/scenes\/([^/]+)\/?$/.exec(req.path);
+        const filePath = match ? `/${match[1]}/` : req.path.replace(/^\/revisions\//, "/");
+        return decodeURIComponent(filePath);
+    }));
+}
+
+// scene management API
+app.use("/", createSceneRouter(fileDir, templatePath,
+    auth ? (req, name) => auth.getAccess(req, `/${name}/`) !== "none" : null));
+
+// document revision history, stores documents before they are overwritten through WebDAV
+app.use("/", createRevisionRouter(fileDir, historyDir));
+
 // WebDAV file server
 const webDAVServer = new webdav.WebDAVServer();
 webDAVServer.setFileSystem("/", new webdav.PhysicalFileSystem(fileDir), success => {
@@ -0,0 +1,163 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+
+import * as express from "express";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const documentExtension = ".svx.json";
+
+export interface IRevisionInfo
+{
+    /** Revision identifier, derived from the time the revision was saved. */
+    id: string;
+    /** Time the revision was saved, as ISO 8601 string. */
+    date: string;
+    byteSize: number;
+}
+
+/**
+ * Creates a router keeping a history of Voyager documents (*.svx.json) in the file directory.
+ * Must be installed in front of the WebDAV server: before a PUT request overwrites a document,
+ * the existing file is copied to the history directory, using the file's modification time as revision id.
+ *
+ * GET /revisions/:path - lists the revisions of the document at the given path, most recent first
+ * GET /revisions/:path?id=:id - returns the content of the given revision
+ */
+export default function createRevisionRouter(fileDir: string, historyDir: string): express.Router
+{
+    const router = express.Router();
+
+    router.put("/*path", (req, res, next) => {
+        const documentPath = resolveDocumentPath(fileDir, req.path);
+
+        if (documentPath && fs.existsSync(documentPath) && fs.statSync(documentPath).isFile()) {
+            try {
+                storeRevision(fileDir, historyDir, documentPath);
+            }
+            catch(error) {
+                // keeping the history must not prevent saving the document
+                console.warn(`failed to store revision of '${req.path}': ${error.message}`);
+            }
+        }
+
+        next();
+    });
+
+    router.get("/revisions/*path", (req, res) => {
+        const documentName = req.path.slice("/revisions".length);
+        const documentPath = resolveDocumentPath(fileDir, documentName);
+
+        if (!documentPath) {
+            return res.status(400).send({ error: `not a document: '${documentName}'` });
+        }
+
+        const revisionDir = getRevisionDir(fileDir, historyDir, documentPath);
+        const id = req.query.id;
+
+        if (id === undefined) {
+            return res.send({ revisions: listRevisions(revisionDir) });
+        }
+
+        if (typeof id !== "string" || !/^[\w.-]+$/.test(id)) {
+            return res.status(400).send({ error: "invalid revision id" });
+        }
+
+        const revisionPath = path.resolve(revisionDir, id + documentExtension);
+        if (!fs.existsSync(revisionPath)) {
+            return res.status(404).send({ error: `revision not found: '${id}'` });
+        }
+
+        res.type("json").sendFile(revisionPath);
+    });
+
+    return router;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns the absolute path of the document with the given URL path,
+ * or null if the path doesn't point to a document within the file directory.
+ */
+function resolveDocumentPath(fileDir: string, urlPath: string): string
+{
+    let name: string;
+    try {
+        name = decodeURIComponent(urlPath);
+    }
+    catch(e) {
+        return null;
+    }
+
+    if (!name.endsWith(documentExtension) || name.indexOf("\0") !== -1) {
+        return null;
+    }
+
+    const documentPath = path.resolve(fileDir, "." + path.posix.normalize("/" + name));
+    return documentPath.startsWith(fileDir + path.sep) ? documentPath : null;
+}
+
+function getRevisionDir(fileDir: string, historyDir: string, documentPath: string)
+{
+    return path.resolve(historyDir, path.relative(fileDir, documentPath));
+}
+
+function storeRevision(fileDir: string, historyDir: string, documentPath: string)
+{
+    const revisionDir = getRevisionDir(fileDir, historyDir, documentPath);
+    const id = toRevisionId(fs.statSync(documentPath).mtime);
+    const revisionPath = path.resolve(revisionDir, id + documentExtension);
+
+    if (!fs.existsSync(revisionPath)) {
+        fs.mkdirSync(revisionDir, { recursive: true });
+        fs.copyFileSync(documentPath, revisionPath);
+    }
+}
+
+function listRevisions(revisionDir: string): IRevisionInfo[]
+{
+    if (!fs.existsSync(revisionDir)) {
+        return [];
+    }
+
+    return fs.readdirSync(revisionDir)
+        .filter(name => name.endsWith(documentExtension))
+        .map(name => {
+            const id = name.slice(0, -documentExtension.length);
+            return {
+                id,
+                date: fromRevisionId(id),
+                byteSize: fs.statSync(path.resolve(revisionDir, name)).size,
+            };
+        })
+        .sort((a, b) => b.id.localeCompare(a.id));
+}
+
+/** Revision ids are ISO 8601 timestamps with colons replaced, so they can be used as file names. */
+function toRevisionId(date: Date)
+{
+    return date.toISOString().replace(/:/g, "-");
+}
+
+function fromRevisionId(id: string)
+{
+    return id.replace(/T(\d\d)-(\d\d)-/, "T$1:$2:");
+}
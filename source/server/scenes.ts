@@ -0,0 +1,298 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { pipeline } from "stream/promises";
+
+import * as express from "express";
+
+import { getZipSize, writeZip, IZipEntry } from "./zip";
+
+////////////////////////////////////////////////////////////////////////////////
+
+const documentExtension = ".svx.json";
+const mainDocumentName = "scene.svx.json";
+
+export interface ISceneInfo
+{
+    /** Path of the scene folder relative to the file directory. */
+    name: string;
+    /** URL of the scene folder. */
+    url: string;
+    /** Document file names in the scene folder. */
+    documents: string[];
+    title: string;
+    /** URL of the thumbnail image, or null if the scene has none. */
+    thumbnail: string;
+    models: number;
+}
+
+/**
+ * Creates a router providing a JSON API for the scenes in the given file directory.
+ * A scene is a folder containing at least one Voyager document (*.svx.json).
+ *
+ * GET /scenes - lists all scenes
+ * GET /scenes/:name - returns scene information, or the scene folder as zip archive with ?format=zip
+ * POST /scenes/:name - creates a new scene from a glb model sent as request body
+ *
+ * Scene names are folder paths relative to the file directory, nested folders must be URI encoded.
+ * If given, the filter function decides which scenes are listed for a request.
+ */
+export default function createSceneRouter(fileDir: string, templatePath: string,
+    filter?: (req: express.Request, name: string) => boolean): express.Router
+{
+    const router = express.Router();
+
+    router.get("/scenes", (req, res) => {
+        const names = findScenes(fileDir).filter(name => !filter || filter(req, name));
+        res.send({ scenes: names.map(name => getSceneInfo(fileDir, name)) });
+    });
+
+    router.get("/scenes/:name", async (req, res) => {
+        const name = req.params.name;
+        const sceneDir = resolveSceneDir(fileDir, name);
+
+        if (!sceneDir || getDocuments(sceneDir).length === 0) {
+            return res.status(404).send({ error: `scene not found: '${name}'` });
+        }
+
+        if (req.query.format === "zip") {
+            const entries = listFiles(sceneDir).map(filePath => ({
+                name: path.relative(sceneDir, filePath).split(path.sep).join("/"),
+                filePath,
+            }));
+
+            if (getZipSize(entries) < 0) {
+                return res.status(413).send({ error: `scene too large for a zip archive: '${name}'` });
+            }
+
+            res.set("Content-Type", "application/zip");
+            res.attachment(`${path.basename(sceneDir)}.zip`);
+
+            try {
+                await writeZip(res, entries);
+                return res.end();
+            }
+            catch(error) {
+                // the response has started, it can only be aborted
+                console.warn(`failed to send scene '${name}' as zip archive: ${error.message}`);
+                return res.destroy();
+            }
+        }
+
+        if (req.query.format && req.query.format !== "json") {
+            return res.status(400).send({ error: `unsupported format: '${req.query.format}'` });
+        }
+
+        res.send(getSceneInfo(fileDir, name));
+    });
+
+    router.post("/scenes/:name", async (req, res) => {
+        const name = req.params.name;
+        const sceneDir = resolveSceneDir(fileDir, name, false);
+
+        if (!sceneDir) {
+            return res.status(400).send({ error: `invalid scene name: '${name}'` });
+        }
+        if (fs.existsSync(sceneDir)) {
+            return res.status(409).send({ error: `scene already exists: '${name}'` });
+        }
+        if (!req.is("model/gltf-binary") && !req.is("application/octet-stream")) {
+            return res.status(415).send({ error: "expected a glb model with content type 'model/gltf-binary'" });
+        }
+
+        const modelName = path.basename(sceneDir);
+        const modelFileName = `${modelName}.glb`;
+        const modelPath = path.resolve(sceneDir, modelFileName);
+
+        fs.mkdirSync(sceneDir, { recursive: true });
+
+        try {
+            await pipeline(req, fs.createWriteStream(modelPath));
+
+            if (!isBinaryGLTF(modelPath)) {
+                throw new Error("uploaded file is not a binary glTF (glb) model");
+            }
+
+            const document = createDocument(templatePath, modelName, modelFileName, fs.statSync(modelPath).size);
+            fs.writeFileSync(path.resolve(sceneDir, mainDocumentName), JSON.stringify(document, null, 2));
+        }
+        catch(error) {
+            fs.rmSync(sceneDir, { recursive: true, force: true });
+            return res.status(400).send({ error: error.message });
+        }
+
+        res.status(201).send(getSceneInfo(fileDir, path.relative(fileDir, sceneDir).split(path.sep).join("/")));
+    });
+
+    return router;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+/**
+ * Returns the absolute path of the scene folder, or null if the name points outside of the file directory.
+ * If mustExist is true, also returns null if the folder doesn't exist.
+ */
+function resolveSceneDir(fileDir: string, name: string, mustExist: boolean = true): string
+{
+    if (!name || name.indexOf("\0") !== -1) {
+        return null;
+    }
+
+    const sceneDir = path.resolve(fileDir, name);
+    if (!sceneDir.startsWith(fileDir + path.sep)) {
+        return null;
+    }
+
+    if (mustExist && !(fs.existsSync(sceneDir) && fs.statSync(sceneDir).isDirectory())) {
+        return null;
+    }
+
+    return sceneDir;
+}
+
+/**
+ * Recursively finds all folders containing documents, returns their paths relative to the file directory.
+ */
+function findScenes(fileDir: string, dir: string = fileDir, result: string[] = []): string[]
+{
+    const entries = fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => !entry.name.startsWith("."))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (dir !== fileDir && entries.some(entry => entry.isFile() && entry.name.endsWith(documentExtension))) {
+        result.push(path.relative(fileDir, dir).split(path.sep).join("/"));
+    }
+
+    entries.filter(entry => entry.isDirectory())
+        .forEach(entry => findScenes(fileDir, path.resolve(dir, entry.name), result));
+
+    return result;
+}
+
+function getDocuments(sceneDir: string): string[]
+{
+    return fs.readdirSync(sceneDir).filter(name => name.endsWith(documentExtension)).sort();
+}
+
+function listFiles(dir: string, result: string[] = []): string[]
+{
+    fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+        const entryPath = path.resolve(dir, entry.name);
+        if (entry.isDirectory()) {
+            listFiles(entryPath, result);
+        }
+        else if (entry.isFile()) {
+            result.push(entryPath);
+        }
+    });
+
+    return result;
+}
+
+function getSceneInfo(fileDir: string, name: string): ISceneInfo
+{
+    const sceneDir = path.resolve(fileDir, name);
+    const documents = getDocuments(sceneDir);
+    const url = "/" + name.split("/").map(encodeURIComponent).join("/") + "/";
+
+    const info: ISceneInfo = {
+        name,
+        url,
+        documents,
+        title: path.basename(sceneDir),
+        thumbnail: null,
+        models: 0,
+    };
+
+    const documentName = documents.indexOf(mainDocumentName) >= 0 ? mainDocumentName : documents[0];
+    let document: any;
+
+    try {
+        document = JSON.parse(fs.readFileSync(path.resolve(sceneDir, documentName), "utf8"));
+    }
+    catch(error) {
+        console.warn(`failed to read document '${name}/${documentName}': ${error.message}`);
+        return info;
+    }
+
+    info.models = Array.isArray(document.models) ? document.models.length : 0;
+
+    const scene = document.scenes && document.scenes[document.scene || 0];
+    const meta = scene && document.metas && document.metas[scene.meta];
+
+    if (meta) {
+        const collection = meta.collection || {};
+        const titles = collection.titles || {};
+        info.title = titles["EN"] || Object.keys(titles).map(key => titles[key])[0] || collection.title || info.title;
+
+        const thumbnail = (meta.images || []).find(image => image.quality === "Thumb");
+        if (thumbnail) {
+            info.thumbnail = url + thumbnail.uri;
+        }
+    }
+
+    return info;
+}
+
+function isBinaryGLTF(filePath: string): boolean
+{
+    const buffer = Buffer.alloc(4);
+    const file = fs.openSync(filePath, "r");
+
+    try {
+        return fs.readSync(file, buffer, 0, 4, 0) === 4 && buffer.toString("ascii") === "glTF";
+    }
+    finally {
+        fs.closeSync(file);
+    }
+}
+
+/**
+ * Creates a new document from the default template, with a single model node referencing the given glb file.
+ */
+function createDocument(templatePath: string, name: string, modelUri: string, byteSize: number)
+{
+    const document = JSON.parse(fs.readFileSync(templatePath, "utf8"));
+    const scene = document.scenes[document.scene || 0];
+
+    document.nodes = document.nodes || [];
+    scene.nodes.push(document.nodes.length);
+    document.nodes.push({ name, model: 0 });
+
+    document.models = [{
+        units: "m",
+        derivatives: [{
+            usage: "Web3D",
+            quality: "High",
+            assets: [{
+                uri: encodeURIComponent(modelUri),
+                type: "Model",
+                byteSize,
+            }],
+        }],
+    }];
+
+    scene.meta = 0;
+    document.metas = [{
+        collection: { titles: { EN: name } },
+    }];
+
+    return document;
+}
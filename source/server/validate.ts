@@ -0,0 +1,350 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+
+import Ajv from "ajv";
+
+////////////////////////////////////////////////////////////////////////////////
+// CONFIGURATION
+
+const rootDir = path.resolve(__dirname, "../../..");
+const schemaDir = path.resolve(rootDir, "source/client/schema/json");
+
+const documentSchemaId = "https://schemas.3d.si.edu/voyager/document.schema.json";
+const documentExtension = ".svx.json";
+
+// must match CVDocument.version
+const currentVersion = "1.0";
+// DEFAULT_LANGUAGE in client/schema/common, written in upper case like toDocumentLanguage in client/utils/languages
+const defaultLanguage = "EN";
+
+const usage = `
+Validates Voyager documents (*${documentExtension}) against the document JSON schemas.
+
+Usage: node services/server/bin/validate.js [options] <file or directory>...
+
+Options:
+  --no-assets   Skip checking that referenced asset files exist
+  --migrate     Rewrite documents with an asset version older than ${currentVersion}
+  --dry-run     Report documents that would be migrated without writing them
+  --quiet       Only report documents with errors
+  --help        Show this message
+`;
+
+////////////////////////////////////////////////////////////////////////////////
+
+interface IOptions
+{
+    paths: string[];
+    checkAssets: boolean;
+    migrate: boolean;
+    dryRun: boolean;
+    quiet: boolean;
+}
+
+interface IProblem
+{
+    /** JSON pointer to the offending value within the document. */
+    pointer: string;
+    message: string;
+}
+
+interface IAssetReference
+{
+    pointer: string;
+    uri: string;
+}
+
+function parseArguments(args: string[]): IOptions
+{
+    const options: IOptions = {
+        paths: [],
+        checkAssets: true,
+        migrate: false,
+        dryRun: false,
+        quiet: false,
+    };
+
+    args.forEach(arg => {
+        switch(arg) {
+            case "--no-assets": options.checkAssets = false; break;
+            case "--migrate": options.migrate = true; break;
+            case "--dry-run": options.dryRun = true; break;
+            case "--quiet": options.quiet = true; break;
+            case "--help":
+            case "-h":
+                console.log(usage);
+                process.exit(0);
+            default:
+                if (arg.startsWith("-")) {
+                    throw new Error(`unknown option '${arg}'`);
+                }
+                options.paths.push(arg);
+        }
+    });
+
+    if (options.paths.length === 0) {
+        throw new Error("no file or directory given");
+    }
+
+    return options;
+}
+
+function createValidator()
+{
+    const schemas = fs.readdirSync(schemaDir)
+        .filter(name => name.endsWith(".schema.json"))
+        .map(name => JSON.parse(fs.readFileSync(path.resolve(schemaDir, name), "utf8")));
+
+    const ajv = new Ajv({ schemas, allErrors: true });
+
+    const validate = ajv.getSchema(documentSchemaId);
+    if (!validate) {
+        throw new Error(`failed to get document schema validator`);
+    }
+
+    return validate;
+}
+
+/**
+ * Recursively collects all document files in the given file or directory.
+ */
+function findDocuments(filePath: string, result: string[] = []): string[]
+{
+    const stats = fs.statSync(filePath);
+
+    if (stats.isDirectory()) {
+        fs.readdirSync(filePath).sort().forEach(name => {
+            if (!name.startsWith(".")) {
+                findDocuments(path.join(filePath, name), result);
+            }
+        });
+    }
+    else if (filePath.endsWith(documentExtension)) {
+        result.push(filePath);
+    }
+
+    return result;
+}
+
+function escapePointer(key: string | number)
+{
+    return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Returns all asset URIs referenced by the document, together with their JSON pointers.
+ */
+function getAssetReferences(document: any): IAssetReference[]
+{
+    const references: IAssetReference[] = [];
+
+    const add = (pointer: string, uri: any) => {
+        if (typeof uri === "string" && uri) {
+            references.push({ pointer, uri });
+        }
+    };
+    const addDictionary = (pointer: string, uris: any) => {
+        if (uris && typeof uris === "object") {
+            Object.keys(uris).forEach(key => add(`${pointer}/${escapePointer(key)}`, uris[key]));
+        }
+    };
+    const addMeta = (pointer: string, meta: any) => {
+        (meta.images || []).forEach((image, index) => add(`${pointer}/images/${index}/uri`, image.uri));
+        (meta.articles || []).forEach((article, index) => {
+            add(`${pointer}/articles/${index}/uri`, article.uri);
+            addDictionary(`${pointer}/articles/${index}/uris`, article.uris);
+            add(`${pointer}/articles/${index}/thumbnailUri`, article.thumbnailUri);
+        });
+        (meta.audio || []).forEach((clip, index) => {
+            addDictionary(`${pointer}/audio/${index}/uris`, clip.uris);
+            addDictionary(`${pointer}/audio/${index}/captionUris`, clip.captionUris);
+        });
+    };
+
+    (document.models || []).forEach((model, modelIndex) => {
+        const modelPointer = `/models/${modelIndex}`;
+        (model.derivatives || []).forEach((derivative, derivativeIndex) => {
+            (derivative.assets || []).forEach((asset, assetIndex) => {
+                add(`${modelPointer}/derivatives/${derivativeIndex}/assets/${assetIndex}/uri`, asset.uri);
+            });
+        });
+        (model.annotations || []).forEach((annotation, annotationIndex) => {
+            add(`${modelPointer}/annotations/${annotationIndex}/imageUri`, annotation.imageUri);
+        });
+    });
+
+    (document.metas || []).forEach((meta, index) => addMeta(`/metas/${index}`, meta));
+
+    return references;
+}
+
+/**
+ * Checks that the referenced asset files exist. Relative URIs are resolved against the document's folder,
+ * external URLs are not checked.
+ */
+function checkAssets(document: any, documentPath: string): IProblem[]
+{
+    const baseDir = path.dirname(documentPath);
+
+    return getAssetReferences(document)
+        .filter(reference => !/^[a-z][a-z0-9+.-]*:/i.test(reference.uri))
+        .filter(reference => {
+            let uri = reference.uri.split(/[?#]/)[0];
+            try {
+                uri = decodeURIComponent(uri);
+            }
+            catch(e) {
+                // keep the URI as is if it isn't properly encoded
+            }
+
+            return !fs.existsSync(path.resolve(baseDir, uri));
+        })
+        .map(reference => ({ pointer: reference.pointer, message: `asset not found: '${reference.uri}'` }));
+}
+
+/**
+ * Moves legacy single-language strings into the corresponding language dictionary,
+ * as done by the Voyager client when loading the document.
+ */
+function migrateLanguageString(target: any, key: string, dictionaryKey: string)
+{
+    if (!target || typeof target[key] !== "string") {
+        return;
+    }
+
+    const dictionary = target[dictionaryKey] = target[dictionaryKey] || {};
+    // language keys may be upper case, e.g. "EN", or BCP-47 tags, e.g. "en"
+    const hasDefault = Object.keys(dictionary).some(language => language.toLowerCase() === defaultLanguage.toLowerCase());
+    if (!hasDefault && target[key]) {
+        dictionary[defaultLanguage] = target[key];
+    }
+
+    delete target[key];
+}
+
+/**
+ * Upgrades a document with an older asset version to the current version.
+ * Returns true if the document has been changed.
+ */
+function migrateDocument(document: any): boolean
+{
+    const asset = document.asset;
+    if (!asset || !(parseFloat(asset.version) < parseFloat(currentVersion))) {
+        return false;
+    }
+
+    (document.models || []).forEach(model => {
+        (model.annotations || []).forEach(annotation => {
+            migrateLanguageString(annotation, "title", "titles");
+            migrateLanguageString(annotation, "lead", "leads");
+        });
+    });
+
+    (document.metas || []).forEach(meta => {
+        (meta.articles || []).forEach(article => {
+            migrateLanguageString(article, "title", "titles");
+            migrateLanguageString(article, "lead", "leads");
+            migrateLanguageString(article, "uri", "uris");
+        });
+    });
+
+    (document.setups || []).forEach(setup => {
+        (setup.tours || []).forEach(tour => {
+            migrateLanguageString(tour, "title", "titles");
+            migrateLanguageString(tour, "lead", "leads");
+            (tour.steps || []).forEach(step => migrateLanguageString(step, "title", "titles"));
+        });
+    });
+
+    asset.version = currentVersion;
+    return true;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+
+function run(options: IOptions): number
+{
+    const validate = createValidator();
+
+    const documentPaths: string[] = [];
+    options.paths.forEach(filePath => findDocuments(path.resolve(filePath), documentPaths));
+
+    let failedCount = 0;
+    let migratedCount = 0;
+
+    documentPaths.forEach(documentPath => {
+        const displayPath = path.relative(process.cwd(), documentPath);
+        const problems: IProblem[] = [];
+        let document: any;
+
+        try {
+            document = JSON.parse(fs.readFileSync(documentPath, "utf8"));
+        }
+        catch(error) {
+            failedCount++;
+            console.log(`${displayPath}\n    failed to parse: ${error.message}`);
+            return;
+        }
+
+        if (options.migrate && migrateDocument(document)) {
+            migratedCount++;
+            if (!options.dryRun) {
+                fs.writeFileSync(documentPath, JSON.stringify(document, null, 2));
+            }
+            if (!options.quiet) {
+                console.log(`${displayPath}\n    ${options.dryRun ? "would migrate" : "migrated"} to version ${currentVersion}`);
+            }
+        }
+
+        if (!validate(document)) {
+            validate.errors.forEach(error => problems.push({
+                pointer: error.instancePath || "/",
+                message: error.message + (error.params ? ` ${JSON.stringify(error.params)}` : ""),
+            }));
+        }
+
+        if (options.checkAssets) {
+            problems.push(...checkAssets(document, documentPath));
+        }
+
+        if (problems.length > 0) {
+            failedCount++;
+            console.log(displayPath);
+            problems.forEach(problem => console.log(`    ${problem.pointer}: ${problem.message}`));
+        }
+        else if (!options.quiet) {
+            console.log(`${displayPath}\n    ok`);
+        }
+    });
+
+    console.log(`\n${documentPaths.length} documents checked, ${failedCount} with errors` +
+        (options.migrate ? `, ${migratedCount} ${options.dryRun ? "to migrate" : "migrated"}` : ""));
+
+    return failedCount > 0 ? 1 : 0;
+}
+
+try {
+    process.exitCode = run(parseArguments(process.argv.slice(2)));
+}
+catch(error) {
+    console.error(`error: ${error.message}`);
+    console.log(usage);
+    process.exitCode = 2;
+}
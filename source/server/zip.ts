@@ -0,0 +1,211 @@
+/**
+ * 3D Foundation Project
+ * Copyright 2025 Smithsonian Institution
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import { Writable } from "stream";
+
+////////////////////////////////////////////////////////////////////////////////
+
+export interface IZipEntry
+{
+    /** Path of the entry within the archive, using forward slashes. */
+    name: string;
+    /** Path of the file on disk. */
+    filePath: string;
+}
+
+interface ICentralEntry
+{
+    name: Buffer;
+    crc: number;
+    size: number;
+    time: number;
+    date: number;
+    offset: number;
+}
+
+const _crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; ++n) {
+        let c = n;
+        for (let k = 0; k < 8; ++k) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// maximum size of entries and archive, and maximum number of entries without ZIP64 extensions
+const _maxSize = 0xffffffff;
+const _maxEntries = 0xffff;
+
+/**
+ * Returns the size in bytes of the zip archive of the given files, or -1 if the archive exceeds the limits
+ * of zip files without ZIP64 extensions: 4 GB and 65535 entries.
+ */
+export function getZipSize(entries: IZipEntry[]): number
+{
+    if (entries.length > _maxEntries) {
+        return -1;
+    }
+
+    let size = 22;  // end of central directory record
+
+    for (const entry of entries) {
+        const nameLength = Buffer.byteLength(entry.name, "utf8");
+        // local file header, file data and central file header
+        size += 30 + nameLength + fs.statSync(entry.filePath).size + 46 + nameLength;
+    }
+
+    return size > _maxSize ? -1 : size;
+}
+
+/**
+ * Writes the given files as an uncompressed zip archive to the output stream.
+ * Files are streamed from disk, each file is read twice: once to compute its checksum, once to copy it.
+ * Assets such as glb models and jpg textures are already compressed, therefore entries are stored, not deflated.
+ * Check the archive with [[getZipSize]] first, the promise is rejected if the archive exceeds the limits
+ * or the output stream is closed, e.g. if a client cancels a download.
+ */
+export async function writeZip(output: Writable, entries: IZipEntry[])
+{
+    if (getZipSize(entries) < 0) {
+        throw new Error("archive too large");
+    }
+
+    const centralEntries: ICentralEntry[] = [];
+    let offset = 0;
+
+    const write = async (buffer: Buffer) => {
+        if (output.destroyed) {
+            throw new Error("output stream closed");
+        }
+        offset += buffer.length;
+        if (!output.write(buffer)) {
+            await waitForDrain(output);
+        }
+    };
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf8");
+        const stats = fs.statSync(entry.filePath);
+        // files may have grown since the archive size has been checked
+        if (offset + 30 + name.length + stats.size > _maxSize) {
+            throw new Error(`archive too large, can't add '${entry.name}'`);
+        }
+
+        const { time, date } = toDosTime(stats.mtime);
+        const crc = await computeCrc(entry.filePath);
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);    // local file header signature
+        header.writeUInt16LE(20, 4);            // version needed to extract
+        header.writeUInt16LE(0x0800, 6);        // flags: UTF-8 file name
+        header.writeUInt16LE(0, 8);             // compression method: stored
+        header.writeUInt16LE(time, 10);
+        header.writeUInt16LE(date, 12);
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(stats.size, 18);   // compressed size
+        header.writeUInt32LE(stats.size, 22);   // uncompressed size
+        header.writeUInt16LE(name.length, 26);
+        header.writeUInt16LE(0, 28);            // extra field length
+
+        centralEntries.push({ name, crc, size: stats.size, time, date, offset });
+
+        await write(header);
+        await write(name);
+
+        for await (const chunk of fs.createReadStream(entry.filePath)) {
+            await write(chunk as Buffer);
+        }
+    }
+
+    const directoryOffset = offset;
+
+    for (const entry of centralEntries) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(0x02014b50, 0);    // central file header signature
+        header.writeUInt16LE(20, 4);            // version made by
+        header.writeUInt16LE(20, 6);            // version needed to extract
+        header.writeUInt16LE(0x0800, 8);        // flags: UTF-8 file name
+        header.writeUInt16LE(0, 10);            // compression method: stored
+        header.writeUInt16LE(entry.time, 12);
+        header.writeUInt16LE(entry.date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.size, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        // extra field length, comment length, disk number, internal and external attributes are zero
+        header.writeUInt32LE(entry.offset, 42);
+
+        await write(header);
+        await write(entry.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);           // end of central directory signature
+    end.writeUInt16LE(centralEntries.length, 8);
+    end.writeUInt16LE(centralEntries.length, 10);
+    end.writeUInt32LE(offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    await write(end);
+}
+
+/**
+ * Resolves when the output stream can take more data, rejects if it is closed before.
+ */
+function waitForDrain(output: Writable): Promise<void>
+{
+    return new Promise((resolve, reject) => {
+        const done = (error?: Error) => {
+            output.off("drain", onDrain);
+            output.off("close", onClose);
+            output.off("error", done);
+            error ? reject(error) : resolve();
+        };
+        const onDrain = () => done();
+        const onClose = () => done(new Error("output stream closed"));
+
+        output.on("drain", onDrain);
+        output.on("close", onClose);
+        output.on("error", done);
+    });
+}
+
+async function computeCrc(filePath: string): Promise<number>
+{
+    let crc = 0xffffffff;
+
+    for await (const chunk of fs.createReadStream(filePath)) {
+        const buffer = chunk as Buffer;
+        for (let i = 0, n = buffer.length; i < n; ++i) {
+            crc = _crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+        }
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosTime(date: Date)
+{
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}